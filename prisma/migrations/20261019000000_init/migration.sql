@@ -0,0 +1,482 @@
+-- CreateEnum
+CREATE TYPE "ContentType" AS ENUM ('text', 'image', 'video');
+
+-- CreateEnum
+CREATE TYPE "MembershipRank" AS ENUM ('Bronze', 'Gold', 'Diamond');
+
+-- CreateEnum
+CREATE TYPE "OrderStatus" AS ENUM ('pending', 'processing', 'shipped', 'completed', 'failed', 'canceled', 'refunded');
+
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('requested', 'approved', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "DisputeStatus" AS ENUM ('open', 'won', 'lost');
+
+-- CreateEnum
+CREATE TYPE "PayoutStatus" AS ENUM ('pending', 'transferred', 'failed', 'held', 'canceled', 'reversed');
+
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('asset', 'liability', 'revenue');
+
+-- CreateEnum
+CREATE TYPE "JournalEntryKind" AS ENUM ('charge', 'payout', 'reversal', 'refund');
+
+-- CreateEnum
+CREATE TYPE "EngagementType" AS ENUM ('Like', 'Comment', 'Share');
+
+-- CreateEnum
+CREATE TYPE "WebhookEventStatus" AS ENUM ('processing', 'processed', 'failed');
+
+-- CreateTable
+CREATE TABLE "Role" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "Role_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "User" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "passwordHash" TEXT,
+    "displayName" TEXT NOT NULL,
+    "bio" TEXT,
+    "avatarUrl" TEXT,
+    "coverUrl" TEXT,
+    "location" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "stripeAccountId" TEXT,
+    "stripeDetailsSubmitted" BOOLEAN NOT NULL DEFAULT false,
+    "stripeChargesEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "stripePayoutsEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "roleId" TEXT NOT NULL,
+
+    CONSTRAINT "User_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProfileMetrics" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "hustleScore" DOUBLE PRECISION NOT NULL,
+    "buzzScore" DOUBLE PRECISION NOT NULL,
+    "cloutScore" DOUBLE PRECISION NOT NULL,
+    "connectionScore" DOUBLE PRECISION NOT NULL,
+    "membershipRank" "MembershipRank" NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProfileMetrics_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Follow" (
+    "id" TEXT NOT NULL,
+    "followerId" TEXT NOT NULL,
+    "followingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Follow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Post" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contentType" "ContentType" NOT NULL,
+    "textBody" TEXT,
+    "mediaUrl" TEXT,
+    "thumbnailUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Post_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserBadge" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "earnedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserBadge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MarketplaceProduct" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "mediaUrl" TEXT,
+    "priceCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "category" TEXT,
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MarketplaceProduct_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Order" (
+    "id" TEXT NOT NULL,
+    "buyerId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "OrderStatus" NOT NULL,
+    "shippingAddress" TEXT,
+    "paymentIntentId" TEXT,
+    "reservedUntil" TIMESTAMP(3),
+    "refundStatus" "RefundStatus",
+    "refundReason" TEXT,
+    "refundRequestedAt" TIMESTAMP(3),
+    "stripeRefundId" TEXT,
+    "disputeStatus" "DisputeStatus",
+    "stripeDisputeId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Order_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SellerPayout" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "grossCents" INTEGER NOT NULL,
+    "feeCents" INTEGER NOT NULL,
+    "netCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PayoutStatus" NOT NULL DEFAULT 'pending',
+    "stripeChargeId" TEXT,
+    "stripeTransferId" TEXT,
+    "stripeReversalId" TEXT,
+    "error" TEXT,
+    "transferredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SellerPayout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Engagement" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "contentId" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "type" "EngagementType" NOT NULL,
+    "comment" TEXT,
+    "parentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Engagement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RankingCategory" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RankingCategory_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserRanking" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserRanking_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Conversation" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "isGroup" BOOLEAN NOT NULL DEFAULT false,
+    "directKey" TEXT,
+    "createdById" TEXT,
+    "lastMessageAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Conversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConversationParticipant" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastReadAt" TIMESTAMP(3),
+
+    CONSTRAINT "ConversationParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Message" (
+    "id" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "textBody" TEXT,
+    "mediaUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Message_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" "WebhookEventStatus" NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "payload" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "currency" TEXT NOT NULL,
+    "userId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "JournalEntry" (
+    "id" TEXT NOT NULL,
+    "kind" "JournalEntryKind" NOT NULL,
+    "reference" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "orderId" TEXT,
+    "payoutId" TEXT,
+    "stripeObjectId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "JournalEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerLine" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+
+    CONSTRAINT "LedgerLine_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_email_key" ON "User"("email");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_stripeAccountId_key" ON "User"("stripeAccountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProfileMetrics_userId_key" ON "ProfileMetrics"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Follow_followerId_followingId_key" ON "Follow"("followerId", "followingId");
+
+-- CreateIndex
+CREATE INDEX "Follow_followingId_idx" ON "Follow"("followingId");
+
+-- CreateIndex
+CREATE INDEX "Post_userId_createdAt_idx" ON "Post"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceProduct_sellerId_idx" ON "MarketplaceProduct"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "MarketplaceProduct_category_idx" ON "MarketplaceProduct"("category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_paymentIntentId_key" ON "Order"("paymentIntentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_stripeRefundId_key" ON "Order"("stripeRefundId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_stripeDisputeId_key" ON "Order"("stripeDisputeId");
+
+-- CreateIndex
+CREATE INDEX "Order_buyerId_idx" ON "Order"("buyerId");
+
+-- CreateIndex
+CREATE INDEX "Order_productId_idx" ON "Order"("productId");
+
+-- CreateIndex
+CREATE INDEX "Order_status_reservedUntil_idx" ON "Order"("status", "reservedUntil");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerPayout_orderId_key" ON "SellerPayout"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SellerPayout_stripeTransferId_key" ON "SellerPayout"("stripeTransferId");
+
+-- CreateIndex
+CREATE INDEX "SellerPayout_sellerId_createdAt_idx" ON "SellerPayout"("sellerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "SellerPayout_status_idx" ON "SellerPayout"("status");
+
+-- CreateIndex
+CREATE INDEX "Engagement_contentId_type_createdAt_idx" ON "Engagement"("contentId", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Engagement_userId_contentId_type_idx" ON "Engagement"("userId", "contentId", "type");
+
+-- CreateIndex
+CREATE INDEX "Engagement_parentId_idx" ON "Engagement"("parentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RankingCategory_name_key" ON "RankingCategory"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRanking_userId_categoryId_key" ON "UserRanking"("userId", "categoryId");
+
+-- CreateIndex
+CREATE INDEX "UserRanking_categoryId_score_idx" ON "UserRanking"("categoryId", "score");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Conversation_directKey_key" ON "Conversation"("directKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationParticipant_conversationId_userId_key" ON "ConversationParticipant"("conversationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "ConversationParticipant_userId_idx" ON "ConversationParticipant"("userId");
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_createdAt_idx" ON "Message"("conversationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_status_createdAt_idx" ON "WebhookEvent"("status", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE INDEX "LedgerAccount_userId_idx" ON "LedgerAccount"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "JournalEntry_reference_key" ON "JournalEntry"("reference");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_orderId_idx" ON "JournalEntry"("orderId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_payoutId_idx" ON "JournalEntry"("payoutId");
+
+-- CreateIndex
+CREATE INDEX "JournalEntry_createdAt_idx" ON "JournalEntry"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerLine_accountId_idx" ON "LedgerLine"("accountId");
+
+-- CreateIndex
+CREATE INDEX "LedgerLine_entryId_idx" ON "LedgerLine"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_roleId_fkey" FOREIGN KEY ("roleId") REFERENCES "Role"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProfileMetrics" ADD CONSTRAINT "ProfileMetrics_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Follow" ADD CONSTRAINT "Follow_followerId_fkey" FOREIGN KEY ("followerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Follow" ADD CONSTRAINT "Follow_followingId_fkey" FOREIGN KEY ("followingId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Post" ADD CONSTRAINT "Post_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserBadge" ADD CONSTRAINT "UserBadge_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MarketplaceProduct" ADD CONSTRAINT "MarketplaceProduct_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_buyerId_fkey" FOREIGN KEY ("buyerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_productId_fkey" FOREIGN KEY ("productId") REFERENCES "MarketplaceProduct"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SellerPayout" ADD CONSTRAINT "SellerPayout_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SellerPayout" ADD CONSTRAINT "SellerPayout_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Engagement" ADD CONSTRAINT "Engagement_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Engagement" ADD CONSTRAINT "Engagement_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Engagement"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRanking" ADD CONSTRAINT "UserRanking_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRanking" ADD CONSTRAINT "UserRanking_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "RankingCategory"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerLine" ADD CONSTRAINT "LedgerLine_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "JournalEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerLine" ADD CONSTRAINT "LedgerLine_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the ranking categories RankingService adjusts by ID
+INSERT INTO "RankingCategory" ("id", "name", "description") VALUES
+    ('sales', 'sales', 'Value of orders sold as a seller'),
+    ('reputation', 'reputation', 'Seller reliability across completed and failed orders'),
+    ('content', 'content', 'Likes, comments and shares on posted content');
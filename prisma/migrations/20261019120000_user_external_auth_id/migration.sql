@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "externalAuthId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_externalAuthId_key" ON "User"("externalAuthId");
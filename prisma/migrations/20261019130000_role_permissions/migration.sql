@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "Permission" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_PermissionToRole" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_name_key" ON "Permission"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Role_name_key" ON "Role"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_PermissionToRole_AB_unique" ON "_PermissionToRole"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_PermissionToRole_B_index" ON "_PermissionToRole"("B");
+
+-- AddForeignKey
+ALTER TABLE "_PermissionToRole" ADD CONSTRAINT "_PermissionToRole_A_fkey" FOREIGN KEY ("A") REFERENCES "Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PermissionToRole" ADD CONSTRAINT "_PermissionToRole_B_fkey" FOREIGN KEY ("B") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the permissions in src/config/permissions.ts
+INSERT INTO "Permission" ("id", "name", "description") VALUES
+    ('user:manage', 'user:manage', 'List, create and delete any user'),
+    ('role:manage', 'role:manage', 'Create, edit and delete roles, and assign them to users'),
+    ('product:create', 'product:create', 'List products for sale'),
+    ('product:manage', 'product:manage', 'Edit, delete and view the inactive products of any seller'),
+    ('order:read', 'order:read', 'View any order, every order, and any user''s order statistics'),
+    ('order:manage', 'order:manage', 'Update or cancel any order'),
+    ('order:refund', 'order:refund', 'Decide refunds on any order, with or without a request'),
+    ('post:moderate', 'post:moderate', 'Delete any post'),
+    ('comment:moderate', 'comment:moderate', 'Delete any comment'),
+    ('message:moderate', 'message:moderate', 'Delete any message'),
+    ('ranking:write', 'ranking:write', 'Create ranking categories and set user rankings'),
+    ('ledger:read', 'ledger:read', 'View any user''s balance and the reconciliation report'),
+    ('payment:transfer', 'payment:transfer', 'Create transfers to connected accounts'),
+    ('payout:manage', 'payout:manage', 'List, summarize and retry seller payouts'),
+    ('webhook:manage', 'webhook:manage', 'List and replay Stripe webhook events');
+
+-- Seed the default roles, keeping any created before this migration
+INSERT INTO "Role" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'Admin', 'Full access to the platform'),
+    (gen_random_uuid()::text, 'User', 'Default role for all authenticated users'),
+    (gen_random_uuid()::text, 'Seller', 'Users who can sell products in the marketplace')
+ON CONFLICT ("name") DO NOTHING;
+
+-- Admins keep every power they had; sellers can list products
+INSERT INTO "_PermissionToRole" ("A", "B")
+SELECT "Permission"."id", "Role"."id" FROM "Permission", "Role" WHERE "Role"."name" = 'Admin';
+
+INSERT INTO "_PermissionToRole" ("A", "B")
+SELECT "Permission"."id", "Role"."id" FROM "Permission", "Role"
+WHERE "Role"."name" = 'Seller' AND "Permission"."name" = 'product:create';
@@ -0,0 +1,146 @@
+-- CreateEnum
+CREATE TYPE "ReportTargetType" AS ENUM ('post', 'comment', 'product', 'message', 'user');
+
+-- CreateEnum
+CREATE TYPE "ReportReason" AS ENUM ('spam', 'harassment', 'hate_speech', 'violence', 'sexual_content', 'scam', 'counterfeit', 'other');
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('open', 'escalated', 'resolved', 'dismissed');
+
+-- CreateEnum
+CREATE TYPE "AppealStatus" AS ENUM ('pending', 'upheld', 'reversed');
+
+-- CreateEnum
+CREATE TYPE "ModerationAction" AS ENUM ('report_claimed', 'report_escalated', 'report_resolved', 'report_dismissed', 'content_taken_down', 'content_restored', 'appeal_filed', 'appeal_upheld', 'appeal_reversed');
+
+-- AlterTable
+ALTER TABLE "Post" ADD COLUMN     "hiddenAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "MarketplaceProduct" ADD COLUMN     "hiddenAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Engagement" ADD COLUMN     "hiddenAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "Report" (
+    "id" TEXT NOT NULL,
+    "targetType" "ReportTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reason" "ReportReason" NOT NULL,
+    "details" TEXT,
+    "reporterId" TEXT NOT NULL,
+    "status" "ReportStatus" NOT NULL DEFAULT 'open',
+    "assigneeId" TEXT,
+    "resolutionNote" TEXT,
+    "takedownId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Report_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Takedown" (
+    "id" TEXT NOT NULL,
+    "targetType" "ReportTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "authorId" TEXT NOT NULL,
+    "moderatorId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "appealStatus" "AppealStatus",
+    "appealText" TEXT,
+    "appealedAt" TIMESTAMP(3),
+    "appealDecidedById" TEXT,
+    "appealDecidedAt" TIMESTAMP(3),
+    "restoredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Takedown_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ModerationLog" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "action" "ModerationAction" NOT NULL,
+    "targetType" "ReportTargetType" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "reportId" TEXT,
+    "takedownId" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModerationLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Report_status_createdAt_idx" ON "Report"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Report_targetType_targetId_idx" ON "Report"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "Report_reporterId_idx" ON "Report"("reporterId");
+
+-- CreateIndex
+CREATE INDEX "Report_assigneeId_idx" ON "Report"("assigneeId");
+
+-- CreateIndex
+CREATE INDEX "Takedown_authorId_createdAt_idx" ON "Takedown"("authorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Takedown_targetType_targetId_idx" ON "Takedown"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "Takedown_appealStatus_idx" ON "Takedown"("appealStatus");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_createdAt_idx" ON "ModerationLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_targetType_targetId_idx" ON "ModerationLog"("targetType", "targetId");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_actorId_createdAt_idx" ON "ModerationLog"("actorId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Report" ADD CONSTRAINT "Report_takedownId_fkey" FOREIGN KEY ("takedownId") REFERENCES "Takedown"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Takedown" ADD CONSTRAINT "Takedown_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Takedown" ADD CONSTRAINT "Takedown_moderatorId_fkey" FOREIGN KEY ("moderatorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModerationLog" ADD CONSTRAINT "ModerationLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the moderation permissions in src/config/permissions.ts
+INSERT INTO "Permission" ("id", "name", "description") VALUES
+    ('moderation:review', 'moderation:review', 'Work the moderation queue: claim, escalate, resolve and dismiss open reports, and take content down'),
+    ('moderation:escalated', 'moderation:escalated', 'Work escalated reports and decide takedown appeals'),
+    ('moderation:audit', 'moderation:audit', 'Read the moderation audit trail');
+
+-- Admins get the new permissions too
+INSERT INTO "_PermissionToRole" ("A", "B")
+SELECT "Permission"."id", "Role"."id" FROM "Permission", "Role"
+WHERE "Role"."name" = 'Admin' AND "Permission"."name" IN ('moderation:review', 'moderation:escalated', 'moderation:audit');
+
+-- Moderators work the queue and remove content directly
+INSERT INTO "Role" ("id", "name", "description") VALUES
+    (gen_random_uuid()::text, 'Moderator', 'Users who review reports and moderate content')
+ON CONFLICT ("name") DO NOTHING;
+
+INSERT INTO "_PermissionToRole" ("A", "B")
+SELECT "Permission"."id", "Role"."id" FROM "Permission", "Role"
+WHERE "Role"."name" = 'Moderator' AND "Permission"."name" IN ('moderation:review', 'post:moderate', 'comment:moderate', 'message:moderate')
+ON CONFLICT DO NOTHING;
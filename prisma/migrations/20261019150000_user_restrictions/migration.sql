@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "RestrictionType" AS ENUM ('block', 'mute');
+
+-- CreateTable
+CREATE TABLE "UserRestriction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "type" "RestrictionType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRestriction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRestriction_userId_targetId_type_key" ON "UserRestriction"("userId", "targetId", "type");
+
+-- CreateIndex
+CREATE INDEX "UserRestriction_targetId_type_idx" ON "UserRestriction"("targetId", "type");
+
+-- AddForeignKey
+ALTER TABLE "UserRestriction" ADD CONSTRAINT "UserRestriction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRestriction" ADD CONSTRAINT "UserRestriction_targetId_fkey" FOREIGN KEY ("targetId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+-- AlterEnum
+ALTER TYPE "ModerationAction" ADD VALUE 'content_released';
+
+-- CreateEnum
+CREATE TYPE "ContentFilterContext" AS ENUM ('post', 'comment', 'message', 'product');
+
+-- CreateEnum
+CREATE TYPE "ContentFilterRuleType" AS ENUM ('keyword', 'regex', 'domain', 'link_count', 'spam', 'velocity');
+
+-- CreateEnum
+CREATE TYPE "ContentFilterAction" AS ENUM ('hold', 'reject');
+
+-- AlterTable
+ALTER TABLE "Report" ALTER COLUMN "reporterId" DROP NOT NULL,
+ADD COLUMN     "held" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "ContentFilterRule" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "ContentFilterRuleType" NOT NULL,
+    "pattern" TEXT,
+    "threshold" INTEGER,
+    "windowSeconds" INTEGER,
+    "action" "ContentFilterAction" NOT NULL,
+    "reason" "ReportReason" NOT NULL DEFAULT 'other',
+    "contexts" "ContentFilterContext"[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContentFilterRule_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the content filter permission in src/config/permissions.ts
+INSERT INTO "Permission" ("id", "name", "description") VALUES
+    ('content-filter:manage', 'content-filter:manage', 'Create, edit and delete content filter rules, and test text against them');
+
+INSERT INTO "_PermissionToRole" ("A", "B")
+SELECT "Permission"."id", "Role"."id" FROM "Permission", "Role"
+WHERE "Role"."name" = 'Admin' AND "Permission"."name" = 'content-filter:manage';
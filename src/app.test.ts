@@ -0,0 +1,85 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { createApp, createContainer, authHeader, createTestUser, resetDatabase, FakeStripe } from './testing';
+
+const prisma = new PrismaClient();
+const stripe = new FakeStripe();
+const app = createApp(createContainer({ prisma, stripe: stripe }));
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  stripe.reset();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('app', () => {
+  it('answers the health check without a session', async () => {
+    const response = await request(app).get('/health');
+
+    expect(response.status).toBe(200);
+    expect(response.body.status).toBe('ok');
+  });
+
+  it('rejects API requests without a session', async () => {
+    const response = await request(app).post('/api/orders/checkout').send({});
+
+    expect(response.status).toBe(401);
+    expect(response.body.code).toBe('UNAUTHORIZED');
+  });
+
+  it('responds with ROUTE_NOT_FOUND for unknown routes', async () => {
+    const response = await request(app).get('/api/nothing-here');
+
+    expect(response.status).toBe(404);
+    expect(response.body.code).toBe('ROUTE_NOT_FOUND');
+  });
+
+  it('sells a product from listing to a paid order', async () => {
+    const seller = await createTestUser(prisma, { role: 'Seller' });
+    const buyer = await createTestUser(prisma);
+
+    const listing = await request(app)
+      .post('/api/products')
+      .set(authHeader(seller.id))
+      .send({ title: 'Desk lamp', description: 'Brass desk lamp, barely used', priceCents: 2500, stock: 3 });
+
+    expect(listing.status).toBe(201);
+
+    const checkout = await request(app)
+      .post('/api/orders/checkout')
+      .set(authHeader(buyer.id))
+      .send({ productId: listing.body.data.id, quantity: 2 });
+
+    expect(checkout.status).toBe(201);
+    expect(checkout.body.data.amountCents).toBe(5000);
+
+    // The amount comes from the product's price, not the client
+    const { paymentIntentId, order } = checkout.body.data;
+    expect(stripe.store.paymentIntents.get(paymentIntentId)).toMatchObject({
+      amount: 5000,
+      metadata: { orderId: order.id }
+    });
+
+    const { payload, signature } = stripe.signEvent(
+      stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId)),
+      process.env.STRIPE_WEBHOOK_SECRET as string
+    );
+
+    const webhook = await request(app)
+      .post('/api/payments/webhook')
+      .set('stripe-signature', signature)
+      .set('content-type', 'application/json')
+      .send(payload);
+
+    expect(webhook.status).toBe(200);
+
+    const paid = await request(app).get(`/api/orders/${order.id}`).set(authHeader(buyer.id));
+
+    expect(paid.body.data.status).toBe('completed');
+    expect(await prisma.marketplaceProduct.findUnique({ where: { id: listing.body.data.id } }))
+      .toMatchObject({ stock: 1 });
+  });
+});
@@ -0,0 +1,93 @@
+import express, { Express, Request, Response } from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import morgan from 'morgan';
+import logger, { httpLogger } from './utils/logger';
+import { env } from './config/env';
+import { notFoundHandler, errorHandler } from './middleware/error';
+
+import { Container, createContainer } from './container';
+
+// Import module routes
+import { createUserRoutes } from './modules/users/user.routes';
+import { createClerkWebhookRoutes } from './modules/users/clerk-webhook.routes';
+import { createPostRoutes } from './modules/posts/post.routes';
+import { createProductRoutes } from './modules/marketplace/product.routes';
+import { createOrderRoutes } from './modules/marketplace/order.routes';
+import { createMessageRoutes } from './modules/messages/message.routes';
+import { createRankingRoutes } from './modules/rankings/ranking.routes';
+import { createEngagementRoutes } from './modules/engagement/engagement.routes';
+import { createPaymentRoutes } from './modules/payments/payment.routes';
+import { createLedgerRoutes } from './modules/ledger/ledger.routes';
+import { createRoleRoutes } from './modules/roles/role.routes';
+import { createModerationRoutes } from './modules/moderation/moderation.routes';
+import { createContentFilterRoutes } from './modules/content-filter/content-filter.routes';
+import { buildOpenApiDocument, RouterMounts } from './openapi/document';
+import { createDocsRoutes } from './openapi/docs.routes';
+
+/**
+ * Build the Express app without binding a port
+ * server.ts listens on it; tests can pass it straight to supertest, with
+ * a container whose dependencies are swapped for fakes.
+ */
+export const createApp = (container: Container = createContainer()): Express => {
+  const app = express();
+
+  // Middleware
+  app.set('trust proxy', env.TRUST_PROXY); // Read the client IP from X-Forwarded-For behind proxies
+  app.use(helmet()); // Security headers
+  app.use(cors()); // Enable CORS
+  // Stripe and Clerk sign the raw webhook body, so it must reach the route unparsed
+  app.post(['/api/payments/webhook', '/api/webhooks/clerk'], express.raw({ type: 'application/json' }));
+  app.use(express.json()); // Parse JSON request body
+  app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
+  app.use(morgan('dev', { stream: { write: (message) => logger.http(message.trim()) } })); // HTTP request logging
+  app.use(httpLogger); // Custom HTTP logger with response times
+
+  // Health check endpoint
+  app.get('/health', (req: Request, res: Response) => {
+    res.status(200).json({
+      status: 'ok',
+      timestamp: new Date(),
+      uptime: process.uptime()
+    });
+  });
+
+  // Identify the caller, then apply the global rate limit
+  // Webhooks are exempt: Stripe and Svix pace their own deliveries and retries
+  app.use(/^\/api(?!\/payments\/webhook$|\/webhooks\/)/, container.auth.identifyUser, container.rateLimits.api);
+
+  // API routes, by mount path
+  const apiRoutes: RouterMounts = {
+    '/api/users': createUserRoutes(container),
+    '/api/posts': createPostRoutes(container),
+    '/api/products': createProductRoutes(container),
+    '/api/orders': createOrderRoutes(container),
+    '/api/messages': createMessageRoutes(container),
+    '/api/rankings': createRankingRoutes(container),
+    '/api/engagement': createEngagementRoutes(container),
+    '/api/payments': createPaymentRoutes(container),
+    '/api/ledger': createLedgerRoutes(container),
+    '/api/roles': createRoleRoutes(container),
+    '/api/moderation': createModerationRoutes(container),
+    '/api/content-filter': createContentFilterRoutes(container),
+    '/api/webhooks': createClerkWebhookRoutes(container)
+  };
+
+  for (const [path, router] of Object.entries(apiRoutes)) {
+    app.use(path, router);
+  }
+
+  // OpenAPI document generated from the same routers, with an interactive UI
+  app.use('/docs', createDocsRoutes(buildOpenApiDocument(apiRoutes)));
+
+  // 404 handler
+  app.use(notFoundHandler);
+
+  // Error handler
+  app.use(errorHandler);
+
+  return app;
+};
+
+export default createApp;
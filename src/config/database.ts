@@ -0,0 +1,26 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+
+// Client that repositories run their queries on: the root client or an open transaction
+export type DbClient = PrismaClient | Prisma.TransactionClient;
+
+let prismaClient: PrismaClient | null = null;
+
+/**
+ * Get the process's shared Prisma client, creating it on first use
+ */
+export const getPrismaClient = (): PrismaClient => {
+  if (!prismaClient) {
+    prismaClient = new PrismaClient();
+  }
+
+  return prismaClient;
+};
+
+/**
+ * Run queries atomically
+ * Starts a transaction on the root client; inside a transaction, joins it.
+ */
+export const atomically = <T>(
+  db: DbClient,
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> => ('$transaction' in db ? db.$transaction(fn) : fn(db));
@@ -4,11 +4,18 @@ import dotenv from 'dotenv';
 // Load environment variables from .env file
 dotenv.config();
 
+// A number read from a string, rejected unless it is one and passes the check,
+// so a typo stops the app starting rather than becoming NaN
+const numeric = (check: z.ZodNumber) => z.string().trim().min(1).transform(val => Number(val)).pipe(check);
+
+// A ranked feed weight
+const feedWeight = numeric(z.number().nonnegative());
+
 // Define schema for environment variables
 const envSchema = z.object({
   // Server
   NODE_ENV: z.enum(['development', 'test', 'production']).default('development'),
-  PORT: z.string().transform(val => parseInt(val, 10)).default('3000'),
+  PORT: numeric(z.number().int().min(0).max(65535)).default('3000'),
   API_URL: z.string().url().default('http://localhost:3000'),
   
   // Database
@@ -17,13 +24,49 @@ const envSchema = z.object({
   // Auth - Clerk
   CLERK_SECRET_KEY: z.string().min(1),
   CLERK_PEM_PUBLIC_KEY: z.string().optional(),
+  // Svix signing secret of the Clerk webhook endpoint
+  CLERK_WEBHOOK_SECRET: z.string().optional(),
+  // "test" trusts a user ID sent as a bearer token instead of a Clerk session
+  AUTH_MODE: z.enum(['clerk', 'test']).default('clerk'),
   
   // Stripe
   STRIPE_SECRET_KEY: z.string().min(1),
   STRIPE_WEBHOOK_SECRET: z.string().optional(),
   
+  // Checkout
+  CHECKOUT_RESERVATION_MINUTES: numeric(z.number().int().positive()).default('30'),
+  CHECKOUT_SWEEP_INTERVAL_SECONDS: numeric(z.number().int().positive()).default('60'),
+  
+  // Seller payouts
+  PLATFORM_FEE_PERCENT: numeric(z.number().min(0).max(100)).default('10'),
+  PLATFORM_FEE_FIXED_CENTS: numeric(z.number().int().nonnegative()).default('0'),
+  
+  // Ranked feed scoring
+  FEED_WEIGHT_ENGAGEMENT: feedWeight.default('1'),
+  FEED_WEIGHT_RECENCY: feedWeight.default('2'),
+  FEED_WEIGHT_HUSTLE: feedWeight.default('0.1'),
+  FEED_WEIGHT_BUZZ: feedWeight.default('0.1'),
+  FEED_WEIGHT_CLOUT: feedWeight.default('0.2'),
+  FEED_WEIGHT_CONNECTION: feedWeight.default('0.1'),
+  FEED_RECENCY_HALF_LIFE_HOURS: numeric(z.number().positive()).default('24'),
+  FEED_CANDIDATE_LIMIT: numeric(z.number().int().positive()).default('200'),
+  
+  // Rate limiting: requests allowed per client in each window
+  RATE_LIMIT_WINDOW_SECONDS: numeric(z.number().int().positive()).default('60'),
+  RATE_LIMIT_AUTHENTICATED: numeric(z.number().int().positive()).default('100'),
+  RATE_LIMIT_ANONYMOUS: numeric(z.number().int().positive()).default('60'),
+  RATE_LIMIT_MESSAGES: numeric(z.number().int().positive()).default('20'),
+  RATE_LIMIT_COMMENTS: numeric(z.number().int().positive()).default('10'),
+  // Shares rate limit counters between instances; counted in memory when unset
+  REDIS_URL: z.string().url().optional(),
+  // Number of proxies in front of the app, so req.ip is the client's address
+  TRUST_PROXY: numeric(z.number().int().nonnegative()).default('0'),
+  
   // Logging
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'http', 'debug']).default('info'),
+}).refine(vals => !(vals.AUTH_MODE === 'test' && vals.NODE_ENV === 'production'), {
+  message: 'AUTH_MODE=test cannot be used in production',
+  path: ['AUTH_MODE']
 });
 
 // Parse environment variables or throw error
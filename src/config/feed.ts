@@ -0,0 +1,35 @@
+import { env } from './env';
+
+// Weights applied to each signal when scoring posts for the ranked feed
+export type FeedRankingWeights = {
+  engagement: number;
+  recency: number;
+  hustle: number;
+  buzz: number;
+  clout: number;
+  connection: number;
+};
+
+export type FeedRankingConfig = {
+  weights: FeedRankingWeights;
+  // Hours after which a post's recency signal has halved
+  recencyHalfLifeHours: number;
+  // Maximum number of recent posts considered for ranking
+  candidateLimit: number;
+};
+
+// Ranked feed configuration, overridable through FEED_* environment variables
+export const feedRankingConfig: FeedRankingConfig = {
+  weights: {
+    engagement: env.FEED_WEIGHT_ENGAGEMENT,
+    recency: env.FEED_WEIGHT_RECENCY,
+    hustle: env.FEED_WEIGHT_HUSTLE,
+    buzz: env.FEED_WEIGHT_BUZZ,
+    clout: env.FEED_WEIGHT_CLOUT,
+    connection: env.FEED_WEIGHT_CONNECTION
+  },
+  recencyHalfLifeHours: env.FEED_RECENCY_HALF_LIFE_HOURS,
+  candidateLimit: env.FEED_CANDIDATE_LIMIT
+};
+
+export default feedRankingConfig;
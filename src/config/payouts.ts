@@ -0,0 +1,27 @@
+import { env } from './env';
+
+export type PlatformFeeConfig = {
+  // Percentage of the order amount kept by the platform
+  percent: number;
+  // Flat amount kept by the platform on every order, in the smallest currency unit
+  fixedCents: number;
+};
+
+// Platform fee configuration, overridable through PLATFORM_FEE_* environment variables
+export const platformFeeConfig: PlatformFeeConfig = {
+  percent: env.PLATFORM_FEE_PERCENT,
+  fixedCents: env.PLATFORM_FEE_FIXED_CENTS
+};
+
+/**
+ * Platform fee for an order amount, never more than the amount itself
+ */
+export const calculatePlatformFee = (
+  amountCents: number,
+  config: PlatformFeeConfig = platformFeeConfig
+): number => {
+  const fee = Math.round(amountCents * config.percent / 100) + config.fixedCents;
+  return Math.min(Math.max(fee, 0), amountCents);
+};
+
+export default platformFeeConfig;
@@ -0,0 +1,45 @@
+// Every permission a role can grant, with what it allows
+// The migrations seed the same rows; add new ones to both.
+export const PERMISSIONS = {
+  'user:manage': 'List, create and delete any user',
+  'role:manage': 'Create, edit and delete roles, and assign them to users',
+  'product:create': 'List products for sale',
+  'product:manage': 'Edit, delete and view the inactive products of any seller',
+  'order:read': 'View any order, every order, and any user\'s order statistics',
+  'order:manage': 'Update or cancel any order',
+  'order:refund': 'Decide refunds on any order, with or without a request',
+  'post:moderate': 'Delete any post',
+  'comment:moderate': 'Delete any comment',
+  'message:moderate': 'Delete any message',
+  'ranking:write': 'Create ranking categories and set user rankings',
+  'ledger:read': 'View any user\'s balance and the reconciliation report',
+  'payment:transfer': 'Create transfers to connected accounts',
+  'payout:manage': 'List, summarize and retry seller payouts',
+  'webhook:manage': 'List and replay Stripe webhook events',
+  'moderation:review': 'Work the moderation queue: claim, escalate, resolve and dismiss open reports, and take content down',
+  'moderation:escalated': 'Work escalated reports and decide takedown appeals',
+  'moderation:audit': 'Read the moderation audit trail',
+  'content-filter:manage': 'Create, edit and delete content filter rules, and test text against them'
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as [Permission, ...Permission[]];
+
+// Role given to new users
+export const DEFAULT_ROLE = 'User';
+
+/**
+ * Roles the migration seeds and the permissions they start with
+ * Admins can change them afterwards through /api/roles.
+ */
+export const DEFAULT_ROLES: { name: string; description: string; permissions: Permission[] }[] = [
+  { name: 'Admin', description: 'Full access to the platform', permissions: PERMISSION_NAMES },
+  { name: DEFAULT_ROLE, description: 'Default role for all authenticated users', permissions: [] },
+  { name: 'Seller', description: 'Users who can sell products in the marketplace', permissions: ['product:create'] },
+  {
+    name: 'Moderator',
+    description: 'Users who review reports and moderate content',
+    permissions: ['moderation:review', 'post:moderate', 'comment:moderate', 'message:moderate']
+  }
+];
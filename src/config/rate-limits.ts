@@ -0,0 +1,42 @@
+import { env } from './env';
+
+export type RateLimitPolicy = {
+  // Counters are kept per policy, so a route limit counts separately from the global one
+  name: string;
+  windowSeconds: number;
+  // Requests allowed per window for a signed-in user, counted by user ID
+  authenticated: number;
+  // Requests allowed per window for an anonymous caller, counted by IP
+  anonymous: number;
+};
+
+export type RateLimitConfig = {
+  // Every /api request except Stripe webhooks
+  api: RateLimitPolicy;
+  sendMessage: RateLimitPolicy;
+  createComment: RateLimitPolicy;
+};
+
+// Rate limit configuration, overridable through RATE_LIMIT_* environment variables
+export const rateLimitConfig: RateLimitConfig = {
+  api: {
+    name: 'api',
+    windowSeconds: env.RATE_LIMIT_WINDOW_SECONDS,
+    authenticated: env.RATE_LIMIT_AUTHENTICATED,
+    anonymous: env.RATE_LIMIT_ANONYMOUS
+  },
+  sendMessage: {
+    name: 'send-message',
+    windowSeconds: env.RATE_LIMIT_WINDOW_SECONDS,
+    authenticated: env.RATE_LIMIT_MESSAGES,
+    anonymous: env.RATE_LIMIT_MESSAGES
+  },
+  createComment: {
+    name: 'create-comment',
+    windowSeconds: env.RATE_LIMIT_WINDOW_SECONDS,
+    authenticated: env.RATE_LIMIT_COMMENTS,
+    anonymous: env.RATE_LIMIT_COMMENTS
+  }
+};
+
+export default rateLimitConfig;
@@ -0,0 +1,314 @@
+import { PrismaClient } from '@prisma/client';
+import { DbClient, getPrismaClient } from './config/database';
+import { createAuth, Auth } from './middleware/auth';
+import { createRateLimits, RateLimits } from './middleware/rate-limit';
+import { StripeClient, getStripeClient } from './modules/payments/stripe.client';
+import { createRateLimitStore, RateLimitStore } from './utils/rate-limit-store';
+
+// Repositories
+import { UserRepository } from './modules/users/user.repository';
+import { FollowRepository } from './modules/users/follow.repository';
+import { RestrictionRepository } from './modules/users/restriction.repository';
+import { PostRepository } from './modules/posts/post.repository';
+import { ProductRepository } from './modules/marketplace/product.repository';
+import { OrderRepository } from './modules/marketplace/order.repository';
+import { ConversationRepository } from './modules/messages/conversation.repository';
+import { MessageRepository } from './modules/messages/message.repository';
+import { RankingRepository } from './modules/rankings/ranking.repository';
+import { EngagementRepository } from './modules/engagement/engagement.repository';
+import { WebhookEventRepository } from './modules/payments/webhook.repository';
+import { PayoutRepository } from './modules/payments/payout.repository';
+import { LedgerRepository } from './modules/ledger/ledger.repository';
+import { RoleRepository } from './modules/roles/role.repository';
+import { ReportRepository } from './modules/moderation/report.repository';
+import { TakedownRepository } from './modules/moderation/takedown.repository';
+import { ModerationLogRepository } from './modules/moderation/moderation-log.repository';
+import { FilterRuleRepository } from './modules/content-filter/filter-rule.repository';
+
+// Services
+import { UserService } from './modules/users/user.service';
+import { FollowService } from './modules/users/follow.service';
+import { RestrictionService } from './modules/users/restriction.service';
+import { ClerkWebhookService } from './modules/users/clerk-webhook.service';
+import { PostService } from './modules/posts/post.service';
+import { FeedService } from './modules/posts/feed.service';
+import { ProductService } from './modules/marketplace/product.service';
+import { OrderService } from './modules/marketplace/order.service';
+import { CheckoutService } from './modules/marketplace/checkout.service';
+import { RefundService } from './modules/marketplace/refund.service';
+import { ConversationService } from './modules/messages/conversation.service';
+import { MessageService } from './modules/messages/message.service';
+import { RankingService } from './modules/rankings/ranking.service';
+import { EngagementService } from './modules/engagement/engagement.service';
+import { PaymentService } from './modules/payments/payment.service';
+import { LedgerService } from './modules/ledger/ledger.service';
+import { ReconciliationService, StripeReconciliationSource } from './modules/ledger/reconciliation.service';
+import { RoleService } from './modules/roles/role.service';
+import { ModerationService } from './modules/moderation/moderation.service';
+import { ContentFilterService } from './modules/content-filter/content-filter.service';
+import { createContentChecks } from './modules/content-filter/content-checks';
+
+// Controllers
+import { UserController } from './modules/users/user.controller';
+import { FollowController } from './modules/users/follow.controller';
+import { RestrictionController } from './modules/users/restriction.controller';
+import { ClerkWebhookController } from './modules/users/clerk-webhook.controller';
+import { PostController } from './modules/posts/post.controller';
+import { ProductController } from './modules/marketplace/product.controller';
+import { OrderController } from './modules/marketplace/order.controller';
+import { ConversationController } from './modules/messages/conversation.controller';
+import { MessageController } from './modules/messages/message.controller';
+import { RankingController } from './modules/rankings/ranking.controller';
+import { EngagementController } from './modules/engagement/engagement.controller';
+import { PaymentController } from './modules/payments/payment.controller';
+import { LedgerController } from './modules/ledger/ledger.controller';
+import { RoleController } from './modules/roles/role.controller';
+import { ModerationController } from './modules/moderation/moderation.controller';
+import { ContentFilterController } from './modules/content-filter/content-filter.controller';
+
+export type Repositories = {
+  userRepository: UserRepository;
+  followRepository: FollowRepository;
+  restrictionRepository: RestrictionRepository;
+  postRepository: PostRepository;
+  productRepository: ProductRepository;
+  orderRepository: OrderRepository;
+  conversationRepository: ConversationRepository;
+  messageRepository: MessageRepository;
+  rankingRepository: RankingRepository;
+  engagementRepository: EngagementRepository;
+  webhookEventRepository: WebhookEventRepository;
+  payoutRepository: PayoutRepository;
+  ledgerRepository: LedgerRepository;
+  roleRepository: RoleRepository;
+  reportRepository: ReportRepository;
+  takedownRepository: TakedownRepository;
+  moderationLogRepository: ModerationLogRepository;
+  filterRuleRepository: FilterRuleRepository;
+};
+
+export type Services = {
+  userService: UserService;
+  followService: FollowService;
+  restrictionService: RestrictionService;
+  clerkWebhookService: ClerkWebhookService;
+  postService: PostService;
+  feedService: FeedService;
+  productService: ProductService;
+  orderService: OrderService;
+  checkoutService: CheckoutService;
+  refundService: RefundService;
+  conversationService: ConversationService;
+  messageService: MessageService;
+  rankingService: RankingService;
+  engagementService: EngagementService;
+  paymentService: PaymentService;
+  ledgerService: LedgerService;
+  reconciliationService: ReconciliationService;
+  roleService: RoleService;
+  moderationService: ModerationService;
+  contentFilterService: ContentFilterService;
+};
+
+export type Controllers = {
+  userController: UserController;
+  followController: FollowController;
+  restrictionController: RestrictionController;
+  clerkWebhookController: ClerkWebhookController;
+  postController: PostController;
+  productController: ProductController;
+  orderController: OrderController;
+  conversationController: ConversationController;
+  messageController: MessageController;
+  rankingController: RankingController;
+  engagementController: EngagementController;
+  paymentController: PaymentController;
+  ledgerController: LedgerController;
+  roleController: RoleController;
+  moderationController: ModerationController;
+  contentFilterController: ContentFilterController;
+};
+
+// Run work in one database transaction, with every repository bound to it
+export type TransactionRunner = <T>(fn: (repositories: Repositories) => Promise<T>) => Promise<T>;
+
+export type Container = Repositories & Services & Controllers & {
+  prisma: PrismaClient;
+  stripe: StripeClient;
+  auth: Auth;
+  rateLimitStore: RateLimitStore;
+  rateLimits: RateLimits;
+  transaction: TransactionRunner;
+};
+
+/**
+ * Build every repository on one database client
+ * Pass a transaction client to have them all share the transaction.
+ */
+export const createRepositories = (db: DbClient): Repositories => ({
+  userRepository: new UserRepository(db),
+  followRepository: new FollowRepository(db),
+  restrictionRepository: new RestrictionRepository(db),
+  postRepository: new PostRepository(db),
+  productRepository: new ProductRepository(db),
+  orderRepository: new OrderRepository(db),
+  conversationRepository: new ConversationRepository(db),
+  messageRepository: new MessageRepository(db),
+  rankingRepository: new RankingRepository(db),
+  engagementRepository: new EngagementRepository(db),
+  webhookEventRepository: new WebhookEventRepository(db),
+  payoutRepository: new PayoutRepository(db),
+  ledgerRepository: new LedgerRepository(db),
+  roleRepository: new RoleRepository(db),
+  reportRepository: new ReportRepository(db),
+  takedownRepository: new TakedownRepository(db),
+  moderationLogRepository: new ModerationLogRepository(db),
+  filterRuleRepository: new FilterRuleRepository(db)
+});
+
+/**
+ * Composition root: wire one Prisma client into the repositories, services and controllers
+ * Any entry can be overridden, e.g. with a fake in tests; everything that
+ * depends on it then receives the override.
+ */
+export const createContainer = (overrides: Partial<Container> = {}): Container => {
+  const prisma = overrides.prisma ?? getPrismaClient();
+  const stripe = overrides.stripe ?? getStripeClient();
+  const rateLimitStore = overrides.rateLimitStore ?? createRateLimitStore();
+
+  const defaults = createRepositories(prisma);
+  const repositories: Repositories = {
+    userRepository: overrides.userRepository ?? defaults.userRepository,
+    followRepository: overrides.followRepository ?? defaults.followRepository,
+    restrictionRepository: overrides.restrictionRepository ?? defaults.restrictionRepository,
+    postRepository: overrides.postRepository ?? defaults.postRepository,
+    productRepository: overrides.productRepository ?? defaults.productRepository,
+    orderRepository: overrides.orderRepository ?? defaults.orderRepository,
+    conversationRepository: overrides.conversationRepository ?? defaults.conversationRepository,
+    messageRepository: overrides.messageRepository ?? defaults.messageRepository,
+    rankingRepository: overrides.rankingRepository ?? defaults.rankingRepository,
+    engagementRepository: overrides.engagementRepository ?? defaults.engagementRepository,
+    webhookEventRepository: overrides.webhookEventRepository ?? defaults.webhookEventRepository,
+    payoutRepository: overrides.payoutRepository ?? defaults.payoutRepository,
+    ledgerRepository: overrides.ledgerRepository ?? defaults.ledgerRepository,
+    roleRepository: overrides.roleRepository ?? defaults.roleRepository,
+    reportRepository: overrides.reportRepository ?? defaults.reportRepository,
+    takedownRepository: overrides.takedownRepository ?? defaults.takedownRepository,
+    moderationLogRepository: overrides.moderationLogRepository ?? defaults.moderationLogRepository,
+    filterRuleRepository: overrides.filterRuleRepository ?? defaults.filterRuleRepository
+  };
+
+  const transaction: TransactionRunner = overrides.transaction
+    ?? ((fn) => prisma.$transaction((tx) => fn(createRepositories(tx))));
+
+  const {
+    userRepository,
+    followRepository,
+    restrictionRepository,
+    postRepository,
+    productRepository,
+    orderRepository,
+    conversationRepository,
+    messageRepository,
+    rankingRepository,
+    engagementRepository,
+    webhookEventRepository,
+    payoutRepository,
+    ledgerRepository,
+    roleRepository,
+    reportRepository,
+    filterRuleRepository
+  } = repositories;
+
+  const userService = overrides.userService ?? new UserService(userRepository, restrictionRepository);
+  const followService = overrides.followService
+    ?? new FollowService(followRepository, userRepository, restrictionRepository);
+  const restrictionService = overrides.restrictionService
+    ?? new RestrictionService(restrictionRepository, userRepository);
+  const clerkWebhookService = overrides.clerkWebhookService ?? new ClerkWebhookService(userRepository, roleRepository);
+  const contentFilterService = overrides.contentFilterService
+    ?? new ContentFilterService(filterRuleRepository, reportRepository, createContentChecks(rateLimitStore));
+  const postService = overrides.postService ?? new PostService(postRepository, contentFilterService, transaction);
+  const rankingService = overrides.rankingService ?? new RankingService(rankingRepository);
+  const engagementService = overrides.engagementService
+    ?? new EngagementService(engagementRepository, restrictionRepository, rankingService, contentFilterService, transaction);
+  const feedService = overrides.feedService ?? new FeedService(postRepository, engagementService);
+  const productService = overrides.productService ?? new ProductService(productRepository, contentFilterService, transaction);
+  const ledgerService = overrides.ledgerService ?? new LedgerService(ledgerRepository);
+  const paymentService = overrides.paymentService ?? new PaymentService(
+    orderRepository,
+    userRepository,
+    webhookEventRepository,
+    payoutRepository,
+    rankingService,
+    ledgerService,
+    stripe
+  );
+  const orderService = overrides.orderService ?? new OrderService(orderRepository, paymentService);
+  const checkoutService = overrides.checkoutService
+    ?? new CheckoutService(orderRepository, productService, paymentService);
+  const refundService = overrides.refundService ?? new RefundService(orderRepository, paymentService);
+  const conversationService = overrides.conversationService
+    ?? new ConversationService(conversationRepository, userRepository);
+  const messageService = overrides.messageService
+    ?? new MessageService(messageRepository, conversationService, restrictionRepository, contentFilterService);
+  const reconciliationService = overrides.reconciliationService
+    ?? new ReconciliationService(ledgerRepository, new StripeReconciliationSource(paymentService));
+  const roleService = overrides.roleService ?? new RoleService(roleRepository, userRepository);
+  const moderationService = overrides.moderationService ?? new ModerationService(repositories, transaction);
+
+  const services: Services = {
+    userService,
+    followService,
+    restrictionService,
+    clerkWebhookService,
+    postService,
+    feedService,
+    productService,
+    orderService,
+    checkoutService,
+    refundService,
+    conversationService,
+    messageService,
+    rankingService,
+    engagementService,
+    paymentService,
+    ledgerService,
+    reconciliationService,
+    roleService,
+    moderationService,
+    contentFilterService
+  };
+
+  const controllers: Controllers = {
+    userController: overrides.userController ?? new UserController(userService),
+    followController: overrides.followController ?? new FollowController(followService),
+    restrictionController: overrides.restrictionController ?? new RestrictionController(restrictionService),
+    clerkWebhookController: overrides.clerkWebhookController ?? new ClerkWebhookController(clerkWebhookService),
+    postController: overrides.postController ?? new PostController(postService, feedService),
+    productController: overrides.productController ?? new ProductController(productService),
+    orderController: overrides.orderController
+      ?? new OrderController(orderService, checkoutService, refundService),
+    conversationController: overrides.conversationController ?? new ConversationController(conversationService),
+    messageController: overrides.messageController ?? new MessageController(messageService),
+    rankingController: overrides.rankingController ?? new RankingController(rankingService),
+    engagementController: overrides.engagementController ?? new EngagementController(engagementService),
+    paymentController: overrides.paymentController ?? new PaymentController(paymentService),
+    ledgerController: overrides.ledgerController ?? new LedgerController(ledgerService, reconciliationService),
+    roleController: overrides.roleController ?? new RoleController(roleService),
+    moderationController: overrides.moderationController ?? new ModerationController(moderationService),
+    contentFilterController: overrides.contentFilterController ?? new ContentFilterController(contentFilterService)
+  };
+
+  return {
+    prisma,
+    stripe,
+    auth: overrides.auth ?? createAuth(userRepository),
+    rateLimitStore,
+    rateLimits: overrides.rateLimits ?? createRateLimits(rateLimitStore),
+    transaction,
+    ...repositories,
+    ...services,
+    ...controllers
+  };
+};
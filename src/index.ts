@@ -1,13 +1,16 @@
-import app from './server';
-import { PrismaClient } from '@prisma/client';
-import { env } from './config/env';
+import { createApp } from './app';
+import { createContainer } from './container';
+import { startServer } from './server';
 import logger from './utils/logger';
 
-// Export app for testing purposes
-export { app };
+// Tests build the app with createApp instead of importing this entry point
+export { createApp, createContainer, startServer };
 
-// Initialize Prisma client
-export const prisma = new PrismaClient();
+// One container wires the Prisma client, services and controllers for the process
+export const container = createContainer();
+export const prisma = container.prisma;
+
+export const server = startServer(container);
 
 // Log uncaught exceptions
 process.on('uncaughtException', (error) => {
@@ -34,18 +37,45 @@ process.on('SIGINT', () => {
 });
 
 // Export module functionality for easier imports
+export * from './container';
+export * from './config/database';
 export * from './modules/users/user.repository';
 export * from './modules/users/user.service';
+export * from './modules/users/follow.repository';
+export * from './modules/users/follow.service';
+export * from './modules/users/restriction.repository';
+export * from './modules/users/restriction.service';
+export * from './modules/roles/role.repository';
+export * from './modules/roles/role.service';
 export * from './modules/posts/post.repository';
 export * from './modules/posts/post.service';
+export * from './modules/posts/feed.service';
 export * from './modules/marketplace/product.repository';
 export * from './modules/marketplace/product.service';
 export * from './modules/marketplace/order.repository';
 export * from './modules/marketplace/order.service';
+export * from './modules/marketplace/checkout.service';
+export * from './modules/marketplace/refund.service';
+export * from './modules/messages/conversation.repository';
+export * from './modules/messages/conversation.service';
 export * from './modules/messages/message.repository';
 export * from './modules/messages/message.service';
+export * from './modules/messages/message.events';
+export * from './modules/messages/message.gateway';
 export * from './modules/rankings/ranking.repository';
 export * from './modules/rankings/ranking.service';
 export * from './modules/engagement/engagement.repository';
 export * from './modules/engagement/engagement.service';
 export * from './modules/payments/payment.service';
+export * from './modules/payments/webhook.repository';
+export * from './modules/payments/payout.repository';
+export * from './modules/ledger/ledger.repository';
+export * from './modules/ledger/ledger.service';
+export * from './modules/ledger/reconciliation.service';
+export * from './modules/moderation/report.repository';
+export * from './modules/moderation/takedown.repository';
+export * from './modules/moderation/moderation-log.repository';
+export * from './modules/moderation/moderation.service';
+export * from './modules/content-filter/filter-rule.repository';
+export * from './modules/content-filter/content-checks';
+export * from './modules/content-filter/content-filter.service';
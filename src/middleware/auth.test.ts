@@ -0,0 +1,33 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { createApp, createContainer, createTestUser, authHeader, resetDatabase, FakeStripe } from '../testing';
+
+const prisma = new PrismaClient();
+const container = createContainer({ prisma, stripe: new FakeStripe() });
+const app = createApp(container);
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  jest.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('auth middleware', () => {
+  it('verifies the session and loads its user once per request', async () => {
+    const user = await createTestUser(prisma);
+    const load = jest.spyOn(container.userRepository, 'findWithPermissions');
+
+    const response = await request(app).get('/api/users/blocks').set(authHeader(user.id));
+
+    expect(response.status).toBe(200);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses requests without a session, or with one that does not verify', async () => {
+    expect((await request(app).get('/api/users/blocks')).status).toBe(401);
+    expect((await request(app).get('/api/users/blocks').set('Authorization', 'Bearer not-a-session')).status).toBe(401);
+  });
+});
@@ -0,0 +1,108 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { env } from '../config/env';
+import logger from '../utils/logger';
+import {
+  AppError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  PaymentRequiredError,
+  ValidationError,
+  ValidationIssue
+} from '../utils/errors';
+
+// Body of every failed response
+export type ErrorResponse = {
+  success: false;
+  message: string;
+  code: string;
+  errors?: ValidationIssue[];
+  stack?: string;
+};
+
+/**
+ * Map errors thrown by libraries to an AppError when their meaning is known
+ */
+const toAppError = (err: any): AppError | null => {
+  if (err instanceof AppError) {
+    return err;
+  }
+
+  if (err instanceof ZodError) {
+    return new ValidationError('Invalid data', err.errors.map(({ path, message }) => ({ path, message })));
+  }
+
+  if (err instanceof Prisma.PrismaClientKnownRequestError) {
+    // Record to update or delete does not exist
+    if (err.code === 'P2025') {
+      return new NotFoundError();
+    }
+
+    // Unique constraint failed
+    if (err.code === 'P2002') {
+      return new ConflictError('A record with these values already exists');
+    }
+  }
+
+  if (err?.type === 'StripeCardError') {
+    return new PaymentRequiredError(err.message);
+  }
+
+  // Raised by express.json for a body that is not valid JSON
+  if (err?.type === 'entity.parse.failed') {
+    return new BadRequestError('Request body is not valid JSON');
+  }
+
+  return null;
+};
+
+/**
+ * Respond to requests that matched no route
+ */
+export const notFoundHandler = (req: Request, res: Response) => {
+  const body: ErrorResponse = {
+    success: false,
+    message: `Route not found: ${req.method} ${req.originalUrl}`,
+    code: 'ROUTE_NOT_FOUND'
+  };
+
+  res.status(404).json(body);
+};
+
+/**
+ * Send the error envelope for anything passed to next(error)
+ * Known errors keep their status and message; anything else is logged and
+ * becomes a 500 whose details are hidden in production.
+ */
+export const errorHandler = (err: Error, req: Request, res: Response, next: NextFunction) => {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const appError = toAppError(err);
+
+  if (!appError) {
+    logger.error(`Unhandled error: ${err.message}`);
+    logger.error(err.stack || 'No stack trace available');
+
+    const body: ErrorResponse = {
+      success: false,
+      message: env.NODE_ENV === 'production' ? 'An unexpected error occurred' : err.message,
+      code: 'INTERNAL_ERROR',
+      ...(env.NODE_ENV !== 'production' && { stack: err.stack })
+    };
+
+    return res.status(500).json(body);
+  }
+
+  const body: ErrorResponse = {
+    success: false,
+    message: appError.message,
+    code: appError.code,
+    ...(appError instanceof ValidationError && appError.errors.length > 0 && { errors: appError.errors })
+  };
+
+  res.status(appError.statusCode).json(body);
+};
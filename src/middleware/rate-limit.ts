@@ -0,0 +1,50 @@
+import { RequestHandler } from 'express';
+import { RateLimitConfig, RateLimitPolicy, rateLimitConfig } from '../config/rate-limits';
+import { RateLimitCount, RateLimitStore } from '../utils/rate-limit-store';
+import { TooManyRequestsError } from '../utils/errors';
+import logger from '../utils/logger';
+
+/**
+ * Limit requests per user, or per IP for anonymous callers
+ * Sets X-RateLimit-* headers on every response; a route limit that runs after
+ * the global one overwrites them with its own numbers. Over the limit, the
+ * request fails with a 429 and Retry-After. If the store fails, requests are
+ * let through rather than taking the API down with it.
+ */
+export const rateLimit = (store: RateLimitStore, policy: RateLimitPolicy): RequestHandler<any, any, any, any> => {
+  return async (req, res, next) => {
+    const limit = req.userId ? policy.authenticated : policy.anonymous;
+    const caller = req.userId ? `user:${req.userId}` : `ip:${req.ip}`;
+
+    let hit: RateLimitCount;
+
+    try {
+      hit = await store.increment(`ratelimit:${policy.name}:${caller}`, policy.windowSeconds * 1000);
+    } catch (error) {
+      logger.error(`Rate limit store failed: ${error}`);
+      return next();
+    }
+
+    res.setHeader('X-RateLimit-Limit', limit);
+    res.setHeader('X-RateLimit-Remaining', Math.max(limit - hit.count, 0));
+    res.setHeader('X-RateLimit-Reset', Math.ceil(hit.resetAt / 1000));
+
+    if (hit.count > limit) {
+      res.setHeader('Retry-After', Math.max(Math.ceil((hit.resetAt - Date.now()) / 1000), 1));
+      return next(new TooManyRequestsError());
+    }
+
+    next();
+  };
+};
+
+/**
+ * The global limit and the stricter per-route ones, sharing one store
+ */
+export const createRateLimits = (store: RateLimitStore, config: RateLimitConfig = rateLimitConfig) => ({
+  api: rateLimit(store, config.api),
+  sendMessage: rateLimit(store, config.sendMessage),
+  createComment: rateLimit(store, config.createComment)
+});
+
+export type RateLimits = ReturnType<typeof createRateLimits>;
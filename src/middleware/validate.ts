@@ -0,0 +1,69 @@
+import { Request, RequestHandler } from 'express';
+import { z, ZodTypeAny } from 'zod';
+import { ValidationError, ValidationIssue } from '../utils/errors';
+import { annotate } from '../openapi/annotations';
+
+// Schemas for the parts of a request that a route validates, and the data it responds with
+export type RequestSchemas = {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+  // Only documented, never checked against what the handler sends
+  response?: ZodTypeAny;
+};
+
+// Parsed type of a schema, or the unvalidated Express type when there is none
+type Parsed<S, Unvalidated> = S extends ZodTypeAny ? z.output<S> : Unvalidated;
+
+type ParsedParams<S extends RequestSchemas> = Parsed<S['params'], Request['params']>;
+type ParsedQuery<S extends RequestSchemas> = Parsed<S['query'], Request['query']>;
+type ParsedBody<S extends RequestSchemas> = Parsed<S['body'], unknown>;
+
+/**
+ * Request after validate(schemas) has run: params, query and body hold the parsed values
+ */
+export type ValidatedRequest<S extends RequestSchemas> = Request<ParsedParams<S>, any, ParsedBody<S>, ParsedQuery<S>>;
+
+const parts = ['params', 'query', 'body'] as const;
+
+/**
+ * Parse the request against route schemas before the handler runs
+ * Parsed values replace the raw ones, so handlers get coerced types and
+ * defaults. Every failing field is reported in one 422, with its path prefixed
+ * by the part of the request it came from.
+ * Express infers the handler's request type from this middleware, so other
+ * middleware on the same route is typed with `any` request types (see auth.ts).
+ * The schemas also describe the route in the OpenAPI document, including the
+ * response data, which is only documented.
+ */
+export const validate = <S extends RequestSchemas>(
+  schemas: S
+): RequestHandler<ParsedParams<S>, any, ParsedBody<S>, ParsedQuery<S>> => {
+  const handler: RequestHandler<ParsedParams<S>, any, ParsedBody<S>, ParsedQuery<S>> = (req, res, next) => {
+    const issues: ValidationIssue[] = [];
+
+    for (const part of parts) {
+      const schema = schemas[part];
+
+      if (!schema) {
+        continue;
+      }
+
+      const result = schema.safeParse(req[part]);
+
+      if (result.success) {
+        req[part] = result.data;
+      } else {
+        issues.push(...result.error.errors.map(({ path, message }) => ({ path: [part, ...path], message })));
+      }
+    }
+
+    if (issues.length > 0) {
+      return next(new ValidationError('Invalid data', issues));
+    }
+
+    next();
+  };
+
+  return annotate(handler, { schemas });
+};
@@ -0,0 +1,170 @@
+import { ContentFilterContext, ContentFilterRule, ContentFilterRuleType } from '@prisma/client';
+import { RE2JS } from 're2js';
+import { RateLimitStore } from '../../utils/rate-limit-store';
+
+// Text about to be saved, and who is saving it
+export type ContentInput = {
+  context: ContentFilterContext;
+  userId: string;
+  text: string;
+};
+
+/**
+ * How the pipeline applies one type of rule
+ * A check reads its settings from the rule, so admins can change them at runtime.
+ */
+export interface ContentCheck {
+  // Whether the rule matches the input
+  matches(rule: ContentFilterRule, input: ContentInput): Promise<boolean>;
+}
+
+export type ContentChecks = Record<ContentFilterRuleType, ContentCheck>;
+
+// Runs of one character this long read as spam, e.g. "!!!!!!!!!!"
+const SPAM_CHARACTER_RUN = 10;
+// Text with at least this many words where one word is over half of them
+const SPAM_MIN_WORDS = 6;
+// Text with at least this many letters that is mostly capitals
+const SPAM_MIN_LETTERS = 20;
+const SPAM_CAPITALS_RATIO = 0.7;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi;
+
+// Compiled regex rules by pattern, so each is compiled once rather than per write
+const compiledPatterns = new Map<string, RE2JS>();
+const COMPILED_PATTERNS_LIMIT = 500;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Compile an admin-provided regex rule, case-insensitively
+ * RE2 matches in time linear in the text, so no pattern can stall the event
+ * loop the way a backtracking one like (a+)+$ does in JavaScript's engine. It
+ * has no backreferences or lookarounds; patterns using them, like invalid
+ * ones, throw an RE2JSSyntaxException.
+ */
+export const compileRulePattern = (pattern: string): RE2JS => RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+
+/**
+ * Links in a text, e.g. https://example.com/a and www.example.com
+ */
+export const findLinks = (text: string): string[] => text.match(LINK_PATTERN) ?? [];
+
+// Host a link points at, lower-cased, or null if it doesn't parse
+const hostOf = (link: string): string | null => {
+  try {
+    return new URL(/^https?:\/\//i.test(link) ? link : `http://${link}`).hostname.toLowerCase();
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * How many spam signals a text shows: long character runs, one word
+ * repeated over and over, and shouting
+ */
+export const countSpamSignals = (text: string): number => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  const wordCounts = new Map<string, number>();
+  words.forEach(word => wordCounts.set(word, (wordCounts.get(word) ?? 0) + 1));
+
+  const letters = text.match(/\p{L}/gu) ?? [];
+  const capitals = letters.filter(letter => letter !== letter.toLowerCase());
+
+  return [
+    new RegExp(`(\\S)\\1{${SPAM_CHARACTER_RUN - 1},}`, 'u').test(text),
+    words.length >= SPAM_MIN_WORDS && Math.max(...wordCounts.values()) > words.length / 2,
+    letters.length >= SPAM_MIN_LETTERS && capitals.length / letters.length > SPAM_CAPITALS_RATIO
+  ].filter(Boolean).length;
+};
+
+// The keyword as a whole word or phrase, ignoring case
+const keywordCheck: ContentCheck = {
+  async matches(rule, { text }) {
+    return !!rule.pattern
+      && new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(rule.pattern)}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+  }
+};
+
+const regexCheck: ContentCheck = {
+  async matches(rule, { text }) {
+    if (!rule.pattern) {
+      return false;
+    }
+
+    let pattern = compiledPatterns.get(rule.pattern);
+
+    if (!pattern) {
+      // Patterns of edited or deleted rules pile up otherwise
+      if (compiledPatterns.size >= COMPILED_PATTERNS_LIMIT) {
+        compiledPatterns.clear();
+      }
+
+      pattern = compileRulePattern(rule.pattern);
+      compiledPatterns.set(rule.pattern, pattern);
+    }
+
+    return pattern.matcher(text).find();
+  }
+};
+
+// A link to the domain or any of its subdomains
+const domainCheck: ContentCheck = {
+  async matches(rule, { text }) {
+    const domain = rule.pattern?.toLowerCase();
+
+    return !!domain && findLinks(text).some(link => {
+      const host = hostOf(link);
+      return host === domain || !!host?.endsWith(`.${domain}`);
+    });
+  }
+};
+
+// More links than the threshold allows
+const linkCountCheck: ContentCheck = {
+  async matches(rule, { text }) {
+    return rule.threshold !== null && findLinks(text).length > rule.threshold;
+  }
+};
+
+// At least threshold spam signals, one by default
+const spamCheck: ContentCheck = {
+  async matches(rule, { text }) {
+    return countSpamSignals(text) >= (rule.threshold ?? 1);
+  }
+};
+
+/**
+ * More than threshold writes by one user within windowSeconds
+ * Every write the rule sees is counted, in the rate limit store so that
+ * instances share the counts.
+ */
+export class VelocityCheck implements ContentCheck {
+  private store: RateLimitStore;
+
+  constructor(store: RateLimitStore) {
+    this.store = store;
+  }
+
+  async matches(rule: ContentFilterRule, { userId }: ContentInput): Promise<boolean> {
+    if (rule.threshold === null || rule.windowSeconds === null) {
+      return false;
+    }
+
+    const { count } = await this.store.increment(`content-filter:${rule.id}:${userId}`, rule.windowSeconds * 1000);
+
+    return count > rule.threshold;
+  }
+}
+
+/**
+ * The built-in check for every rule type
+ */
+export const createContentChecks = (store: RateLimitStore): ContentChecks => ({
+  keyword: keywordCheck,
+  regex: regexCheck,
+  domain: domainCheck,
+  link_count: linkCountCheck,
+  spam: spamCheck,
+  velocity: new VelocityCheck(store)
+});
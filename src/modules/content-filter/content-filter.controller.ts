@@ -0,0 +1,116 @@
+import { Request, Response, NextFunction } from 'express';
+import { ContentFilterService } from './content-filter.service';
+import { UnauthorizedError } from '../../utils/errors';
+import { contentFilterSchemas } from './content-filter.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+
+export class ContentFilterController {
+  private contentFilterService: ContentFilterService;
+
+  constructor(contentFilterService: ContentFilterService) {
+    this.contentFilterService = contentFilterService;
+  }
+
+  /**
+   * Get all rules
+   */
+  async getRules(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await this.contentFilterService.getRules();
+
+      res.status(200).json({
+        success: true,
+        data: rules
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  async getRuleById(req: ValidatedRequest<typeof contentFilterSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await this.contentFilterService.getRule(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a rule
+   */
+  async createRule(req: ValidatedRequest<typeof contentFilterSchemas.create>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await this.contentFilterService.createRule(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Content filter rule created successfully',
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a rule
+   */
+  async updateRule(req: ValidatedRequest<typeof contentFilterSchemas.update>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rule = await this.contentFilterService.updateRule(req.params.id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Content filter rule updated successfully',
+        data: rule
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(req: ValidatedRequest<typeof contentFilterSchemas.remove>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.contentFilterService.deleteRule(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Content filter rule deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Run a text through the enabled rules without saving anything
+   */
+  async checkContent(req: ValidatedRequest<typeof contentFilterSchemas.check>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const verdict = await this.contentFilterService.check({ ...req.body, userId: req.user.id }, { dryRun: true });
+
+      res.status(200).json({
+        success: true,
+        data: verdict
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
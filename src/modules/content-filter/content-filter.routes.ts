@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { contentFilterSchemas } from './content-filter.schemas';
+
+/**
+ * Content filter routes, mounted at /api/content-filter
+ */
+export const createContentFilterRoutes = ({ contentFilterController, auth }: Container): Router => {
+  const router = Router();
+
+  // Rules decide what users can publish, so every route requires content-filter:manage
+  router.use(requireAuth);
+  router.use(auth.populateUser);
+  router.use(requirePermission('content-filter:manage'));
+
+  router.post('/check', validate(contentFilterSchemas.check), (req, res, next) => contentFilterController.checkContent(req, res, next));
+
+  router.get('/rules', validate(contentFilterSchemas.list), (req, res, next) => contentFilterController.getRules(req, res, next));
+  router.post('/rules', validate(contentFilterSchemas.create), (req, res, next) => contentFilterController.createRule(req, res, next));
+  router.get('/rules/:id', validate(contentFilterSchemas.getById), (req, res, next) => contentFilterController.getRuleById(req, res, next));
+  router.put('/rules/:id', validate(contentFilterSchemas.update), (req, res, next) => contentFilterController.updateRule(req, res, next));
+  router.delete('/rules/:id', validate(contentFilterSchemas.remove), (req, res, next) => contentFilterController.deleteRule(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import { ContentFilterAction, ContentFilterContext, ContentFilterRuleType, ReportReason } from '@prisma/client';
+import { idParams, timestamp } from '../../utils/schemas';
+
+const ruleFields = {
+  name: z.string().trim().min(1).max(100),
+  type: z.nativeEnum(ContentFilterRuleType),
+  // Keyword, regular expression or domain, depending on the type
+  pattern: z.string().trim().min(1).max(500).nullable(),
+  // Links, spam signals or writes allowed, depending on the type
+  threshold: z.number().int().min(0).nullable(),
+  windowSeconds: z.number().int().min(1).max(86400).nullable(),
+  action: z.nativeEnum(ContentFilterAction),
+  // Reason the moderation queue shows for held content
+  reason: z.nativeEnum(ReportReason),
+  // No contexts runs the rule everywhere
+  contexts: z.array(z.nativeEnum(ContentFilterContext)).transform(contexts => Array.from(new Set(contexts))),
+  enabled: z.boolean()
+};
+
+const rule = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  type: z.nativeEnum(ContentFilterRuleType),
+  pattern: z.string().nullable(),
+  threshold: z.number().int().nullable(),
+  windowSeconds: z.number().int().nullable(),
+  action: z.nativeEnum(ContentFilterAction),
+  reason: z.nativeEnum(ReportReason),
+  contexts: z.array(z.nativeEnum(ContentFilterContext)),
+  enabled: z.boolean(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+/**
+ * Request and response schemas for content filter routes
+ */
+export const contentFilterSchemas = {
+  list: {
+    response: z.array(rule)
+  },
+
+  getById: {
+    params: idParams,
+    response: rule
+  },
+
+  create: {
+    body: z.object({
+      ...ruleFields,
+      pattern: ruleFields.pattern.optional(),
+      threshold: ruleFields.threshold.optional(),
+      windowSeconds: ruleFields.windowSeconds.optional(),
+      reason: ruleFields.reason.optional(),
+      contexts: ruleFields.contexts.default([]),
+      enabled: ruleFields.enabled.optional()
+    }),
+    response: rule
+  },
+
+  update: {
+    params: idParams,
+    body: z.object(ruleFields).partial(),
+    response: rule
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  // Dry run of the enabled rules; velocity rules are skipped
+  check: {
+    body: z.object({
+      context: z.nativeEnum(ContentFilterContext),
+      text: z.string().min(1).max(10000)
+    }),
+    // The strictest action of the rules the text matched
+    response: z.object({
+      action: z.union([z.literal('allow'), z.nativeEnum(ContentFilterAction)]),
+      matches: z.array(rule.pick({ id: true, name: true, type: true, action: true, reason: true }))
+    })
+  }
+};
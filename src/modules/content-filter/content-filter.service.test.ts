@@ -0,0 +1,158 @@
+import { PrismaClient, User } from '@prisma/client';
+import { ReportRepository } from '../moderation/report.repository';
+import { CreateFilterRuleInput } from './filter-rule.repository';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+import { ContentRejectedError, ValidationError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const { contentFilterService, postService, messageService } = createContainer({ prisma, stripe: new FakeStripe() });
+
+let user: User;
+
+const rule = (data: Partial<CreateFilterRuleInput> & Pick<CreateFilterRuleInput, 'type'>) =>
+  contentFilterService.createRule({ name: `${data.type} rule`, action: 'hold', contexts: [], ...data });
+
+const check = (text: string, context: 'post' | 'comment' | 'message' | 'product' = 'post') =>
+  contentFilterService.check({ context, userId: user.id, text });
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  jest.restoreAllMocks();
+
+  user = await createTestUser(prisma);
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('ContentFilterService', () => {
+  describe('checks', () => {
+    it('matches keywords as whole words, ignoring case', async () => {
+      await rule({ type: 'keyword', pattern: 'scam' });
+
+      expect((await check('This is a SCAM!')).action).toBe('hold');
+      expect((await check('Scampi for dinner')).action).toBe('allow');
+    });
+
+    it('matches regular expressions', async () => {
+      await rule({ type: 'regex', pattern: 'whats?app\\s*\\+?\\d{6,}' });
+
+      expect((await check('Message me on WhatsApp +4412345678')).action).toBe('hold');
+      expect((await check('Message me here')).action).toBe('allow');
+    });
+
+    it('matches links to a domain and its subdomains', async () => {
+      await rule({ type: 'domain', pattern: 'spam.example' });
+
+      expect((await check('Deals at https://shop.spam.example/now')).action).toBe('hold');
+      expect((await check('Deals at https://notspam.example')).action).toBe('allow');
+    });
+
+    it('matches texts with more links than the threshold', async () => {
+      await rule({ type: 'link_count', threshold: 1 });
+
+      expect((await check('https://a.example and www.b.example')).action).toBe('hold');
+      expect((await check('Just https://a.example')).action).toBe('allow');
+    });
+
+    it('matches spam signals', async () => {
+      await rule({ type: 'spam' });
+
+      expect((await check('BUY NOW BUY NOW BUY NOW BUY NOW')).action).toBe('hold');
+      expect((await check('A hand-thrown mug in a speckled glaze')).action).toBe('allow');
+    });
+
+    it('matches users writing faster than the rule allows, except on dry runs', async () => {
+      await rule({ type: 'velocity', threshold: 2, windowSeconds: 60 });
+
+      expect((await check('one')).action).toBe('allow');
+      expect((await check('two')).action).toBe('allow');
+      expect((await contentFilterService.check({ context: 'post', userId: user.id, text: 'dry' }, { dryRun: true })).action).toBe('allow');
+      expect((await check('three')).action).toBe('hold');
+    });
+
+    it('only runs rules in their contexts and skips disabled ones', async () => {
+      await rule({ type: 'keyword', pattern: 'scam', contexts: ['comment'] });
+      await rule({ type: 'keyword', pattern: 'fraud', enabled: false });
+
+      expect((await check('scam fraud', 'post')).action).toBe('allow');
+      expect((await check('scam fraud', 'comment')).action).toBe('hold');
+    });
+
+    it('rejects when any matching rule rejects, listing every match', async () => {
+      await rule({ type: 'keyword', pattern: 'scam', action: 'reject' });
+      await rule({ type: 'spam' });
+
+      const verdict = await check('SCAM SCAM SCAM SCAM SCAM SCAM');
+
+      expect(verdict.action).toBe('reject');
+      expect(verdict.matches.map(({ type }) => type).sort()).toEqual(['keyword', 'spam']);
+    });
+
+    it('refuses regex rules that do not compile, or that need backtracking', async () => {
+      await expect(rule({ type: 'regex', pattern: '(unclosed' })).rejects.toBeInstanceOf(ValidationError);
+      await expect(rule({ type: 'regex', pattern: '(\\w)\\1{3}' })).rejects.toBeInstanceOf(ValidationError);
+      await expect(rule({ type: 'regex', pattern: 'buy(?= now)' })).rejects.toBeInstanceOf(ValidationError);
+    });
+
+    it('matches regular expressions in linear time', async () => {
+      await rule({ type: 'regex', pattern: '(a+)+$' });
+
+      // Takes minutes with a backtracking engine
+      const started = Date.now();
+      expect((await check(`${'a'.repeat(4000)}!`)).action).toBe('allow');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('writes', () => {
+    it('rejects content a rule rejects without saving it', async () => {
+      await rule({ type: 'keyword', pattern: 'scam', action: 'reject' });
+
+      await expect(postService.createPost({ userId: user.id, contentType: 'text', textBody: 'Total scam' }))
+        .rejects.toBeInstanceOf(ContentRejectedError);
+      expect(await prisma.post.count()).toBe(0);
+    });
+
+    it('saves held posts hidden and queues them for review', async () => {
+      await rule({ type: 'keyword', pattern: 'scam', reason: 'spam' });
+
+      const post = await postService.createPost({ userId: user.id, contentType: 'text', textBody: 'Maybe a scam' });
+
+      expect(post.hiddenAt).not.toBeNull();
+      expect(await prisma.report.findMany()).toEqual([
+        expect.objectContaining({ targetType: 'post', targetId: post.id, reason: 'spam', held: true, reporterId: null })
+      ]);
+    });
+
+    it('holds an edited post once, however often it is edited', async () => {
+      await rule({ type: 'keyword', pattern: 'scam' });
+      const post = await postService.createPost({ userId: user.id, contentType: 'text', textBody: 'Hello' });
+      const actor = { id: user.id, permissions: [] };
+
+      await postService.updatePost(post.id, actor, { textBody: 'A scam' });
+      await postService.updatePost(post.id, actor, { textBody: 'Still a scam' });
+
+      expect(await prisma.post.findUniqueOrThrow({ where: { id: post.id } })).toMatchObject({ hiddenAt: expect.any(Date) });
+      expect(await prisma.report.count({ where: { targetId: post.id } })).toBe(1);
+    });
+
+    it('does not save a held post when it cannot be queued for review', async () => {
+      await rule({ type: 'keyword', pattern: 'scam' });
+      jest.spyOn(ReportRepository.prototype, 'create').mockRejectedValueOnce(new Error('Database unavailable'));
+
+      await expect(postService.createPost({ userId: user.id, contentType: 'text', textBody: 'Maybe a scam' }))
+        .rejects.toThrow('Database unavailable');
+      expect(await prisma.post.count()).toBe(0);
+    });
+
+    it('rejects held messages, which cannot be hidden', async () => {
+      const recipient = await createTestUser(prisma);
+      await rule({ type: 'keyword', pattern: 'scam' });
+
+      await expect(messageService.sendMessage({ senderId: user.id, recipientId: recipient.id, content: 'A scam' }))
+        .rejects.toBeInstanceOf(ContentRejectedError);
+    });
+  });
+});
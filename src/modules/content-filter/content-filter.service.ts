@@ -0,0 +1,229 @@
+import { ContentFilterAction, ContentFilterContext, ContentFilterRule, ReportTargetType } from '@prisma/client';
+import { FilterRuleRepository, CreateFilterRuleInput, UpdateFilterRuleInput } from './filter-rule.repository';
+import { ContentChecks, ContentInput, compileRulePattern } from './content-checks';
+import { ReportRepository } from '../moderation/report.repository';
+import logger from '../../utils/logger';
+import { ContentRejectedError, NotFoundError, ValidationError } from '../../utils/errors';
+
+// A rule the text matched
+export type ContentMatch = Pick<ContentFilterRule, 'id' | 'name' | 'type' | 'action' | 'reason'>;
+
+/**
+ * What the pipeline decided for a text: the strictest action of the rules it
+ * matched, or allow if it matched none
+ */
+export type ContentVerdict = {
+  action: 'allow' | ContentFilterAction;
+  matches: ContentMatch[];
+};
+
+// Contexts whose content can be hidden while held; held messages are rejected instead
+const HOLDABLE_CONTEXTS: Partial<Record<ContentFilterContext, ReportTargetType>> = {
+  post: 'post',
+  comment: 'comment',
+  product: 'product'
+};
+
+// Rule types that match the pattern, and those that compare against the threshold
+const PATTERN_TYPES = ['keyword', 'regex', 'domain'];
+const THRESHOLD_TYPES = ['link_count', 'spam', 'velocity'];
+
+/**
+ * Content-check pipeline run before posts, comments, messages and products are saved
+ * Every enabled rule for the context runs through the check for its type;
+ * rules are read on every write, so changes apply immediately.
+ */
+export class ContentFilterService {
+  private filterRuleRepository: FilterRuleRepository;
+  private reportRepository: ReportRepository;
+  private checks: ContentChecks;
+
+  constructor(filterRuleRepository: FilterRuleRepository, reportRepository: ReportRepository, checks: ContentChecks) {
+    this.filterRuleRepository = filterRuleRepository;
+    this.reportRepository = reportRepository;
+    this.checks = checks;
+  }
+
+  /**
+   * Run the pipeline on a text
+   * A dry run skips velocity rules, which would count the text as a write.
+   */
+  async check(input: ContentInput, { dryRun = false }: { dryRun?: boolean } = {}): Promise<ContentVerdict> {
+    const rules = await this.filterRuleRepository.findEnabled(input.context);
+    const matches: ContentMatch[] = [];
+
+    for (const rule of rules) {
+      if (dryRun && rule.type === 'velocity') {
+        continue;
+      }
+
+      try {
+        if (await this.checks[rule.type].matches(rule, input)) {
+          const { id, name, type, action, reason } = rule;
+          matches.push({ id, name, type, action, reason });
+        }
+      } catch (error: any) {
+        // Fail open: a broken rule or an unreachable store shouldn't stop users posting
+        logger.error(`Content filter rule ${rule.id} failed: ${error.message}`);
+      }
+    }
+
+    const action = matches.some(match => match.action === 'reject') ? 'reject'
+      : matches.length > 0 ? 'hold'
+      : 'allow';
+
+    return { action, matches };
+  }
+
+  /**
+   * Run the pipeline before a write, throwing a ContentRejectedError if the text is rejected
+   * Returns the verdict; the caller hides held content and calls holdForReview
+   * once it is saved.
+   */
+  async screen(input: ContentInput): Promise<ContentVerdict> {
+    const verdict = await this.check(input);
+
+    if (verdict.action === 'reject' || (verdict.action === 'hold' && !HOLDABLE_CONTEXTS[input.context])) {
+      logger.info(`Content filter rejected a ${input.context} by user ${input.userId}: ${verdict.matches.map(({ name }) => name).join(', ')}`);
+      throw new ContentRejectedError();
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Put saved, hidden content in the moderation queue
+   * Moderators release it by dismissing the report or resolving it without a
+   * takedown. Content already waiting for review isn't queued twice. Pass the
+   * report repository of the transaction that saved the content, so content is
+   * never left hidden without a report.
+   */
+  async holdForReview(
+    context: ContentFilterContext,
+    targetId: string,
+    verdict: ContentVerdict,
+    reportRepository: ReportRepository = this.reportRepository
+  ): Promise<void> {
+    try {
+      const targetType = HOLDABLE_CONTEXTS[context];
+
+      if (!targetType || verdict.action !== 'hold') {
+        return;
+      }
+
+      const pending = await reportRepository.findPendingForTarget(targetType, targetId);
+      if (pending.some(report => report.held)) {
+        return;
+      }
+
+      await reportRepository.create({
+        targetType,
+        targetId,
+        reason: verdict.matches[0].reason,
+        details: `Held by the content filter: ${verdict.matches.map(({ name }) => name).join(', ')}`,
+        reporterId: null,
+        held: true
+      });
+      logger.info(`Content filter held ${context} ${targetId} for review`);
+    } catch (error: any) {
+      logger.error(`Error holding content for review: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every rule
+   */
+  async getRules(): Promise<ContentFilterRule[]> {
+    try {
+      return await this.filterRuleRepository.findAll();
+    } catch (error: any) {
+      logger.error(`Error fetching content filter rules: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a rule by ID
+   */
+  async getRule(ruleId: string): Promise<ContentFilterRule> {
+    try {
+      const rule = await this.filterRuleRepository.findById(ruleId);
+
+      if (!rule) {
+        throw new NotFoundError('Content filter rule not found');
+      }
+
+      return rule;
+    } catch (error: any) {
+      logger.error(`Error fetching content filter rule by ID: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a rule
+   */
+  async createRule(data: CreateFilterRuleInput): Promise<ContentFilterRule> {
+    try {
+      this.validateRule(data);
+
+      return await this.filterRuleRepository.create(data);
+    } catch (error: any) {
+      logger.error(`Error creating content filter rule: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a rule
+   */
+  async updateRule(ruleId: string, data: UpdateFilterRuleInput): Promise<ContentFilterRule> {
+    try {
+      const rule = await this.getRule(ruleId);
+
+      this.validateRule({ ...rule, ...data });
+
+      return await this.filterRuleRepository.update(ruleId, data);
+    } catch (error: any) {
+      logger.error(`Error updating content filter rule: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a rule
+   */
+  async deleteRule(ruleId: string): Promise<void> {
+    try {
+      await this.getRule(ruleId);
+      await this.filterRuleRepository.delete(ruleId);
+    } catch (error: any) {
+      logger.error(`Error deleting content filter rule: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Each rule type needs its own settings; regexes must compile
+  private validateRule(rule: CreateFilterRuleInput): void {
+    if (PATTERN_TYPES.includes(rule.type) && !rule.pattern) {
+      throw new ValidationError(`${rule.type} rules need a pattern`, [{ path: ['body', 'pattern'], message: 'Required' }]);
+    }
+
+    if (THRESHOLD_TYPES.includes(rule.type) && rule.type !== 'spam' && (rule.threshold === undefined || rule.threshold === null)) {
+      throw new ValidationError(`${rule.type} rules need a threshold`, [{ path: ['body', 'threshold'], message: 'Required' }]);
+    }
+
+    if (rule.type === 'velocity' && !rule.windowSeconds) {
+      throw new ValidationError('velocity rules need a window', [{ path: ['body', 'windowSeconds'], message: 'Required' }]);
+    }
+
+    if (rule.type === 'regex' && rule.pattern) {
+      try {
+        compileRulePattern(rule.pattern);
+      } catch (error: any) {
+        throw new ValidationError('Invalid regular expression', [{ path: ['body', 'pattern'], message: error.message }]);
+      }
+    }
+  }
+}
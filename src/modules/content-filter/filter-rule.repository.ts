@@ -0,0 +1,88 @@
+import { ContentFilterAction, ContentFilterContext, ContentFilterRule, ContentFilterRuleType, ReportReason } from '@prisma/client';
+import { DbClient } from '../../config/database';
+
+// Type for rule creation
+export type CreateFilterRuleInput = {
+  name: string;
+  type: ContentFilterRuleType;
+  pattern?: string | null;
+  threshold?: number | null;
+  windowSeconds?: number | null;
+  action: ContentFilterAction;
+  reason?: ReportReason;
+  contexts: ContentFilterContext[];
+  enabled?: boolean;
+};
+
+// Type for rule update
+export type UpdateFilterRuleInput = Partial<CreateFilterRuleInput>;
+
+export class FilterRuleRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Find all rules, oldest first
+   */
+  async findAll(): Promise<ContentFilterRule[]> {
+    return this.db.contentFilterRule.findMany({
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Find the enabled rules that run in a context
+   */
+  async findEnabled(context: ContentFilterContext): Promise<ContentFilterRule[]> {
+    return this.db.contentFilterRule.findMany({
+      where: {
+        enabled: true,
+        OR: [
+          { contexts: { has: context } },
+          { contexts: { isEmpty: true } }
+        ]
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Find a rule by ID
+   */
+  async findById(id: string): Promise<ContentFilterRule | null> {
+    return this.db.contentFilterRule.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Create a rule
+   */
+  async create(data: CreateFilterRuleInput): Promise<ContentFilterRule> {
+    return this.db.contentFilterRule.create({
+      data
+    });
+  }
+
+  /**
+   * Update a rule
+   */
+  async update(id: string, data: UpdateFilterRuleInput): Promise<ContentFilterRule> {
+    return this.db.contentFilterRule.update({
+      where: { id },
+      data
+    });
+  }
+
+  /**
+   * Delete a rule
+   */
+  async delete(id: string): Promise<ContentFilterRule> {
+    return this.db.contentFilterRule.delete({
+      where: { id }
+    });
+  }
+}
@@ -1,33 +1,25 @@
-import { Request, Response } from 'express';
-import { z } from 'zod';
+import { Response, NextFunction } from 'express';
 import { EngagementService } from './engagement.service';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const commentSchema = z.object({
-  comment: z.string().min(1).max(1000),
-  parentId: z.string().uuid().optional()
-});
+import { UnauthorizedError } from '../../utils/errors';
+import { engagementSchemas } from './engagement.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
 
 export class EngagementController {
   private engagementService: EngagementService;
 
-  constructor() {
-    this.engagementService = new EngagementService();
+  constructor(engagementService: EngagementService) {
+    this.engagementService = engagementService;
   }
 
   /**
    * Like content
    */
-  async likeContent(req: Request, res: Response): Promise<void> {
+  async likeContent(req: ValidatedRequest<typeof engagementSchemas.like>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { contentId, contentType } = req.params;
@@ -45,36 +37,19 @@ export class EngagementController {
         message: 'Content liked successfully',
         data: like
       });
-    } catch (error: any) {
-      logger.error(`Error in likeContent: ${error.message}`);
-      
-      if (error.message === 'User has already liked this content') {
-        res.status(400).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Unlike content
    */
-  async unlikeContent(req: Request, res: Response): Promise<void> {
+  async unlikeContent(req: ValidatedRequest<typeof engagementSchemas.unlike>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { contentId } = req.params;
@@ -90,53 +65,23 @@ export class EngagementController {
         success: true,
         message: 'Like removed successfully'
       });
-    } catch (error: any) {
-      logger.error(`Error in unlikeContent: ${error.message}`);
-      
-      if (error.message === 'Like not found') {
-        res.status(404).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Add a comment to content
    */
-  async addComment(req: Request, res: Response): Promise<void> {
+  async addComment(req: ValidatedRequest<typeof engagementSchemas.comment>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
-      }
-
-      // Validate request body
-      const validationResult = commentSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { contentId, contentType } = req.params;
-      const { comment, parentId } = validationResult.data;
-      const contentOwnerId = req.body.contentOwnerId; // Optional
+      const { comment, parentId, contentOwnerId } = req.body;
       
       const newComment = await this.engagementService.createComment(
         req.user.id,
@@ -152,80 +97,43 @@ export class EngagementController {
         message: 'Comment added successfully',
         data: newComment
       });
-    } catch (error: any) {
-      logger.error(`Error in addComment: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Delete a comment
    */
-  async deleteComment(req: Request, res: Response): Promise<void> {
+  async deleteComment(req: ValidatedRequest<typeof engagementSchemas.deleteComment>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { commentId } = req.params;
-      const isAdmin = req.user.role === 'Admin';
       const contentOwnerId = req.body.contentOwnerId; // Optional
       
-      await this.engagementService.deleteComment(
-        commentId,
-        req.user.id,
-        isAdmin,
-        contentOwnerId
-      );
+      await this.engagementService.deleteComment(commentId, req.user, contentOwnerId);
       
       res.status(200).json({
         success: true,
         message: 'Comment deleted successfully'
       });
-    } catch (error: any) {
-      logger.error(`Error in deleteComment: ${error.message}`);
-      
-      if (error.message === 'Comment not found') {
-        res.status(404).json({
-          success: false,
-          message: error.message
-        });
-      } else if (error.message === 'You are not authorized to delete this comment') {
-        res.status(403).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Share content
    */
-  async shareContent(req: Request, res: Response): Promise<void> {
+  async shareContent(req: ValidatedRequest<typeof engagementSchemas.share>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { contentId, contentType } = req.params;
@@ -243,20 +151,15 @@ export class EngagementController {
         message: 'Content shared successfully',
         data: share
       });
-    } catch (error: any) {
-      logger.error(`Error in shareContent: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get engagement counts for content
    */
-  async getEngagementCounts(req: Request, res: Response): Promise<void> {
+  async getEngagementCounts(req: ValidatedRequest<typeof engagementSchemas.counts>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { contentId } = req.params;
       const counts = await this.engagementService.getEngagementCounts(contentId);
@@ -265,28 +168,19 @@ export class EngagementController {
         success: true,
         data: counts
       });
-    } catch (error: any) {
-      logger.error(`Error in getEngagementCounts: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Check if user has liked content
    */
-  async hasUserLiked(req: Request, res: Response): Promise<void> {
+  async hasUserLiked(req: ValidatedRequest<typeof engagementSchemas.hasLiked>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { contentId } = req.params;
@@ -299,156 +193,73 @@ export class EngagementController {
         success: true,
         data: { hasLiked }
       });
-    } catch (error: any) {
-      logger.error(`Error in hasUserLiked: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get likes for content
    */
-  async getLikes(req: Request, res: Response): Promise<void> {
+  async getLikes(req: ValidatedRequest<typeof engagementSchemas.listContent>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { contentId } = req.params;
       
-      // Parse pagination parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '20');
+      const result = await this.engagementService.getLikes(contentId, req.query);
       
-      const result = await this.engagementService.getLikes(contentId, { page, limit });
-      
-      res.status(200).json({
-        success: true,
-        data: result.likes,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getLikes: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get comments for content
    */
-  async getComments(req: Request, res: Response): Promise<void> {
+  async getComments(req: ValidatedRequest<typeof engagementSchemas.listComments>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { contentId } = req.params;
       
-      // Parse pagination and filter parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '20');
-      const parentId = req.query.parentId as string || null;
+      const { parentId, ...options } = req.query;
       
       const result = await this.engagementService.getComments(contentId, {
-        page,
-        limit,
-        parentId
+        ...options,
+        parentId: parentId ?? null
       });
       
-      res.status(200).json({
-        success: true,
-        data: result.comments,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getComments: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get replies to a comment
    */
-  async getCommentReplies(req: Request, res: Response): Promise<void> {
+  async getCommentReplies(req: ValidatedRequest<typeof engagementSchemas.listReplies>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { commentId } = req.params;
       
-      // Parse pagination parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '20');
+      const result = await this.engagementService.getCommentReplies(commentId, req.query);
       
-      const result = await this.engagementService.getCommentReplies(commentId, {
-        page,
-        limit
-      });
-      
-      res.status(200).json({
-        success: true,
-        data: result.replies,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getCommentReplies: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get shares for content
    */
-  async getShares(req: Request, res: Response): Promise<void> {
+  async getShares(req: ValidatedRequest<typeof engagementSchemas.listContent>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { contentId } = req.params;
       
-      // Parse pagination parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '20');
-      
-      const result = await this.engagementService.getShares(contentId, {
-        page,
-        limit
-      });
+      const result = await this.engagementService.getShares(contentId, req.query);
       
-      res.status(200).json({
-        success: true,
-        data: result.shares,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getShares: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 }
@@ -1,6 +1,6 @@
-import { PrismaClient, Engagement, EngagementType } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { Engagement, EngagementType } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Types for engagement operations
 export type CreateEngagementInput = {
@@ -15,9 +15,8 @@ export type CreateEngagementInput = {
 export type EngagementWithUser = Engagement & {
   user: {
     id: string;
-    name: string;
-    username: string;
-    profileImage?: string;
+    displayName: string;
+    avatarUrl: string | null;
   };
 };
 
@@ -29,18 +28,26 @@ export type EngagementCount = {
 };
 
 export class EngagementRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Create a new engagement
+   * hiddenAt is set when the content filter holds a comment for review.
    */
-  async create(data: CreateEngagementInput): Promise<Engagement> {
-    return prisma.engagement.create({
+  async create(data: CreateEngagementInput & { hiddenAt?: Date }): Promise<Engagement> {
+    return this.db.engagement.create({
       data: {
         userId: data.userId,
         contentId: data.contentId,
         contentType: data.contentType,
         type: data.type,
         comment: data.comment,
-        parentId: data.parentId
+        parentId: data.parentId,
+        hiddenAt: data.hiddenAt
       }
     });
   }
@@ -49,16 +56,49 @@ export class EngagementRepository {
    * Find engagement by ID
    */
   async findById(id: string): Promise<Engagement | null> {
-    return prisma.engagement.findUnique({
+    return this.db.engagement.findUnique({
       where: { id }
     });
   }
 
+  /**
+   * Find who posted a piece of content, for the content types this API stores
+   * Returns null for unknown types and missing content.
+   */
+  async findContentOwnerId(contentId: string, contentType: string): Promise<string | null> {
+    switch (contentType.toLowerCase()) {
+      case 'post': {
+        const post = await this.db.post.findUnique({ where: { id: contentId }, select: { userId: true } });
+        return post?.userId ?? null;
+      }
+      case 'product': {
+        const product = await this.db.marketplaceProduct.findUnique({ where: { id: contentId }, select: { sellerId: true } });
+        return product?.sellerId ?? null;
+      }
+      case 'comment': {
+        const comment = await this.db.engagement.findUnique({ where: { id: contentId }, select: { userId: true } });
+        return comment?.userId ?? null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Hide a comment from its thread and counts, or show it again with null
+   */
+  async setHiddenAt(id: string, hiddenAt: Date | null): Promise<Engagement> {
+    return this.db.engagement.update({
+      where: { id },
+      data: { hiddenAt }
+    });
+  }
+
   /**
    * Delete an engagement
    */
   async delete(id: string): Promise<Engagement> {
-    return prisma.engagement.delete({
+    return this.db.engagement.delete({
       where: { id }
     });
   }
@@ -71,7 +111,7 @@ export class EngagementRepository {
     contentId: string,
     type: EngagementType
   ): Promise<Engagement | null> {
-    return prisma.engagement.findFirst({
+    return this.db.engagement.findFirst({
       where: {
         userId,
         contentId,
@@ -84,10 +124,20 @@ export class EngagementRepository {
    * Count engagements for content
    */
   async countEngagements(contentId: string): Promise<EngagementCount> {
-    const counts = await prisma.engagement.groupBy({
-      by: ['type'],
+    const counts = await this.countEngagementsByContent([contentId]);
+    return counts.get(contentId) as EngagementCount;
+  }
+
+  /**
+   * Count engagements for many pieces of content in one query
+   * Every requested ID is in the result, with zero counts if it has none
+   */
+  async countEngagementsByContent(contentIds: string[]): Promise<Map<string, EngagementCount>> {
+    const counts = await this.db.engagement.groupBy({
+      by: ['contentId', 'type'],
       where: {
-        contentId
+        contentId: { in: contentIds },
+        hiddenAt: null
       },
       _count: {
         id: true
@@ -95,15 +145,14 @@ export class EngagementRepository {
     });
 
     // Initialize counts
-    let result: EngagementCount = {
-      likes: 0,
-      comments: 0,
-      shares: 0,
-      total: 0
-    };
+    const results = new Map<string, EngagementCount>(
+      contentIds.map(id => [id, { likes: 0, comments: 0, shares: 0, total: 0 }])
+    );
 
     // Process the group by results
     counts.forEach(count => {
+      const result = results.get(count.contentId) as EngagementCount;
+
       switch (count.type) {
         case 'Like':
           result.likes = count._count.id;
@@ -115,12 +164,12 @@ export class EngagementRepository {
           result.shares = count._count.id;
           break;
       }
-    });
 
-    // Calculate total
-    result.total = result.likes + result.comments + result.shares;
+      // Calculate total
+      result.total = result.likes + result.comments + result.shares;
+    });
 
-    return result;
+    return results;
   }
 
   /**
@@ -128,16 +177,11 @@ export class EngagementRepository {
    */
   async getLikes(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ likes: EngagementWithUser[]; total: number }> {
-    const { page = 1, limit = 20 } = options;
-    const skip = (page - 1) * limit;
-
-    const [likes, total] = await Promise.all([
-      prisma.engagement.findMany({
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
+    return paginate(options, {
+      findMany: (args) => this.db.engagement.findMany({
+        ...args,
         where: {
           contentId,
           type: 'Like'
@@ -146,27 +190,19 @@ export class EngagementRepository {
           user: {
             select: {
               id: true,
-              name: true,
-              username: true,
-              profileImage: true
+              displayName: true,
+              avatarUrl: true
             }
           }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip,
-        take: limit
+        }
       }),
-      prisma.engagement.count({
+      count: () => this.db.engagement.count({
         where: {
           contentId,
           type: 'Like'
         }
       })
-    ]);
-
-    return { likes, total };
+    });
   }
 
   /**
@@ -174,48 +210,40 @@ export class EngagementRepository {
    */
   async getComments(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
+    options: PageOptions & {
       parentId?: string | null;
-    } = {}
-  ): Promise<{ comments: EngagementWithUser[]; total: number }> {
-    const { page = 1, limit = 20, parentId = null } = options;
-    const skip = (page - 1) * limit;
+    }
+  ): Promise<Page<EngagementWithUser>> {
+    const { parentId = null } = options;
 
-    const [comments, total] = await Promise.all([
-      prisma.engagement.findMany({
+    return paginate(options, {
+      findMany: (args) => this.db.engagement.findMany({
+        ...args,
         where: {
           contentId,
           type: 'Comment',
-          parentId
+          parentId,
+          hiddenAt: null
         },
         include: {
           user: {
             select: {
               id: true,
-              name: true,
-              username: true,
-              profileImage: true
+              displayName: true,
+              avatarUrl: true
             }
           }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip,
-        take: limit
+        }
       }),
-      prisma.engagement.count({
+      count: () => this.db.engagement.count({
         where: {
           contentId,
           type: 'Comment',
-          parentId
+          parentId,
+          hiddenAt: null
         }
       })
-    ]);
-
-    return { comments, total };
+    });
   }
 
   /**
@@ -223,45 +251,34 @@ export class EngagementRepository {
    */
   async getCommentReplies(
     commentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ replies: EngagementWithUser[]; total: number }> {
-    const { page = 1, limit = 20 } = options;
-    const skip = (page - 1) * limit;
-
-    const [replies, total] = await Promise.all([
-      prisma.engagement.findMany({
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
+    return paginate(options, {
+      findMany: (args) => this.db.engagement.findMany({
+        ...args,
         where: {
           parentId: commentId,
-          type: 'Comment'
+          type: 'Comment',
+          hiddenAt: null
         },
         include: {
           user: {
             select: {
               id: true,
-              name: true,
-              username: true,
-              profileImage: true
+              displayName: true,
+              avatarUrl: true
             }
           }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip,
-        take: limit
+        }
       }),
-      prisma.engagement.count({
+      count: () => this.db.engagement.count({
         where: {
           parentId: commentId,
-          type: 'Comment'
+          type: 'Comment',
+          hiddenAt: null
         }
       })
-    ]);
-
-    return { replies, total };
+    });
   }
 
   /**
@@ -269,16 +286,11 @@ export class EngagementRepository {
    */
   async getShares(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ shares: EngagementWithUser[]; total: number }> {
-    const { page = 1, limit = 20 } = options;
-    const skip = (page - 1) * limit;
-
-    const [shares, total] = await Promise.all([
-      prisma.engagement.findMany({
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
+    return paginate(options, {
+      findMany: (args) => this.db.engagement.findMany({
+        ...args,
         where: {
           contentId,
           type: 'Share'
@@ -287,26 +299,18 @@ export class EngagementRepository {
           user: {
             select: {
               id: true,
-              name: true,
-              username: true,
-              profileImage: true
+              displayName: true,
+              avatarUrl: true
             }
           }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip,
-        take: limit
+        }
       }),
-      prisma.engagement.count({
+      count: () => this.db.engagement.count({
         where: {
           contentId,
           type: 'Share'
         }
       })
-    ]);
-
-    return { shares, total };
+    });
   }
 }
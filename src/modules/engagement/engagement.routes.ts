@@ -1,31 +1,37 @@
 import { Router } from 'express';
-import { EngagementController } from './engagement.controller';
-import { requireAuth, populateUser } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { engagementSchemas } from './engagement.schemas';
 
-const router = Router();
-const engagementController = new EngagementController();
+/**
+ * Engagement routes, mounted at /api/engagement
+ */
+export const createEngagementRoutes = ({ engagementController, auth, rateLimits }: Container): Router => {
+  const router = Router();
 
-// Public routes for retrieving engagement data
-router.get('/content/:contentId/counts', (req, res) => engagementController.getEngagementCounts(req, res));
-router.get('/content/:contentId/likes', (req, res) => engagementController.getLikes(req, res));
-router.get('/content/:contentId/comments', (req, res) => engagementController.getComments(req, res));
-router.get('/content/:contentId/shares', (req, res) => engagementController.getShares(req, res));
-router.get('/comments/:commentId/replies', (req, res) => engagementController.getCommentReplies(req, res));
+  // Public routes for retrieving engagement data
+  router.get('/content/:contentId/counts', validate(engagementSchemas.counts), (req, res, next) => engagementController.getEngagementCounts(req, res, next));
+  router.get('/content/:contentId/likes', validate(engagementSchemas.listContent), (req, res, next) => engagementController.getLikes(req, res, next));
+  router.get('/content/:contentId/comments', validate(engagementSchemas.listComments), (req, res, next) => engagementController.getComments(req, res, next));
+  router.get('/content/:contentId/shares', validate(engagementSchemas.listContent), (req, res, next) => engagementController.getShares(req, res, next));
+  router.get('/comments/:commentId/replies', validate(engagementSchemas.listReplies), (req, res, next) => engagementController.getCommentReplies(req, res, next));
 
-// Protected routes that require authentication
-router.use(requireAuth);
-router.use(populateUser);
+  // Protected routes that require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Check if current user has liked content
-router.get('/content/:contentId/hasLiked', (req, res) => engagementController.hasUserLiked(req, res));
+  // Check if current user has liked content
+  router.get('/content/:contentId/hasLiked', validate(engagementSchemas.hasLiked), (req, res, next) => engagementController.hasUserLiked(req, res, next));
 
-// Create engagement
-router.post('/content/:contentId/type/:contentType/like', (req, res) => engagementController.likeContent(req, res));
-router.delete('/content/:contentId/like', (req, res) => engagementController.unlikeContent(req, res));
-router.post('/content/:contentId/type/:contentType/comment', (req, res) => engagementController.addComment(req, res));
-router.post('/content/:contentId/type/:contentType/share', (req, res) => engagementController.shareContent(req, res));
+  // Create engagement
+  router.post('/content/:contentId/type/:contentType/like', validate(engagementSchemas.like), (req, res, next) => engagementController.likeContent(req, res, next));
+  router.delete('/content/:contentId/like', validate(engagementSchemas.unlike), (req, res, next) => engagementController.unlikeContent(req, res, next));
+  router.post('/content/:contentId/type/:contentType/comment', rateLimits.createComment, validate(engagementSchemas.comment), (req, res, next) => engagementController.addComment(req, res, next));
+  router.post('/content/:contentId/type/:contentType/share', validate(engagementSchemas.share), (req, res, next) => engagementController.shareContent(req, res, next));
 
-// Delete comment
-router.delete('/comments/:commentId', (req, res) => engagementController.deleteComment(req, res));
+  // Delete comment
+  router.delete('/comments/:commentId', validate(engagementSchemas.deleteComment), (req, res, next) => engagementController.deleteComment(req, res, next));
 
-export default router;
+  return router;
+};
@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { EngagementType } from '@prisma/client';
+import { pageQuery, timestamp } from '../../utils/schemas';
+
+const contentParams = z.object({
+  contentId: z.string().uuid()
+});
+
+const typedContentParams = contentParams.extend({
+  contentType: z.string().min(1).max(50)
+});
+
+const commentParams = z.object({
+  commentId: z.string().uuid()
+});
+
+// Likes, comments and shares sort by when they were made, newest first by default
+const engagementListQuery = pageQuery(['createdAt'], 20);
+
+// The content owner is optional; when given, their reputation follows the engagement
+const ownerBody = z.object({
+  contentOwnerId: z.string().uuid().optional()
+});
+
+const engagement = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  contentId: z.string().uuid(),
+  contentType: z.string(),
+  type: z.nativeEnum(EngagementType),
+  comment: z.string().nullable(),
+  parentId: z.string().uuid().nullable(),
+  hiddenAt: timestamp.nullable(),
+  createdAt: timestamp
+});
+
+// Lists show who engaged, by name and avatar only
+const engagementList = z.array(engagement.extend({
+  user: z.object({
+    id: z.string().uuid(),
+    displayName: z.string(),
+    avatarUrl: z.string().nullable()
+  })
+}));
+
+/**
+ * Request and response schemas for engagement routes
+ */
+export const engagementSchemas = {
+  like: {
+    params: typedContentParams,
+    body: ownerBody,
+    response: engagement
+  },
+
+  unlike: {
+    params: contentParams,
+    body: ownerBody
+  },
+
+  comment: {
+    params: typedContentParams,
+    body: ownerBody.extend({
+      comment: z.string().min(1).max(1000),
+      parentId: z.string().uuid().optional()
+    }),
+    response: engagement
+  },
+
+  deleteComment: {
+    params: commentParams,
+    body: ownerBody
+  },
+
+  share: {
+    params: typedContentParams,
+    body: ownerBody,
+    response: engagement
+  },
+
+  counts: {
+    params: contentParams,
+    response: z.object({
+      likes: z.number().int(),
+      comments: z.number().int(),
+      shares: z.number().int(),
+      total: z.number().int()
+    })
+  },
+
+  hasLiked: {
+    params: contentParams,
+    response: z.object({ hasLiked: z.boolean() })
+  },
+
+  listContent: {
+    params: contentParams,
+    query: engagementListQuery,
+    response: engagementList
+  },
+
+  listComments: {
+    params: contentParams,
+    query: engagementListQuery.extend({
+      parentId: z.string().uuid().optional()
+    }),
+    response: engagementList
+  },
+
+  listReplies: {
+    params: commentParams,
+    query: engagementListQuery,
+    response: engagementList
+  }
+};
@@ -5,16 +5,34 @@ import {
   EngagementWithUser,
   EngagementCount
 } from './engagement.repository';
+import { RestrictionRepository } from '../users/restriction.repository';
 import { RankingService } from '../rankings/ranking.service';
+import { ContentFilterService } from '../content-filter/content-filter.service';
 import logger from '../../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+import { Actor, authorize } from '../../utils/policy';
+import { Page, PageOptions } from '../../utils/pagination';
+import { TransactionRunner } from '../../container';
 
 export class EngagementService {
   private engagementRepository: EngagementRepository;
+  private restrictionRepository: RestrictionRepository;
   private rankingService: RankingService;
+  private contentFilterService: ContentFilterService;
+  private transaction: TransactionRunner;
 
-  constructor() {
-    this.engagementRepository = new EngagementRepository();
-    this.rankingService = new RankingService();
+  constructor(
+    engagementRepository: EngagementRepository,
+    restrictionRepository: RestrictionRepository,
+    rankingService: RankingService,
+    contentFilterService: ContentFilterService,
+    transaction: TransactionRunner
+  ) {
+    this.engagementRepository = engagementRepository;
+    this.restrictionRepository = restrictionRepository;
+    this.rankingService = rankingService;
+    this.contentFilterService = contentFilterService;
+    this.transaction = transaction;
   }
 
   /**
@@ -27,6 +45,8 @@ export class EngagementService {
     contentOwnerId?: string
   ): Promise<Engagement> {
     try {
+      await this.requireNotBlocked(userId, contentId, contentType, contentOwnerId);
+
       // Check if user already liked the content
       const existingLike = await this.engagementRepository.findUserEngagement(
         userId,
@@ -35,7 +55,7 @@ export class EngagementService {
       );
       
       if (existingLike) {
-        throw new Error('User has already liked this content');
+        throw new ConflictError('User has already liked this content');
       }
       
       // Create the like
@@ -80,7 +100,7 @@ export class EngagementService {
       );
       
       if (!existingLike) {
-        throw new Error('Like not found');
+        throw new NotFoundError('Like not found');
       }
       
       // Delete the like
@@ -119,17 +139,28 @@ export class EngagementService {
     try {
       // Validate comment
       if (!comment || comment.trim().length === 0) {
-        throw new Error('Comment content is required');
+        throw new ValidationError('Comment content is required');
       }
+
+      await this.requireNotBlocked(userId, contentId, contentType, contentOwnerId, parentId);
+
+      // Rejected text throws; held comments are saved hidden until a moderator reviews them
+      const verdict = await this.contentFilterService.screen({ context: 'comment', userId, text: comment });
       
       // Create the comment
-      const engagement = await this.engagementRepository.create({
-        userId,
-        contentId,
-        contentType,
-        type: 'Comment',
-        comment,
-        parentId
+      const engagement = await this.transaction(async ({ engagementRepository, reportRepository }) => {
+        const created = await engagementRepository.create({
+          userId,
+          contentId,
+          contentType,
+          type: 'Comment',
+          comment,
+          parentId,
+          ...(verdict.action === 'hold' && { hiddenAt: new Date() })
+        });
+        await this.contentFilterService.holdForReview('comment', created.id, verdict, reportRepository);
+
+        return created;
       });
       
       // If we know the content owner, update their ranking
@@ -158,8 +189,7 @@ export class EngagementService {
    */
   async deleteComment(
     commentId: string, 
-    userId: string,
-    isAdmin: boolean = false,
+    actor: Actor,
     contentOwnerId?: string
   ): Promise<Engagement> {
     try {
@@ -167,19 +197,17 @@ export class EngagementService {
       const comment = await this.engagementRepository.findById(commentId);
       
       if (!comment) {
-        throw new Error('Comment not found');
+        throw new NotFoundError('Comment not found');
       }
       
       // Check authorization
-      if (!isAdmin && comment.userId !== userId) {
-        throw new Error('You are not authorized to delete this comment');
-      }
+      authorize(actor, 'comment', 'delete', comment, 'You are not authorized to delete this comment');
       
       // Delete the comment
       const deletedComment = await this.engagementRepository.delete(commentId);
       
       // If we know the content owner, update their ranking (negative adjustment)
-      if (contentOwnerId && contentOwnerId !== userId) {
+      if (contentOwnerId && contentOwnerId !== comment.userId) {
         try {
           await this.rankingService.applyPostEngagementRanking(
             contentOwnerId,
@@ -209,6 +237,8 @@ export class EngagementService {
     contentOwnerId?: string
   ): Promise<Engagement> {
     try {
+      await this.requireNotBlocked(userId, contentId, contentType, contentOwnerId);
+
       // Create the share
       const share = await this.engagementRepository.create({
         userId,
@@ -250,6 +280,18 @@ export class EngagementService {
     }
   }
 
+  /**
+   * Get engagement counts for many pieces of content, keyed by content ID
+   */
+  async getEngagementCountsByContent(contentIds: string[]): Promise<Map<string, EngagementCount>> {
+    try {
+      return await this.engagementRepository.countEngagementsByContent(contentIds);
+    } catch (error: any) {
+      logger.error(`Error getting engagement counts: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Check if a user has liked content
    */
@@ -273,11 +315,8 @@ export class EngagementService {
    */
   async getLikes(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ likes: EngagementWithUser[]; total: number }> {
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
     try {
       return await this.engagementRepository.getLikes(contentId, options);
     } catch (error: any) {
@@ -291,12 +330,10 @@ export class EngagementService {
    */
   async getComments(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
+    options: PageOptions & {
       parentId?: string | null;
-    } = {}
-  ): Promise<{ comments: EngagementWithUser[]; total: number }> {
+    }
+  ): Promise<Page<EngagementWithUser>> {
     try {
       return await this.engagementRepository.getComments(contentId, options);
     } catch (error: any) {
@@ -310,11 +347,8 @@ export class EngagementService {
    */
   async getCommentReplies(
     commentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ replies: EngagementWithUser[]; total: number }> {
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
     try {
       return await this.engagementRepository.getCommentReplies(commentId, options);
     } catch (error: any) {
@@ -328,11 +362,8 @@ export class EngagementService {
    */
   async getShares(
     contentId: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ shares: EngagementWithUser[]; total: number }> {
+    options: PageOptions
+  ): Promise<Page<EngagementWithUser>> {
     try {
       return await this.engagementRepository.getShares(contentId, options);
     } catch (error: any) {
@@ -340,4 +371,28 @@ export class EngagementService {
       throw error;
     }
   }
+
+  /**
+   * Refuse engagement from a user blocked by the content's owner, or by the
+   * author of the comment being replied to
+   * The owner is looked up for stored content types, since the one a client
+   * sends can't be trusted to enforce a block.
+   */
+  private async requireNotBlocked(
+    userId: string,
+    contentId: string,
+    contentType: string,
+    contentOwnerId?: string,
+    parentId?: string
+  ): Promise<void> {
+    const ownerIds = await Promise.all([
+      this.engagementRepository.findContentOwnerId(contentId, contentType),
+      parentId ? this.engagementRepository.findContentOwnerId(parentId, 'comment') : null
+    ]);
+    const userIds = [contentOwnerId, ...ownerIds].filter((id): id is string => !!id && id !== userId);
+
+    if (userIds.length > 0 && await this.restrictionRepository.isBlockedByAny(userIds, userId)) {
+      throw new ForbiddenError('You cannot interact with this user\'s content');
+    }
+  }
 }
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { LedgerService } from './ledger.service';
+import { ReconciliationService } from './reconciliation.service';
+import { UnauthorizedError } from '../../utils/errors';
+import { ledgerSchemas } from './ledger.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+
+export class LedgerController {
+  private ledgerService: LedgerService;
+  private reconciliationService: ReconciliationService;
+
+  constructor(ledgerService: LedgerService, reconciliationService: ReconciliationService) {
+    this.ledgerService = ledgerService;
+    this.reconciliationService = reconciliationService;
+  }
+
+  /**
+   * Get the current user's ledger balances
+   */
+  async getMyBalance(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const balances = await this.ledgerService.getUserBalances(req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: balances
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a user's ledger balances
+   */
+  async getUserBalance(req: ValidatedRequest<typeof ledgerSchemas.userBalance>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const balances = await this.ledgerService.getUserBalances(id);
+
+      res.status(200).json({
+        success: true,
+        data: balances
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Compare the ledger with Stripe
+   */
+  async getReconciliationReport(req: ValidatedRequest<typeof ledgerSchemas.reconciliation>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const report = await this.reconciliationService.getReport(req.query);
+
+      res.status(200).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
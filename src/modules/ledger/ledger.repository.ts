@@ -0,0 +1,162 @@
+import {
+  Prisma,
+  LedgerAccount,
+  LedgerAccountType,
+  JournalEntry,
+  JournalEntryKind,
+  LedgerLine
+} from '@prisma/client';
+import { DbClient } from '../../config/database';
+
+// Type for finding or opening a ledger account
+export type LedgerAccountInput = {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  userId?: string;
+};
+
+// Type for journal entry creation; lines are signed, debits positive
+export type CreateJournalEntryInput = {
+  kind: JournalEntryKind;
+  reference: string;
+  description: string;
+  currency: string;
+  orderId?: string;
+  payoutId?: string;
+  stripeObjectId?: string;
+  lines: {
+    accountId: string;
+    amountCents: number;
+  }[];
+};
+
+// Journal entry with its lines and their accounts
+export type JournalEntryWithLines = JournalEntry & {
+  lines: (LedgerLine & {
+    account: LedgerAccount;
+  })[];
+};
+
+// Account with the signed sum of its lines
+export type LedgerAccountTotal = {
+  account: LedgerAccount;
+  totalCents: number;
+};
+
+export class LedgerRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Find an account by code, opening it on first use
+   */
+  async findOrCreateAccount(data: LedgerAccountInput): Promise<LedgerAccount> {
+    return this.db.ledgerAccount.upsert({
+      where: { code: data.code },
+      create: data,
+      update: {}
+    });
+  }
+
+  /**
+   * Find a journal entry by its reference
+   */
+  async findEntryByReference(reference: string): Promise<JournalEntryWithLines | null> {
+    return this.db.journalEntry.findUnique({
+      where: { reference },
+      include: {
+        lines: {
+          include: { account: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Create a journal entry and its lines in one insert
+   */
+  async createEntry(data: CreateJournalEntryInput): Promise<JournalEntryWithLines> {
+    const { lines, ...entry } = data;
+
+    return this.db.journalEntry.create({
+      data: {
+        ...entry,
+        lines: {
+          create: lines
+        }
+      },
+      include: {
+        lines: {
+          include: { account: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Find journal entries created in a time range
+   */
+  async findEntries(options: { from?: Date; to?: Date } = {}): Promise<JournalEntryWithLines[]> {
+    const where: Prisma.JournalEntryWhereInput = {};
+
+    if (options.from || options.to) {
+      where.createdAt = {
+        ...(options.from && { gte: options.from }),
+        ...(options.to && { lt: options.to })
+      };
+    }
+
+    return this.db.journalEntry.findMany({
+      where,
+      include: {
+        lines: {
+          include: { account: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Find every journal entry for a set of payouts, whenever it was created
+   */
+  async findEntriesByPayoutIds(payoutIds: string[]): Promise<JournalEntryWithLines[]> {
+    return this.db.journalEntry.findMany({
+      where: { payoutId: { in: payoutIds } },
+      include: {
+        lines: {
+          include: { account: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Signed line totals for accounts, optionally only a user's accounts
+   */
+  async getAccountTotals(userId?: string): Promise<LedgerAccountTotal[]> {
+    const accounts = await this.db.ledgerAccount.findMany({
+      where: userId ? { userId } : undefined,
+      orderBy: { code: 'asc' }
+    });
+
+    const sums = await this.db.ledgerLine.groupBy({
+      by: ['accountId'],
+      where: { accountId: { in: accounts.map(account => account.id) } },
+      _sum: { amountCents: true }
+    });
+
+    const totals = new Map(sums.map(sum => [sum.accountId, sum._sum.amountCents ?? 0]));
+
+    return accounts.map(account => ({
+      account,
+      totalCents: totals.get(account.id) ?? 0
+    }));
+  }
+}
@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { ledgerSchemas } from './ledger.schemas';
+
+/**
+ * Ledger routes, mounted at /api/ledger
+ */
+export const createLedgerRoutes = ({ ledgerController, auth }: Container): Router => {
+  const router = Router();
+
+  // All ledger routes require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
+
+  // Get the current user's balances
+  router.get('/balance', validate(ledgerSchemas.myBalance), (req, res, next) => ledgerController.getMyBalance(req, res, next));
+
+  // Routes that require a permission
+  router.get('/users/:id/balance', requirePermission('ledger:read'), validate(ledgerSchemas.userBalance), (req, res, next) => ledgerController.getUserBalance(req, res, next));
+  router.get('/reconciliation', requirePermission('ledger:read'), validate(ledgerSchemas.reconciliation), (req, res, next) => ledgerController.getReconciliationReport(req, res, next));
+
+  return router;
+};
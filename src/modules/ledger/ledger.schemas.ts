@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { LedgerAccountType } from '@prisma/client';
+import { idParams, timestamp } from '../../utils/schemas';
+
+// Balances in each account's natural direction, in cents
+const balances = z.array(z.object({
+  accountId: z.string().uuid(),
+  code: z.string(),
+  name: z.string(),
+  type: z.nativeEnum(LedgerAccountType),
+  currency: z.string(),
+  balanceCents: z.number().int()
+}));
+
+/**
+ * Request and response schemas for ledger routes
+ */
+export const ledgerSchemas = {
+  myBalance: {
+    response: balances
+  },
+
+  userBalance: {
+    params: idParams,
+    response: balances
+  },
+
+  reconciliation: {
+    query: z.object({
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+    }),
+    response: z.object({
+      from: timestamp.nullable(),
+      to: timestamp.nullable(),
+      entryCount: z.number().int(),
+      unbalancedEntries: z.array(z.string().uuid()),
+      checked: z.number().int(),
+      matched: z.number().int(),
+      mismatches: z.array(z.object({
+        kind: z.enum(['payment', 'transfer']),
+        stripeObjectId: z.string(),
+        orderId: z.string().uuid().nullable(),
+        ledgerCents: z.number().int(),
+        stripeCents: z.number().int().nullable(),
+        reason: z.string()
+      }))
+    })
+  }
+};
@@ -0,0 +1,240 @@
+import { Prisma, JournalEntryKind, LedgerAccountType, SellerPayout } from '@prisma/client';
+import {
+  LedgerRepository,
+  LedgerAccountInput,
+  JournalEntryWithLines
+} from './ledger.repository';
+import logger from '../../utils/logger';
+
+// Type for posting a journal entry; amounts are signed, debits positive
+export type PostEntryInput = {
+  kind: JournalEntryKind;
+  reference: string;
+  description: string;
+  currency: string;
+  orderId?: string;
+  payoutId?: string;
+  stripeObjectId?: string;
+  lines: {
+    account: LedgerAccountInput;
+    amountCents: number;
+  }[];
+};
+
+// Account balance in the account's natural direction
+export type LedgerBalance = {
+  accountId: string;
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  currency: string;
+  balanceCents: number;
+};
+
+/**
+ * Platform and seller accounts used by the marketplace postings
+ * Cash is what the platform holds in Stripe, fees are platform revenue and
+ * a seller account is what the platform owes that seller.
+ */
+export const ledgerAccounts = {
+  platformCash: (currency: string): LedgerAccountInput => ({
+    code: `platform:cash:${currency}`,
+    name: `Platform cash (${currency.toUpperCase()})`,
+    type: 'asset',
+    currency
+  }),
+  platformFees: (currency: string): LedgerAccountInput => ({
+    code: `platform:fees:${currency}`,
+    name: `Platform fees (${currency.toUpperCase()})`,
+    type: 'revenue',
+    currency
+  }),
+  sellerBalance: (userId: string, currency: string): LedgerAccountInput => ({
+    code: `seller:${userId}:${currency}`,
+    name: `Seller balance (${currency.toUpperCase()})`,
+    type: 'liability',
+    currency,
+    userId
+  })
+};
+
+/**
+ * Balance of an account from its signed line total
+ * Assets grow with debits; liabilities and revenue grow with credits
+ */
+export const toBalance = (type: LedgerAccountType, totalCents: number): number =>
+  type === 'asset' ? totalCents : -totalCents;
+
+export class LedgerService {
+  private ledgerRepository: LedgerRepository;
+
+  constructor(ledgerRepository: LedgerRepository) {
+    this.ledgerRepository = ledgerRepository;
+  }
+
+  /**
+   * Post a balanced journal entry
+   * Posting a reference that already exists returns the existing entry,
+   * so callers can safely post again when a webhook is redelivered
+   */
+  async postEntry(input: PostEntryInput): Promise<JournalEntryWithLines | null> {
+    try {
+      const lines = input.lines.filter(line => line.amountCents !== 0);
+
+      if (lines.some(line => !Number.isInteger(line.amountCents))) {
+        throw new Error('Ledger amounts must be whole cents');
+      }
+
+      if (lines.some(line => line.account.currency !== input.currency)) {
+        throw new Error('Ledger lines must use the entry currency');
+      }
+
+      if (lines.reduce((sum, line) => sum + line.amountCents, 0) !== 0) {
+        throw new Error('Journal entry does not balance');
+      }
+
+      // Nothing moved, e.g. a payout where the fee took the whole amount
+      if (lines.length === 0) {
+        return null;
+      }
+
+      const existing = await this.ledgerRepository.findEntryByReference(input.reference);
+
+      if (existing) {
+        return existing;
+      }
+
+      const accounts = await Promise.all(
+        lines.map(line => this.ledgerRepository.findOrCreateAccount(line.account))
+      );
+
+      try {
+        return await this.ledgerRepository.createEntry({
+          kind: input.kind,
+          reference: input.reference,
+          description: input.description,
+          currency: input.currency,
+          orderId: input.orderId,
+          payoutId: input.payoutId,
+          stripeObjectId: input.stripeObjectId,
+          lines: lines.map((line, index) => ({
+            accountId: accounts[index].id,
+            amountCents: line.amountCents
+          }))
+        });
+      } catch (error: any) {
+        // A concurrent delivery posted the same movement first
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+          return await this.ledgerRepository.findEntryByReference(input.reference);
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      logger.error(`Error posting journal entry ${input.reference}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the buyer's payment for a completed order
+   * The platform receives the gross amount, keeps its fee and owes the seller the rest
+   */
+  async recordCharge(payout: SellerPayout, paymentIntentId?: string | null): Promise<JournalEntryWithLines | null> {
+    return this.postEntry({
+      kind: 'charge',
+      reference: `order:${payout.orderId}:charge`,
+      description: `Buyer payment for order ${payout.orderId}`,
+      currency: payout.currency,
+      orderId: payout.orderId,
+      payoutId: payout.id,
+      stripeObjectId: paymentIntentId ?? undefined,
+      lines: [
+        { account: ledgerAccounts.platformCash(payout.currency), amountCents: payout.grossCents },
+        { account: ledgerAccounts.platformFees(payout.currency), amountCents: -payout.feeCents },
+        { account: ledgerAccounts.sellerBalance(payout.sellerId, payout.currency), amountCents: -payout.netCents }
+      ]
+    });
+  }
+
+  /**
+   * Record a transfer of the seller's share to their Connect account
+   */
+  async recordPayoutTransfer(payout: SellerPayout): Promise<JournalEntryWithLines | null> {
+    return this.postEntry({
+      kind: 'payout',
+      // A payout reversed for a dispute it then won is transferred again
+      reference: `payout:${payout.id}:transfer:${payout.stripeTransferId ?? 'none'}`,
+      description: `Payout to seller for order ${payout.orderId}`,
+      currency: payout.currency,
+      orderId: payout.orderId,
+      payoutId: payout.id,
+      stripeObjectId: payout.stripeTransferId ?? undefined,
+      lines: [
+        { account: ledgerAccounts.sellerBalance(payout.sellerId, payout.currency), amountCents: payout.netCents },
+        { account: ledgerAccounts.platformCash(payout.currency), amountCents: -payout.netCents }
+      ]
+    });
+  }
+
+  /**
+   * Record a transfer reversal that pulls a payout back from the seller
+   */
+  async recordPayoutReversal(payout: SellerPayout): Promise<JournalEntryWithLines | null> {
+    return this.postEntry({
+      kind: 'reversal',
+      reference: `payout:${payout.id}:reversal:${payout.stripeReversalId}`,
+      description: `Reversal of payout for order ${payout.orderId}`,
+      currency: payout.currency,
+      orderId: payout.orderId,
+      payoutId: payout.id,
+      stripeObjectId: payout.stripeReversalId ?? undefined,
+      lines: [
+        { account: ledgerAccounts.platformCash(payout.currency), amountCents: payout.netCents },
+        { account: ledgerAccounts.sellerBalance(payout.sellerId, payout.currency), amountCents: -payout.netCents }
+      ]
+    });
+  }
+
+  /**
+   * Record money returned to the buyer through a refund or a lost dispute
+   * Undoes the charge: the fee is given up and the seller's share is taken back,
+   * leaving the seller owing the platform if their payout could not be reversed
+   */
+  async recordRefund(payout: SellerPayout, stripeObjectId?: string): Promise<JournalEntryWithLines | null> {
+    return this.postEntry({
+      kind: 'refund',
+      reference: `order:${payout.orderId}:refund`,
+      description: `Refund to buyer for order ${payout.orderId}`,
+      currency: payout.currency,
+      orderId: payout.orderId,
+      payoutId: payout.id,
+      stripeObjectId,
+      lines: [
+        { account: ledgerAccounts.sellerBalance(payout.sellerId, payout.currency), amountCents: payout.netCents },
+        { account: ledgerAccounts.platformFees(payout.currency), amountCents: payout.feeCents },
+        { account: ledgerAccounts.platformCash(payout.currency), amountCents: -payout.grossCents }
+      ]
+    });
+  }
+
+  /**
+   * Get the balances of a user's ledger accounts
+   */
+  async getUserBalances(userId: string): Promise<LedgerBalance[]> {
+    try {
+      const totals = await this.ledgerRepository.getAccountTotals(userId);
+
+      return totals.map(({ account, totalCents }) => ({
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        balanceCents: toBalance(account.type, totalCents)
+      }));
+    } catch (error: any) {
+      logger.error(`Error fetching ledger balances: ${error.message}`);
+      throw error;
+    }
+  }
+}
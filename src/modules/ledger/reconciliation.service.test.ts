@@ -0,0 +1,125 @@
+import { PrismaClient, SellerPayout } from '@prisma/client';
+import { StripePaymentTotals, StripeTransferTotals } from '../payments/payment.service';
+import { ReconciliationService, ReconciliationSource } from './reconciliation.service';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+
+const prisma = new PrismaClient();
+const { ledgerRepository, ledgerService } = createContainer({ prisma, stripe: new FakeStripe() });
+
+// Stripe's side of each movement, set per test
+const payments = new Map<string, StripePaymentTotals>();
+const transfers = new Map<string, StripeTransferTotals>();
+
+const source: ReconciliationSource = {
+  getPaymentTotals: async id => payments.get(id) ?? null,
+  getTransferTotals: async id => transfers.get(id) ?? null
+};
+
+const reconciliationService = new ReconciliationService(ledgerRepository, source);
+
+let payout: SellerPayout;
+
+const paidOut = (amountCents: number, amountReversedCents = 0) =>
+  transfers.set('tr_1', { id: 'tr_1', amountCents, amountReversedCents, currency: 'usd' });
+
+const received = (amountReceivedCents: number, amountRefundedCents = 0) =>
+  payments.set('pi_1', { id: 'pi_1', amountReceivedCents, amountRefundedCents, currency: 'usd' });
+
+// Move an entry's posting time, so tests can place it inside or outside a report's range
+const postedAt = (kind: 'charge' | 'payout' | 'reversal' | 'refund', createdAt: Date) =>
+  prisma.journalEntry.updateMany({ where: { payoutId: payout.id, kind }, data: { createdAt } });
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  payments.clear();
+  transfers.clear();
+
+  const seller = await createTestUser(prisma, { role: 'Seller' });
+  const buyer = await createTestUser(prisma);
+  const product = await prisma.marketplaceProduct.create({
+    data: { sellerId: seller.id, title: 'Wool blanket', description: 'Hand-woven', priceCents: 6000, currency: 'usd', stock: 1 }
+  });
+  const order = await prisma.order.create({
+    data: { buyerId: buyer.id, productId: product.id, amountCents: 6000, currency: 'usd', status: 'completed', paymentIntentId: 'pi_1' }
+  });
+
+  payout = await prisma.sellerPayout.create({
+    data: {
+      orderId: order.id,
+      sellerId: seller.id,
+      grossCents: 6000,
+      feeCents: 600,
+      netCents: 5400,
+      currency: 'usd',
+      status: 'transferred',
+      stripeTransferId: 'tr_1'
+    }
+  });
+
+  await ledgerService.recordCharge(payout, 'pi_1');
+  await ledgerService.recordPayoutTransfer(payout);
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('ReconciliationService', () => {
+  it('matches payments and transfers that agree with Stripe', async () => {
+    received(6000);
+    paidOut(5400);
+
+    expect(await reconciliationService.getReport()).toMatchObject({
+      entryCount: 2,
+      unbalancedEntries: [],
+      checked: 2,
+      matched: 2,
+      mismatches: []
+    });
+  });
+
+  it('reports amounts that differ and objects Stripe does not know', async () => {
+    received(6000, 1000);
+
+    const report = await reconciliationService.getReport();
+
+    expect(report.matched).toBe(0);
+    expect(report.mismatches).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'payment', stripeObjectId: 'pi_1', ledgerCents: 6000, stripeCents: 5000, reason: 'Net amount differs' }),
+      expect.objectContaining({ kind: 'transfer', stripeObjectId: 'tr_1', ledgerCents: 5400, stripeCents: null, reason: 'Transfer not found in Stripe' })
+    ]));
+  });
+
+  it('counts refunds and reversals against the original payment intent and transfer', async () => {
+    await ledgerService.recordRefund(payout, 're_1');
+    await ledgerService.recordPayoutReversal({ ...payout, stripeReversalId: 'trr_1' });
+    received(6000, 6000);
+    paidOut(5400, 5400);
+
+    expect(await reconciliationService.getReport()).toMatchObject({ entryCount: 4, checked: 2, matched: 2 });
+  });
+
+  it('compares objects on their whole history, not just the entries in range', async () => {
+    await ledgerService.recordRefund(payout, 're_1');
+    received(6000, 6000);
+    paidOut(5400);
+
+    const january = new Date('2026-01-15T00:00:00Z');
+    const march = new Date('2026-03-15T00:00:00Z');
+    await postedAt('charge', january);
+    await postedAt('payout', january);
+    await postedAt('refund', march);
+
+    // The charge is in range and its refund after it
+    const charged = await reconciliationService.getReport({ from: new Date('2026-01-01Z'), to: new Date('2026-02-01Z') });
+    expect(charged).toMatchObject({ entryCount: 2, checked: 2, matched: 2 });
+
+    // The refund is in range and its charge before it
+    const refunded = await reconciliationService.getReport({ from: new Date('2026-03-01Z'), to: new Date('2026-04-01Z') });
+    expect(refunded).toMatchObject({ entryCount: 1, checked: 2, matched: 2 });
+  });
+
+  it('checks nothing when the range has no entries', async () => {
+    expect(await reconciliationService.getReport({ to: new Date('2000-01-01Z') })).toMatchObject({ entryCount: 0, checked: 0 });
+  });
+});
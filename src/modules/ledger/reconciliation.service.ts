@@ -0,0 +1,181 @@
+import { LedgerRepository, JournalEntryWithLines } from './ledger.repository';
+import { ledgerAccounts } from './ledger.service';
+import {
+  PaymentService,
+  StripePaymentTotals,
+  StripeTransferTotals
+} from '../payments/payment.service';
+import logger from '../../utils/logger';
+
+/**
+ * Where the reconciliation report reads Stripe's side of each movement
+ * The container wires the live Stripe source; tests can pass a stub instead.
+ */
+export interface ReconciliationSource {
+  getPaymentTotals(paymentIntentId: string): Promise<StripePaymentTotals | null>;
+  getTransferTotals(transferId: string): Promise<StripeTransferTotals | null>;
+}
+
+export class StripeReconciliationSource implements ReconciliationSource {
+  private paymentService: PaymentService;
+
+  constructor(paymentService: PaymentService) {
+    this.paymentService = paymentService;
+  }
+
+  async getPaymentTotals(paymentIntentId: string): Promise<StripePaymentTotals | null> {
+    return this.paymentService.retrievePaymentTotals(paymentIntentId);
+  }
+
+  async getTransferTotals(transferId: string): Promise<StripeTransferTotals | null> {
+    return this.paymentService.retrieveTransferTotals(transferId);
+  }
+}
+
+// A ledger amount that differs from Stripe
+export type ReconciliationMismatch = {
+  kind: 'payment' | 'transfer';
+  stripeObjectId: string;
+  orderId: string | null;
+  ledgerCents: number;
+  stripeCents: number | null;
+  reason: string;
+};
+
+export type ReconciliationReport = {
+  from: Date | null;
+  to: Date | null;
+  entryCount: number;
+  // Entries whose lines do not sum to zero; always empty unless data was edited by hand
+  unbalancedEntries: string[];
+  checked: number;
+  matched: number;
+  mismatches: ReconciliationMismatch[];
+};
+
+// Net platform cash effect of a set of entries, per Stripe object
+type StripeObjectTotals = Map<string, { orderId: string | null; cashCents: number }>;
+
+export class ReconciliationService {
+  private ledgerRepository: LedgerRepository;
+  private source: ReconciliationSource;
+
+  constructor(ledgerRepository: LedgerRepository, source: ReconciliationSource) {
+    this.ledgerRepository = ledgerRepository;
+    this.source = source;
+  }
+
+  /**
+   * Compare the Stripe objects with ledger activity in a time range against Stripe
+   * Each object is compared on its whole ledger history, so a refund posted
+   * after the range still counts against the charge it undoes.
+   * Payments: charged minus refunded in the ledger against Stripe's received minus refunded.
+   * Transfers: paid out minus reversed in the ledger against Stripe's amount minus reversed.
+   */
+  async getReport(options: { from?: Date; to?: Date } = {}): Promise<ReconciliationReport> {
+    try {
+      const entries = await this.ledgerRepository.findEntries(options);
+
+      const unbalancedEntries = entries
+        .filter(entry => entry.lines.reduce((sum, line) => sum + line.amountCents, 0) !== 0)
+        .map(entry => entry.id);
+
+      const payoutIds = [...new Set(entries.filter(entry => entry.payoutId).map(entry => entry.payoutId as string))];
+      const history = payoutIds.length > 0 ? await this.ledgerRepository.findEntriesByPayoutIds(payoutIds) : [];
+
+      const payments = this.groupCashByStripeObject(history, ['charge', 'refund'], 'charge');
+      const transfers = this.groupCashByStripeObject(history, ['payout', 'reversal'], 'payout');
+
+      const mismatches: ReconciliationMismatch[] = [];
+
+      for (const [paymentIntentId, { orderId, cashCents }] of payments) {
+        const totals = await this.source.getPaymentTotals(paymentIntentId);
+        const stripeCents = totals ? totals.amountReceivedCents - totals.amountRefundedCents : null;
+
+        if (stripeCents !== cashCents) {
+          mismatches.push({
+            kind: 'payment',
+            stripeObjectId: paymentIntentId,
+            orderId,
+            ledgerCents: cashCents,
+            stripeCents,
+            reason: totals ? 'Net amount differs' : 'Payment intent not found in Stripe'
+          });
+        }
+      }
+
+      for (const [transferId, { orderId, cashCents }] of transfers) {
+        const totals = await this.source.getTransferTotals(transferId);
+        const stripeCents = totals ? totals.amountCents - totals.amountReversedCents : null;
+
+        // Transfers take cash out, so the ledger's cash total is negative
+        if (stripeCents !== -cashCents) {
+          mismatches.push({
+            kind: 'transfer',
+            stripeObjectId: transferId,
+            orderId,
+            ledgerCents: -cashCents,
+            stripeCents,
+            reason: totals ? 'Net amount differs' : 'Transfer not found in Stripe'
+          });
+        }
+      }
+
+      const checked = payments.size + transfers.size;
+
+      return {
+        from: options.from ?? null,
+        to: options.to ?? null,
+        entryCount: entries.length,
+        unbalancedEntries,
+        checked,
+        matched: checked - mismatches.length,
+        mismatches
+      };
+    } catch (error: any) {
+      logger.error(`Error building reconciliation report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Sum the platform cash lines of entries by the Stripe object they belong to
+   * Follow-up entries (refunds, reversals) carry their own Stripe IDs, so they
+   * are keyed to the payment intent or transfer of the same payout's original entry
+   */
+  private groupCashByStripeObject(
+    entries: JournalEntryWithLines[],
+    kinds: JournalEntryWithLines['kind'][],
+    primaryKind: JournalEntryWithLines['kind']
+  ): StripeObjectTotals {
+    const primaryObjectByPayout = new Map<string, string>();
+
+    entries
+      .filter(entry => entry.kind === primaryKind && entry.payoutId && entry.stripeObjectId)
+      .forEach(entry => primaryObjectByPayout.set(entry.payoutId as string, entry.stripeObjectId as string));
+
+    const totals: StripeObjectTotals = new Map();
+
+    for (const entry of entries) {
+      if (!kinds.includes(entry.kind) || !entry.payoutId) {
+        continue;
+      }
+
+      const stripeObjectId = primaryObjectByPayout.get(entry.payoutId);
+
+      if (!stripeObjectId) {
+        continue;
+      }
+
+      const cashCode = ledgerAccounts.platformCash(entry.currency).code;
+      const cashCents = entry.lines
+        .filter(line => line.account.code === cashCode)
+        .reduce((sum, line) => sum + line.amountCents, 0);
+
+      const current = totals.get(stripeObjectId) ?? { orderId: entry.orderId, cashCents: 0 };
+      totals.set(stripeObjectId, { orderId: current.orderId, cashCents: current.cashCents + cashCents });
+    }
+
+    return totals;
+  }
+}
@@ -0,0 +1,117 @@
+import { PrismaClient, User, MarketplaceProduct } from '@prisma/client';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+import { ConflictError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const stripe = new FakeStripe();
+const { orderService, checkoutService } = createContainer({ prisma, stripe: stripe });
+
+let buyer: User;
+let product: MarketplaceProduct;
+
+const stockLeft = async () =>
+  (await prisma.marketplaceProduct.findUniqueOrThrow({ where: { id: product.id } })).stock;
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  stripe.reset();
+  jest.restoreAllMocks();
+
+  const seller = await createTestUser(prisma, { role: 'Seller' });
+  buyer = await createTestUser(prisma);
+  product = await prisma.marketplaceProduct.create({
+    data: {
+      sellerId: seller.id,
+      title: 'Ceramic mug',
+      description: 'Hand-thrown ceramic mug',
+      priceCents: 1800,
+      currency: 'usd',
+      stock: 5,
+      isActive: true
+    }
+  });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('CheckoutService', () => {
+  it('prices the order on the server and reserves its stock', async () => {
+    const result = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 2 });
+
+    expect(result.amountCents).toBe(3600);
+    expect(result.order).toMatchObject({ status: 'pending', paymentIntentId: result.paymentIntentId });
+    expect(stripe.store.paymentIntents.get(result.paymentIntentId)?.metadata).toMatchObject({ orderId: result.order.id });
+    expect(await stockLeft()).toBe(3);
+  });
+
+  describe('canceling a checkout', () => {
+    const actor = () => ({ id: buyer.id, permissions: [] });
+
+    it('cancels the payment intent so the order can no longer be paid', async () => {
+      const { order, paymentIntentId } = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 2 });
+
+      await expect(orderService.cancelOrder(order.id, actor())).resolves.toMatchObject({ status: 'canceled' });
+
+      expect(stripe.store.paymentIntents.get(paymentIntentId)?.status).toBe('canceled');
+      expect(await stockLeft()).toBe(5);
+    });
+
+    it('does the same when the buyer sets the status to canceled', async () => {
+      const { order, paymentIntentId } = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 1 });
+
+      await expect(orderService.updateOrderStatus(order.id, 'canceled', actor())).resolves.toMatchObject({ status: 'canceled' });
+
+      expect(stripe.store.paymentIntents.get(paymentIntentId)?.status).toBe('canceled');
+      expect(await stockLeft()).toBe(5);
+    });
+
+    it('refuses once the buyer has paid, leaving the order for the webhook', async () => {
+      const { order, paymentIntentId } = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 1 });
+      stripe.succeedPaymentIntent(paymentIntentId);
+
+      await expect(orderService.cancelOrder(order.id, actor())).rejects.toBeInstanceOf(ConflictError);
+
+      expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'pending' });
+      expect(await stockLeft()).toBe(4);
+    });
+  });
+
+  describe('releaseExpiredReservations', () => {
+    const expire = (orderId: string) =>
+      prisma.order.update({ where: { id: orderId }, data: { reservedUntil: new Date(Date.now() - 1000) } });
+
+    it('cancels expired checkouts and restocks them', async () => {
+      const { order, paymentIntentId } = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 2 });
+      await expire(order.id);
+
+      expect(await checkoutService.releaseExpiredReservations()).toBe(1);
+
+      expect(stripe.store.paymentIntents.get(paymentIntentId)?.status).toBe('canceled');
+      expect(await stockLeft()).toBe(5);
+    });
+
+    it('keeps releasing the other orders when one payment intent fails to cancel', async () => {
+      const stuck = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 1 });
+      const released = await checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 2 });
+      await expire(stuck.order.id);
+      await expire(released.order.id);
+
+      const cancel = stripe.paymentIntents.cancel;
+      jest.spyOn(stripe.paymentIntents, 'cancel').mockImplementation(async (id: string) => {
+        if (id === stuck.paymentIntentId) {
+          throw new Error('Stripe is unavailable');
+        }
+
+        return cancel(id);
+      });
+
+      expect(await checkoutService.releaseExpiredReservations()).toBe(1);
+
+      expect(await prisma.order.findUniqueOrThrow({ where: { id: stuck.order.id } })).toMatchObject({ status: 'pending' });
+      expect(await prisma.order.findUniqueOrThrow({ where: { id: released.order.id } })).toMatchObject({ status: 'canceled' });
+      expect(await stockLeft()).toBe(4);
+    });
+  });
+});
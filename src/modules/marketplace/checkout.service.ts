@@ -0,0 +1,130 @@
+import { Order } from '@prisma/client';
+import { OrderRepository } from './order.repository';
+import { ProductService } from './product.service';
+import { PaymentService } from '../payments/payment.service';
+import { env } from '../../config/env';
+import logger from '../../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../utils/errors';
+
+// Type for starting a checkout
+export type CheckoutInput = {
+  buyerId: string;
+  productId: string;
+  quantity: number;
+};
+
+// Result returned to the client to confirm payment
+export type CheckoutResult = {
+  order: Order;
+  paymentIntentId: string;
+  clientSecret: string;
+  amountCents: number;
+  currency: string;
+  reservedUntil: Date;
+};
+
+export class CheckoutService {
+  private orderRepository: OrderRepository;
+  private productService: ProductService;
+  private paymentService: PaymentService;
+
+  constructor(
+    orderRepository: OrderRepository,
+    productService: ProductService,
+    paymentService: PaymentService
+  ) {
+    this.orderRepository = orderRepository;
+    this.productService = productService;
+    this.paymentService = paymentService;
+  }
+
+  /**
+   * Start a checkout for a product
+   * Prices the order on the server, reserves stock, creates the pending order
+   * and its payment intent, and returns the client secret to confirm payment
+   */
+  async checkout(input: CheckoutInput): Promise<CheckoutResult> {
+    try {
+      const product = await this.productService.getProductById(input.productId);
+
+      if (!product) {
+        throw new NotFoundError('Product not found');
+      }
+
+      if (!product.isActive || product.hiddenAt) {
+        throw new ConflictError('Product is not available for purchase');
+      }
+
+      if (product.sellerId === input.buyerId) {
+        throw new ForbiddenError('You cannot buy your own product');
+      }
+
+      const reservedUntil = new Date(Date.now() + env.CHECKOUT_RESERVATION_MINUTES * 60 * 1000);
+
+      const order = await this.orderRepository.reserve({
+        buyerId: input.buyerId,
+        productId: product.id,
+        quantity: input.quantity,
+        amountCents: product.priceCents * input.quantity,
+        currency: product.currency,
+        reservedUntil
+      });
+
+      try {
+        const paymentIntent = await this.paymentService.createOrderPaymentIntent(order);
+        const updatedOrder = await this.orderRepository.setPaymentIntent(order.id, paymentIntent.id);
+
+        return {
+          order: updatedOrder,
+          paymentIntentId: paymentIntent.id,
+          clientSecret: paymentIntent.clientSecret,
+          amountCents: updatedOrder.amountCents,
+          currency: updatedOrder.currency,
+          reservedUntil
+        };
+      } catch (error: any) {
+        // Without a payment intent the order can never be paid, so give the stock back
+        await this.orderRepository.releaseStock(order.id, 'failed');
+        throw error;
+      }
+    } catch (error: any) {
+      logger.error(`Error during checkout: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel pending checkouts whose reservation has expired and restock them
+   * Orders whose payment is already under way are left for the webhook to
+   * settle. An order that fails to release is logged and retried next run.
+   */
+  async releaseExpiredReservations(): Promise<number> {
+    try {
+      const expiredOrders = await this.orderRepository.findExpiredReservations(new Date());
+      let released = 0;
+
+      for (const order of expiredOrders) {
+        try {
+          if (order.paymentIntentId && !await this.paymentService.cancelOrderPaymentIntent(order.paymentIntentId)) {
+            continue;
+          }
+
+          if (await this.orderRepository.releaseStock(order.id, 'canceled')) {
+            released++;
+          }
+        } catch (error: any) {
+          logger.error(`Error releasing reservation for order ${order.id}: ${error.message}`);
+        }
+      }
+
+      if (released > 0) {
+        logger.info(`Released ${released} expired checkout reservations`);
+      }
+
+      return released;
+    } catch (error: any) {
+      logger.error(`Error releasing expired reservations: ${error.message}`);
+      throw error;
+    }
+  }
+}
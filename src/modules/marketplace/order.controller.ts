@@ -1,513 +1,307 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { OrderService } from './order.service';
-import { z } from 'zod';
-import { OrderStatus } from '@prisma/client';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const orderCreateSchema = z.object({
-  productId: z.string().uuid(),
-  quantity: z.number().int().positive(),
-  totalPrice: z.number().positive(),
-  shippingAddress: z.string().max(500).optional(),
-});
-
-const orderUpdateSchema = z.object({
-  shippingAddress: z.string().max(500).optional(),
-  status: z.enum(['pending', 'processing', 'shipped', 'completed', 'canceled']).optional(),
-});
+import { CheckoutService } from './checkout.service';
+import { RefundService } from './refund.service';
+import { orderSchemas } from './order.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../../utils/errors';
+import { authorize, hasPermission } from '../../utils/policy';
 
 export class OrderController {
   private orderService: OrderService;
+  private checkoutService: CheckoutService;
+  private refundService: RefundService;
 
-  constructor() {
-    this.orderService = new OrderService();
+  constructor(
+    orderService: OrderService,
+    checkoutService: CheckoutService,
+    refundService: RefundService
+  ) {
+    this.orderService = orderService;
+    this.checkoutService = checkoutService;
+    this.refundService = refundService;
   }
 
   /**
-   * Create a new order
+   * Check out a product
+   * Reserves stock, creates a pending order and returns the payment client secret
    */
-  async createOrder(req: Request, res: Response): Promise<void> {
+  async checkout(req: ValidatedRequest<typeof orderSchemas.checkout>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
-      }
-
-      // Validate request body
-      const validationResult = orderCreateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Create order with current user as buyer
-      const order = await this.orderService.createOrder({
-        ...validationResult.data,
+      // Check out with current user as buyer
+      const result = await this.checkoutService.checkout({
+        ...req.body,
         buyerId: req.user.id
       });
-      
+
       res.status(201).json({
         success: true,
-        message: 'Order created successfully',
-        data: order
+        message: 'Checkout started successfully',
+        data: result
       });
-    } catch (error: any) {
-      logger.error(`Error in createOrder: ${error.message}`);
-      
-      if (error.message.includes('not found') || 
-          error.message.includes('stock') ||
-          error.message.includes('price') ||
-          error.message.includes('not available')) {
-        res.status(400).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get order by ID
    */
-  async getOrderById(req: Request, res: Response): Promise<void> {
+  async getOrderById(req: ValidatedRequest<typeof orderSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
       const order = await this.orderService.getOrderById(id);
       
       if (!order) {
-        res.status(404).json({
-          success: false,
-          message: 'Order not found'
-        });
-        return;
+        throw new NotFoundError('Order not found');
       }
       
-      // Check authorization - only the buyer, seller, or admin can view an order
-      const isAdmin = req.user.role === 'Admin';
-      const isBuyer = req.user.id === order.buyerId;
-      const isSeller = req.user.id === order.product.sellerId;
-      
-      if (!isAdmin && !isBuyer && !isSeller) {
-        res.status(403).json({
-          success: false,
-          message: 'You are not authorized to view this order'
-        });
-        return;
-      }
+      // Check authorization - only the buyer, seller, or those who can read every order can view an order
+      authorize(req.user, 'order', 'read', order, 'You are not authorized to view this order');
       
       res.status(200).json({
         success: true,
         data: order
       });
-    } catch (error: any) {
-      logger.error(`Error in getOrderById: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Update order status
    */
-  async updateOrderStatus(req: Request, res: Response): Promise<void> {
+  async updateOrderStatus(req: ValidatedRequest<typeof orderSchemas.updateStatus>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
       const { status } = req.body;
-      const isAdmin = req.user.role === 'Admin';
+
+      // Update order status
+      const order = await this.orderService.updateOrderStatus(id, status, req.user);
       
-      // Validate status
-      if (!status || !['pending', 'processing', 'shipped', 'completed', 'canceled'].includes(status)) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid status value'
-        });
-        return;
+      res.status(200).json({
+        success: true,
+        message: 'Order status updated successfully',
+        data: order
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update order details
+   */
+  async updateOrder(req: ValidatedRequest<typeof orderSchemas.update>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
       }
 
-      try {
-        // Update order status
-        const order = await this.orderService.updateOrderStatus(
-          id,
-          status as OrderStatus,
-          req.user.id,
-          isAdmin
-        );
+      const { id } = req.params;
+
+      // Update order
+      // If status is included, use updateOrderStatus, otherwise update other details
+      if (req.body.status) {
+        const order = await this.orderService.updateOrderStatus(id, req.body.status, req.user);
         
         res.status(200).json({
           success: true,
-          message: 'Order status updated successfully',
+          message: 'Order updated successfully',
+          data: order
+        });
+      } else {
+        const order = await this.orderService.updateOrder(id, req.body, req.user);
+        
+        res.status(200).json({
+          success: true,
+          message: 'Order updated successfully',
           data: order
         });
-      } catch (error: any) {
-        if (error.message.includes('not found')) {
-          res.status(404).json({
-            success: false,
-            message: 'Order not found'
-          });
-        } else if (error.message.includes('not authorized') || error.message.includes('can only')) {
-          res.status(403).json({
-            success: false,
-            message: error.message
-          });
-        } else if (error.message.includes('Cannot')) {
-          res.status(400).json({
-            success: false,
-            message: error.message
-          });
-        } else {
-          throw error;
-        }
       }
-    } catch (error: any) {
-      logger.error(`Error in updateOrderStatus: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
-   * Update order details
+   * Cancel an order
    */
-  async updateOrder(req: Request, res: Response): Promise<void> {
+  async cancelOrder(req: ValidatedRequest<typeof orderSchemas.cancel>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
-      const isAdmin = req.user.role === 'Admin';
       
-      // Validate request body
-      const validationResult = orderUpdateSchema.safeParse(req.body);
+      const order = await this.orderService.cancelOrder(id, req.user);
       
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
+      res.status(200).json({
+        success: true,
+        message: 'Order canceled successfully',
+        data: order
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 
-      // Update order
-      try {
-        // If status is included, use updateOrderStatus, otherwise update other details
-        if (validationResult.data.status) {
-          const order = await this.orderService.updateOrderStatus(
-            id,
-            validationResult.data.status,
-            req.user.id,
-            isAdmin
-          );
-          
-          res.status(200).json({
-            success: true,
-            message: 'Order updated successfully',
-            data: order
-          });
-        } else {
-          const order = await this.orderService.updateOrder(
-            id,
-            validationResult.data,
-            req.user.id,
-            isAdmin
-          );
-          
-          res.status(200).json({
-            success: true,
-            message: 'Order updated successfully',
-            data: order
-          });
-        }
-      } catch (error: any) {
-        if (error.message.includes('not found')) {
-          res.status(404).json({
-            success: false,
-            message: 'Order not found'
-          });
-        } else if (error.message.includes('not authorized')) {
-          res.status(403).json({
-            success: false,
-            message: error.message
-          });
-        } else if (error.message.includes('Cannot')) {
-          res.status(400).json({
-            success: false,
-            message: error.message
-          });
-        } else {
-          throw error;
-        }
+  /**
+   * Request a refund for an order (buyer)
+   */
+  async requestRefund(req: ValidatedRequest<typeof orderSchemas.requestRefund>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
       }
-    } catch (error: any) {
-      logger.error(`Error in updateOrder: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
+
+      const { id } = req.params;
+      const order = await this.refundService.requestRefund(id, req.user, req.body.reason);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund requested successfully',
+        data: order
       });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
-   * Cancel an order
+   * Approve a refund (seller, or with order:refund)
    */
-  async cancelOrder(req: Request, res: Response): Promise<void> {
+  async approveRefund(req: ValidatedRequest<typeof orderSchemas.decideRefund>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
-      const isAdmin = req.user.role === 'Admin';
-      
-      try {
-        const order = await this.orderService.cancelOrder(id, req.user.id, isAdmin);
-        
-        res.status(200).json({
-          success: true,
-          message: 'Order canceled successfully',
-          data: order
-        });
-      } catch (error: any) {
-        if (error.message.includes('not found')) {
-          res.status(404).json({
-            success: false,
-            message: 'Order not found'
-          });
-        } else if (error.message.includes('not authorized')) {
-          res.status(403).json({
-            success: false,
-            message: error.message
-          });
-        } else if (error.message.includes('Only pending')) {
-          res.status(400).json({
-            success: false,
-            message: error.message
-          });
-        } else {
-          throw error;
-        }
+      const order = await this.refundService.approveRefund(id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund approved successfully',
+        data: order
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Reject a refund request (seller, or with order:refund)
+   */
+  async rejectRefund(req: ValidatedRequest<typeof orderSchemas.decideRefund>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
       }
-    } catch (error: any) {
-      logger.error(`Error in cancelOrder: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
+
+      const { id } = req.params;
+      const order = await this.refundService.rejectRefund(id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Refund rejected',
+        data: order
       });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get user orders (as buyer)
    */
-  async getMyOrders(req: Request, res: Response): Promise<void> {
+  async getMyOrders(req: ValidatedRequest<typeof orderSchemas.listMine>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Parse query parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      const status = req.query.status as OrderStatus | undefined;
-      
       // Get user's orders
-      const result = await this.orderService.getAllOrders({
-        page,
-        limit,
-        buyerId: req.user.id,
-        status
-      });
+      const result = await this.orderService.getAllOrders({ ...req.query, buyerId: req.user.id });
       
-      res.status(200).json({
-        success: true,
-        data: result.orders,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getMyOrders: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get seller orders
    */
-  async getSellerOrders(req: Request, res: Response): Promise<void> {
+  async getSellerOrders(req: ValidatedRequest<typeof orderSchemas.listMine>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Parse query parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      const status = req.query.status as OrderStatus | undefined;
-      
       // Get seller's orders
-      const result = await this.orderService.getAllOrders({
-        page,
-        limit,
-        sellerId: req.user.id,
-        status
-      });
+      const result = await this.orderService.getAllOrders({ ...req.query, sellerId: req.user.id });
       
-      res.status(200).json({
-        success: true,
-        data: result.orders,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getSellerOrders: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get all orders (admin only)
    */
-  async getAllOrders(req: Request, res: Response): Promise<void> {
+  async getAllOrders(req: ValidatedRequest<typeof orderSchemas.listAll>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Parse query parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      const buyerId = req.query.buyerId as string;
-      const sellerId = req.query.sellerId as string;
-      const status = req.query.status as OrderStatus | undefined;
-      
       // Get all orders with filters
-      const result = await this.orderService.getAllOrders({
-        page,
-        limit,
-        buyerId,
-        sellerId,
-        status
-      });
+      const result = await this.orderService.getAllOrders(req.query);
       
-      res.status(200).json({
-        success: true,
-        data: result.orders,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getAllOrders: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get seller statistics
    */
-  async getSellerStats(req: Request, res: Response): Promise<void> {
+  async getSellerStats(req: ValidatedRequest<typeof orderSchemas.sellerStats>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       // Get user ID from route or use authenticated user
       const sellerId = req.params.id || req.user.id;
       
       // Check if user is trying to access another user's stats
-      if (sellerId !== req.user.id && req.user.role !== 'Admin') {
-        res.status(403).json({
-          success: false,
-          message: 'You are not authorized to view these statistics'
-        });
-        return;
+      if (sellerId !== req.user.id && !hasPermission(req.user, 'order:read')) {
+        throw new ForbiddenError('You are not authorized to view these statistics');
       }
       
       // Get seller stats
@@ -517,40 +311,27 @@ export class OrderController {
         success: true,
         data: stats
       });
-    } catch (error: any) {
-      logger.error(`Error in getSellerStats: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get buyer statistics
    */
-  async getBuyerStats(req: Request, res: Response): Promise<void> {
+  async getBuyerStats(req: ValidatedRequest<typeof orderSchemas.buyerStats>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       // Get user ID from route or use authenticated user
       const buyerId = req.params.id || req.user.id;
       
       // Check if user is trying to access another user's stats
-      if (buyerId !== req.user.id && req.user.role !== 'Admin') {
-        res.status(403).json({
-          success: false,
-          message: 'You are not authorized to view these statistics'
-        });
-        return;
+      if (buyerId !== req.user.id && !hasPermission(req.user, 'order:read')) {
+        throw new ForbiddenError('You are not authorized to view these statistics');
       }
       
       // Get buyer stats
@@ -560,13 +341,8 @@ export class OrderController {
         success: true,
         data: stats
       });
-    } catch (error: any) {
-      logger.error(`Error in getBuyerStats: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 }
@@ -1,17 +1,43 @@
-import { PrismaClient, Order, OrderStatus, User, MarketplaceProduct } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { Order, OrderStatus, RefundStatus, DisputeStatus, User, MarketplaceProduct, Prisma } from '@prisma/client';
+import { DbClient, atomically } from '../../config/database';
+import { ConflictError } from '../../utils/errors';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Type for order creation without ID and timestamps
 export type CreateOrderInput = {
   buyerId: string;
   productId: string;
   quantity: number;
-  totalPrice: number;
+  amountCents: number;
+  currency: string;
   status?: OrderStatus;
   shippingAddress?: string;
 };
 
+// Type for a checkout order that holds product stock until it is paid
+export type ReserveOrderInput = {
+  buyerId: string;
+  productId: string;
+  quantity: number;
+  amountCents: number;
+  currency: string;
+  reservedUntil: Date;
+};
+
+// Type for recording a refund request or decision
+export type UpdateRefundInput = {
+  refundStatus: RefundStatus;
+  refundReason?: string;
+  refundRequestedAt?: Date;
+  stripeRefundId?: string;
+};
+
+// Type for recording a payment dispute
+export type UpdateDisputeInput = {
+  disputeStatus: DisputeStatus;
+  stripeDisputeId: string;
+};
+
 // Type for order update
 export type UpdateOrderInput = Partial<Omit<CreateOrderInput, 'buyerId' | 'productId'>>;
 
@@ -23,12 +49,48 @@ export type OrderWithDetails = Order & {
   };
 };
 
+/**
+ * Take stock for an order and insert it; callers run this inside a transaction
+ * The stock check is part of the decrement, so concurrent buyers cannot oversell
+ */
+const takeStockAndCreate = async (
+  tx: Prisma.TransactionClient,
+  data: CreateOrderInput & { reservedUntil?: Date }
+): Promise<Order> => {
+  const { count } = await tx.marketplaceProduct.updateMany({
+    where: {
+      id: data.productId,
+      isActive: true,
+      hiddenAt: null,
+      stock: { gte: data.quantity }
+    },
+    data: { stock: { decrement: data.quantity } }
+  });
+
+  if (count === 0) {
+    throw new ConflictError('Not enough stock available');
+  }
+
+  return tx.order.create({
+    data: {
+      ...data,
+      status: data.status || 'pending'
+    }
+  });
+};
+
 export class OrderRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Create a new order
    */
   async create(data: CreateOrderInput): Promise<Order> {
-    return prisma.order.create({
+    return this.db.order.create({
       data: {
         ...data,
         status: data.status || 'pending' // Default status is pending
@@ -40,7 +102,7 @@ export class OrderRepository {
    * Find an order by ID
    */
   async findById(id: string): Promise<OrderWithDetails | null> {
-    return prisma.order.findUnique({
+    return this.db.order.findUnique({
       where: { id },
       include: {
         buyer: true,
@@ -53,11 +115,159 @@ export class OrderRepository {
     });
   }
 
+  /**
+   * Find an order by its Stripe payment intent ID
+   */
+  async findByPaymentIntentId(paymentIntentId: string): Promise<Order | null> {
+    return this.db.order.findUnique({
+      where: { paymentIntentId }
+    });
+  }
+
+  /**
+   * Move an order to a new status only if it is still in the expected one
+   * Returns null when the order had already moved on, so webhook
+   * handlers can tell a first delivery from a repeat
+   */
+  async transitionStatus(
+    id: string,
+    from: OrderStatus,
+    to: OrderStatus,
+    data: { paymentIntentId?: string } = {}
+  ): Promise<Order | null> {
+    const { count } = await this.db.order.updateMany({
+      where: { id, status: from },
+      data: { ...data, status: to }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.db.order.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Take stock for a checkout and create its pending order in one transaction
+   */
+  async reserve(data: ReserveOrderInput): Promise<Order> {
+    return atomically(this.db, (tx) => takeStockAndCreate(tx, { ...data, status: 'pending' }));
+  }
+
+  /**
+   * Move a pending order to failed or canceled and put its quantity back in stock
+   * Returns null when the order was no longer pending, or in one of the from statuses
+   */
+  async releaseStock(
+    id: string,
+    status: 'failed' | 'canceled',
+    data: { paymentIntentId?: string } = {},
+    from: OrderStatus[] = ['pending']
+  ): Promise<Order | null> {
+    return atomically(this.db, async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id, status: { in: from } },
+        data: { ...data, status }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id }
+      });
+
+      await tx.marketplaceProduct.update({
+        where: { id: order.productId },
+        data: { stock: { increment: order.quantity } }
+      });
+
+      return order;
+    });
+  }
+
+  /**
+   * Mark a completed order as refunded, optionally putting its quantity back in stock
+   * Returns null when the order was not completed
+   */
+  async markRefunded(id: string, restock: boolean): Promise<Order | null> {
+    return atomically(this.db, async (tx) => {
+      const { count } = await tx.order.updateMany({
+        where: { id, status: 'completed' },
+        data: { status: 'refunded' }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const order = await tx.order.findUniqueOrThrow({
+        where: { id }
+      });
+
+      if (restock) {
+        await tx.marketplaceProduct.update({
+          where: { id: order.productId },
+          data: { stock: { increment: order.quantity } }
+        });
+      }
+
+      return order;
+    });
+  }
+
+  /**
+   * Record a refund request or decision
+   */
+  async updateRefund(id: string, data: UpdateRefundInput): Promise<Order> {
+    return this.db.order.update({
+      where: { id },
+      data
+    });
+  }
+
+  /**
+   * Record the state of a payment dispute
+   */
+  async updateDispute(id: string, data: UpdateDisputeInput): Promise<Order> {
+    return this.db.order.update({
+      where: { id },
+      data
+    });
+  }
+
+  /**
+   * Find pending orders whose stock reservation has run out
+   */
+  async findExpiredReservations(now: Date, limit: number = 100): Promise<Order[]> {
+    return this.db.order.findMany({
+      where: {
+        status: 'pending',
+        reservedUntil: { lt: now }
+      },
+      take: limit,
+      orderBy: { reservedUntil: 'asc' }
+    });
+  }
+
+  /**
+   * Store the payment intent created for an order
+   */
+  async setPaymentIntent(id: string, paymentIntentId: string): Promise<Order> {
+    return this.db.order.update({
+      where: { id },
+      data: { paymentIntentId }
+    });
+  }
+
   /**
    * Update an order
    */
   async update(id: string, data: UpdateOrderInput): Promise<Order> {
-    return prisma.order.update({
+    return this.db.order.update({
       where: { id },
       data
     });
@@ -67,7 +277,7 @@ export class OrderRepository {
    * Delete an order
    */
   async delete(id: string): Promise<Order> {
-    return prisma.order.delete({
+    return this.db.order.delete({
       where: { id }
     });
   }
@@ -75,23 +285,17 @@ export class OrderRepository {
   /**
    * Find all orders with optional pagination and filters
    */
-  async findAll(options: {
-    page?: number;
-    limit?: number;
+  async findAll(options: PageOptions & {
     buyerId?: string;
     sellerId?: string;
     status?: OrderStatus;
-  } = {}): Promise<{ orders: OrderWithDetails[]; total: number }> {
+  }): Promise<Page<OrderWithDetails>> {
     const {
-      page = 1,
-      limit = 10,
       buyerId,
       sellerId,
       status
     } = options;
     
-    const skip = (page - 1) * limit;
-    
     // Build where clause based on filters
     const where: any = {};
     
@@ -109,11 +313,10 @@ export class OrderRepository {
       };
     }
     
-    const [orders, total] = await Promise.all([
-      prisma.order.findMany({
+    return paginate(options, {
+      findMany: (args) => this.db.order.findMany({
+        ...args,
         where,
-        skip,
-        take: limit,
         include: {
           buyer: true,
           product: {
@@ -121,13 +324,10 @@ export class OrderRepository {
               seller: true
             }
           }
-        },
-        orderBy: { createdAt: 'desc' }
+        }
       }),
-      prisma.order.count({ where })
-    ]);
-
-    return { orders, total };
+      count: () => this.db.order.count({ where })
+    });
   }
   
   /**
@@ -140,7 +340,7 @@ export class OrderRepository {
     completedOrders: number;
   }> {
     // Get all orders for products sold by this seller
-    const orders = await prisma.order.findMany({
+    const orders = await this.db.order.findMany({
       where: {
         product: {
           sellerId
@@ -148,9 +348,9 @@ export class OrderRepository {
       }
     });
     
-    // Calculate statistics
+    // Calculate statistics; amounts are in cents
     const totalOrders = orders.length;
-    const totalRevenue = orders.reduce((sum, order) => sum + order.totalPrice, 0);
+    const totalRevenue = orders.reduce((sum, order) => sum + order.amountCents, 0);
     const pendingOrders = orders.filter(order => order.status === 'pending').length;
     const completedOrders = orders.filter(order => order.status === 'completed').length;
     
@@ -172,15 +372,15 @@ export class OrderRepository {
     completedOrders: number;
   }> {
     // Get all orders for this buyer
-    const orders = await prisma.order.findMany({
+    const orders = await this.db.order.findMany({
       where: {
         buyerId
       }
     });
     
-    // Calculate statistics
+    // Calculate statistics; amounts are in cents
     const totalOrders = orders.length;
-    const totalSpent = orders.reduce((sum, order) => sum + order.totalPrice, 0);
+    const totalSpent = orders.reduce((sum, order) => sum + order.amountCents, 0);
     const pendingOrders = orders.filter(order => order.status === 'pending').length;
     const completedOrders = orders.filter(order => order.status === 'completed').length;
     
@@ -1,44 +1,55 @@
 import { Router } from 'express';
-import { OrderController } from './order.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { orderSchemas } from './order.schemas';
 
-const router = Router();
-const orderController = new OrderController();
+/**
+ * Order routes, mounted at /api/orders
+ */
+export const createOrderRoutes = ({ orderController, auth }: Container): Router => {
+  const router = Router();
 
-// All order routes require authentication
-router.use(requireAuth);
-router.use(populateUser);
+  // All order routes require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Create a new order
-router.post('/', (req, res) => orderController.createOrder(req, res));
+  // Check out a product: reserve stock, create the order and its payment intent
+  router.post('/checkout', validate(orderSchemas.checkout), (req, res, next) => orderController.checkout(req, res, next));
 
-// Get order by ID
-router.get('/:id', (req, res) => orderController.getOrderById(req, res));
+  // Get order by ID
+  router.get('/:id', validate(orderSchemas.getById), (req, res, next) => orderController.getOrderById(req, res, next));
 
-// Get user's orders (as buyer)
-router.get('/my/purchases', (req, res) => orderController.getMyOrders(req, res));
+  // Get user's orders (as buyer)
+  router.get('/my/purchases', validate(orderSchemas.listMine), (req, res, next) => orderController.getMyOrders(req, res, next));
 
-// Get user's orders (as seller)
-router.get('/my/sales', (req, res) => orderController.getSellerOrders(req, res));
+  // Get user's orders (as seller)
+  router.get('/my/sales', validate(orderSchemas.listMine), (req, res, next) => orderController.getSellerOrders(req, res, next));
 
-// Get user's buyer statistics
-router.get('/my/buyer-stats', (req, res) => orderController.getBuyerStats(req, res));
+  // Get user's buyer statistics
+  router.get('/my/buyer-stats', validate(orderSchemas.buyerStats), (req, res, next) => orderController.getBuyerStats(req, res, next));
 
-// Get user's seller statistics
-router.get('/my/seller-stats', (req, res) => orderController.getSellerStats(req, res));
+  // Get user's seller statistics
+  router.get('/my/seller-stats', validate(orderSchemas.sellerStats), (req, res, next) => orderController.getSellerStats(req, res, next));
 
-// Update order details
-router.put('/:id', (req, res) => orderController.updateOrder(req, res));
+  // Update order details
+  router.put('/:id', validate(orderSchemas.update), (req, res, next) => orderController.updateOrder(req, res, next));
 
-// Update order status
-router.patch('/:id/status', (req, res) => orderController.updateOrderStatus(req, res));
+  // Update order status
+  router.patch('/:id/status', validate(orderSchemas.updateStatus), (req, res, next) => orderController.updateOrderStatus(req, res, next));
 
-// Cancel an order
-router.post('/:id/cancel', (req, res) => orderController.cancelOrder(req, res));
+  // Cancel an order
+  router.post('/:id/cancel', validate(orderSchemas.cancel), (req, res, next) => orderController.cancelOrder(req, res, next));
 
-// Admin-only routes
-router.get('/', requireRole('Admin'), (req, res) => orderController.getAllOrders(req, res));
-router.get('/stats/seller/:id', requireRole('Admin'), (req, res) => orderController.getSellerStats(req, res));
-router.get('/stats/buyer/:id', requireRole('Admin'), (req, res) => orderController.getBuyerStats(req, res));
+  // Refunds: the buyer requests, the seller or an admin decides
+  router.post('/:id/refund-request', validate(orderSchemas.requestRefund), (req, res, next) => orderController.requestRefund(req, res, next));
+  router.post('/:id/refund/approve', validate(orderSchemas.decideRefund), (req, res, next) => orderController.approveRefund(req, res, next));
+  router.post('/:id/refund/reject', validate(orderSchemas.decideRefund), (req, res, next) => orderController.rejectRefund(req, res, next));
 
-export default router;
+  // Routes that require a permission
+  router.get('/', requirePermission('order:read'), validate(orderSchemas.listAll), (req, res, next) => orderController.getAllOrders(req, res, next));
+  router.get('/stats/seller/:id', requirePermission('order:read'), validate(orderSchemas.sellerStats), (req, res, next) => orderController.getSellerStats(req, res, next));
+  router.get('/stats/buyer/:id', requirePermission('order:read'), validate(orderSchemas.buyerStats), (req, res, next) => orderController.getBuyerStats(req, res, next));
+
+  return router;
+};
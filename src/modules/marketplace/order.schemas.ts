@@ -0,0 +1,135 @@
+import { z } from 'zod';
+import { DisputeStatus, OrderStatus, RefundStatus } from '@prisma/client';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+import { productResponse } from './product.schemas';
+
+// Statuses a user can move an order to
+const orderStatusUpdate = z.enum(['pending', 'processing', 'shipped', 'completed', 'canceled']);
+
+// Lists of orders sort on these fields, newest first by default
+const orderListQuery = pageQuery(['createdAt', 'updatedAt', 'amountCents']).extend({
+  status: z.nativeEnum(OrderStatus).optional()
+});
+
+// Stats routes take a user ID from /stats/*/:id, or default to the current user under /my
+const statsParams = z.object({
+  id: z.string().uuid().optional()
+});
+
+const order = z.object({
+  id: z.string().uuid(),
+  buyerId: z.string().uuid(),
+  productId: z.string().uuid(),
+  quantity: z.number().int(),
+  amountCents: z.number().int(),
+  currency: z.string(),
+  status: z.nativeEnum(OrderStatus),
+  shippingAddress: z.string().nullable(),
+  paymentIntentId: z.string().nullable(),
+  reservedUntil: timestamp.nullable(),
+  refundStatus: z.nativeEnum(RefundStatus).nullable(),
+  refundReason: z.string().nullable(),
+  refundRequestedAt: timestamp.nullable(),
+  stripeRefundId: z.string().nullable(),
+  disputeStatus: z.nativeEnum(DisputeStatus).nullable(),
+  stripeDisputeId: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+// An order with its buyer, and its product with the seller
+const orderWithDetails = order.extend({
+  buyer: publicUserResponse,
+  product: productResponse.extend({ seller: publicUserResponse })
+});
+
+// Counts of a user's orders; totals are in cents
+const orderCounts = {
+  totalOrders: z.number().int(),
+  pendingOrders: z.number().int(),
+  completedOrders: z.number().int()
+};
+
+/**
+ * Request and response schemas for order routes
+ */
+export const orderSchemas = {
+  checkout: {
+    body: z.object({
+      productId: z.string().uuid(),
+      quantity: z.number().int().positive().max(100).default(1)
+    }),
+    response: z.object({
+      order,
+      paymentIntentId: z.string(),
+      clientSecret: z.string(),
+      amountCents: z.number().int(),
+      currency: z.string(),
+      reservedUntil: timestamp
+    })
+  },
+
+  getById: {
+    params: idParams,
+    response: orderWithDetails
+  },
+
+  update: {
+    params: idParams,
+    body: z.object({
+      shippingAddress: z.string().max(500).optional(),
+      status: orderStatusUpdate.optional()
+    }),
+    response: order
+  },
+
+  updateStatus: {
+    params: idParams,
+    body: z.object({
+      status: orderStatusUpdate
+    }),
+    response: order
+  },
+
+  cancel: {
+    params: idParams,
+    response: order
+  },
+
+  requestRefund: {
+    params: idParams,
+    body: z.object({
+      reason: z.string().min(1).max(1000)
+    }),
+    response: order
+  },
+
+  decideRefund: {
+    params: idParams,
+    response: order
+  },
+
+  listMine: {
+    query: orderListQuery,
+    response: z.array(orderWithDetails)
+  },
+
+  listAll: {
+    query: orderListQuery.extend({
+      buyerId: z.string().uuid().optional(),
+      sellerId: z.string().uuid().optional()
+    }),
+    response: z.array(orderWithDetails)
+  },
+
+  sellerStats: {
+    params: statsParams,
+    response: z.object({ ...orderCounts, totalRevenue: z.number().int() })
+  },
+
+  buyerStats: {
+    params: statsParams,
+    response: z.object({ ...orderCounts, totalSpent: z.number().int() })
+  }
+};
@@ -0,0 +1,77 @@
+import { PrismaClient, User, MarketplaceProduct } from '@prisma/client';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+import { ConflictError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const stripe = new FakeStripe();
+const { orderService, checkoutService } = createContainer({ prisma, stripe: stripe });
+
+// More buyers than units, all at once
+const BUYERS = 8;
+const STOCK = 3;
+
+let seller: User;
+let buyers: User[];
+let product: MarketplaceProduct;
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  stripe.reset();
+
+  seller = await createTestUser(prisma, { role: 'Seller' });
+  buyers = await Promise.all(Array.from({ length: BUYERS }, () => createTestUser(prisma)));
+  product = await prisma.marketplaceProduct.create({
+    data: {
+      sellerId: seller.id,
+      title: 'Limited print',
+      description: 'Signed print, numbered',
+      priceCents: 4000,
+      currency: 'usd',
+      stock: STOCK,
+      isActive: true
+    }
+  });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+// Orders that went through, and that every other attempt failed on stock
+const expectNoOversell = async (results: PromiseSettledResult<unknown>[]) => {
+  const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+  expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(STOCK);
+  rejected.forEach(({ reason }) => expect(reason).toBeInstanceOf(ConflictError));
+
+  expect(await prisma.marketplaceProduct.findUniqueOrThrow({ where: { id: product.id } }))
+    .toMatchObject({ stock: 0 });
+  expect(await prisma.order.count({ where: { productId: product.id } })).toBe(STOCK);
+};
+
+describe('OrderService stock', () => {
+  it('never oversells to concurrent checkouts', async () => {
+    const results = await Promise.allSettled(buyers.map(buyer => checkoutService.checkout({
+      buyerId: buyer.id,
+      productId: product.id,
+      quantity: 1
+    })));
+
+    await expectNoOversell(results);
+    expect(await prisma.order.count({ where: { productId: product.id, status: 'pending' } })).toBe(STOCK);
+  });
+
+  it('restores stock once when an order is canceled twice at the same time', async () => {
+    const { order } = await checkoutService.checkout({ buyerId: buyers[0].id, productId: product.id, quantity: 2 });
+    const actor = { id: buyers[0].id, permissions: [] };
+
+    const results = await Promise.allSettled([
+      orderService.cancelOrder(order.id, actor),
+      orderService.cancelOrder(order.id, actor)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await prisma.marketplaceProduct.findUniqueOrThrow({ where: { id: product.id } }))
+      .toMatchObject({ stock: STOCK });
+  });
+});
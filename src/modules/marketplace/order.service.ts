@@ -1,61 +1,22 @@
 import { Order, OrderStatus } from '@prisma/client';
-import { OrderRepository, CreateOrderInput, UpdateOrderInput, OrderWithDetails } from './order.repository';
-import { ProductService } from './product.service';
+import { OrderRepository, UpdateOrderInput, OrderWithDetails } from './order.repository';
+import { PaymentService } from '../payments/payment.service';
 import logger from '../../utils/logger';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { Page, PageOptions } from '../../utils/pagination';
+import { Actor, authorize, hasPermission } from '../../utils/policy';
 
+/**
+ * Orders once they exist: status changes, cancellation and statistics
+ * CheckoutService creates them, pricing them and reserving their stock.
+ */
 export class OrderService {
   private orderRepository: OrderRepository;
-  private productService: ProductService;
+  private paymentService: PaymentService;
 
-  constructor() {
-    this.orderRepository = new OrderRepository();
-    this.productService = new ProductService();
-  }
-
-  /**
-   * Create a new order
-   */
-  async createOrder(orderData: CreateOrderInput): Promise<Order> {
-    try {
-      // Get the product to validate and calculate price
-      const product = await this.productService.getProductById(orderData.productId);
-      
-      if (!product) {
-        throw new Error('Product not found');
-      }
-      
-      if (!product.isActive) {
-        throw new Error('Product is not available for purchase');
-      }
-      
-      if (product.stock < orderData.quantity) {
-        throw new Error('Not enough stock available');
-      }
-      
-      // Calculate the total price based on current product price and quantity
-      const calculatedPrice = product.price * orderData.quantity;
-      
-      // Validate that the provided price matches the calculated price
-      if (Math.abs(calculatedPrice - orderData.totalPrice) > 0.01) {
-        throw new Error('Price mismatch - order price does not match current product price');
-      }
-      
-      // Create the order
-      const order = await this.orderRepository.create(orderData);
-      
-      // Update the product stock
-      await this.productService.updateProduct(
-        product.id,
-        product.sellerId,
-        { stock: product.stock - orderData.quantity },
-        true // Admin mode to bypass regular authorization
-      );
-      
-      return order;
-    } catch (error: any) {
-      logger.error(`Error creating order: ${error.message}`);
-      throw error;
-    }
+  constructor(orderRepository: OrderRepository, paymentService: PaymentService) {
+    this.orderRepository = orderRepository;
+    this.paymentService = paymentService;
   }
 
   /**
@@ -73,22 +34,33 @@ export class OrderService {
   /**
    * Update order status
    */
-  async updateOrderStatus(orderId: string, status: OrderStatus, userId: string, isAdmin: boolean = false): Promise<Order> {
+  async updateOrderStatus(orderId: string, status: OrderStatus, actor: Actor): Promise<Order> {
     try {
       // Get the order with product and seller info
       const order = await this.orderRepository.findById(orderId);
       
       if (!order) {
-        throw new Error('Order not found');
+        throw new NotFoundError('Order not found');
       }
       
-      // Check authorization - only the seller, buyer, or admin can update order status
-      if (!isAdmin && order.product.sellerId !== userId && order.buyerId !== userId) {
-        throw new Error('You are not authorized to update this order');
-      }
+      // Check authorization - only the seller, buyer, or those who manage orders can update order status
+      authorize(actor, 'order', 'transition', order, 'You are not authorized to update this order');
       
       // Additional validation for status transitions
-      this.validateStatusTransition(order.status, status, userId, order);
+      this.validateStatusTransition(order.status, status);
+
+      // Sellers move orders along; buyers can only cancel them
+      authorize(actor, 'order', `status:${status}`, order, `You are not authorized to set this order to ${status}`);
+
+      if (status === 'canceled') {
+        const canceledOrder = await this.cancel(order);
+
+        if (!canceledOrder) {
+          throw new ConflictError(`Cannot transition from ${order.status} to ${status}`);
+        }
+
+        return canceledOrder;
+      }
       
       // Update the order
       return await this.orderRepository.update(orderId, { status });
@@ -101,23 +73,21 @@ export class OrderService {
   /**
    * Update order details (shipping address, etc.)
    */
-  async updateOrder(orderId: string, updateData: UpdateOrderInput, userId: string, isAdmin: boolean = false): Promise<Order> {
+  async updateOrder(orderId: string, updateData: UpdateOrderInput, actor: Actor): Promise<Order> {
     try {
       // Get the order
       const order = await this.orderRepository.findById(orderId);
       
       if (!order) {
-        throw new Error('Order not found');
+        throw new NotFoundError('Order not found');
       }
       
-      // Check authorization - only the buyer or admin can update order details
-      if (!isAdmin && order.buyerId !== userId) {
-        throw new Error('You are not authorized to update this order');
-      }
+      // Check authorization - only the buyer or those who manage orders can update order details
+      authorize(actor, 'order', 'update', order, 'You are not authorized to update this order');
       
       // Cannot update certain fields for completed orders
-      if (order.status === 'completed' && !isAdmin) {
-        throw new Error('Cannot update a completed order');
+      if (order.status === 'completed' && !hasPermission(actor, 'order:manage')) {
+        throw new ConflictError('Cannot update a completed order');
       }
       
       // Update the order
@@ -131,37 +101,28 @@ export class OrderService {
   /**
    * Cancel an order
    */
-  async cancelOrder(orderId: string, userId: string, isAdmin: boolean = false): Promise<Order> {
+  async cancelOrder(orderId: string, actor: Actor): Promise<Order> {
     try {
       // Get the order
       const order = await this.orderRepository.findById(orderId);
       
       if (!order) {
-        throw new Error('Order not found');
+        throw new NotFoundError('Order not found');
       }
       
-      // Check authorization - buyer, seller, or admin can cancel
-      if (!isAdmin && order.buyerId !== userId && order.product.sellerId !== userId) {
-        throw new Error('You are not authorized to cancel this order');
-      }
+      // Check authorization - buyer, seller, or those who manage orders can cancel
+      authorize(actor, 'order', 'cancel', order, 'You are not authorized to cancel this order');
       
       // Can only cancel pending orders
       if (order.status !== 'pending') {
-        throw new Error('Only pending orders can be canceled');
+        throw new ConflictError('Only pending orders can be canceled');
       }
       
-      // Update the order to canceled status
-      const updatedOrder = await this.orderRepository.update(orderId, { 
-        status: 'canceled' 
-      });
+      const updatedOrder = await this.cancel(order);
       
-      // Restore product stock
-      await this.productService.updateProduct(
-        order.productId,
-        order.product.sellerId,
-        { stock: order.product.stock + order.quantity },
-        true // Admin mode to bypass regular authorization
-      );
+      if (!updatedOrder) {
+        throw new ConflictError('Only pending orders can be canceled');
+      }
       
       return updatedOrder;
     } catch (error: any) {
@@ -173,13 +134,11 @@ export class OrderService {
   /**
    * Get all orders with filtering
    */
-  async getAllOrders(options: {
-    page?: number;
-    limit?: number;
+  async getAllOrders(options: PageOptions & {
     buyerId?: string;
     sellerId?: string;
     status?: OrderStatus;
-  } = {}): Promise<{ orders: OrderWithDetails[]; total: number }> {
+  }): Promise<Page<OrderWithDetails>> {
     try {
       return await this.orderRepository.findAll(options);
     } catch (error: any) {
@@ -222,59 +181,64 @@ export class OrderService {
     }
   }
 
+  /**
+   * Cancel an order's payment intent, then cancel the order and restore its stock
+   * Voiding the payment first means the buyer can't pay an order that no
+   * longer holds stock. Returns null when the order moved on since it was read.
+   */
+  private async cancel(order: Order): Promise<Order | null> {
+    if (order.paymentIntentId && !await this.paymentService.cancelOrderPaymentIntent(order.paymentIntentId)) {
+      throw new ConflictError('Payment for this order is already under way');
+    }
+
+    return this.orderRepository.releaseStock(order.id, 'canceled', {}, [order.status]);
+  }
+
   /**
    * Validate order status transition
+   * A pending order is waiting for payment: only the payment webhook moves it
+   * on, so it can still complete the order and pay the seller out, and only
+   * canceling by hand releases its stock.
    */
-  private validateStatusTransition(
-    currentStatus: OrderStatus, 
-    newStatus: OrderStatus, 
-    userId: string,
-    order: OrderWithDetails
-  ): void {
+  private validateStatusTransition(currentStatus: OrderStatus, newStatus: OrderStatus): void {
     // Prevent invalid transitions
     switch(currentStatus) {
       case 'pending':
-        // Pending can transition to processing, completed, or canceled
-        if (!['processing', 'completed', 'canceled'].includes(newStatus)) {
-          throw new Error(`Cannot transition from ${currentStatus} to ${newStatus}`);
+        // Pending can only be canceled until payment is confirmed
+        if (newStatus !== 'canceled') {
+          throw new ConflictError('Cannot change the status of an order until its payment is confirmed');
         }
         break;
         
       case 'processing':
         // Processing can transition to completed, shipped, or canceled
         if (!['completed', 'shipped', 'canceled'].includes(newStatus)) {
-          throw new Error(`Cannot transition from ${currentStatus} to ${newStatus}`);
+          throw new ConflictError(`Cannot transition from ${currentStatus} to ${newStatus}`);
         }
         break;
         
       case 'shipped':
         // Shipped can only transition to completed
         if (newStatus !== 'completed') {
-          throw new Error(`Cannot transition from ${currentStatus} to ${newStatus}`);
+          throw new ConflictError(`Cannot transition from ${currentStatus} to ${newStatus}`);
         }
         break;
         
       case 'completed':
         // Completed is a terminal state
-        throw new Error('Cannot change status of a completed order');
+        throw new ConflictError('Cannot change status of a completed order');
         
       case 'canceled':
         // Canceled is a terminal state
-        throw new Error('Cannot change status of a canceled order');
-    }
-    
-    // Role-based permissions for status transitions
-    const isSeller = userId === order.product.sellerId;
-    const isBuyer = userId === order.buyerId;
-    
-    // Sellers can set orders to processing, shipped, or completed
-    if (isSeller && !['processing', 'shipped', 'completed'].includes(newStatus)) {
-      throw new Error('Sellers can only set orders to processing, shipped, or completed');
-    }
-    
-    // Buyers can only cancel pending orders
-    if (isBuyer && newStatus !== 'canceled') {
-      throw new Error('Buyers can only cancel pending orders');
+        throw new ConflictError('Cannot change status of a canceled order');
+
+      case 'failed':
+        // Failed is a terminal state; its stock is already back
+        throw new ConflictError('Cannot change status of a failed order');
+
+      case 'refunded':
+        // Refunded is a terminal state
+        throw new ConflictError('Cannot change status of a refunded order');
     }
   }
 }
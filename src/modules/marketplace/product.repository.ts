@@ -1,14 +1,15 @@
-import { PrismaClient, MarketplaceProduct, User } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { MarketplaceProduct, User } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Type for product creation without ID and timestamps
 export type CreateProductInput = {
   sellerId: string;
-  name: string;
+  title: string;
   description: string;
-  price: number;
-  imageUrl: string;
+  priceCents: number;
+  currency: string;
+  mediaUrl?: string;
   category?: string;
   stock: number;
   isActive: boolean;
@@ -23,11 +24,18 @@ export type ProductWithSeller = MarketplaceProduct & {
 };
 
 export class ProductRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Create a new product
+   * hiddenAt is set when the content filter holds the listing for review.
    */
-  async create(data: CreateProductInput): Promise<MarketplaceProduct> {
-    return prisma.marketplaceProduct.create({
+  async create(data: CreateProductInput & { hiddenAt?: Date }): Promise<MarketplaceProduct> {
+    return this.db.marketplaceProduct.create({
       data
     });
   }
@@ -36,7 +44,7 @@ export class ProductRepository {
    * Find a product by ID
    */
   async findById(id: string): Promise<ProductWithSeller | null> {
-    return prisma.marketplaceProduct.findUnique({
+    return this.db.marketplaceProduct.findUnique({
       where: { id },
       include: { seller: true }
     });
@@ -45,18 +53,28 @@ export class ProductRepository {
   /**
    * Update a product
    */
-  async update(id: string, data: UpdateProductInput): Promise<MarketplaceProduct> {
-    return prisma.marketplaceProduct.update({
+  async update(id: string, data: UpdateProductInput & { hiddenAt?: Date }): Promise<MarketplaceProduct> {
+    return this.db.marketplaceProduct.update({
       where: { id },
       data
     });
   }
 
+  /**
+   * Hide a product from listings and checkout, or show it again with null
+   */
+  async setHiddenAt(id: string, hiddenAt: Date | null): Promise<MarketplaceProduct> {
+    return this.db.marketplaceProduct.update({
+      where: { id },
+      data: { hiddenAt }
+    });
+  }
+
   /**
    * Delete a product
    */
   async delete(id: string): Promise<MarketplaceProduct> {
-    return prisma.marketplaceProduct.delete({
+    return this.db.marketplaceProduct.delete({
       where: { id }
     });
   }
@@ -64,18 +82,14 @@ export class ProductRepository {
   /**
    * Find all products with optional pagination and filters
    */
-  async findAll(options: {
-    page?: number;
-    limit?: number;
+  async findAll(options: PageOptions & {
     sellerId?: string;
     category?: string;
     minPrice?: number;
     maxPrice?: number;
     isActive?: boolean;
-  } = {}): Promise<{ products: ProductWithSeller[]; total: number }> {
+  }): Promise<Page<ProductWithSeller>> {
     const {
-      page = 1,
-      limit = 10,
       sellerId,
       category,
       minPrice,
@@ -83,10 +97,8 @@ export class ProductRepository {
       isActive
     } = options;
     
-    const skip = (page - 1) * limit;
-    
-    // Build where clause based on filters
-    const where: any = {};
+    // Build where clause based on filters; taken-down products are left out
+    const where: any = { hiddenAt: null };
     
     if (sellerId) {
       where.sellerId = sellerId;
@@ -97,14 +109,14 @@ export class ProductRepository {
     }
     
     if (minPrice !== undefined || maxPrice !== undefined) {
-      where.price = {};
+      where.priceCents = {};
       
       if (minPrice !== undefined) {
-        where.price.gte = minPrice;
+        where.priceCents.gte = minPrice;
       }
       
       if (maxPrice !== undefined) {
-        where.price.lte = maxPrice;
+        where.priceCents.lte = maxPrice;
       }
     }
     
@@ -112,49 +124,40 @@ export class ProductRepository {
       where.isActive = isActive;
     }
     
-    const [products, total] = await Promise.all([
-      prisma.marketplaceProduct.findMany({
+    return paginate(options, {
+      findMany: (args) => this.db.marketplaceProduct.findMany({
+        ...args,
         where,
-        skip,
-        take: limit,
-        include: { seller: true },
-        orderBy: { createdAt: 'desc' }
+        include: { seller: true }
       }),
-      prisma.marketplaceProduct.count({ where })
-    ]);
-
-    return { products, total };
+      count: () => this.db.marketplaceProduct.count({ where })
+    });
   }
 
   /**
-   * Search products by name or description
+   * Search products by title or description
    */
-  async search(query: string, options: {
-    page?: number;
-    limit?: number;
+  async search(query: string, options: PageOptions & {
     category?: string;
     minPrice?: number;
     maxPrice?: number;
     isActive?: boolean;
-  } = {}): Promise<{ products: ProductWithSeller[]; total: number }> {
+  }): Promise<Page<ProductWithSeller>> {
     const {
-      page = 1,
-      limit = 10,
       category,
       minPrice,
       maxPrice,
       isActive = true // Default to only active products for search
     } = options;
     
-    const skip = (page - 1) * limit;
-    
     // Build where clause based on filters and search query
     const where: any = {
       OR: [
-        { name: { contains: query, mode: 'insensitive' } },
+        { title: { contains: query, mode: 'insensitive' } },
         { description: { contains: query, mode: 'insensitive' } }
       ],
-      isActive
+      isActive,
+      hiddenAt: null
     };
     
     if (category) {
@@ -162,29 +165,25 @@ export class ProductRepository {
     }
     
     if (minPrice !== undefined || maxPrice !== undefined) {
-      where.price = {};
+      where.priceCents = {};
       
       if (minPrice !== undefined) {
-        where.price.gte = minPrice;
+        where.priceCents.gte = minPrice;
       }
       
       if (maxPrice !== undefined) {
-        where.price.lte = maxPrice;
+        where.priceCents.lte = maxPrice;
       }
     }
     
-    const [products, total] = await Promise.all([
-      prisma.marketplaceProduct.findMany({
+    return paginate(options, {
+      findMany: (args) => this.db.marketplaceProduct.findMany({
+        ...args,
         where,
-        skip,
-        take: limit,
-        include: { seller: true },
-        orderBy: { createdAt: 'desc' }
+        include: { seller: true }
       }),
-      prisma.marketplaceProduct.count({ where })
-    ]);
-
-    return { products, total };
+      count: () => this.db.marketplaceProduct.count({ where })
+    });
   }
   
   /**
@@ -192,7 +191,7 @@ export class ProductRepository {
    */
   async getCategories(): Promise<string[]> {
     // Get unique categories from existing products
-    const products = await prisma.marketplaceProduct.findMany({
+    const products = await this.db.marketplaceProduct.findMany({
       select: { category: true },
       distinct: ['category'],
       where: {
@@ -1,27 +1,33 @@
 import { Router } from 'express';
-import { ProductController } from './product.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { productSchemas } from './product.schemas';
 
-const router = Router();
-const productController = new ProductController();
+/**
+ * Product routes, mounted at /api/products
+ */
+export const createProductRoutes = ({ productController, auth }: Container): Router => {
+  const router = Router();
 
-// Public routes
-router.get('/', (req, res) => productController.getProducts(req, res));
-router.get('/categories', (req, res) => productController.getCategories(req, res));
-router.get('/search', (req, res) => productController.searchProducts(req, res));
-router.get('/:id', (req, res) => productController.getProductById(req, res));
+  // Public routes
+  router.get('/', validate(productSchemas.list), (req, res, next) => productController.getProducts(req, res, next));
+  router.get('/categories', validate(productSchemas.categories), (req, res, next) => productController.getCategories(req, res, next));
+  router.get('/search', validate(productSchemas.search), (req, res, next) => productController.searchProducts(req, res, next));
+  router.get('/:id', validate(productSchemas.getById), (req, res, next) => productController.getProductById(req, res, next));
 
-// Protected routes - require authentication
-router.use(requireAuth);
-router.use(populateUser);
+  // Protected routes - require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Create a new product
-router.post('/', (req, res) => productController.createProduct(req, res));
+  // Create a new product
+  router.post('/', requirePermission('product:create'), validate(productSchemas.create), (req, res, next) => productController.createProduct(req, res, next));
 
-// Update a product
-router.put('/:id', (req, res) => productController.updateProduct(req, res));
+  // Update a product
+  router.put('/:id', validate(productSchemas.update), (req, res, next) => productController.updateProduct(req, res, next));
 
-// Delete a product
-router.delete('/:id', (req, res) => productController.deleteProduct(req, res));
+  // Delete a product
+  router.delete('/:id', validate(productSchemas.remove), (req, res, next) => productController.deleteProduct(req, res, next));
 
-export default router;
+  return router;
+};
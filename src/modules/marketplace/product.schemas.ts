@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { idParams, pageQuery, booleanQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+
+// Filters shared by listing and search; prices are in cents
+const productFilters = {
+  category: z.string().max(50).optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional()
+};
+
+// Lists of products sort on these fields, newest first by default
+const productListQuery = pageQuery(['createdAt', 'updatedAt', 'priceCents', 'title']);
+
+/**
+ * A product as it is listed; prices are in cents
+ */
+export const productResponse = z.object({
+  id: z.string().uuid(),
+  sellerId: z.string().uuid(),
+  title: z.string(),
+  description: z.string(),
+  mediaUrl: z.string().nullable(),
+  priceCents: z.number().int(),
+  currency: z.string(),
+  category: z.string().nullable(),
+  stock: z.number().int(),
+  isActive: z.boolean(),
+  hiddenAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+const productWithSeller = productResponse.extend({ seller: publicUserResponse });
+
+/**
+ * Request and response schemas for product routes
+ */
+export const productSchemas = {
+  categories: {
+    response: z.array(z.string())
+  },
+
+  create: {
+    body: z.object({
+      title: z.string().min(2).max(100),
+      description: z.string().min(10).max(5000),
+      priceCents: z.number().int().min(0),
+      currency: z.string().length(3).toLowerCase().default('usd'),
+      mediaUrl: z.string().url().optional(),
+      category: z.string().max(50).optional(),
+      stock: z.number().int().min(0),
+      isActive: z.boolean().default(true)
+    }),
+    response: productResponse
+  },
+
+  getById: {
+    params: idParams,
+    response: productWithSeller
+  },
+
+  update: {
+    params: idParams,
+    body: z.object({
+      title: z.string().min(2).max(100).optional(),
+      description: z.string().min(10).max(5000).optional(),
+      priceCents: z.number().int().min(0).optional(),
+      currency: z.string().length(3).toLowerCase().optional(),
+      mediaUrl: z.string().url().optional(),
+      category: z.string().max(50).optional(),
+      stock: z.number().int().min(0).optional(),
+      isActive: z.boolean().optional()
+    }),
+    response: productResponse
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  list: {
+    query: productListQuery.extend({
+      ...productFilters,
+      sellerId: z.string().uuid().optional(),
+      isActive: booleanQuery.optional()
+    }),
+    response: z.array(productWithSeller)
+  },
+
+  search: {
+    query: productListQuery.extend({
+      ...productFilters,
+      q: z.string().min(1, 'Search query is required')
+    }),
+    response: z.array(productWithSeller)
+  }
+};
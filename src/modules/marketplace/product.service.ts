@@ -1,12 +1,21 @@
 import { MarketplaceProduct } from '@prisma/client';
 import { ProductRepository, CreateProductInput, UpdateProductInput, ProductWithSeller } from './product.repository';
 import logger from '../../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { Actor, authorize } from '../../utils/policy';
+import { Page, PageOptions } from '../../utils/pagination';
+import { ContentFilterService } from '../content-filter/content-filter.service';
+import { TransactionRunner } from '../../container';
 
 export class ProductService {
   private productRepository: ProductRepository;
+  private contentFilterService: ContentFilterService;
+  private transaction: TransactionRunner;
 
-  constructor() {
-    this.productRepository = new ProductRepository();
+  constructor(productRepository: ProductRepository, contentFilterService: ContentFilterService, transaction: TransactionRunner) {
+    this.productRepository = productRepository;
+    this.contentFilterService = contentFilterService;
+    this.transaction = transaction;
   }
 
   /**
@@ -16,8 +25,23 @@ export class ProductService {
     try {
       // Validate product data
       this.validateProductData(productData);
-      
-      return await this.productRepository.create(productData);
+
+      // Rejected listings throw; held ones are saved hidden until a moderator reviews them
+      const verdict = await this.contentFilterService.screen({
+        context: 'product',
+        userId: productData.sellerId,
+        text: `${productData.title}\n${productData.description}`
+      });
+
+      return await this.transaction(async ({ productRepository, reportRepository }) => {
+        const product = await productRepository.create({
+          ...productData,
+          ...(verdict.action === 'hold' && { hiddenAt: new Date() })
+        });
+        await this.contentFilterService.holdForReview('product', product.id, verdict, reportRepository);
+
+        return product;
+      });
     } catch (error: any) {
       logger.error(`Error creating product: ${error.message}`);
       throw error;
@@ -39,20 +63,37 @@ export class ProductService {
   /**
    * Update a product
    */
-  async updateProduct(productId: string, userId: string, updateData: UpdateProductInput, isAdmin: boolean = false): Promise<MarketplaceProduct> {
+  async updateProduct(productId: string, actor: Actor, updateData: UpdateProductInput): Promise<MarketplaceProduct> {
     try {
       // Check if product exists and belongs to the user
       const product = await this.productRepository.findById(productId);
       
       if (!product) {
-        throw new Error('Product not found');
+        throw new NotFoundError('Product not found');
       }
       
-      if (!isAdmin && product.sellerId !== userId) {
-        throw new Error('You can only update your own products');
+      authorize(actor, 'product', 'update', product, 'You can only update your own products');
+
+      // Only a new title or description goes through the content filter, as the seller's
+      if (updateData.title === undefined && updateData.description === undefined) {
+        return await this.productRepository.update(productId, updateData);
       }
-      
-      return await this.productRepository.update(productId, updateData);
+
+      const verdict = await this.contentFilterService.screen({
+        context: 'product',
+        userId: product.sellerId,
+        text: `${updateData.title ?? product.title}\n${updateData.description ?? product.description}`
+      });
+
+      return await this.transaction(async ({ productRepository, reportRepository }) => {
+        const updated = await productRepository.update(productId, {
+          ...updateData,
+          ...(verdict.action === 'hold' && { hiddenAt: new Date() })
+        });
+        await this.contentFilterService.holdForReview('product', productId, verdict, reportRepository);
+
+        return updated;
+      });
     } catch (error: any) {
       logger.error(`Error updating product: ${error.message}`);
       throw error;
@@ -62,18 +103,16 @@ export class ProductService {
   /**
    * Delete a product
    */
-  async deleteProduct(productId: string, userId: string, isAdmin: boolean = false): Promise<MarketplaceProduct> {
+  async deleteProduct(productId: string, actor: Actor): Promise<MarketplaceProduct> {
     try {
       // Check if product exists and belongs to the user
       const product = await this.productRepository.findById(productId);
       
       if (!product) {
-        throw new Error('Product not found');
+        throw new NotFoundError('Product not found');
       }
       
-      if (!isAdmin && product.sellerId !== userId) {
-        throw new Error('You can only delete your own products');
-      }
+      authorize(actor, 'product', 'delete', product, 'You can only delete your own products');
       
       return await this.productRepository.delete(productId);
     } catch (error: any) {
@@ -85,15 +124,13 @@ export class ProductService {
   /**
    * Get all products with filtering and pagination
    */
-  async getAllProducts(options: {
-    page?: number;
-    limit?: number;
+  async getAllProducts(options: PageOptions & {
     sellerId?: string;
     category?: string;
     minPrice?: number;
     maxPrice?: number;
     isActive?: boolean;
-  } = {}): Promise<{ products: ProductWithSeller[]; total: number }> {
+  }): Promise<Page<ProductWithSeller>> {
     try {
       return await this.productRepository.findAll(options);
     } catch (error: any) {
@@ -105,14 +142,12 @@ export class ProductService {
   /**
    * Search products
    */
-  async searchProducts(query: string, options: {
-    page?: number;
-    limit?: number;
+  async searchProducts(query: string, options: PageOptions & {
     category?: string;
     minPrice?: number;
     maxPrice?: number;
     isActive?: boolean;
-  } = {}): Promise<{ products: ProductWithSeller[]; total: number }> {
+  }): Promise<Page<ProductWithSeller>> {
     try {
       return await this.productRepository.search(query, options);
     } catch (error: any) {
@@ -137,20 +172,20 @@ export class ProductService {
    * Validate product data
    */
   private validateProductData(data: Partial<CreateProductInput>): void {
-    if (data.price !== undefined && data.price < 0) {
-      throw new Error('Price cannot be negative');
+    if (data.priceCents !== undefined && data.priceCents < 0) {
+      throw new ValidationError('Price cannot be negative');
     }
     
     if (data.stock !== undefined && data.stock < 0) {
-      throw new Error('Stock cannot be negative');
+      throw new ValidationError('Stock cannot be negative');
     }
 
-    if (data.name !== undefined && (!data.name || data.name.trim().length === 0)) {
-      throw new Error('Product name is required');
+    if (data.title !== undefined && (!data.title || data.title.trim().length === 0)) {
+      throw new ValidationError('Product title is required');
     }
 
     if (data.description !== undefined && (!data.description || data.description.trim().length === 0)) {
-      throw new Error('Product description is required');
+      throw new ValidationError('Product description is required');
     }
   }
 }
@@ -0,0 +1,126 @@
+import { Order } from '@prisma/client';
+import { OrderRepository } from './order.repository';
+import { PaymentService } from '../payments/payment.service';
+import logger from '../../utils/logger';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { Actor, authorize, hasPermission } from '../../utils/policy';
+
+export class RefundService {
+  private orderRepository: OrderRepository;
+  private paymentService: PaymentService;
+
+  constructor(orderRepository: OrderRepository, paymentService: PaymentService) {
+    this.orderRepository = orderRepository;
+    this.paymentService = paymentService;
+  }
+
+  /**
+   * Request a refund for a completed order
+   * Only the buyer can request, and only once per order
+   */
+  async requestRefund(orderId: string, actor: Actor, reason: string): Promise<Order> {
+    try {
+      const order = await this.orderRepository.findById(orderId);
+
+      if (!order) {
+        throw new NotFoundError('Order not found');
+      }
+
+      authorize(actor, 'order', 'refund:request', order, 'You are not authorized to request a refund for this order');
+
+      if (order.status !== 'completed') {
+        throw new ConflictError('Only completed orders can be refunded');
+      }
+
+      if (order.refundStatus) {
+        throw new ConflictError('A refund has already been requested for this order');
+      }
+
+      return await this.orderRepository.updateRefund(orderId, {
+        refundStatus: 'requested',
+        refundReason: reason,
+        refundRequestedAt: new Date()
+      });
+    } catch (error: any) {
+      logger.error(`Error requesting refund: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a refund and refund the payment through Stripe
+   * The seller can approve a buyer's request; those with order:refund can also refund without one.
+   * The order is marked refunded and restocked when the charge.refunded webhook arrives.
+   */
+  async approveRefund(orderId: string, actor: Actor): Promise<Order> {
+    try {
+      const order = await this.getOrderForDecision(orderId, actor);
+
+      if (order.refundStatus !== 'requested' && !hasPermission(actor, 'order:refund')) {
+        throw new ConflictError('No refund has been requested for this order');
+      }
+
+      if (!order.paymentIntentId) {
+        throw new ConflictError('Order has no payment to refund');
+      }
+
+      const refund = await this.paymentService.createRefund(order.paymentIntentId, {
+        orderId: order.id,
+        approvedBy: actor.id
+      });
+
+      return await this.orderRepository.updateRefund(orderId, {
+        refundStatus: 'approved',
+        stripeRefundId: refund.id
+      });
+    } catch (error: any) {
+      logger.error(`Error approving refund: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a buyer's refund request
+   */
+  async rejectRefund(orderId: string, actor: Actor): Promise<Order> {
+    try {
+      const order = await this.getOrderForDecision(orderId, actor);
+
+      if (order.refundStatus !== 'requested') {
+        throw new ConflictError('No refund has been requested for this order');
+      }
+
+      return await this.orderRepository.updateRefund(orderId, {
+        refundStatus: 'rejected'
+      });
+    } catch (error: any) {
+      logger.error(`Error rejecting refund: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Load a completed order the user may decide a refund for
+   */
+  private async getOrderForDecision(orderId: string, actor: Actor): Promise<Order> {
+    const order = await this.orderRepository.findById(orderId);
+
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    // Only the seller or those who handle refunds can decide on one
+    authorize(actor, 'order', 'refund:decide', order, 'You are not authorized to refund this order');
+
+    if (order.status !== 'completed') {
+      throw new ConflictError('Only completed orders can be refunded');
+    }
+
+    // Stripe settles disputed payments through the dispute itself
+    if (order.disputeStatus === 'open') {
+      throw new ConflictError('Cannot refund an order while its payment is disputed');
+    }
+
+    return order;
+  }
+}
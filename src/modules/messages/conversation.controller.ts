@@ -0,0 +1,137 @@
+import { Response, NextFunction } from 'express';
+import { ConversationService } from './conversation.service';
+import { UnauthorizedError } from '../../utils/errors';
+import { conversationSchemas } from './conversation.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+
+export class ConversationController {
+  private conversationService: ConversationService;
+
+  constructor(conversationService: ConversationService) {
+    this.conversationService = conversationService;
+  }
+
+  /**
+   * Create a group conversation
+   */
+  async createConversation(req: ValidatedRequest<typeof conversationSchemas.create>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const conversation = await this.conversationService.createGroupConversation(
+        req.user.id,
+        req.body.name,
+        req.body.participantIds
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Conversation created successfully',
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get conversation details
+   */
+  async getConversation(req: ValidatedRequest<typeof conversationSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { conversationId } = req.params;
+      const conversation = await this.conversationService.getConversation(conversationId, req.user.id);
+
+      res.status(200).json({
+        success: true,
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Rename a group conversation
+   */
+  async updateConversation(req: ValidatedRequest<typeof conversationSchemas.update>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { conversationId } = req.params;
+      const conversation = await this.conversationService.renameConversation(
+        conversationId,
+        req.user.id,
+        req.body.name
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Conversation updated successfully',
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Add members to a group conversation
+   */
+  async addParticipants(req: ValidatedRequest<typeof conversationSchemas.addParticipants>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { conversationId } = req.params;
+      const conversation = await this.conversationService.addParticipants(
+        conversationId,
+        req.user.id,
+        req.body.userIds
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Members added successfully',
+        data: conversation
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove a member from a group conversation, or leave it
+   */
+  async removeParticipant(req: ValidatedRequest<typeof conversationSchemas.removeParticipant>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { conversationId, userId } = req.params;
+      await this.conversationService.removeParticipant(conversationId, req.user.id, userId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Member removed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
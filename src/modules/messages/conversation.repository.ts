@@ -0,0 +1,243 @@
+import { Conversation, ConversationParticipant, Message, User } from '@prisma/client';
+import { DbClient } from '../../config/database';
+
+// Type for group conversation creation
+export type CreateConversationInput = {
+  name?: string;
+  isGroup: boolean;
+  directKey?: string;
+  createdById: string;
+  participantIds: string[];
+};
+
+// Type for conversation update
+export type UpdateConversationInput = {
+  name?: string;
+};
+
+// Conversation with participants and their user information
+export type ConversationWithParticipants = Conversation & {
+  participants: (ConversationParticipant & {
+    user: User;
+  })[];
+};
+
+// Participant as listed in a conversation summary
+export type ConversationParticipantSummary = {
+  userId: string;
+  displayName: string;
+  avatarUrl: string | null;
+  lastReadAt: Date | null;
+};
+
+// Conversation summary type
+export type ConversationSummary = {
+  id: string;
+  name: string | null;
+  isGroup: boolean;
+  createdAt: Date;
+  lastMessageAt: Date | null;
+  lastReadAt: Date | null;
+  lastMessage: Message | null;
+  unreadCount: number;
+  participants: ConversationParticipantSummary[];
+};
+
+// Row shape returned by the conversation summary query; JSON columns carry string dates
+type ConversationSummaryRow = Omit<ConversationSummary, 'lastMessage' | 'participants'> & {
+  lastMessage: (Omit<Message, 'createdAt'> & { createdAt: string }) | null;
+  participants: (Omit<ConversationParticipantSummary, 'lastReadAt'> & { lastReadAt: string | null })[] | null;
+};
+
+export class ConversationRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Create a conversation with its participants
+   */
+  async create(data: CreateConversationInput): Promise<ConversationWithParticipants> {
+    return this.db.conversation.create({
+      data: {
+        name: data.name,
+        isGroup: data.isGroup,
+        directKey: data.directKey,
+        createdById: data.createdById,
+        participants: {
+          create: data.participantIds.map(userId => ({ userId }))
+        }
+      },
+      include: {
+        participants: {
+          include: { user: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Find a conversation by ID
+   */
+  async findById(id: string): Promise<ConversationWithParticipants | null> {
+    return this.db.conversation.findUnique({
+      where: { id },
+      include: {
+        participants: {
+          include: { user: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Find the direct conversation for a pair of users
+   */
+  async findByDirectKey(directKey: string): Promise<ConversationWithParticipants | null> {
+    return this.db.conversation.findUnique({
+      where: { directKey },
+      include: {
+        participants: {
+          include: { user: true }
+        }
+      }
+    });
+  }
+
+  /**
+   * Update a conversation
+   */
+  async update(id: string, data: UpdateConversationInput): Promise<Conversation> {
+    return this.db.conversation.update({
+      where: { id },
+      data
+    });
+  }
+
+  /**
+   * Find a user's membership in a conversation
+   */
+  async findParticipant(conversationId: string, userId: string): Promise<ConversationParticipant | null> {
+    return this.db.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the IDs of all users in a conversation
+   */
+  async getParticipantIds(conversationId: string): Promise<string[]> {
+    const participants = await this.db.conversationParticipant.findMany({
+      where: { conversationId },
+      select: { userId: true }
+    });
+
+    return participants.map(participant => participant.userId);
+  }
+
+  /**
+   * Add users to a conversation, skipping existing members
+   */
+  async addParticipants(conversationId: string, userIds: string[]): Promise<number> {
+    const result = await this.db.conversationParticipant.createMany({
+      data: userIds.map(userId => ({ conversationId, userId })),
+      skipDuplicates: true
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Remove a user from a conversation
+   */
+  async removeParticipant(conversationId: string, userId: string): Promise<ConversationParticipant> {
+    return this.db.conversationParticipant.delete({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId
+        }
+      }
+    });
+  }
+
+  /**
+   * Set when a user last read a conversation
+   */
+  async updateLastReadAt(conversationId: string, userId: string, lastReadAt: Date): Promise<ConversationParticipant> {
+    return this.db.conversationParticipant.update({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId
+        }
+      },
+      data: { lastReadAt }
+    });
+  }
+
+  /**
+   * Get all conversations for a user in a single query
+   * Includes the last message, the user's unread count and all participants
+   */
+  async getUserConversations(userId: string): Promise<ConversationSummary[]> {
+    const rows = await this.db.$queryRaw<ConversationSummaryRow[]>`
+      SELECT
+        c."id",
+        c."name",
+        c."isGroup",
+        c."createdAt",
+        c."lastMessageAt",
+        me."lastReadAt",
+        lm."lastMessage",
+        (
+          SELECT COUNT(*)::int
+          FROM "Message" m
+          WHERE m."conversationId" = c."id"
+            AND m."senderId" <> me."userId"
+            AND (me."lastReadAt" IS NULL OR m."createdAt" > me."lastReadAt")
+        ) AS "unreadCount",
+        pp."participants"
+      FROM "ConversationParticipant" me
+      JOIN "Conversation" c ON c."id" = me."conversationId"
+      LEFT JOIN LATERAL (
+        SELECT row_to_json(m) AS "lastMessage"
+        FROM "Message" m
+        WHERE m."conversationId" = c."id"
+        ORDER BY m."createdAt" DESC
+        LIMIT 1
+      ) lm ON true
+      LEFT JOIN LATERAL (
+        SELECT json_agg(json_build_object(
+          'userId', u."id",
+          'displayName', u."displayName",
+          'avatarUrl', u."avatarUrl",
+          'lastReadAt', p."lastReadAt"
+        )) AS "participants"
+        FROM "ConversationParticipant" p
+        JOIN "User" u ON u."id" = p."userId"
+        WHERE p."conversationId" = c."id"
+      ) pp ON true
+      WHERE me."userId" = ${userId}
+      ORDER BY COALESCE(c."lastMessageAt", c."createdAt") DESC
+    `;
+
+    return rows.map(row => ({
+      ...row,
+      lastMessage: row.lastMessage
+        ? { ...row.lastMessage, createdAt: new Date(row.lastMessage.createdAt) }
+        : null,
+      participants: (row.participants || []).map(participant => ({
+        ...participant,
+        lastReadAt: participant.lastReadAt ? new Date(participant.lastReadAt) : null
+      }))
+    }));
+  }
+}
@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+import { conversationParams, messageResponse } from './message.schemas';
+
+const userIds = z.array(z.string().uuid()).min(1).max(100);
+
+const conversation = z.object({
+  id: z.string().uuid(),
+  name: z.string().nullable(),
+  isGroup: z.boolean(),
+  directKey: z.string().nullable(),
+  createdById: z.string().uuid().nullable(),
+  lastMessageAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+const conversationWithParticipants = conversation.extend({
+  participants: z.array(z.object({
+    id: z.string().uuid(),
+    conversationId: z.string().uuid(),
+    userId: z.string().uuid(),
+    joinedAt: timestamp,
+    lastReadAt: timestamp.nullable(),
+    user: publicUserResponse
+  }))
+});
+
+// A conversation in the inbox, with its last message and what the user hasn't read
+const conversationSummary = z.object({
+  id: z.string().uuid(),
+  name: z.string().nullable(),
+  isGroup: z.boolean(),
+  createdAt: timestamp,
+  lastMessageAt: timestamp.nullable(),
+  lastReadAt: timestamp.nullable(),
+  lastMessage: messageResponse.nullable(),
+  unreadCount: z.number().int(),
+  participants: z.array(z.object({
+    userId: z.string().uuid(),
+    displayName: z.string(),
+    avatarUrl: z.string().nullable(),
+    lastReadAt: timestamp.nullable()
+  }))
+});
+
+/**
+ * Request and response schemas for conversation routes
+ */
+export const conversationSchemas = {
+  list: {
+    response: z.array(conversationSummary)
+  },
+
+  create: {
+    body: z.object({
+      name: z.string().min(1).max(100),
+      participantIds: userIds
+    }),
+    response: conversationWithParticipants
+  },
+
+  getById: {
+    params: conversationParams,
+    response: conversationWithParticipants
+  },
+
+  update: {
+    params: conversationParams,
+    body: z.object({
+      name: z.string().min(1).max(100)
+    }),
+    response: conversation
+  },
+
+  addParticipants: {
+    params: conversationParams,
+    body: z.object({
+      userIds
+    }),
+    response: conversationWithParticipants
+  },
+
+  removeParticipant: {
+    params: conversationParams.extend({
+      userId: z.string().uuid()
+    })
+  }
+};
@@ -0,0 +1,251 @@
+import { Conversation, ConversationParticipant } from '@prisma/client';
+import {
+  ConversationRepository,
+  ConversationWithParticipants,
+  ConversationSummary
+} from './conversation.repository';
+import { UserRepository } from '../users/user.repository';
+import logger from '../../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+
+export class ConversationService {
+  private conversationRepository: ConversationRepository;
+  private userRepository: UserRepository;
+
+  constructor(conversationRepository: ConversationRepository, userRepository: UserRepository) {
+    this.conversationRepository = conversationRepository;
+    this.userRepository = userRepository;
+  }
+
+  /**
+   * Create a group conversation
+   * The creator is always added as a participant
+   */
+  async createGroupConversation(
+    creatorId: string,
+    name: string,
+    participantIds: string[]
+  ): Promise<ConversationWithParticipants> {
+    try {
+      if (!name || name.trim().length === 0) {
+        throw new ValidationError('Group name is required');
+      }
+
+      const memberIds = Array.from(new Set([creatorId, ...participantIds]));
+      await this.ensureUsersExist(memberIds);
+
+      return await this.conversationRepository.create({
+        name,
+        isGroup: true,
+        createdById: creatorId,
+        participantIds: memberIds
+      });
+    } catch (error: any) {
+      logger.error(`Error creating group conversation: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the direct conversation between two users, creating it if needed
+   */
+  async getOrCreateDirectConversation(userId: string, otherUserId: string): Promise<ConversationWithParticipants> {
+    try {
+      if (userId === otherUserId) {
+        throw new ValidationError('Cannot send a message to yourself');
+      }
+
+      const directKey = [userId, otherUserId].sort().join(':');
+      const existing = await this.conversationRepository.findByDirectKey(directKey);
+
+      if (existing) {
+        return existing;
+      }
+
+      await this.ensureUsersExist([otherUserId]);
+
+      try {
+        return await this.conversationRepository.create({
+          isGroup: false,
+          directKey,
+          createdById: userId,
+          participantIds: [userId, otherUserId]
+        });
+      } catch (error: any) {
+        // Another request created the conversation first
+        const created = await this.conversationRepository.findByDirectKey(directKey);
+        if (created) {
+          return created;
+        }
+        throw error;
+      }
+    } catch (error: any) {
+      logger.error(`Error getting direct conversation: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a conversation the user participates in
+   */
+  async getConversation(conversationId: string, userId: string): Promise<ConversationWithParticipants> {
+    try {
+      const conversation = await this.conversationRepository.findById(conversationId);
+
+      if (!conversation) {
+        throw new NotFoundError('Conversation not found');
+      }
+
+      if (!conversation.participants.some(participant => participant.userId === userId)) {
+        throw new ForbiddenError('You are not a participant in this conversation');
+      }
+
+      return conversation;
+    } catch (error: any) {
+      logger.error(`Error fetching conversation: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's membership in a conversation, failing if they are not a member
+   */
+  async requireParticipant(conversationId: string, userId: string): Promise<ConversationParticipant> {
+    const participant = await this.conversationRepository.findParticipant(conversationId, userId);
+
+    if (!participant) {
+      const conversation = await this.conversationRepository.findById(conversationId);
+      throw conversation
+        ? new ForbiddenError('You are not a participant in this conversation')
+        : new NotFoundError('Conversation not found');
+    }
+
+    return participant;
+  }
+
+  /**
+   * Get the IDs of all users in a conversation
+   */
+  async getParticipantIds(conversationId: string): Promise<string[]> {
+    try {
+      return await this.conversationRepository.getParticipantIds(conversationId);
+    } catch (error: any) {
+      logger.error(`Error fetching conversation participants: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Rename a group conversation
+   */
+  async renameConversation(conversationId: string, userId: string, name: string): Promise<Conversation> {
+    try {
+      const conversation = await this.getConversation(conversationId, userId);
+
+      if (!conversation.isGroup) {
+        throw new ConflictError('Only group conversations can be renamed');
+      }
+
+      if (!name || name.trim().length === 0) {
+        throw new ValidationError('Group name is required');
+      }
+
+      return await this.conversationRepository.update(conversationId, { name });
+    } catch (error: any) {
+      logger.error(`Error renaming conversation: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Add members to a group conversation
+   * Any member can add others
+   */
+  async addParticipants(
+    conversationId: string,
+    userId: string,
+    userIds: string[]
+  ): Promise<ConversationWithParticipants> {
+    try {
+      const conversation = await this.getConversation(conversationId, userId);
+
+      if (!conversation.isGroup) {
+        throw new ConflictError('Members can only be added to group conversations');
+      }
+
+      await this.ensureUsersExist(userIds);
+      await this.conversationRepository.addParticipants(conversationId, userIds);
+
+      return await this.getConversation(conversationId, userId);
+    } catch (error: any) {
+      logger.error(`Error adding conversation participants: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a member from a group conversation
+   * Members can remove themselves; only the creator can remove others
+   */
+  async removeParticipant(
+    conversationId: string,
+    userId: string,
+    memberId: string
+  ): Promise<ConversationParticipant> {
+    try {
+      const conversation = await this.getConversation(conversationId, userId);
+
+      if (!conversation.isGroup) {
+        throw new ConflictError('Members can only be removed from group conversations');
+      }
+
+      if (memberId !== userId && conversation.createdById !== userId) {
+        throw new ForbiddenError('Only the group creator can remove other members');
+      }
+
+      if (!conversation.participants.some(participant => participant.userId === memberId)) {
+        throw new NotFoundError('User is not a participant in this conversation');
+      }
+
+      return await this.conversationRepository.removeParticipant(conversationId, memberId);
+    } catch (error: any) {
+      logger.error(`Error removing conversation participant: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Set when a user last read a conversation
+   */
+  async updateLastReadAt(conversationId: string, userId: string, lastReadAt: Date): Promise<ConversationParticipant> {
+    try {
+      return await this.conversationRepository.updateLastReadAt(conversationId, userId, lastReadAt);
+    } catch (error: any) {
+      logger.error(`Error updating last read time: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all conversations for a user
+   */
+  async getUserConversations(userId: string): Promise<ConversationSummary[]> {
+    try {
+      return await this.conversationRepository.getUserConversations(userId);
+    } catch (error: any) {
+      logger.error(`Error fetching user conversations: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure every user ID refers to an existing user
+   */
+  private async ensureUsersExist(userIds: string[]): Promise<void> {
+    const users = await Promise.all(userIds.map(id => this.userRepository.findById(id)));
+
+    if (users.some(user => !user)) {
+      throw new NotFoundError('User not found');
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { EventEmitter } from 'events';
+import { Message } from '@prisma/client';
+
+// Emitted after a message has been stored
+export type MessageCreatedEvent = {
+  message: Message;
+  senderId: string;
+  // Other participants in the conversation
+  recipientIds: string[];
+};
+
+// Emitted after a participant has read a conversation
+export type ConversationReadEvent = {
+  conversationId: string;
+  readerId: string;
+  // Other participants in the conversation
+  recipientIds: string[];
+  count: number;
+  readAt: Date;
+};
+
+export type MessageEventMap = {
+  'message.created': MessageCreatedEvent;
+  'conversation.read': ConversationReadEvent;
+};
+
+/**
+ * Typed event bus for message lifecycle events
+ * Lets real-time transports react to MessageService writes without the
+ * service knowing about them.
+ */
+export class MessageEventBus {
+  private emitter = new EventEmitter();
+
+  emit<K extends keyof MessageEventMap>(event: K, payload: MessageEventMap[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  on<K extends keyof MessageEventMap>(event: K, listener: (payload: MessageEventMap[K]) => void): void {
+    this.emitter.on(event, listener);
+  }
+
+  off<K extends keyof MessageEventMap>(event: K, listener: (payload: MessageEventMap[K]) => void): void {
+    this.emitter.off(event, listener);
+  }
+}
+
+// Shared bus used by MessageService and the WebSocket gateway
+export const messageEvents = new MessageEventBus();
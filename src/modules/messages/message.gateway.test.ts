@@ -0,0 +1,155 @@
+import http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { WebSocket } from 'ws';
+import { PrismaClient, User } from '@prisma/client';
+import { startServer } from '../../server';
+import { createContainer, createTestUser, authHeader, resetDatabase, FakeStripe } from '../../testing';
+
+const prisma = new PrismaClient();
+const container = createContainer({ prisma, stripe: new FakeStripe() });
+
+type ServerEvent = { type: string; data: any };
+
+let server: http.Server;
+let url: string;
+let sockets: WebSocket[] = [];
+
+// A connected client that keeps every event it receives, in order
+const connect = async (user: User) => {
+  const ws = new WebSocket(url, { headers: authHeader(user.id) });
+  const received: ServerEvent[] = [];
+  const waiting: { type: string; resolve: (event: ServerEvent) => void }[] = [];
+
+  ws.on('message', data => {
+    const event: ServerEvent = JSON.parse(data.toString());
+    const waiter = waiting.find(({ type }) => type === event.type);
+
+    if (waiter) {
+      waiting.splice(waiting.indexOf(waiter), 1);
+      waiter.resolve(event);
+    } else {
+      received.push(event);
+    }
+  });
+
+  sockets.push(ws);
+
+  // The next event of a type, whether it already arrived or not
+  const next = (type: string): Promise<ServerEvent> => {
+    const index = received.findIndex(event => event.type === type);
+
+    if (index >= 0) {
+      return Promise.resolve(received.splice(index, 1)[0]);
+    }
+
+    return new Promise(resolve => waiting.push({ type, resolve }));
+  };
+
+  await next('ready');
+
+  return {
+    next,
+    send: (event: object) => ws.send(JSON.stringify(event))
+  };
+};
+
+// Upgrade a bare socket, so a test can write frames a WebSocket client never would
+const upgrade = (user: User): Promise<Socket> => new Promise((resolve, reject) => {
+  const { port } = server.address() as AddressInfo;
+  const req = http.request({
+    port,
+    path: '/ws',
+    headers: {
+      ...authHeader(user.id),
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': 'dGhlIHNhbXBsZSBub25jZQ==',
+      'Sec-WebSocket-Version': '13'
+    }
+  });
+
+  req.on('upgrade', (res, socket) => resolve(socket));
+  req.on('error', reject);
+  req.end();
+});
+
+beforeAll(async () => {
+  server = startServer(container, 0);
+  await new Promise(resolve => server.once('listening', resolve));
+  url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/ws`;
+});
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+});
+
+afterEach(() => {
+  sockets.forEach(ws => ws.terminate());
+  sockets = [];
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await prisma.$disconnect();
+});
+
+describe('MessageGateway', () => {
+  it('refuses connections without a session', async () => {
+    const ws = new WebSocket(url);
+
+    const status = await new Promise(resolve => ws.on('unexpected-response', (req, res) => resolve(res.statusCode)));
+
+    expect(status).toBe(401);
+  });
+
+  it('pushes new messages to the recipient', async () => {
+    const [sender, recipient] = await Promise.all([createTestUser(prisma), createTestUser(prisma)]);
+    const client = await connect(recipient);
+
+    const message = await container.messageService.sendMessage({ senderId: sender.id, recipientId: recipient.id, content: 'Still for sale?' });
+
+    expect((await client.next('message.new')).data).toMatchObject({ id: message.id, textBody: 'Still for sale?' });
+  });
+
+  it('relays typing only within a conversation the sender shares', async () => {
+    const [alice, bob, mallory] = await Promise.all([createTestUser(prisma), createTestUser(prisma), createTestUser(prisma)]);
+    const shared = await container.messageService.sendMessage({ senderId: alice.id, recipientId: bob.id, content: 'Hi Bob' });
+
+    const [aliceClient, bobClient, malloryClient] = await Promise.all([connect(alice), connect(bob), connect(mallory)]);
+
+    // Mallory isn't in the conversation, so Bob never hears about it
+    malloryClient.send({ type: 'typing', conversationId: shared.conversationId });
+    expect((await malloryClient.next('error')).data).toEqual({ message: 'Conversation not found' });
+
+    aliceClient.send({ type: 'typing', conversationId: shared.conversationId, isTyping: true });
+
+    // The first typing event Bob gets is Alice's, sent after Mallory's
+    expect((await bobClient.next('typing')).data).toEqual({
+      conversationId: shared.conversationId,
+      senderId: alice.id,
+      isTyping: true
+    });
+  });
+
+  it('drops a connection that sends a malformed frame, and keeps serving others', async () => {
+    const user = await createTestUser(prisma);
+    const socket = await upgrade(user);
+    const closed = new Promise(resolve => socket.on('close', resolve));
+    socket.resume();
+
+    // Client frames must be masked; this text frame isn't
+    socket.write(Buffer.from([0x81, 0x02, 0x68, 0x69]));
+    await closed;
+
+    expect(server.listening).toBe(true);
+    await expect(connect(user)).resolves.toBeDefined();
+  });
+
+  it('reports events it cannot parse', async () => {
+    const client = await connect(await createTestUser(prisma));
+
+    client.send({ type: 'typing', conversationId: 'not-a-uuid' });
+
+    expect((await client.next('error')).data).toMatchObject({ message: 'Invalid event' });
+  });
+});
@@ -0,0 +1,260 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { z } from 'zod';
+import { MessageService } from './message.service';
+import { ConversationService } from './conversation.service';
+import {
+  messageEvents,
+  MessageEventBus,
+  MessageCreatedEvent,
+  ConversationReadEvent
+} from './message.events';
+import { AuthenticatedUser } from '../../middleware/auth';
+import logger from '../../utils/logger';
+import { AppError } from '../../utils/errors';
+import { can } from '../../utils/policy';
+
+// Events clients can send over the socket
+const clientEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('typing'),
+    conversationId: z.string().uuid(),
+    isTyping: z.boolean().default(true)
+  }),
+  z.object({
+    type: z.literal('message.delivered'),
+    messageId: z.string().uuid()
+  })
+]);
+
+export type MessageGatewayOptions = {
+  path?: string;
+  authenticate: (token: string) => Promise<AuthenticatedUser | null>;
+  messageService: MessageService;
+  conversationService: ConversationService;
+  events?: MessageEventBus;
+};
+
+/**
+ * WebSocket gateway for real-time messaging
+ * Pushes new messages, delivery receipts, read receipts and typing indicators
+ * to connected users. Clients authenticate with the same Clerk session token
+ * used for the REST API, sent as a Bearer header or a `token` query parameter.
+ */
+export class MessageGateway {
+  private path: string;
+  private authenticate: (token: string) => Promise<AuthenticatedUser | null>;
+  private messageService: MessageService;
+  private conversationService: ConversationService;
+  private events: MessageEventBus;
+  private wss: WebSocketServer;
+  private connections = new Map<string, Set<WebSocket>>();
+
+  constructor(options: MessageGatewayOptions) {
+    this.path = options.path || '/ws';
+    this.authenticate = options.authenticate;
+    this.messageService = options.messageService;
+    this.conversationService = options.conversationService;
+    this.events = options.events || messageEvents;
+    this.wss = new WebSocketServer({ noServer: true });
+
+    this.events.on('message.created', this.onMessageCreated);
+    this.events.on('conversation.read', this.onConversationRead);
+  }
+
+  /**
+   * Handle WebSocket upgrades on an HTTP server
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head).catch(error => {
+        logger.error(`Error upgrading WebSocket connection: ${error.message}`);
+        socket.destroy();
+      });
+    });
+  }
+
+  /**
+   * Close all connections and stop listening for message events
+   */
+  async close(): Promise<void> {
+    this.events.off('message.created', this.onMessageCreated);
+    this.events.off('conversation.read', this.onConversationRead);
+
+    this.wss.clients.forEach(client => client.terminate());
+    this.connections.clear();
+
+    await new Promise<void>(resolve => this.wss.close(() => resolve()));
+  }
+
+  /**
+   * Authenticate and accept an upgrade request
+   */
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname !== this.path) {
+      return;
+    }
+
+    const token = this.extractToken(req, url);
+    const user = token ? await this.authenticate(token) : null;
+
+    if (!user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => this.onConnection(ws, user));
+  }
+
+  /**
+   * Read the session token from the Authorization header or query string
+   */
+  private extractToken(req: IncomingMessage, url: URL): string | null {
+    const header = req.headers.authorization;
+
+    if (header && header.startsWith('Bearer ')) {
+      return header.slice('Bearer '.length);
+    }
+
+    return url.searchParams.get('token');
+  }
+
+  /**
+   * Register a new authenticated connection
+   */
+  private onConnection(ws: WebSocket, user: AuthenticatedUser): void {
+    const sockets = this.connections.get(user.id) || new Set<WebSocket>();
+    sockets.add(ws);
+    this.connections.set(user.id, sockets);
+
+    ws.on('message', data => {
+      this.onClientEvent(user, ws, data).catch(error => {
+        logger.error(`Error handling WebSocket event: ${error.message}`);
+        this.send(ws, 'error', error instanceof AppError
+          ? { message: error.message, code: error.code }
+          : { message: 'Server error', code: 'INTERNAL_ERROR' });
+      });
+    });
+
+    // A malformed frame errors this socket only; unhandled, it would crash the process
+    ws.on('error', error => {
+      logger.error(`WebSocket error for user ${user.id}: ${error.message}`);
+      ws.terminate();
+    });
+
+    ws.on('close', () => {
+      sockets.delete(ws);
+      if (sockets.size === 0) {
+        this.connections.delete(user.id);
+      }
+    });
+
+    this.send(ws, 'ready', { userId: user.id });
+  }
+
+  /**
+   * Handle an event sent by a client
+   */
+  private async onClientEvent(user: AuthenticatedUser, ws: WebSocket, data: RawData): Promise<void> {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(data.toString());
+    } catch (error) {
+      this.send(ws, 'error', { message: 'Invalid JSON' });
+      return;
+    }
+
+    const validationResult = clientEventSchema.safeParse(parsed);
+
+    if (!validationResult.success) {
+      this.send(ws, 'error', {
+        message: 'Invalid event',
+        errors: validationResult.error.errors
+      });
+      return;
+    }
+
+    const event = validationResult.data;
+
+    switch (event.type) {
+      case 'typing': {
+        const participantIds = await this.conversationService.getParticipantIds(event.conversationId);
+
+        if (!participantIds.includes(user.id)) {
+          this.send(ws, 'error', { message: 'Conversation not found' });
+          return;
+        }
+
+        participantIds
+          .filter(id => id !== user.id)
+          .forEach(id => this.sendToUser(id, 'typing', {
+            conversationId: event.conversationId,
+            senderId: user.id,
+            isTyping: event.isTyping
+          }));
+        break;
+      }
+
+      case 'message.delivered': {
+        const message = await this.messageService.getMessageById(event.messageId);
+        const participantIds = message
+          ? await this.conversationService.getParticipantIds(message.conversationId)
+          : [];
+
+        // Only other participants can acknowledge delivery
+        if (!message || !can(user, 'message', 'acknowledge', { ...message, participantIds })) {
+          this.send(ws, 'error', { message: 'Message not found' });
+          return;
+        }
+
+        this.sendToUser(message.senderId, 'message.delivered', {
+          messageId: message.id,
+          recipientId: user.id,
+          deliveredAt: new Date()
+        });
+        break;
+      }
+    }
+  }
+
+  /**
+   * Push a new message to the recipients and the sender's other connections
+   */
+  private onMessageCreated = (event: MessageCreatedEvent): void => {
+    event.recipientIds.forEach(id => this.sendToUser(id, 'message.new', event.message));
+    this.sendToUser(event.senderId, 'message.new', event.message);
+  };
+
+  /**
+   * Send a read receipt to the other participants
+   */
+  private onConversationRead = (event: ConversationReadEvent): void => {
+    event.recipientIds.forEach(id => this.sendToUser(id, 'conversation.read', {
+      conversationId: event.conversationId,
+      readerId: event.readerId,
+      count: event.count,
+      readAt: event.readAt
+    }));
+  };
+
+  /**
+   * Send an event to every open connection of a user
+   */
+  private sendToUser(userId: string, type: string, data: unknown): void {
+    this.connections.get(userId)?.forEach(ws => this.send(ws, type, data));
+  }
+
+  /**
+   * Send an event to a single connection
+   */
+  private send(ws: WebSocket, type: string, data: unknown): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ type, data }));
+    }
+  }
+}
@@ -1,211 +1,117 @@
-import { PrismaClient, Message, User } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { Message, User } from '@prisma/client';
+import { DbClient, atomically } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Type for message creation without ID and timestamps
 export type CreateMessageInput = {
   senderId: string;
-  recipientId: string;
-  content: string;
-  isRead?: boolean;
+  conversationId: string;
+  textBody?: string;
+  mediaUrl?: string;
 };
 
-// Type for message update
-export type UpdateMessageInput = Partial<Pick<CreateMessageInput, 'isRead'>>;
-
-// Message with sender and recipient information
-export type MessageWithUsers = Message & {
+// Message with sender information
+export type MessageWithSender = Message & {
   sender: User;
-  recipient: User;
-};
-
-// Conversation summary type
-export type ConversationSummary = {
-  userId: string;
-  user: User;
-  lastMessage: Message;
-  unreadCount: number;
 };
 
 export class MessageRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
-   * Create a new message
+   * Create a new message and bump the conversation's last activity
    */
   async create(data: CreateMessageInput): Promise<Message> {
-    return prisma.message.create({
-      data: {
-        ...data,
-        isRead: data.isRead || false // Default to unread
-      }
+    return atomically(this.db, async (tx) => {
+      const message = await tx.message.create({
+        data
+      });
+
+      await tx.conversation.update({
+        where: { id: data.conversationId },
+        data: { lastMessageAt: new Date() }
+      });
+
+      return message;
     });
   }
 
   /**
    * Find a message by ID
    */
-  async findById(id: string): Promise<MessageWithUsers | null> {
-    return prisma.message.findUnique({
+  async findById(id: string): Promise<MessageWithSender | null> {
+    return this.db.message.findUnique({
       where: { id },
       include: {
-        sender: true,
-        recipient: true
+        sender: true
       }
     });
   }
 
-  /**
-   * Update a message
-   */
-  async update(id: string, data: UpdateMessageInput): Promise<Message> {
-    return prisma.message.update({
-      where: { id },
-      data
-    });
-  }
-
   /**
    * Delete a message
    */
   async delete(id: string): Promise<Message> {
-    return prisma.message.delete({
+    return this.db.message.delete({
       where: { id }
     });
   }
 
   /**
-   * Get conversation between two users
+   * Get messages in a conversation
    */
-  async getConversation(
-    userId1: string,
-    userId2: string,
-    options: {
-      page?: number;
-      limit?: number;
-    } = {}
-  ): Promise<{ messages: MessageWithUsers[]; total: number }> {
-    const { page = 1, limit = 20 } = options;
-    const skip = (page - 1) * limit;
-
-    const [messages, total] = await Promise.all([
-      prisma.message.findMany({
-        where: {
-          OR: [
-            { senderId: userId1, recipientId: userId2 },
-            { senderId: userId2, recipientId: userId1 }
-          ]
-        },
+  async getConversationMessages(
+    conversationId: string,
+    options: PageOptions
+  ): Promise<Page<MessageWithSender>> {
+    return paginate(options, {
+      findMany: (args) => this.db.message.findMany({
+        ...args,
+        where: { conversationId },
         include: {
-          sender: true,
-          recipient: true
-        },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take: limit
-      }),
-      prisma.message.count({
-        where: {
-          OR: [
-            { senderId: userId1, recipientId: userId2 },
-            { senderId: userId2, recipientId: userId1 }
-          ]
-        }
-      })
-    ]);
-
-    return { messages, total };
-  }
-
-  /**
-   * Get all conversations for a user
-   */
-  async getUserConversations(userId: string): Promise<ConversationSummary[]> {
-    // Get the IDs of users this user has conversations with
-    const conversationPartners = await prisma.$queryRaw<
-      { userId: string }[]
-    >`
-      SELECT DISTINCT 
-        CASE 
-          WHEN "senderId" = ${userId} THEN "recipientId" 
-          ELSE "senderId" 
-        END as "userId"
-      FROM "Message"
-      WHERE "senderId" = ${userId} OR "recipientId" = ${userId}
-    `;
-
-    // For each conversation partner, get the last message and unread count
-    const conversations: ConversationSummary[] = await Promise.all(
-      conversationPartners.map(async ({ userId: partnerId }) => {
-        // Get last message
-        const lastMessage = await prisma.message.findFirst({
-          where: {
-            OR: [
-              { senderId: userId, recipientId: partnerId },
-              { senderId: partnerId, recipientId: userId }
-            ]
-          },
-          orderBy: { createdAt: 'desc' }
-        });
-
-        // Get unread count
-        const unreadCount = await prisma.message.count({
-          where: {
-            senderId: partnerId,
-            recipientId: userId,
-            isRead: false
-          }
-        });
-
-        // Get user details
-        const user = await prisma.user.findUnique({
-          where: { id: partnerId }
-        });
-
-        if (!lastMessage || !user) {
-          throw new Error(`Could not find conversation data for partner ${partnerId}`);
+          sender: true
         }
-
-        return {
-          userId: partnerId,
-          user,
-          lastMessage,
-          unreadCount
-        };
+      }),
+      count: () => this.db.message.count({
+        where: { conversationId }
       })
-    );
-
-    // Sort by most recent message
-    return conversations.sort(
-      (a, b) => b.lastMessage.createdAt.getTime() - a.lastMessage.createdAt.getTime()
-    );
+    });
   }
 
   /**
-   * Mark all messages from a specific user as read
+   * Count messages from other participants sent after the given time
    */
-  async markConversationAsRead(userId: string, senderId: string): Promise<number> {
-    const result = await prisma.message.updateMany({
+  async countUnreadInConversation(
+    conversationId: string,
+    userId: string,
+    lastReadAt: Date | null
+  ): Promise<number> {
+    return this.db.message.count({
       where: {
-        senderId: senderId,
-        recipientId: userId,
-        isRead: false
-      },
-      data: {
-        isRead: true
+        conversationId,
+        senderId: { not: userId },
+        ...(lastReadAt && { createdAt: { gt: lastReadAt } })
       }
     });
-
-    return result.count;
   }
 
   /**
-   * Get total unread message count for a user
+   * Get total unread message count for a user across conversations
    */
   async getUnreadCount(userId: string): Promise<number> {
-    return prisma.message.count({
-      where: {
-        recipientId: userId,
-        isRead: false
-      }
-    });
+    const [result] = await this.db.$queryRaw<{ count: number }[]>`
+      SELECT COUNT(*)::int AS "count"
+      FROM "Message" m
+      JOIN "ConversationParticipant" p ON p."conversationId" = m."conversationId"
+      WHERE p."userId" = ${userId}
+        AND m."senderId" <> ${userId}
+        AND (p."lastReadAt" IS NULL OR m."createdAt" > p."lastReadAt")
+    `;
+
+    return result?.count || 0;
   }
 }
@@ -1,33 +1,53 @@
 import { Router } from 'express';
-import { MessageController } from './message.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { messageSchemas } from './message.schemas';
+import { conversationSchemas } from './conversation.schemas';
 
-const router = Router();
-const messageController = new MessageController();
+/**
+ * Message routes, mounted at /api/messages
+ */
+export const createMessageRoutes = ({ messageController, conversationController, auth, rateLimits }: Container): Router => {
+  const router = Router();
 
-// All message routes require authentication
-router.use(requireAuth);
-router.use(populateUser);
+  // All message routes require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Send a new message
-router.post('/', (req, res) => messageController.sendMessage(req, res));
+  // Send a new message to a conversation or directly to a user
+  router.post('/', rateLimits.sendMessage, validate(messageSchemas.send), (req, res, next) => messageController.sendMessage(req, res, next));
 
-// Get a specific message by ID
-router.get('/:id', (req, res) => messageController.getMessageById(req, res));
+  // Get all conversations for the current user
+  router.get('/conversations', validate(conversationSchemas.list), (req, res, next) => messageController.getUserConversations(req, res, next));
 
-// Delete a message
-router.delete('/:id', (req, res) => messageController.deleteMessage(req, res));
+  // Create a group conversation
+  router.post('/conversations', validate(conversationSchemas.create), (req, res, next) => conversationController.createConversation(req, res, next));
 
-// Get all conversations for the current user
-router.get('/conversations', (req, res) => messageController.getUserConversations(req, res));
+  // Get unread message count
+  router.get('/unread/count', validate(messageSchemas.unreadCount), (req, res, next) => messageController.getUnreadCount(req, res, next));
 
-// Get unread message count
-router.get('/unread/count', (req, res) => messageController.getUnreadCount(req, res));
+  // Get conversation details
+  router.get('/conversations/:conversationId', validate(conversationSchemas.getById), (req, res, next) => conversationController.getConversation(req, res, next));
 
-// Get conversation with a specific user
-router.get('/conversations/:userId', (req, res) => messageController.getConversation(req, res));
+  // Rename a group conversation
+  router.patch('/conversations/:conversationId', validate(conversationSchemas.update), (req, res, next) => conversationController.updateConversation(req, res, next));
 
-// Mark conversation as read
-router.post('/conversations/:userId/read', (req, res) => messageController.markConversationAsRead(req, res));
+  // Get messages in a conversation
+  router.get('/conversations/:conversationId/messages', validate(messageSchemas.listConversation), (req, res, next) => messageController.getConversationMessages(req, res, next));
 
-export default router;
+  // Mark conversation as read
+  router.post('/conversations/:conversationId/read', validate(messageSchemas.markRead), (req, res, next) => messageController.markConversationAsRead(req, res, next));
+
+  // Manage group members
+  router.post('/conversations/:conversationId/participants', validate(conversationSchemas.addParticipants), (req, res, next) => conversationController.addParticipants(req, res, next));
+  router.delete('/conversations/:conversationId/participants/:userId', validate(conversationSchemas.removeParticipant), (req, res, next) => conversationController.removeParticipant(req, res, next));
+
+  // Get a specific message by ID
+  router.get('/:id', validate(messageSchemas.getById), (req, res, next) => messageController.getMessageById(req, res, next));
+
+  // Delete a message
+  router.delete('/:id', validate(messageSchemas.remove), (req, res, next) => messageController.deleteMessage(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+
+export const conversationParams = z.object({
+  conversationId: z.string().uuid()
+});
+
+export const messageResponse = z.object({
+  id: z.string().uuid(),
+  senderId: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  textBody: z.string().nullable(),
+  mediaUrl: z.string().nullable(),
+  createdAt: timestamp
+});
+
+const messageWithSender = messageResponse.extend({ sender: publicUserResponse });
+
+// Messages marked read, or still unread
+const messageCount = z.object({ count: z.number().int() });
+
+/**
+ * Request and response schemas for message routes
+ */
+export const messageSchemas = {
+  send: {
+    body: z.object({
+      conversationId: z.string().uuid().optional(),
+      recipientId: z.string().uuid().optional(),
+      content: z.string().min(1).max(5000),
+    }).refine(data => !!data.conversationId !== !!data.recipientId, {
+      message: 'Provide either a conversationId or a recipientId'
+    }),
+    response: messageResponse
+  },
+
+  getById: {
+    params: idParams,
+    response: messageWithSender
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  markRead: {
+    params: conversationParams,
+    response: messageCount
+  },
+
+  unreadCount: {
+    response: messageCount
+  },
+
+  listConversation: {
+    params: conversationParams,
+    query: pageQuery(['createdAt'], 20),
+    response: z.array(messageWithSender)
+  }
+};
@@ -1,36 +1,103 @@
 import { Message } from '@prisma/client';
-import { 
-  MessageRepository, 
-  CreateMessageInput, 
-  UpdateMessageInput, 
-  MessageWithUsers,
-  ConversationSummary
+import {
+  MessageRepository,
+  MessageWithSender
 } from './message.repository';
+import { ConversationService } from './conversation.service';
+import { RestrictionRepository } from '../users/restriction.repository';
+import { ContentFilterService } from '../content-filter/content-filter.service';
+import { ConversationSummary } from './conversation.repository';
+import { messageEvents } from './message.events';
 import logger from '../../utils/logger';
+import { ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+import { Actor, authorize, can, MessageResource } from '../../utils/policy';
+import { Page, PageOptions } from '../../utils/pagination';
+
+// Type for sending a message to a conversation or directly to a user
+export type SendMessageInput = {
+  senderId: string;
+  content: string;
+  conversationId?: string;
+  recipientId?: string;
+};
 
 export class MessageService {
   private messageRepository: MessageRepository;
+  private conversationService: ConversationService;
+  private restrictionRepository: RestrictionRepository;
+  private contentFilterService: ContentFilterService;
 
-  constructor() {
-    this.messageRepository = new MessageRepository();
+  constructor(
+    messageRepository: MessageRepository,
+    conversationService: ConversationService,
+    restrictionRepository: RestrictionRepository,
+    contentFilterService: ContentFilterService
+  ) {
+    this.messageRepository = messageRepository;
+    this.conversationService = conversationService;
+    this.restrictionRepository = restrictionRepository;
+    this.contentFilterService = contentFilterService;
   }
 
   /**
    * Send a new message
+   * Messages to a recipient go to the direct conversation with that user,
+   * which is created on first contact. Nobody can message a conversation
+   * where another participant has blocked them. Messages the content filter
+   * would hold are rejected, as there is no hiding a delivered message.
    */
-  async sendMessage(messageData: CreateMessageInput): Promise<Message> {
+  async sendMessage(messageData: SendMessageInput): Promise<Message> {
     try {
       // Validate message data
       if (!messageData.content || messageData.content.trim().length === 0) {
-        throw new Error('Message content is required');
+        throw new ValidationError('Message content is required');
       }
-      
-      // Prevent sending message to self
-      if (messageData.senderId === messageData.recipientId) {
-        throw new Error('Cannot send a message to yourself');
+
+      await this.contentFilterService.screen({
+        context: 'message',
+        userId: messageData.senderId,
+        text: messageData.content
+      });
+
+      let conversationId = messageData.conversationId;
+
+      if (!conversationId) {
+        if (!messageData.recipientId) {
+          throw new ValidationError('A conversation or recipient is required');
+        }
+
+        // Checked before the conversation is created, so a block leaves no trace
+        await this.requireNotBlocked(messageData.senderId, [messageData.recipientId]);
+
+        const conversation = await this.conversationService.getOrCreateDirectConversation(
+          messageData.senderId,
+          messageData.recipientId
+        );
+        conversationId = conversation.id;
+      } else {
+        await this.conversationService.requireParticipant(conversationId, messageData.senderId);
       }
-      
-      return await this.messageRepository.create(messageData);
+
+      const participantIds = await this.conversationService.getParticipantIds(conversationId);
+      await this.requireNotBlocked(messageData.senderId, participantIds);
+
+      const message = await this.messageRepository.create({
+        senderId: messageData.senderId,
+        conversationId,
+        textBody: messageData.content
+      });
+
+      // Sending implies the sender has read the conversation up to now
+      await this.conversationService.updateLastReadAt(conversationId, messageData.senderId, message.createdAt);
+
+      // Notify real-time listeners
+      messageEvents.emit('message.created', {
+        message,
+        senderId: messageData.senderId,
+        recipientIds: participantIds.filter(id => id !== messageData.senderId)
+      });
+
+      return message;
     } catch (error: any) {
       logger.error(`Error sending message: ${error.message}`);
       throw error;
@@ -40,7 +107,7 @@ export class MessageService {
   /**
    * Get a message by ID
    */
-  async getMessageById(messageId: string): Promise<MessageWithUsers | null> {
+  async getMessageById(messageId: string): Promise<MessageWithSender | null> {
     try {
       return await this.messageRepository.findById(messageId);
     } catch (error: any) {
@@ -50,27 +117,39 @@ export class MessageService {
   }
 
   /**
-   * Mark a message as read
+   * Get a message for a reader, marking it as read when it was sent to them
    */
-  async markMessageAsRead(messageId: string, userId: string): Promise<Message> {
+  async readMessage(messageId: string, actor: Actor): Promise<MessageWithSender> {
     try {
-      // Get the message
-      const message = await this.messageRepository.findById(messageId);
-      
-      if (!message) {
-        throw new Error('Message not found');
-      }
-      
-      // Check if the user is the recipient
-      if (message.recipientId !== userId) {
-        throw new Error('You can only mark messages sent to you as read');
-      }
-      
-      // Only update if not already read
-      if (!message.isRead) {
-        return await this.messageRepository.update(messageId, { isRead: true });
+      const message = await this.findMessageWithParticipants(messageId);
+
+      authorize(actor, 'message', 'read', message, 'You are not a participant in this conversation');
+
+      if (can(actor, 'message', 'acknowledge', message)) {
+        await this.markAsReadBy(message, actor.id);
       }
-      
+
+      const { participantIds, ...rest } = message;
+      return rest;
+    } catch (error: any) {
+      logger.error(`Error reading message: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a message as read
+   * Moves the reader's lastReadAt forward to the message's time
+   */
+  async markMessageAsRead(messageId: string, actor: Actor): Promise<Message> {
+    try {
+      const message = await this.findMessageWithParticipants(messageId);
+
+      // Senders have nothing to mark
+      authorize(actor, 'message', 'acknowledge', message, 'You can only mark messages sent to you as read');
+
+      await this.markAsReadBy(message, actor.id);
+
       return message;
     } catch (error: any) {
       logger.error(`Error marking message as read: ${error.message}`);
@@ -80,22 +159,15 @@ export class MessageService {
 
   /**
    * Delete a message
-   * Users can only delete messages they sent or received
+   * Users can only delete messages they sent, unless they hold message:moderate
    */
-  async deleteMessage(messageId: string, userId: string, isAdmin: boolean = false): Promise<Message> {
+  async deleteMessage(messageId: string, actor: Actor): Promise<Message> {
     try {
-      // Get the message
-      const message = await this.messageRepository.findById(messageId);
-      
-      if (!message) {
-        throw new Error('Message not found');
-      }
-      
+      const message = await this.findMessageWithParticipants(messageId);
+
       // Check if the user is authorized to delete the message
-      if (!isAdmin && message.senderId !== userId && message.recipientId !== userId) {
-        throw new Error('You are not authorized to delete this message');
-      }
-      
+      authorize(actor, 'message', 'delete', message, 'You are not authorized to delete this message');
+
       return await this.messageRepository.delete(messageId);
     } catch (error: any) {
       logger.error(`Error deleting message: ${error.message}`);
@@ -104,15 +176,17 @@ export class MessageService {
   }
 
   /**
-   * Get conversation between two users
+   * Get messages in a conversation the user participates in
    */
-  async getConversation(
-    userId1: string, 
-    userId2: string, 
-    options: { page?: number; limit?: number } = {}
-  ): Promise<{ messages: MessageWithUsers[]; total: number }> {
+  async getConversationMessages(
+    conversationId: string,
+    userId: string,
+    options: PageOptions
+  ): Promise<Page<MessageWithSender>> {
     try {
-      return await this.messageRepository.getConversation(userId1, userId2, options);
+      await this.conversationService.requireParticipant(conversationId, userId);
+
+      return await this.messageRepository.getConversationMessages(conversationId, options);
     } catch (error: any) {
       logger.error(`Error fetching conversation: ${error.message}`);
       throw error;
@@ -124,7 +198,7 @@ export class MessageService {
    */
   async getUserConversations(userId: string): Promise<ConversationSummary[]> {
     try {
-      return await this.messageRepository.getUserConversations(userId);
+      return await this.conversationService.getUserConversations(userId);
     } catch (error: any) {
       logger.error(`Error fetching user conversations: ${error.message}`);
       throw error;
@@ -134,9 +208,32 @@ export class MessageService {
   /**
    * Mark all messages in a conversation as read
    */
-  async markConversationAsRead(userId: string, senderId: string): Promise<number> {
+  async markConversationAsRead(userId: string, conversationId: string): Promise<number> {
     try {
-      return await this.messageRepository.markConversationAsRead(userId, senderId);
+      const participant = await this.conversationService.requireParticipant(conversationId, userId);
+
+      const count = await this.messageRepository.countUnreadInConversation(
+        conversationId,
+        userId,
+        participant.lastReadAt
+      );
+
+      // Send a read receipt to the other participants if anything changed
+      if (count > 0) {
+        const readAt = new Date();
+        await this.conversationService.updateLastReadAt(conversationId, userId, readAt);
+
+        const participantIds = await this.conversationService.getParticipantIds(conversationId);
+        messageEvents.emit('conversation.read', {
+          conversationId,
+          readerId: userId,
+          recipientIds: participantIds.filter(id => id !== userId),
+          count,
+          readAt
+        });
+      }
+
+      return count;
     } catch (error: any) {
       logger.error(`Error marking conversation as read: ${error.message}`);
       throw error;
@@ -154,4 +251,34 @@ export class MessageService {
       throw error;
     }
   }
+
+  // Load a message with its conversation's participants, which its policy reads
+  private async findMessageWithParticipants(messageId: string): Promise<MessageWithSender & MessageResource> {
+    const message = await this.messageRepository.findById(messageId);
+
+    if (!message) {
+      throw new NotFoundError('Message not found');
+    }
+
+    const participantIds = await this.conversationService.getParticipantIds(message.conversationId);
+    return { ...message, participantIds };
+  }
+
+  // Move a recipient's lastReadAt forward to the message, unless they read past it already
+  private async markAsReadBy(message: Message, userId: string): Promise<void> {
+    const participant = await this.conversationService.requireParticipant(message.conversationId, userId);
+
+    if (!participant.lastReadAt || participant.lastReadAt < message.createdAt) {
+      await this.conversationService.updateLastReadAt(message.conversationId, userId, message.createdAt);
+    }
+  }
+
+  // Refuse a message when any recipient has blocked the sender
+  private async requireNotBlocked(senderId: string, participantIds: string[]): Promise<void> {
+    const recipientIds = participantIds.filter(id => id !== senderId);
+
+    if (recipientIds.length > 0 && await this.restrictionRepository.isBlockedByAny(recipientIds, senderId)) {
+      throw new ForbiddenError('You cannot message this user');
+    }
+  }
 }
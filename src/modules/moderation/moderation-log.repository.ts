@@ -0,0 +1,76 @@
+import { ModerationAction, ModerationLog, ReportTargetType } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Type for an audit entry
+export type CreateModerationLogInput = {
+  actorId: string;
+  action: ModerationAction;
+  targetType: ReportTargetType;
+  targetId: string;
+  reportId?: string;
+  takedownId?: string;
+  note?: string | null;
+};
+
+// Audit entry with who took the action
+export type ModerationLogWithActor = ModerationLog & {
+  actor: {
+    id: string;
+    displayName: string;
+  };
+};
+
+/**
+ * Append-only audit trail of moderation actions
+ */
+export class ModerationLogRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Record actions
+   */
+  async record(entries: CreateModerationLogInput[]): Promise<number> {
+    const { count } = await this.db.moderationLog.createMany({
+      data: entries
+    });
+
+    return count;
+  }
+
+  /**
+   * Find a page of the audit trail with optional filters
+   */
+  async findAll(options: PageOptions & {
+    actorId?: string;
+    action?: ModerationAction;
+    targetType?: ReportTargetType;
+    targetId?: string;
+    reportId?: string;
+    takedownId?: string;
+  }): Promise<Page<ModerationLogWithActor>> {
+    const { actorId, action, targetType, targetId, reportId, takedownId } = options;
+
+    // Build where clause based on filters
+    const where: any = {};
+
+    for (const [field, value] of Object.entries({ actorId, action, targetType, targetId, reportId, takedownId })) {
+      if (value) {
+        where[field] = value;
+      }
+    }
+
+    return paginate(options, {
+      findMany: (args) => this.db.moderationLog.findMany({
+        ...args,
+        where,
+        include: { actor: { select: { id: true, displayName: true } } }
+      }),
+      count: () => this.db.moderationLog.count({ where })
+    });
+  }
+}
@@ -0,0 +1,290 @@
+import { Response, NextFunction } from 'express';
+import { ModerationService } from './moderation.service';
+import { UnauthorizedError } from '../../utils/errors';
+import { moderationSchemas } from './moderation.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+
+export class ModerationController {
+  private moderationService: ModerationService;
+
+  constructor(moderationService: ModerationService) {
+    this.moderationService = moderationService;
+  }
+
+  /**
+   * Report content or a user
+   */
+  async fileReport(req: ValidatedRequest<typeof moderationSchemas.fileReport>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.fileReport(req.user, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Report filed successfully',
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the reports the current user filed
+   */
+  async getMyReports(req: ValidatedRequest<typeof moderationSchemas.myReports>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await this.moderationService.getMyReports(req.user, req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the moderation queue
+   */
+  async getQueue(req: ValidatedRequest<typeof moderationSchemas.queue>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await this.moderationService.getQueue(req.user, req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a report by ID
+   */
+  async getReport(req: ValidatedRequest<typeof moderationSchemas.getReport>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.getReport(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Claim a report
+   */
+  async claimReport(req: ValidatedRequest<typeof moderationSchemas.claim>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.claimReport(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Report claimed successfully',
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Escalate a claimed report
+   */
+  async escalateReport(req: ValidatedRequest<typeof moderationSchemas.escalate>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.escalateReport(req.params.id, req.user, req.body.note);
+
+      res.status(200).json({
+        success: true,
+        message: 'Report escalated successfully',
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Resolve a claimed report, optionally taking the content down
+   */
+  async resolveReport(req: ValidatedRequest<typeof moderationSchemas.resolve>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.resolveReport(req.params.id, req.user, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Report resolved successfully',
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Dismiss a claimed report
+   */
+  async dismissReport(req: ValidatedRequest<typeof moderationSchemas.dismiss>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const report = await this.moderationService.dismissReport(req.params.id, req.user, req.body.note);
+
+      res.status(200).json({
+        success: true,
+        message: 'Report dismissed successfully',
+        data: report
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the takedowns of the current user's content
+   */
+  async getMyTakedowns(req: ValidatedRequest<typeof moderationSchemas.myTakedowns>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await this.moderationService.getMyTakedowns(req.user, req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the appeals waiting for a decision
+   */
+  async getPendingAppeals(req: ValidatedRequest<typeof moderationSchemas.appeals>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.moderationService.getPendingAppeals(req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a takedown by ID
+   */
+  async getTakedown(req: ValidatedRequest<typeof moderationSchemas.getTakedown>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const takedown = await this.moderationService.getTakedown(req.params.id, req.user);
+
+      res.status(200).json({
+        success: true,
+        data: takedown
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Appeal a takedown of the current user's content
+   */
+  async appealTakedown(req: ValidatedRequest<typeof moderationSchemas.appeal>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const takedown = await this.moderationService.appealTakedown(req.params.id, req.user, req.body.text);
+
+      res.status(200).json({
+        success: true,
+        message: 'Appeal filed successfully',
+        data: takedown
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Decide an appeal
+   */
+  async decideAppeal(req: ValidatedRequest<typeof moderationSchemas.decideAppeal>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const takedown = await this.moderationService.decideAppeal(req.params.id, req.user, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Appeal decided successfully',
+        data: takedown
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the moderation audit trail
+   */
+  async getAuditLog(req: ValidatedRequest<typeof moderationSchemas.audit>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.moderationService.getAuditLog(req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+}
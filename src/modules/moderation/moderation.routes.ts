@@ -0,0 +1,40 @@
+import { Router } from 'express';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { moderationSchemas } from './moderation.schemas';
+
+/**
+ * Moderation routes, mounted at /api/moderation
+ */
+export const createModerationRoutes = ({ moderationController, auth }: Container): Router => {
+  const router = Router();
+
+  // All moderation routes require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
+
+  // Reporting, and the current user's reports and takedowns (registered before /:id so they aren't shadowed)
+  router.post('/reports', validate(moderationSchemas.fileReport), (req, res, next) => moderationController.fileReport(req, res, next));
+  router.get('/reports/mine', validate(moderationSchemas.myReports), (req, res, next) => moderationController.getMyReports(req, res, next));
+  router.get('/takedowns/mine', validate(moderationSchemas.myTakedowns), (req, res, next) => moderationController.getMyTakedowns(req, res, next));
+
+  // Routes that require a permission
+  router.get('/reports', requirePermission('moderation:review'), validate(moderationSchemas.queue), (req, res, next) => moderationController.getQueue(req, res, next));
+  router.get('/takedowns/appeals', requirePermission('moderation:escalated'), validate(moderationSchemas.appeals), (req, res, next) => moderationController.getPendingAppeals(req, res, next));
+  router.get('/audit', requirePermission('moderation:audit'), validate(moderationSchemas.audit), (req, res, next) => moderationController.getAuditLog(req, res, next));
+
+  // Reports: visible to their reporter and moderators; claimed reports are worked by their assignee
+  router.get('/reports/:id', validate(moderationSchemas.getReport), (req, res, next) => moderationController.getReport(req, res, next));
+  router.post('/reports/:id/claim', validate(moderationSchemas.claim), (req, res, next) => moderationController.claimReport(req, res, next));
+  router.post('/reports/:id/escalate', validate(moderationSchemas.escalate), (req, res, next) => moderationController.escalateReport(req, res, next));
+  router.post('/reports/:id/resolve', validate(moderationSchemas.resolve), (req, res, next) => moderationController.resolveReport(req, res, next));
+  router.post('/reports/:id/dismiss', validate(moderationSchemas.dismiss), (req, res, next) => moderationController.dismissReport(req, res, next));
+
+  // Takedowns: visible to their author and moderators; the author appeals, senior moderators decide
+  router.get('/takedowns/:id', validate(moderationSchemas.getTakedown), (req, res, next) => moderationController.getTakedown(req, res, next));
+  router.post('/takedowns/:id/appeal', validate(moderationSchemas.appeal), (req, res, next) => moderationController.appealTakedown(req, res, next));
+  router.post('/takedowns/:id/appeal/decision', validate(moderationSchemas.decideAppeal), (req, res, next) => moderationController.decideAppeal(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { AppealStatus, ModerationAction, ReportReason, ReportStatus, ReportTargetType } from '@prisma/client';
+import { booleanQuery, idParams, pageQuery, timestamp } from '../../utils/schemas';
+
+// Reports and takedowns sort on these fields, newest first by default
+const moderationListQuery = pageQuery(['createdAt', 'updatedAt']);
+
+const note = z.string().trim().min(1).max(1000);
+
+const userSummary = z.object({
+  id: z.string().uuid(),
+  displayName: z.string(),
+  avatarUrl: z.string().nullable()
+});
+
+const takedown = z.object({
+  id: z.string().uuid(),
+  targetType: z.nativeEnum(ReportTargetType),
+  targetId: z.string().uuid(),
+  authorId: z.string().uuid(),
+  moderatorId: z.string().uuid(),
+  reason: z.string(),
+  appealStatus: z.nativeEnum(AppealStatus).nullable(),
+  appealText: z.string().nullable(),
+  appealedAt: timestamp.nullable(),
+  appealDecidedById: z.string().uuid().nullable(),
+  appealDecidedAt: timestamp.nullable(),
+  restoredAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+// A report with who filed it, who is working it and the takedown it ended in
+const report = z.object({
+  id: z.string().uuid(),
+  targetType: z.nativeEnum(ReportTargetType),
+  targetId: z.string().uuid(),
+  reason: z.nativeEnum(ReportReason),
+  details: z.string().nullable(),
+  reporterId: z.string().uuid().nullable(),
+  held: z.boolean(),
+  status: z.nativeEnum(ReportStatus),
+  assigneeId: z.string().uuid().nullable(),
+  resolutionNote: z.string().nullable(),
+  takedownId: z.string().uuid().nullable(),
+  resolvedAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  reporter: userSummary.nullable(),
+  assignee: userSummary.nullable(),
+  takedown: takedown.nullable()
+});
+
+const auditEntry = z.object({
+  id: z.string().uuid(),
+  actorId: z.string().uuid(),
+  action: z.nativeEnum(ModerationAction),
+  targetType: z.nativeEnum(ReportTargetType),
+  targetId: z.string().uuid(),
+  reportId: z.string().uuid().nullable(),
+  takedownId: z.string().uuid().nullable(),
+  note: z.string().nullable(),
+  createdAt: timestamp,
+  actor: userSummary.omit({ avatarUrl: true })
+});
+
+/**
+ * Request and response schemas for moderation routes
+ */
+export const moderationSchemas = {
+  fileReport: {
+    body: z.object({
+      targetType: z.nativeEnum(ReportTargetType),
+      targetId: z.string().uuid(),
+      reason: z.nativeEnum(ReportReason),
+      details: z.string().max(1000).optional()
+    }),
+    response: report
+  },
+
+  myReports: {
+    query: moderationListQuery,
+    response: z.array(report)
+  },
+
+  // The queue is worked oldest first
+  queue: {
+    query: moderationListQuery.extend({
+      status: z.nativeEnum(ReportStatus).default('open'),
+      targetType: z.nativeEnum(ReportTargetType).optional(),
+      mine: booleanQuery.optional(),
+      sortOrder: z.enum(['asc', 'desc']).default('asc')
+    }),
+    response: z.array(report)
+  },
+
+  getReport: {
+    params: idParams,
+    response: report
+  },
+
+  claim: {
+    params: idParams,
+    response: report
+  },
+
+  escalate: {
+    params: idParams,
+    body: z.object({
+      note: note.optional()
+    }),
+    response: report
+  },
+
+  // The note is kept as the takedown reason too, and shown to the author
+  resolve: {
+    params: idParams,
+    body: z.object({
+      note,
+      takedown: z.boolean().default(false)
+    }),
+    response: report
+  },
+
+  dismiss: {
+    params: idParams,
+    body: z.object({
+      note
+    }),
+    response: report
+  },
+
+  myTakedowns: {
+    query: moderationListQuery,
+    response: z.array(takedown)
+  },
+
+  appeals: {
+    query: moderationListQuery.extend({
+      sortOrder: z.enum(['asc', 'desc']).default('asc')
+    }),
+    response: z.array(takedown)
+  },
+
+  getTakedown: {
+    params: idParams,
+    response: takedown
+  },
+
+  appeal: {
+    params: idParams,
+    body: z.object({
+      text: z.string().trim().min(1).max(2000)
+    }),
+    response: takedown
+  },
+
+  decideAppeal: {
+    params: idParams,
+    body: z.object({
+      decision: z.enum(['upheld', 'reversed']),
+      note: note.optional()
+    }),
+    response: takedown
+  },
+
+  audit: {
+    query: pageQuery(['createdAt'], 50).extend({
+      actorId: z.string().uuid().optional(),
+      action: z.nativeEnum(ModerationAction).optional(),
+      targetType: z.nativeEnum(ReportTargetType).optional(),
+      targetId: z.string().uuid().optional(),
+      reportId: z.string().uuid().optional(),
+      takedownId: z.string().uuid().optional()
+    }),
+    response: z.array(auditEntry)
+  }
+};
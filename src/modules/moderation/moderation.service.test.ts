@@ -0,0 +1,160 @@
+import { PrismaClient, Post, User } from '@prisma/client';
+import { Actor } from '../../utils/policy';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+import { ConflictError, ForbiddenError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const { moderationService } = createContainer({ prisma, stripe: new FakeStripe() });
+
+let author: Actor;
+let reporter: Actor;
+let moderator: Actor;
+let senior: Actor;
+let post: Post;
+
+const actor = (user: User, permissions: string[] = []): Actor => ({ id: user.id, permissions });
+
+const fileReport = (by: Actor = reporter) =>
+  moderationService.fileReport(by, { targetType: 'post', targetId: post.id, reason: 'spam' });
+
+// A post reported and claimed by the moderator, ready to be worked on
+const claimedReport = async () => {
+  const report = await fileReport();
+  return moderationService.claimReport(report.id, moderator);
+};
+
+// A takedown of the post, as resolving its report with one leaves it
+const takenDown = async () => {
+  const report = await claimedReport();
+  const resolved = await moderationService.resolveReport(report.id, moderator, { note: 'Spam', takedown: true });
+  return prisma.takedown.findUniqueOrThrow({ where: { id: resolved.takedownId! } });
+};
+
+// Entries recorded in one transaction share a timestamp, so the trail is compared in any order
+const auditTrail = async (actorId?: string) => {
+  const { items } = await moderationService.getAuditLog({ limit: 50, sortBy: 'createdAt', sortOrder: 'asc', actorId });
+  return items.map(({ action }) => action).sort();
+};
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+
+  author = actor(await createTestUser(prisma));
+  reporter = actor(await createTestUser(prisma));
+  moderator = actor(await createTestUser(prisma, { role: 'Moderator' }), ['moderation:review']);
+  senior = actor(await createTestUser(prisma, { role: 'Moderator' }), ['moderation:review', 'moderation:escalated']);
+  post = await prisma.post.create({ data: { userId: author.id, contentType: 'text', textBody: 'Cheap followers here' } });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('ModerationService', () => {
+  describe('reports', () => {
+    it('lets one moderator claim a report', async () => {
+      const report = await fileReport();
+
+      expect(await moderationService.claimReport(report.id, moderator)).toMatchObject({ assigneeId: moderator.id });
+      await expect(moderationService.claimReport(report.id, senior)).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('refuses a second report from the same reporter while the first is undecided', async () => {
+      await fileReport();
+
+      await expect(fileReport()).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('only lets the assignee work on a report', async () => {
+      const report = await claimedReport();
+
+      await expect(moderationService.dismissReport(report.id, senior, 'Fine')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('hands escalated reports on to senior moderators, unassigned', async () => {
+      const report = await claimedReport();
+
+      const escalated = await moderationService.escalateReport(report.id, moderator, 'Not sure');
+
+      expect(escalated).toMatchObject({ status: 'escalated', assigneeId: null });
+      await expect(moderationService.claimReport(report.id, moderator)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(moderationService.getQueue(moderator, { status: 'escalated', limit: 20, sortBy: 'createdAt', sortOrder: 'desc' }))
+        .rejects.toBeInstanceOf(ForbiddenError);
+      expect(await moderationService.claimReport(report.id, senior)).toMatchObject({ status: 'escalated', assigneeId: senior.id });
+    });
+
+    it('resolves a report without touching the content', async () => {
+      const report = await claimedReport();
+
+      const resolved = await moderationService.resolveReport(report.id, moderator, { note: 'Warned the author', takedown: false });
+
+      expect(resolved).toMatchObject({ status: 'resolved', resolutionNote: 'Warned the author', takedownId: null });
+      expect(await prisma.post.findUniqueOrThrow({ where: { id: post.id } })).toMatchObject({ hiddenAt: null });
+      await expect(moderationService.dismissReport(report.id, moderator, 'Again')).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('releases content the content filter held when its report is dismissed', async () => {
+      await prisma.post.update({ where: { id: post.id }, data: { hiddenAt: new Date() } });
+      const held = await prisma.report.create({ data: { targetType: 'post', targetId: post.id, reason: 'spam', held: true } });
+      await moderationService.claimReport(held.id, moderator);
+
+      await moderationService.dismissReport(held.id, moderator, 'False positive');
+
+      expect(await prisma.post.findUniqueOrThrow({ where: { id: post.id } })).toMatchObject({ hiddenAt: null });
+      expect(await auditTrail()).toEqual(['content_released', 'report_claimed', 'report_dismissed']);
+    });
+  });
+
+  describe('takedowns', () => {
+    it('hides the content and resolves every undecided report of it', async () => {
+      const other = await fileReport(actor(await createTestUser(prisma)));
+
+      const takedown = await takenDown();
+
+      expect(takedown).toMatchObject({ targetType: 'post', targetId: post.id, authorId: author.id, moderatorId: moderator.id });
+      expect(await prisma.post.findUniqueOrThrow({ where: { id: post.id } })).toMatchObject({ hiddenAt: expect.any(Date) });
+      expect(await prisma.report.findUniqueOrThrow({ where: { id: other.id } }))
+        .toMatchObject({ status: 'resolved', takedownId: takedown.id });
+    });
+
+    it('lets the author appeal once, and another senior moderator restore the content', async () => {
+      const takedown = await takenDown();
+
+      expect(await moderationService.appealTakedown(takedown.id, author, 'It was a joke')).toMatchObject({ appealStatus: 'pending' });
+      await expect(moderationService.appealTakedown(takedown.id, author, 'Please')).rejects.toBeInstanceOf(ConflictError);
+      await expect(moderationService.decideAppeal(takedown.id, moderator, { decision: 'reversed' }))
+        .rejects.toBeInstanceOf(ForbiddenError);
+
+      const decided = await moderationService.decideAppeal(takedown.id, senior, { decision: 'reversed', note: 'Satire' });
+
+      expect(decided).toMatchObject({ appealStatus: 'reversed', appealDecidedById: senior.id });
+      expect(await prisma.post.findUniqueOrThrow({ where: { id: post.id } })).toMatchObject({ hiddenAt: null });
+    });
+
+    it('keeps the moderator who took the content down from deciding its appeal', async () => {
+      const report = await fileReport();
+      await moderationService.claimReport(report.id, senior);
+      const resolved = await moderationService.resolveReport(report.id, senior, { note: 'Spam', takedown: true });
+      await moderationService.appealTakedown(resolved.takedownId!, author, 'It was a joke');
+
+      await expect(moderationService.decideAppeal(resolved.takedownId!, senior, { decision: 'reversed' }))
+        .rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('only shows a takedown to its author and moderators', async () => {
+      const takedown = await takenDown();
+
+      await expect(moderationService.getTakedown(takedown.id, reporter)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(moderationService.appealTakedown(takedown.id, moderator, 'Not mine')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  it('records every decision in the audit log', async () => {
+    const takedown = await takenDown();
+    await moderationService.appealTakedown(takedown.id, author, 'It was a joke');
+    await moderationService.decideAppeal(takedown.id, senior, { decision: 'upheld' });
+
+    expect(await auditTrail()).toEqual(['appeal_filed', 'appeal_upheld', 'content_taken_down', 'report_claimed', 'report_resolved']);
+    expect(await auditTrail(moderator.id)).toEqual(['content_taken_down', 'report_claimed', 'report_resolved']);
+  });
+});
@@ -0,0 +1,553 @@
+import { ReportStatus, ReportTargetType, Takedown } from '@prisma/client';
+import { Repositories, TransactionRunner } from '../../container';
+import { CreateReportInput, ReportWithUsers, PENDING_REPORT_STATUSES } from './report.repository';
+import { CreateModerationLogInput, ModerationLogWithActor } from './moderation-log.repository';
+import { Actor, authorize, hasPermission } from '../../utils/policy';
+import { Page, PageOptions } from '../../utils/pagination';
+import logger from '../../utils/logger';
+import { BadRequestError, ConflictError, ForbiddenError, NotFoundError } from '../../utils/errors';
+
+// What a report points at, as far as moderation needs to know
+type ReportTarget = {
+  authorId: string;
+  // Hidden from the public, by a takedown or because the seller deactivated it
+  hidden: boolean;
+  // Only the conversation's participants can report a message
+  participantIds?: string[];
+};
+
+// Content a takedown can hide; messages are deleted instead, users are not hidden
+export const TAKEDOWN_TARGET_TYPES: ReportTargetType[] = ['post', 'comment', 'product'];
+
+const TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: 'Post',
+  comment: 'Comment',
+  product: 'Product',
+  message: 'Message',
+  user: 'User'
+};
+
+export type ReportQueueOptions = PageOptions & {
+  status: ReportStatus;
+  targetType?: ReportTargetType;
+  // Only reports the actor has claimed
+  mine?: boolean;
+};
+
+export type AuditLogOptions = PageOptions & Partial<Omit<CreateModerationLogInput, 'note'>>;
+
+export class ModerationService {
+  private repositories: Repositories;
+  private transaction: TransactionRunner;
+
+  constructor(repositories: Repositories, transaction: TransactionRunner) {
+    this.repositories = repositories;
+    this.transaction = transaction;
+  }
+
+  /**
+   * Report content or a user
+   * Reporters can only report what they can see, and only once until a
+   * moderator decides their report.
+   */
+  async fileReport(actor: Actor, data: Omit<CreateReportInput, 'reporterId' | 'held'>): Promise<ReportWithUsers> {
+    try {
+      const { targetType, targetId } = data;
+      const target = await this.findTarget(this.repositories, targetType, targetId);
+
+      if (!target || target.hidden || (target.participantIds && !target.participantIds.includes(actor.id))) {
+        throw new NotFoundError(`${TARGET_LABELS[targetType]} not found`);
+      }
+
+      if (target.authorId === actor.id) {
+        throw new BadRequestError(targetType === 'user' ? 'You cannot report yourself' : 'You cannot report your own content');
+      }
+
+      if (await this.repositories.reportRepository.findPendingByReporter(actor.id, targetType, targetId)) {
+        throw new ConflictError('You have already reported this');
+      }
+
+      const report = await this.repositories.reportRepository.create({ ...data, reporterId: actor.id });
+      logger.info(`User ${actor.id} reported ${targetType} ${targetId} for ${data.reason}`);
+
+      return report;
+    } catch (error: any) {
+      logger.error(`Error filing report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the reports the actor filed
+   */
+  async getMyReports(actor: Actor, options: PageOptions): Promise<Page<ReportWithUsers>> {
+    try {
+      return await this.repositories.reportRepository.findByReporter(actor.id, options);
+    } catch (error: any) {
+      logger.error(`Error fetching user reports: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the moderation queue
+   */
+  async getQueue(actor: Actor, { mine, ...options }: ReportQueueOptions): Promise<Page<ReportWithUsers>> {
+    try {
+      if (options.status === 'escalated' && !hasPermission(actor, 'moderation:escalated')) {
+        throw new ForbiddenError('Escalated reports need the moderation:escalated permission');
+      }
+
+      return await this.repositories.reportRepository.findQueue({
+        ...options,
+        ...(mine && { assigneeId: actor.id })
+      });
+    } catch (error: any) {
+      logger.error(`Error fetching moderation queue: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a report by ID
+   */
+  async getReport(reportId: string, actor: Actor): Promise<ReportWithUsers> {
+    try {
+      const report = await this.repositories.reportRepository.findById(reportId);
+
+      if (!report) {
+        throw new NotFoundError('Report not found');
+      }
+
+      // Reports are only visible to their reporter, their assignee and moderators
+      authorize(actor, 'report', 'read', report, 'You are not authorized to view this report');
+
+      return report;
+    } catch (error: any) {
+      logger.error(`Error fetching report by ID: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Assign an undecided, unclaimed report to the actor
+   * Open reports need moderation:review; escalated ones moderation:escalated.
+   */
+  async claimReport(reportId: string, actor: Actor): Promise<ReportWithUsers> {
+    try {
+      const report = await this.findPendingReport(reportId, actor);
+      const permission = report.status === 'escalated' ? 'moderation:escalated' : 'moderation:review';
+
+      if (!hasPermission(actor, permission)) {
+        throw new ForbiddenError(`Claiming ${report.status} reports needs the ${permission} permission`);
+      }
+
+      return await this.transaction(async ({ reportRepository, moderationLogRepository }) => {
+        // Claimed conditionally, so two moderators can't both take the report
+        if (!await reportRepository.claim(reportId, report.status, actor.id)) {
+          throw new ConflictError('Report has already been claimed');
+        }
+
+        await moderationLogRepository.record([this.reportEntry(report, actor, 'report_claimed')]);
+        logger.info(`Moderator ${actor.id} claimed report ${reportId}`);
+
+        return reportRepository.findById(reportId) as Promise<ReportWithUsers>;
+      });
+    } catch (error: any) {
+      logger.error(`Error claiming report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Hand a claimed open report on to senior moderators
+   * The report goes back in the queue, unassigned, with the escalated status.
+   */
+  async escalateReport(reportId: string, actor: Actor, note?: string): Promise<ReportWithUsers> {
+    try {
+      const report = await this.findPendingReport(reportId, actor);
+
+      authorize(actor, 'report', 'work', report, 'Claim the report before working on it');
+
+      if (report.status !== 'open') {
+        throw new ConflictError('Report has already been escalated');
+      }
+
+      return await this.transaction(async ({ reportRepository, moderationLogRepository }) => {
+        const escalated = await reportRepository.update(reportId, { status: 'escalated', assigneeId: null });
+        await moderationLogRepository.record([this.reportEntry(report, actor, 'report_escalated', note)]);
+        logger.info(`Moderator ${actor.id} escalated report ${reportId}`);
+
+        return escalated;
+      });
+    } catch (error: any) {
+      logger.error(`Error escalating report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Resolve a claimed report, optionally taking the reported content down
+   * A takedown hides the content and resolves every other undecided report
+   * of it with the same takedown. Content the content filter held is
+   * released unless it is taken down.
+   */
+  async resolveReport(
+    reportId: string,
+    actor: Actor,
+    { note, takedown }: { note: string; takedown: boolean }
+  ): Promise<ReportWithUsers> {
+    try {
+      const report = await this.findPendingReport(reportId, actor);
+
+      authorize(actor, 'report', 'work', report, 'Claim the report before working on it');
+
+      if (takedown && !TAKEDOWN_TARGET_TYPES.includes(report.targetType)) {
+        throw new BadRequestError(`Only ${TAKEDOWN_TARGET_TYPES.join(', ')} reports can end in a takedown`);
+      }
+
+      return await this.transaction(async (repositories) => {
+        const { reportRepository, moderationLogRepository } = repositories;
+        const resolution = { status: 'resolved' as const, resolutionNote: note, resolvedAt: new Date() };
+
+        if (!takedown) {
+          const resolved = await reportRepository.update(reportId, resolution);
+          await moderationLogRepository.record([
+            this.reportEntry(report, actor, 'report_resolved', note),
+            ...await this.releaseHeld(repositories, report, actor, note)
+          ]);
+          logger.info(`Moderator ${actor.id} resolved report ${reportId}`);
+
+          return resolved;
+        }
+
+        const removal = await this.takeDown(repositories, report, actor, note);
+        const reports = await reportRepository.findPendingForTarget(report.targetType, report.targetId);
+
+        await reportRepository.updateMany(reports.map(({ id }) => id), { ...resolution, takedownId: removal.id });
+        await moderationLogRepository.record([
+          this.takedownEntry(removal, actor, 'content_taken_down', note),
+          ...reports.map(pending => ({ ...this.reportEntry(pending, actor, 'report_resolved', note), takedownId: removal.id }))
+        ]);
+        logger.info(`Moderator ${actor.id} took down ${report.targetType} ${report.targetId}, resolving ${reports.length} report(s)`);
+
+        return reportRepository.findById(reportId) as Promise<ReportWithUsers>;
+      });
+    } catch (error: any) {
+      logger.error(`Error resolving report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Dismiss a claimed report that needs no action
+   * Content the content filter held is released.
+   */
+  async dismissReport(reportId: string, actor: Actor, note: string): Promise<ReportWithUsers> {
+    try {
+      const report = await this.findPendingReport(reportId, actor);
+
+      authorize(actor, 'report', 'work', report, 'Claim the report before working on it');
+
+      return await this.transaction(async (repositories) => {
+        const { reportRepository, moderationLogRepository } = repositories;
+        const dismissed = await reportRepository.update(reportId, {
+          status: 'dismissed',
+          resolutionNote: note,
+          resolvedAt: new Date()
+        });
+        await moderationLogRepository.record([
+          this.reportEntry(report, actor, 'report_dismissed', note),
+          ...await this.releaseHeld(repositories, report, actor, note)
+        ]);
+        logger.info(`Moderator ${actor.id} dismissed report ${reportId}`);
+
+        return dismissed;
+      });
+    } catch (error: any) {
+      logger.error(`Error dismissing report: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the takedowns of the actor's content
+   */
+  async getMyTakedowns(actor: Actor, options: PageOptions): Promise<Page<Takedown>> {
+    try {
+      return await this.repositories.takedownRepository.findByAuthor(actor.id, options);
+    } catch (error: any) {
+      logger.error(`Error fetching user takedowns: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the appeals waiting for a decision
+   */
+  async getPendingAppeals(options: PageOptions): Promise<Page<Takedown>> {
+    try {
+      return await this.repositories.takedownRepository.findByAppealStatus('pending', options);
+    } catch (error: any) {
+      logger.error(`Error fetching pending appeals: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a takedown by ID
+   */
+  async getTakedown(takedownId: string, actor: Actor): Promise<Takedown> {
+    try {
+      const takedown = await this.repositories.takedownRepository.findById(takedownId);
+
+      if (!takedown) {
+        throw new NotFoundError('Takedown not found');
+      }
+
+      authorize(actor, 'takedown', 'read', takedown, 'You are not authorized to view this takedown');
+
+      return takedown;
+    } catch (error: any) {
+      logger.error(`Error fetching takedown by ID: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Appeal a takedown of the actor's content; each takedown can be appealed once
+   */
+  async appealTakedown(takedownId: string, actor: Actor, text: string): Promise<Takedown> {
+    try {
+      const takedown = await this.getTakedown(takedownId, actor);
+
+      authorize(actor, 'takedown', 'appeal', takedown, 'Only the author can appeal a takedown');
+
+      return await this.transaction(async ({ takedownRepository, moderationLogRepository }) => {
+        if (!await takedownRepository.fileAppeal(takedownId, text)) {
+          throw new ConflictError('This takedown has already been appealed');
+        }
+
+        await moderationLogRepository.record([this.takedownEntry(takedown, actor, 'appeal_filed', text)]);
+        logger.info(`User ${actor.id} appealed takedown ${takedownId}`);
+
+        return takedownRepository.findById(takedownId) as Promise<Takedown>;
+      });
+    } catch (error: any) {
+      logger.error(`Error appealing takedown: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Decide a pending appeal
+   * Reversing it makes the content visible again. The moderator who took the
+   * content down can't decide the appeal against it.
+   */
+  async decideAppeal(
+    takedownId: string,
+    actor: Actor,
+    { decision, note }: { decision: 'upheld' | 'reversed'; note?: string }
+  ): Promise<Takedown> {
+    try {
+      const takedown = await this.getTakedown(takedownId, actor);
+
+      authorize(actor, 'takedown', 'appeal:decide', takedown, 'Deciding appeals needs the moderation:escalated permission');
+
+      if (takedown.appealStatus !== 'pending') {
+        throw new ConflictError('This takedown has no pending appeal');
+      }
+
+      if (takedown.moderatorId === actor.id) {
+        throw new ForbiddenError('Another moderator must decide the appeal against your takedown');
+      }
+
+      return await this.transaction(async (repositories) => {
+        const { takedownRepository, moderationLogRepository } = repositories;
+
+        // Decided conditionally, so an appeal is only decided once
+        if (!await takedownRepository.decideAppeal(takedownId, decision, actor.id)) {
+          throw new ConflictError('This takedown has no pending appeal');
+        }
+
+        if (decision === 'reversed') {
+          await this.setHidden(repositories, takedown.targetType, takedown.targetId, null);
+        }
+
+        await moderationLogRepository.record([
+          this.takedownEntry(takedown, actor, decision === 'reversed' ? 'appeal_reversed' : 'appeal_upheld', note),
+          ...(decision === 'reversed' ? [this.takedownEntry(takedown, actor, 'content_restored', note)] : [])
+        ]);
+        logger.info(`Moderator ${actor.id} ${decision} the appeal against takedown ${takedownId}`);
+
+        return takedownRepository.findById(takedownId) as Promise<Takedown>;
+      });
+    } catch (error: any) {
+      logger.error(`Error deciding appeal: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a page of the moderation audit trail
+   */
+  async getAuditLog(options: AuditLogOptions): Promise<Page<ModerationLogWithActor>> {
+    try {
+      return await this.repositories.moderationLogRepository.findAll(options);
+    } catch (error: any) {
+      logger.error(`Error fetching moderation audit log: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // A report moderators can still act on
+  private async findPendingReport(reportId: string, actor: Actor): Promise<ReportWithUsers> {
+    const report = await this.getReport(reportId, actor);
+
+    if (!PENDING_REPORT_STATUSES.includes(report.status)) {
+      throw new ConflictError(`Report has already been ${report.status}`);
+    }
+
+    return report;
+  }
+
+  // Hide the reported content and record who took it down
+  private async takeDown(
+    repositories: Repositories,
+    report: ReportWithUsers,
+    actor: Actor,
+    reason: string
+  ): Promise<Takedown> {
+    const { targetType, targetId } = report;
+    const target = await this.findTarget(repositories, targetType, targetId);
+
+    if (!target) {
+      throw new NotFoundError(`${TARGET_LABELS[targetType]} no longer exists`);
+    }
+
+    if (await repositories.takedownRepository.findActiveForTarget(targetType, targetId)) {
+      throw new ConflictError(`${TARGET_LABELS[targetType]} has already been taken down`);
+    }
+
+    await this.setHidden(repositories, targetType, targetId, new Date());
+
+    return repositories.takedownRepository.create({
+      targetType,
+      targetId,
+      authorId: target.authorId,
+      moderatorId: actor.id,
+      reason
+    });
+  }
+
+  // Show content the content filter held, unless it has since been taken down
+  private async releaseHeld(
+    repositories: Repositories,
+    report: ReportWithUsers,
+    actor: Actor,
+    note: string
+  ): Promise<CreateModerationLogInput[]> {
+    const { targetType, targetId } = report;
+
+    if (!report.held
+      || !await this.findTarget(repositories, targetType, targetId)
+      || await repositories.takedownRepository.findActiveForTarget(targetType, targetId)) {
+      return [];
+    }
+
+    await this.setHidden(repositories, targetType, targetId, null);
+    logger.info(`Moderator ${actor.id} released held ${targetType} ${targetId}`);
+
+    return [this.reportEntry(report, actor, 'content_released', note)];
+  }
+
+  // Hide content from the queries that list it, or show it again with null
+  private async setHidden(
+    { postRepository, engagementRepository, productRepository }: Repositories,
+    targetType: ReportTargetType,
+    targetId: string,
+    hiddenAt: Date | null
+  ): Promise<void> {
+    switch (targetType) {
+      case 'post':
+        await postRepository.setHiddenAt(targetId, hiddenAt);
+        break;
+      case 'comment':
+        await engagementRepository.setHiddenAt(targetId, hiddenAt);
+        break;
+      case 'product':
+        await productRepository.setHiddenAt(targetId, hiddenAt);
+        break;
+      default:
+        throw new BadRequestError(`${TARGET_LABELS[targetType]}s cannot be hidden`);
+    }
+  }
+
+  // Look up a report's target, or null if it doesn't exist
+  private async findTarget(
+    repositories: Repositories,
+    targetType: ReportTargetType,
+    targetId: string
+  ): Promise<ReportTarget | null> {
+    switch (targetType) {
+      case 'post': {
+        const post = await repositories.postRepository.findById(targetId);
+        return post && { authorId: post.userId, hidden: !!post.hiddenAt };
+      }
+      case 'comment': {
+        const comment = await repositories.engagementRepository.findById(targetId);
+        return comment?.type === 'Comment' ? { authorId: comment.userId, hidden: !!comment.hiddenAt } : null;
+      }
+      case 'product': {
+        const product = await repositories.productRepository.findById(targetId);
+        return product && { authorId: product.sellerId, hidden: !!product.hiddenAt || !product.isActive };
+      }
+      case 'message': {
+        const message = await repositories.messageRepository.findById(targetId);
+        return message && {
+          authorId: message.senderId,
+          hidden: false,
+          participantIds: await repositories.conversationRepository.getParticipantIds(message.conversationId)
+        };
+      }
+      case 'user': {
+        const user = await repositories.userRepository.findById(targetId);
+        return user && { authorId: user.id, hidden: false };
+      }
+    }
+  }
+
+  // Audit entry for an action on a report
+  private reportEntry(
+    report: { id: string; targetType: ReportTargetType; targetId: string },
+    actor: Actor,
+    action: CreateModerationLogInput['action'],
+    note?: string
+  ): CreateModerationLogInput {
+    return {
+      actorId: actor.id,
+      action,
+      targetType: report.targetType,
+      targetId: report.targetId,
+      reportId: report.id,
+      note
+    };
+  }
+
+  // Audit entry for an action on a takedown
+  private takedownEntry(
+    takedown: Takedown,
+    actor: Actor,
+    action: CreateModerationLogInput['action'],
+    note?: string
+  ): CreateModerationLogInput {
+    return {
+      actorId: actor.id,
+      action,
+      targetType: takedown.targetType,
+      targetId: takedown.targetId,
+      takedownId: takedown.id,
+      note
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { Report, ReportReason, ReportStatus, ReportTargetType, Takedown } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Type for report creation
+export type CreateReportInput = {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string;
+  // Null for content the content filter held
+  reporterId: string | null;
+  held?: boolean;
+};
+
+// Fields set as a report moves through the queue
+export type UpdateReportInput = Partial<Pick<Report, 'status' | 'assigneeId' | 'resolutionNote' | 'takedownId' | 'resolvedAt'>>;
+
+type UserSummary = {
+  id: string;
+  displayName: string;
+  avatarUrl: string | null;
+};
+
+// Report with who filed it, who is working it and the takedown it ended in
+export type ReportWithUsers = Report & {
+  reporter: UserSummary | null;
+  assignee: UserSummary | null;
+  takedown: Takedown | null;
+};
+
+// Statuses of reports still waiting for a decision
+export const PENDING_REPORT_STATUSES: ReportStatus[] = ['open', 'escalated'];
+
+const userSummary = { select: { id: true, displayName: true, avatarUrl: true } };
+
+const reportInclude = {
+  reporter: userSummary,
+  assignee: userSummary,
+  takedown: true
+};
+
+export class ReportRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Create a report
+   */
+  async create(data: CreateReportInput): Promise<ReportWithUsers> {
+    return this.db.report.create({
+      data,
+      include: reportInclude
+    });
+  }
+
+  /**
+   * Find a report by ID
+   */
+  async findById(id: string): Promise<ReportWithUsers | null> {
+    return this.db.report.findUnique({
+      where: { id },
+      include: reportInclude
+    });
+  }
+
+  /**
+   * Find a reporter's undecided report of a target
+   */
+  async findPendingByReporter(
+    reporterId: string,
+    targetType: ReportTargetType,
+    targetId: string
+  ): Promise<Report | null> {
+    return this.db.report.findFirst({
+      where: {
+        reporterId,
+        targetType,
+        targetId,
+        status: { in: PENDING_REPORT_STATUSES }
+      }
+    });
+  }
+
+  /**
+   * Find the undecided reports of a target
+   */
+  async findPendingForTarget(targetType: ReportTargetType, targetId: string): Promise<Report[]> {
+    return this.db.report.findMany({
+      where: {
+        targetType,
+        targetId,
+        status: { in: PENDING_REPORT_STATUSES }
+      }
+    });
+  }
+
+  /**
+   * Find a page of the moderation queue
+   */
+  async findQueue(options: PageOptions & {
+    status: ReportStatus;
+    targetType?: ReportTargetType;
+    assigneeId?: string;
+  }): Promise<Page<ReportWithUsers>> {
+    const { status, targetType, assigneeId } = options;
+
+    // Build where clause based on filters
+    const where: any = { status };
+
+    if (targetType) {
+      where.targetType = targetType;
+    }
+
+    if (assigneeId) {
+      where.assigneeId = assigneeId;
+    }
+
+    return paginate(options, {
+      findMany: (args) => this.db.report.findMany({ ...args, where, include: reportInclude }),
+      count: () => this.db.report.count({ where })
+    });
+  }
+
+  /**
+   * Find a page of the reports a user filed
+   */
+  async findByReporter(reporterId: string, options: PageOptions): Promise<Page<ReportWithUsers>> {
+    const where = { reporterId };
+
+    return paginate(options, {
+      findMany: (args) => this.db.report.findMany({ ...args, where, include: reportInclude }),
+      count: () => this.db.report.count({ where })
+    });
+  }
+
+  /**
+   * Assign an unclaimed report in the given status to a moderator
+   * Returns false if someone else claimed it first or its status moved on.
+   */
+  async claim(id: string, status: ReportStatus, assigneeId: string): Promise<boolean> {
+    const { count } = await this.db.report.updateMany({
+      where: { id, status, assigneeId: null },
+      data: { assigneeId }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Update a report
+   */
+  async update(id: string, data: UpdateReportInput): Promise<ReportWithUsers> {
+    return this.db.report.update({
+      where: { id },
+      data,
+      include: reportInclude
+    });
+  }
+
+  /**
+   * Update several reports at once
+   */
+  async updateMany(ids: string[], data: UpdateReportInput): Promise<number> {
+    const { count } = await this.db.report.updateMany({
+      where: { id: { in: ids } },
+      data
+    });
+
+    return count;
+  }
+}
@@ -0,0 +1,103 @@
+import { AppealStatus, ReportTargetType, Takedown } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Type for takedown creation
+export type CreateTakedownInput = {
+  targetType: ReportTargetType;
+  targetId: string;
+  authorId: string;
+  moderatorId: string;
+  reason: string;
+};
+
+export class TakedownRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Create a takedown
+   */
+  async create(data: CreateTakedownInput): Promise<Takedown> {
+    return this.db.takedown.create({
+      data
+    });
+  }
+
+  /**
+   * Find a takedown by ID
+   */
+  async findById(id: string): Promise<Takedown | null> {
+    return this.db.takedown.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Find the takedown keeping a target hidden, if any
+   */
+  async findActiveForTarget(targetType: ReportTargetType, targetId: string): Promise<Takedown | null> {
+    return this.db.takedown.findFirst({
+      where: { targetType, targetId, restoredAt: null }
+    });
+  }
+
+  /**
+   * Find a page of the takedowns of a user's content
+   */
+  async findByAuthor(authorId: string, options: PageOptions): Promise<Page<Takedown>> {
+    const where = { authorId };
+
+    return paginate(options, {
+      findMany: (args) => this.db.takedown.findMany({ ...args, where }),
+      count: () => this.db.takedown.count({ where })
+    });
+  }
+
+  /**
+   * Find a page of takedowns by appeal status
+   */
+  async findByAppealStatus(appealStatus: AppealStatus, options: PageOptions): Promise<Page<Takedown>> {
+    const where = { appealStatus };
+
+    return paginate(options, {
+      findMany: (args) => this.db.takedown.findMany({ ...args, where }),
+      count: () => this.db.takedown.count({ where })
+    });
+  }
+
+  /**
+   * Record the author's appeal, unless one was already filed
+   * Returns false if the takedown already has an appeal.
+   */
+  async fileAppeal(id: string, appealText: string): Promise<boolean> {
+    const { count } = await this.db.takedown.updateMany({
+      where: { id, appealStatus: null },
+      data: { appealStatus: 'pending', appealText, appealedAt: new Date() }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Record the decision on a pending appeal, restoring the content if it was reversed
+   * Returns false if the appeal was already decided.
+   */
+  async decideAppeal(id: string, decision: 'upheld' | 'reversed', decidedById: string): Promise<boolean> {
+    const now = new Date();
+    const { count } = await this.db.takedown.updateMany({
+      where: { id, appealStatus: 'pending' },
+      data: {
+        appealStatus: decision,
+        appealDecidedById: decidedById,
+        appealDecidedAt: now,
+        ...(decision === 'reversed' && { restoredAt: now })
+      }
+    });
+
+    return count > 0;
+  }
+}
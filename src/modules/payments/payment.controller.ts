@@ -1,74 +1,37 @@
-import { Request, Response } from 'express';
-import { z } from 'zod';
+import { Request, Response, NextFunction } from 'express';
 import { PaymentService } from './payment.service';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const paymentIntentSchema = z.object({
-  amount: z.number().positive(),
-  currency: z.string().min(3).max(3).default('usd'),
-  metadata: z.record(z.string()).optional().default({}),
-});
-
-const accountCreateSchema = z.object({
-  email: z.string().email(),
-  country: z.string().min(2).max(2).default('US'),
-});
-
-const accountLinkSchema = z.object({
-  accountId: z.string(),
-  refreshUrl: z.string().url(),
-  returnUrl: z.string().url(),
-});
-
-const transferSchema = z.object({
-  amount: z.number().positive(),
-  destinationAccountId: z.string(),
-  metadata: z.record(z.string()).optional().default({}),
-});
+import { BadRequestError, ForbiddenError, UnauthorizedError } from '../../utils/errors';
+import { paymentSchemas } from './payment.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+import { hasPermission } from '../../utils/policy';
 
 export class PaymentController {
   private paymentService: PaymentService;
 
-  constructor() {
-    this.paymentService = new PaymentService();
+  constructor(paymentService: PaymentService) {
+    this.paymentService = paymentService;
   }
 
   /**
    * Create a payment intent
    */
-  async createPaymentIntent(req: Request, res: Response): Promise<void> {
+  async createPaymentIntent(req: ValidatedRequest<typeof paymentSchemas.createIntent>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
-      }
-
-      // Validate request body
-      const validationResult = paymentIntentSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       // Add user ID to metadata
       const metadata = {
-        ...validationResult.data.metadata,
+        ...req.body.metadata,
         userId: req.user.id
       };
       
       const paymentIntent = await this.paymentService.createPaymentIntent(
-        validationResult.data.amount,
-        validationResult.data.currency,
+        req.body.amount,
+        req.body.currency,
         metadata
       );
       
@@ -76,28 +39,19 @@ export class PaymentController {
         success: true,
         data: paymentIntent
       });
-    } catch (error: any) {
-      logger.error(`Error in createPaymentIntent: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get payment intent details
    */
-  async getPaymentIntent(req: Request, res: Response): Promise<void> {
+  async getPaymentIntent(req: ValidatedRequest<typeof paymentSchemas.intent>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
@@ -107,28 +61,19 @@ export class PaymentController {
         success: true,
         data: paymentIntent
       });
-    } catch (error: any) {
-      logger.error(`Error in getPaymentIntent: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Cancel a payment intent
    */
-  async cancelPaymentIntent(req: Request, res: Response): Promise<void> {
+  async cancelPaymentIntent(req: ValidatedRequest<typeof paymentSchemas.intent>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
@@ -138,120 +83,69 @@ export class PaymentController {
         success: true,
         data: paymentIntent
       });
-    } catch (error: any) {
-      logger.error(`Error in cancelPaymentIntent: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Create a Stripe Connect account for seller
    */
-  async createConnectAccount(req: Request, res: Response): Promise<void> {
+  async createConnectAccount(req: ValidatedRequest<typeof paymentSchemas.createAccount>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Validate request body
-      const validationResult = accountCreateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
-      
       const account = await this.paymentService.createConnectAccount(
-        validationResult.data.email,
+        req.body.email,
         req.user.id,
-        validationResult.data.country
+        req.body.country
       );
       
       res.status(201).json({
         success: true,
         data: account
       });
-    } catch (error: any) {
-      logger.error(`Error in createConnectAccount: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Create an account link for onboarding
    */
-  async createAccountLink(req: Request, res: Response): Promise<void> {
+  async createAccountLink(req: ValidatedRequest<typeof paymentSchemas.createAccountLink>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Validate request body
-      const validationResult = accountLinkSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
-      
       const accountLink = await this.paymentService.createAccountLink(
-        validationResult.data.accountId,
-        validationResult.data.refreshUrl,
-        validationResult.data.returnUrl
+        req.body.accountId,
+        req.body.refreshUrl,
+        req.body.returnUrl
       );
       
       res.status(201).json({
         success: true,
         data: { url: accountLink }
       });
-    } catch (error: any) {
-      logger.error(`Error in createAccountLink: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get Stripe Connect account details
    */
-  async getConnectAccount(req: Request, res: Response): Promise<void> {
+  async getConnectAccount(req: ValidatedRequest<typeof paymentSchemas.account>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { accountId } = req.params;
@@ -261,87 +155,54 @@ export class PaymentController {
         success: true,
         data: account
       });
-    } catch (error: any) {
-      logger.error(`Error in getConnectAccount: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Create a transfer to a connected account
    */
-  async createTransfer(req: Request, res: Response): Promise<void> {
+  async createTransfer(req: ValidatedRequest<typeof paymentSchemas.transfer>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Only admins can create transfers manually
-      if (req.user.role !== 'Admin') {
-        res.status(403).json({
-          success: false,
-          message: 'Admin access required'
-        });
-        return;
+      // Only those with payment:transfer can create transfers manually
+      if (!hasPermission(req.user, 'payment:transfer')) {
+        throw new ForbiddenError('Insufficient permissions');
       }
 
-      // Validate request body
-      const validationResult = transferSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
-      
       const transfer = await this.paymentService.createTransfer(
-        validationResult.data.amount,
-        validationResult.data.destinationAccountId,
+        req.body.amount,
+        req.body.destinationAccountId,
         {
-          ...validationResult.data.metadata,
+          ...req.body.metadata,
           initiatedBy: req.user.id
-        }
+        },
+        req.body.currency
       );
       
       res.status(201).json({
         success: true,
         data: transfer
       });
-    } catch (error: any) {
-      logger.error(`Error in createTransfer: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Process Stripe webhook
    */
-  async processWebhook(req: Request, res: Response): Promise<void> {
+  async processWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const signature = req.headers['stripe-signature'] as string;
       
       if (!signature) {
-        res.status(400).json({
-          success: false,
-          message: 'Missing Stripe signature'
-        });
-        return;
+        throw new BadRequestError('Missing Stripe signature');
       }
       
       // Raw body is needed for webhook signature verification
@@ -354,13 +215,111 @@ export class PaymentController {
         success: true,
         data: result
       });
-    } catch (error: any) {
-      logger.error(`Error in processWebhook: ${error.message}`);
-      res.status(400).json({
-        success: false,
-        message: 'Webhook error',
-        error: error.message
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get stored Stripe webhook events
+   */
+  async getWebhookEvents(req: ValidatedRequest<typeof paymentSchemas.listWebhookEvents>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.paymentService.getWebhookEvents(req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replay a failed Stripe webhook event
+   */
+  async replayWebhookEvent(req: ValidatedRequest<typeof paymentSchemas.replayWebhookEvent>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const result = await this.paymentService.replayWebhookEvent(id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Webhook event replayed',
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get seller payouts
+   */
+  async getPayouts(req: ValidatedRequest<typeof paymentSchemas.listPayouts>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await this.paymentService.getPayouts(req.query);
+
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the current seller's payouts
+   */
+  async getMyPayouts(req: ValidatedRequest<typeof paymentSchemas.listMyPayouts>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const [result, summary] = await Promise.all([
+        this.paymentService.getPayouts({ ...req.query, sellerId: req.user.id }),
+        this.paymentService.getPayoutSummary(req.user.id)
+      ]);
+
+      res.status(200).json({
+        ...pageResponse(result),
+        meta: { summary }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get platform fee and payout totals for reconciliation
+   */
+  async getPayoutSummary(req: ValidatedRequest<typeof paymentSchemas.payoutSummary>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { sellerId } = req.query;
+      const summary = await this.paymentService.getPayoutSummary(sellerId);
+
+      res.status(200).json({
+        success: true,
+        data: summary
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Retry a pending or failed payout transfer
+   */
+  async retryPayout(req: ValidatedRequest<typeof paymentSchemas.retryPayout>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const payout = await this.paymentService.retryPayout(id);
+
+      res.status(200).json({
+        success: true,
+        message: payout.status === 'transferred' ? 'Payout transferred' : 'Payout could not be transferred',
+        data: payout
       });
+    } catch (error) {
+      next(error);
     }
   }
 }
@@ -1,31 +1,45 @@
 import { Router } from 'express';
-import { PaymentController } from './payment.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
 import express from 'express';
+import { validate } from '../../middleware/validate';
+import { paymentSchemas } from './payment.schemas';
 
-const router = Router();
-const paymentController = new PaymentController();
+/**
+ * Payment routes, mounted at /api/payments
+ */
+export const createPaymentRoutes = ({ paymentController, auth }: Container): Router => {
+  const router = Router();
 
-// Stripe webhook - needs raw body for signature verification
-router.post('/webhook', express.raw({ type: 'application/json' }), (req, res) => 
-  paymentController.processWebhook(req, res)
-);
+  // Stripe webhook - needs raw body for signature verification
+  router.post('/webhook', validate(paymentSchemas.webhook), express.raw({ type: 'application/json' }), (req, res, next) =>
+    paymentController.processWebhook(req, res, next)
+  );
 
-// Protected routes
-router.use(requireAuth);
-router.use(populateUser);
+  // Protected routes
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Payment intent routes
-router.post('/intent', (req, res) => paymentController.createPaymentIntent(req, res));
-router.get('/intent/:id', (req, res) => paymentController.getPaymentIntent(req, res));
-router.post('/intent/:id/cancel', (req, res) => paymentController.cancelPaymentIntent(req, res));
+  // Payment intent routes
+  router.post('/intent', validate(paymentSchemas.createIntent), (req, res, next) => paymentController.createPaymentIntent(req, res, next));
+  router.get('/intent/:id', validate(paymentSchemas.intent), (req, res, next) => paymentController.getPaymentIntent(req, res, next));
+  router.post('/intent/:id/cancel', validate(paymentSchemas.intent), (req, res, next) => paymentController.cancelPaymentIntent(req, res, next));
 
-// Connect account routes
-router.post('/connect/account', (req, res) => paymentController.createConnectAccount(req, res));
-router.post('/connect/account-link', (req, res) => paymentController.createAccountLink(req, res));
-router.get('/connect/account/:accountId', (req, res) => paymentController.getConnectAccount(req, res));
+  // Connect account routes
+  router.post('/connect/account', validate(paymentSchemas.createAccount), (req, res, next) => paymentController.createConnectAccount(req, res, next));
+  router.post('/connect/account-link', validate(paymentSchemas.createAccountLink), (req, res, next) => paymentController.createAccountLink(req, res, next));
+  router.get('/connect/account/:accountId', validate(paymentSchemas.account), (req, res, next) => paymentController.getConnectAccount(req, res, next));
 
-// Admin-only routes
-router.post('/transfer', requireRole('Admin'), (req, res) => paymentController.createTransfer(req, res));
+  // Seller payout routes
+  router.get('/payouts/me', validate(paymentSchemas.listMyPayouts), (req, res, next) => paymentController.getMyPayouts(req, res, next));
 
-export default router;
+  // Routes that require a permission
+  router.post('/transfer', requirePermission('payment:transfer'), validate(paymentSchemas.transfer), (req, res, next) => paymentController.createTransfer(req, res, next));
+  router.get('/webhook/events', requirePermission('webhook:manage'), validate(paymentSchemas.listWebhookEvents), (req, res, next) => paymentController.getWebhookEvents(req, res, next));
+  router.post('/webhook/events/:id/replay', requirePermission('webhook:manage'), validate(paymentSchemas.replayWebhookEvent), (req, res, next) => paymentController.replayWebhookEvent(req, res, next));
+  router.get('/payouts', requirePermission('payout:manage'), validate(paymentSchemas.listPayouts), (req, res, next) => paymentController.getPayouts(req, res, next));
+  router.get('/payouts/summary', requirePermission('payout:manage'), validate(paymentSchemas.payoutSummary), (req, res, next) => paymentController.getPayoutSummary(req, res, next));
+  router.post('/payouts/:id/retry', requirePermission('payout:manage'), validate(paymentSchemas.retryPayout), (req, res, next) => paymentController.retryPayout(req, res, next));
+
+  return router;
+};
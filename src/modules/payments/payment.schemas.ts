@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { PayoutStatus, WebhookEventStatus } from '@prisma/client';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+
+// Stripe object IDs, e.g. pi_... or evt_..., rather than our own UUIDs
+const stripeIdParams = z.object({
+  id: z.string().min(1)
+});
+
+const currency = z.string().min(3).max(3).default('usd');
+const metadata = z.record(z.string()).optional().default({});
+
+// Stripe objects are passed through as Stripe returns them; these are the fields clients use
+const paymentIntent = z.object({
+  id: z.string(),
+  amount: z.number().int(),
+  currency: z.string(),
+  status: z.string(),
+  client_secret: z.string().nullable(),
+  metadata: z.record(z.string())
+}).passthrough();
+
+const account = z.object({
+  id: z.string(),
+  email: z.string().nullable(),
+  country: z.string(),
+  details_submitted: z.boolean(),
+  charges_enabled: z.boolean(),
+  payouts_enabled: z.boolean()
+}).passthrough();
+
+// What a webhook handler did with an event
+const webhookResult = z.object({
+  status: z.enum(['processed', 'ignored', 'duplicate']),
+  type: z.string()
+}).passthrough();
+
+const payout = z.object({
+  id: z.string().uuid(),
+  orderId: z.string().uuid(),
+  sellerId: z.string().uuid(),
+  grossCents: z.number().int(),
+  feeCents: z.number().int(),
+  netCents: z.number().int(),
+  currency: z.string(),
+  status: z.nativeEnum(PayoutStatus),
+  stripeChargeId: z.string().nullable(),
+  stripeTransferId: z.string().nullable(),
+  stripeReversalId: z.string().nullable(),
+  error: z.string().nullable(),
+  transferredAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+// Payout totals per currency and status
+const payoutSummary = z.array(z.object({
+  currency: z.string(),
+  status: z.nativeEnum(PayoutStatus),
+  count: z.number().int(),
+  grossCents: z.number().int(),
+  feeCents: z.number().int(),
+  netCents: z.number().int()
+}));
+
+/**
+ * Request and response schemas for payment routes; the webhook is verified by its signature instead
+ */
+export const paymentSchemas = {
+  webhook: {
+    response: webhookResult
+  },
+
+  createIntent: {
+    body: z.object({
+      amount: z.number().positive(),
+      currency,
+      metadata
+    }),
+    response: paymentIntent
+  },
+
+  intent: {
+    params: stripeIdParams,
+    response: paymentIntent
+  },
+
+  createAccount: {
+    body: z.object({
+      email: z.string().email(),
+      country: z.string().min(2).max(2).default('US'),
+    }),
+    response: account
+  },
+
+  createAccountLink: {
+    body: z.object({
+      accountId: z.string(),
+      refreshUrl: z.string().url(),
+      returnUrl: z.string().url(),
+    }),
+    response: z.object({ url: z.string().url() })
+  },
+
+  account: {
+    params: z.object({
+      accountId: z.string().min(1)
+    }),
+    response: account
+  },
+
+  transfer: {
+    body: z.object({
+      amount: z.number().positive(),
+      currency,
+      destinationAccountId: z.string(),
+      metadata
+    }),
+    response: z.object({
+      id: z.string(),
+      amount: z.number().int(),
+      currency: z.string(),
+      destination: z.string()
+    }).passthrough()
+  },
+
+  listWebhookEvents: {
+    query: pageQuery(['createdAt'], 20).extend({
+      status: z.enum(['processing', 'processed', 'failed']).optional(),
+      type: z.string().optional(),
+    }),
+    response: z.array(z.object({
+      id: z.string(),
+      type: z.string(),
+      status: z.nativeEnum(WebhookEventStatus),
+      attempts: z.number().int(),
+      payload: z.record(z.unknown()),
+      result: z.record(z.unknown()).nullable(),
+      error: z.string().nullable(),
+      processedAt: timestamp.nullable(),
+      createdAt: timestamp,
+      updatedAt: timestamp
+    }))
+  },
+
+  replayWebhookEvent: {
+    params: stripeIdParams,
+    response: webhookResult
+  },
+
+  listPayouts: {
+    query: pageQuery(['createdAt'], 20).extend({
+      sellerId: z.string().uuid().optional(),
+      status: z.enum(['pending', 'transferred', 'failed']).optional(),
+    }),
+    response: z.array(payout)
+  },
+
+  // meta.summary has the seller's totals
+  listMyPayouts: {
+    query: pageQuery(['createdAt'], 20),
+    response: z.array(payout)
+  },
+
+  payoutSummary: {
+    query: z.object({
+      sellerId: z.string().uuid().optional()
+    }),
+    response: payoutSummary
+  },
+
+  retryPayout: {
+    params: idParams,
+    response: payout
+  }
+};
@@ -0,0 +1,246 @@
+import request from 'supertest';
+import Stripe from 'stripe';
+import { PrismaClient, User, MarketplaceProduct } from '@prisma/client';
+import { createApp, createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+import { ConflictError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const stripe = new FakeStripe();
+const container = createContainer({ prisma, stripe: stripe });
+const app = createApp(container);
+
+let seller: User;
+let buyer: User;
+let product: MarketplaceProduct;
+
+// Deliver an event to the webhook endpoint the way Stripe does
+const deliver = (event: Stripe.Event, secret = process.env.STRIPE_WEBHOOK_SECRET as string) => {
+  const { payload, signature } = stripe.signEvent(event, secret);
+
+  return request(app)
+    .post('/api/payments/webhook')
+    .set('stripe-signature', signature)
+    .set('content-type', 'application/json')
+    .send(payload);
+};
+
+const checkout = () =>
+  container.checkoutService.checkout({ buyerId: buyer.id, productId: product.id, quantity: 2 });
+
+const stockLeft = async () =>
+  (await prisma.marketplaceProduct.findUniqueOrThrow({ where: { id: product.id } })).stock;
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  stripe.reset();
+  jest.restoreAllMocks();
+
+  seller = await createTestUser(prisma, { role: 'Seller', stripeAccountId: 'acct_seller', stripePayoutsEnabled: false });
+  buyer = await createTestUser(prisma);
+  product = await prisma.marketplaceProduct.create({
+    data: {
+      sellerId: seller.id,
+      title: 'Wool blanket',
+      description: 'Hand-woven wool blanket',
+      priceCents: 6000,
+      currency: 'usd',
+      stock: 4,
+      isActive: true
+    }
+  });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('PaymentService webhooks', () => {
+  it('rejects events with a bad signature', async () => {
+    const { paymentIntentId } = await checkout();
+    const event = stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId));
+
+    const response = await deliver(event, 'whsec_someone_else');
+
+    expect(response.status).toBe(400);
+    expect(await prisma.webhookEvent.count()).toBe(0);
+  });
+
+  it('completes the order on payment_intent.succeeded and processes redeliveries once', async () => {
+    const { order, paymentIntentId } = await checkout();
+    const event = stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId));
+
+    expect((await deliver(event)).status).toBe(200);
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'completed' });
+    expect(await prisma.webhookEvent.findUniqueOrThrow({ where: { id: event.id } })).toMatchObject({ status: 'processed' });
+    expect(await prisma.sellerPayout.count({ where: { orderId: order.id } })).toBe(1);
+    expect(await stockLeft()).toBe(2);
+  });
+
+  it('leaves unpaid orders to the webhook, so a seller can\'t move them on before payment', async () => {
+    const { order, paymentIntentId } = await checkout();
+    const sellerActor = { id: seller.id, permissions: [] };
+
+    for (const status of ['processing', 'shipped', 'completed'] as const) {
+      await expect(container.orderService.updateOrderStatus(order.id, status, sellerActor)).rejects.toBeInstanceOf(ConflictError);
+    }
+
+    await deliver(stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId)));
+
+    expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'completed' });
+    expect(await prisma.sellerPayout.count({ where: { orderId: order.id } })).toBe(1);
+  });
+
+  it('fails the order and restocks it on payment_intent.payment_failed', async () => {
+    const { order, paymentIntentId } = await checkout();
+    const event = stripe.createEvent('payment_intent.payment_failed', stripe.failPaymentIntent(paymentIntentId));
+
+    expect((await deliver(event)).status).toBe(200);
+
+    expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'failed' });
+    expect(await stockLeft()).toBe(4);
+
+    // The buyer can't retry on the intent of an order that has failed
+    expect(stripe.store.paymentIntents.get(paymentIntentId)?.status).toBe('canceled');
+
+    // Failed is terminal, so the seller can't complete it without payment
+    await expect(container.orderService.updateOrderStatus(order.id, 'completed', { id: seller.id, permissions: [] }))
+      .rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('completes the order when a retry succeeds after a failed attempt', async () => {
+    const { order, paymentIntentId } = await checkout();
+    const failed = stripe.createEvent('payment_intent.payment_failed', stripe.failPaymentIntent(paymentIntentId));
+    const succeeded = stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId));
+
+    // The failure is delivered after the retry went through
+    expect((await deliver(failed)).body.data).toMatchObject({ orderStatus: 'pending' });
+    await deliver(succeeded);
+
+    expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'completed' });
+    expect(await prisma.sellerPayout.count({ where: { orderId: order.id } })).toBe(1);
+    expect(await stockLeft()).toBe(2);
+  });
+
+  it('saves the Connect status on account.updated and sends payouts that were waiting', async () => {
+    const { order, paymentIntentId } = await checkout();
+    await deliver(stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId)));
+
+    expect(await prisma.sellerPayout.findFirstOrThrow({ where: { orderId: order.id } })).toMatchObject({ status: 'pending' });
+
+    const account = {
+      id: 'acct_seller',
+      object: 'account',
+      details_submitted: true,
+      charges_enabled: true,
+      payouts_enabled: true,
+      metadata: { userId: seller.id }
+    };
+
+    expect((await deliver(stripe.createEvent('account.updated', account))).status).toBe(200);
+
+    expect(await prisma.user.findUniqueOrThrow({ where: { id: seller.id } })).toMatchObject({
+      stripeDetailsSubmitted: true,
+      stripeChargesEnabled: true,
+      stripePayoutsEnabled: true
+    });
+
+    const payout = await prisma.sellerPayout.findFirstOrThrow({ where: { orderId: order.id } });
+    expect(payout.status).toBe('transferred');
+    expect(stripe.store.transfers.get(payout.stripeTransferId as string)).toMatchObject({
+      amount: payout.netCents,
+      destination: 'acct_seller'
+    });
+  });
+
+  describe('disputes', () => {
+    const dispute = (paymentIntentId: string, status: string) =>
+      ({ id: 'dp_1', object: 'dispute', payment_intent: paymentIntentId, status });
+
+    // An order paid for and transferred to the seller
+    const transferredOrder = async () => {
+      await prisma.user.update({ where: { id: seller.id }, data: { stripePayoutsEnabled: true } });
+
+      const { order, paymentIntentId } = await checkout();
+      await deliver(stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId)));
+
+      const payout = await prisma.sellerPayout.findFirstOrThrow({ where: { orderId: order.id } });
+      expect(payout.status).toBe('transferred');
+
+      return { order, paymentIntentId, transferId: payout.stripeTransferId as string };
+    };
+
+    const payoutFor = (orderId: string) => prisma.sellerPayout.findFirstOrThrow({ where: { orderId } });
+
+    it('holds payouts that have not been transferred yet', async () => {
+      const { order, paymentIntentId } = await checkout();
+      await deliver(stripe.createEvent('payment_intent.succeeded', stripe.succeedPaymentIntent(paymentIntentId)));
+
+      await deliver(stripe.createEvent('charge.dispute.created', dispute(paymentIntentId, 'needs_response')));
+
+      expect(await payoutFor(order.id)).toMatchObject({ status: 'held', stripeTransferId: null });
+      expect(stripe.store.transfers.size).toBe(0);
+    });
+
+    it('reverses and holds a transferred payout, then sends it again when the dispute is won', async () => {
+      const { order, paymentIntentId, transferId } = await transferredOrder();
+
+      await deliver(stripe.createEvent('charge.dispute.created', dispute(paymentIntentId, 'needs_response')));
+
+      expect(await payoutFor(order.id)).toMatchObject({ status: 'held', stripeTransferId: transferId });
+      expect(stripe.store.transfers.get(transferId)).toMatchObject({ reversed: true });
+
+      await deliver(stripe.createEvent('charge.dispute.closed', dispute(paymentIntentId, 'won')));
+
+      const payout = await payoutFor(order.id);
+      expect(payout.status).toBe('transferred');
+      expect(payout.stripeTransferId).not.toBe(transferId);
+      expect(stripe.store.transfers.get(payout.stripeTransferId as string)).toMatchObject({ amount: payout.netCents, reversed: false });
+
+      // Transferred, reversed and transferred again: the seller is owed nothing more
+      const [balance] = await container.ledgerService.getUserBalances(seller.id);
+      expect(balance.balanceCents).toBeCloseTo(0);
+    });
+
+    it('keeps a reversed payout reversed when the dispute is lost', async () => {
+      const { order, paymentIntentId, transferId } = await transferredOrder();
+
+      await deliver(stripe.createEvent('charge.dispute.created', dispute(paymentIntentId, 'needs_response')));
+      await deliver(stripe.createEvent('charge.dispute.closed', dispute(paymentIntentId, 'lost')));
+
+      expect(await prisma.order.findUniqueOrThrow({ where: { id: order.id } })).toMatchObject({ status: 'refunded', disputeStatus: 'lost' });
+      expect(await payoutFor(order.id)).toMatchObject({ status: 'reversed', stripeTransferId: transferId });
+      expect(stripe.store.transfers.get(transferId)?.amount_reversed).toBe(stripe.store.transfers.get(transferId)?.amount);
+    });
+
+    it('marks a payout whose reversal fails, and tries again when the dispute is lost', async () => {
+      const { order, paymentIntentId, transferId } = await transferredOrder();
+
+      jest.spyOn(stripe.transfers, 'createReversal').mockRejectedValueOnce(new Error('Insufficient funds in the connected account'));
+
+      expect((await deliver(stripe.createEvent('charge.dispute.created', dispute(paymentIntentId, 'needs_response')))).status).toBe(200);
+      expect(await payoutFor(order.id)).toMatchObject({
+        status: 'reversal_failed',
+        error: 'Insufficient funds in the connected account'
+      });
+
+      await deliver(stripe.createEvent('charge.dispute.closed', dispute(paymentIntentId, 'lost')));
+
+      expect(await payoutFor(order.id)).toMatchObject({ status: 'reversed' });
+      expect(stripe.store.transfers.get(transferId)).toMatchObject({ reversed: true });
+    });
+
+    it('leaves the transfer with the seller when a dispute it could not reverse is won', async () => {
+      const { order, paymentIntentId, transferId } = await transferredOrder();
+
+      jest.spyOn(stripe.transfers, 'createReversal').mockRejectedValueOnce(new Error('Insufficient funds in the connected account'));
+
+      await deliver(stripe.createEvent('charge.dispute.created', dispute(paymentIntentId, 'needs_response')));
+      await deliver(stripe.createEvent('charge.dispute.closed', dispute(paymentIntentId, 'won')));
+
+      expect(await payoutFor(order.id)).toMatchObject({ status: 'transferred', stripeTransferId: transferId, error: null });
+      expect(stripe.store.transfers.size).toBe(1);
+    });
+  });
+});
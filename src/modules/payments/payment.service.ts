@@ -1,11 +1,17 @@
 import Stripe from 'stripe';
+import { Prisma, Order, PayoutStatus, SellerPayout, WebhookEvent, WebhookEventStatus } from '@prisma/client';
 import { env } from '../../config/env';
+import { calculatePlatformFee } from '../../config/payouts';
+import { OrderRepository } from '../marketplace/order.repository';
+import { UserRepository } from '../users/user.repository';
+import { WebhookEventRepository } from './webhook.repository';
+import { PayoutRepository, PayoutSummary } from './payout.repository';
+import { RankingService } from '../rankings/ranking.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { StripeClient } from './stripe.client';
 import logger from '../../utils/logger';
-
-// Initialize Stripe with API key
-const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
-  apiVersion: '2023-10-16', // Use the latest stable API version
-});
+import { BadRequestError, ConflictError, NotFoundError } from '../../utils/errors';
+import { Page, PageOptions } from '../../utils/pagination';
 
 export type PaymentIntent = {
   id: string;
@@ -23,7 +29,52 @@ export type StripeAccount = {
   accountLink?: string;
 };
 
+// Amounts Stripe holds for a payment, in the smallest currency unit
+export type StripePaymentTotals = {
+  id: string;
+  amountReceivedCents: number;
+  amountRefundedCents: number;
+  currency: string;
+};
+
+// Amounts Stripe moved for a transfer, in the smallest currency unit
+export type StripeTransferTotals = {
+  id: string;
+  amountCents: number;
+  amountReversedCents: number;
+  currency: string;
+};
+
+// Payment intent states in which the buyer may still be charged
+const IN_FLIGHT_PAYMENT_STATUSES = ['processing', 'succeeded', 'requires_capture'];
+
 export class PaymentService {
+  private orderRepository: OrderRepository;
+  private userRepository: UserRepository;
+  private webhookEventRepository: WebhookEventRepository;
+  private payoutRepository: PayoutRepository;
+  private rankingService: RankingService;
+  private ledgerService: LedgerService;
+  private stripe: StripeClient;
+
+  constructor(
+    orderRepository: OrderRepository,
+    userRepository: UserRepository,
+    webhookEventRepository: WebhookEventRepository,
+    payoutRepository: PayoutRepository,
+    rankingService: RankingService,
+    ledgerService: LedgerService,
+    stripe: StripeClient
+  ) {
+    this.orderRepository = orderRepository;
+    this.userRepository = userRepository;
+    this.webhookEventRepository = webhookEventRepository;
+    this.payoutRepository = payoutRepository;
+    this.rankingService = rankingService;
+    this.ledgerService = ledgerService;
+    this.stripe = stripe;
+  }
+
   /**
    * Create a payment intent for a product purchase
    */
@@ -36,7 +87,7 @@ export class PaymentService {
       // Amount needs to be in smallest currency unit (cents for USD)
       const amountInCents = Math.round(amount * 100);
 
-      const paymentIntent = await stripe.paymentIntents.create({
+      const paymentIntent = await this.stripe.paymentIntents.create({
         amount: amountInCents,
         currency,
         metadata,
@@ -58,12 +109,50 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Create a payment intent for a checkout order
+   * The order ID in the metadata links webhook events back to the order
+   */
+  async createOrderPaymentIntent(order: Order): Promise<PaymentIntent> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.create(
+        {
+          amount: order.amountCents,
+          currency: order.currency.toLowerCase(),
+          metadata: {
+            orderId: order.id,
+            buyerId: order.buyerId,
+            productId: order.productId,
+          },
+          automatic_payment_methods: {
+            enabled: true,
+          },
+        },
+        {
+          // A retried checkout call reuses the same intent for the order
+          idempotencyKey: `order-${order.id}`,
+        }
+      );
+
+      return {
+        id: paymentIntent.id,
+        clientSecret: paymentIntent.client_secret as string,
+        amount: paymentIntent.amount / 100, // Convert back to dollars
+        currency: paymentIntent.currency,
+        status: paymentIntent.status,
+      };
+    } catch (error: any) {
+      logger.error(`Error creating order payment intent: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Retrieve a payment intent
    */
   async retrievePaymentIntent(paymentIntentId: string): Promise<PaymentIntent> {
     try {
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
 
       return {
         id: paymentIntent.id,
@@ -78,12 +167,77 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Retrieve what was received and refunded for a payment intent
+   */
+  async retrievePaymentTotals(paymentIntentId: string): Promise<StripePaymentTotals> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId, {
+        expand: ['latest_charge'],
+      });
+      const charge = paymentIntent.latest_charge as Stripe.Charge | null;
+
+      return {
+        id: paymentIntent.id,
+        amountReceivedCents: paymentIntent.amount_received,
+        amountRefundedCents: charge?.amount_refunded ?? 0,
+        currency: paymentIntent.currency,
+      };
+    } catch (error: any) {
+      logger.error(`Error retrieving payment totals: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Retrieve what was transferred and reversed for a transfer
+   */
+  async retrieveTransferTotals(transferId: string): Promise<StripeTransferTotals> {
+    try {
+      const transfer = await this.stripe.transfers.retrieve(transferId);
+
+      return {
+        id: transfer.id,
+        amountCents: transfer.amount,
+        amountReversedCents: transfer.amount_reversed,
+        currency: transfer.currency,
+      };
+    } catch (error: any) {
+      logger.error(`Error retrieving transfer totals: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel an order's payment intent so the buyer can no longer pay it
+   * Returns false, leaving it alone, when a payment is already under way;
+   * the webhook settles those orders.
+   */
+  async cancelOrderPaymentIntent(paymentIntentId: string): Promise<boolean> {
+    try {
+      const paymentIntent = await this.stripe.paymentIntents.retrieve(paymentIntentId);
+
+      if (IN_FLIGHT_PAYMENT_STATUSES.includes(paymentIntent.status)) {
+        return false;
+      }
+
+      if (paymentIntent.status !== 'canceled') {
+        await this.stripe.paymentIntents.cancel(paymentIntentId);
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error(`Error cancelling order payment intent: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Cancel a payment intent
    */
   async cancelPaymentIntent(paymentIntentId: string): Promise<PaymentIntent> {
     try {
-      const paymentIntent = await stripe.paymentIntents.cancel(paymentIntentId);
+      const paymentIntent = await this.stripe.paymentIntents.cancel(paymentIntentId);
 
       return {
         id: paymentIntent.id,
@@ -107,7 +261,7 @@ export class PaymentService {
     country: string = 'US'
   ): Promise<StripeAccount> {
     try {
-      const account = await stripe.accounts.create({
+      const account = await this.stripe.accounts.create({
         type: 'express',
         country,
         email,
@@ -120,6 +274,14 @@ export class PaymentService {
         },
       });
 
+      // Link the account to the seller so account.updated events can find them
+      await this.userRepository.updateConnectStatus(userId, {
+        stripeAccountId: account.id,
+        stripeDetailsSubmitted: account.details_submitted,
+        stripeChargesEnabled: account.charges_enabled,
+        stripePayoutsEnabled: account.payouts_enabled,
+      });
+
       return {
         id: account.id,
         detailsSubmitted: account.details_submitted,
@@ -141,7 +303,7 @@ export class PaymentService {
     returnUrl: string
   ): Promise<string> {
     try {
-      const accountLink = await stripe.accountLinks.create({
+      const accountLink = await this.stripe.accountLinks.create({
         account: accountId,
         refresh_url: refreshUrl,
         return_url: returnUrl,
@@ -160,7 +322,7 @@ export class PaymentService {
    */
   async getConnectAccount(accountId: string): Promise<StripeAccount> {
     try {
-      const account = await stripe.accounts.retrieve(accountId);
+      const account = await this.stripe.accounts.retrieve(accountId);
 
       return {
         id: account.id,
@@ -180,15 +342,16 @@ export class PaymentService {
   async createTransfer(
     amount: number,
     destinationAccountId: string,
-    metadata: Record<string, string> = {}
+    metadata: Record<string, string> = {},
+    currency: string = 'usd'
   ): Promise<any> {
     try {
       // Amount needs to be in smallest currency unit (cents for USD)
       const amountInCents = Math.round(amount * 100);
 
-      const transfer = await stripe.transfers.create({
+      const transfer = await this.stripe.transfers.create({
         amount: amountInCents,
-        currency: 'usd',
+        currency,
         destination: destinationAccountId,
         metadata,
       });
@@ -200,54 +363,243 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Get seller payouts with filtering
+   */
+  async getPayouts(options: PageOptions & {
+    sellerId?: string;
+    status?: PayoutStatus;
+  }): Promise<Page<SellerPayout>> {
+    try {
+      return await this.payoutRepository.findAll(options);
+    } catch (error: any) {
+      logger.error(`Error fetching payouts: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get fee and payout totals, optionally for a single seller
+   */
+  async getPayoutSummary(sellerId?: string): Promise<PayoutSummary[]> {
+    try {
+      return await this.payoutRepository.getSummary(sellerId);
+    } catch (error: any) {
+      logger.error(`Error fetching payout summary: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Retry the transfer for a payout that is pending or failed
+   */
+  async retryPayout(payoutId: string): Promise<SellerPayout> {
+    try {
+      const payout = await this.payoutRepository.findById(payoutId);
+
+      if (!payout) {
+        throw new NotFoundError('Payout not found');
+      }
+
+      if (payout.status === 'transferred') {
+        throw new ConflictError('Payout has already been transferred');
+      }
+
+      if (payout.status !== 'pending' && payout.status !== 'failed') {
+        throw new ConflictError(`A ${payout.status} payout cannot be retried`);
+      }
+
+      return await this.transferPayout(payout);
+    } catch (error: any) {
+      logger.error(`Error retrying payout: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Refund the full payment for an order
+   */
+  async createRefund(
+    paymentIntentId: string,
+    metadata: Record<string, string> = {}
+  ): Promise<Stripe.Refund> {
+    try {
+      return await this.stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          metadata,
+        },
+        {
+          // An order is refunded at most once
+          idempotencyKey: `refund-${paymentIntentId}`,
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Error creating refund: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Process a webhook event from Stripe
    */
   async processWebhook(requestBody: any, signature: string): Promise<any> {
     try {
       // Verify and construct the event
-      const event = stripe.webhooks.constructEvent(
-        requestBody,
-        signature,
-        env.STRIPE_WEBHOOK_SECRET
-      );
+      let event: Stripe.Event;
 
-      // Handle specific event types
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          return await this.handlePaymentIntentSucceeded(event.data.object);
-
-        case 'payment_intent.payment_failed':
-          return await this.handlePaymentIntentFailed(event.data.object);
-          
-        case 'account.updated':
-          return await this.handleAccountUpdated(event.data.object);
-
-        // Add more event handlers as needed
-        default:
-          logger.info(`Unhandled Stripe event type: ${event.type}`);
-          return { status: 'ignored', type: event.type };
+      try {
+        event = this.stripe.webhooks.constructEvent(
+          requestBody,
+          signature,
+          env.STRIPE_WEBHOOK_SECRET as string
+        );
+      } catch (error: any) {
+        logger.warn(`Webhook signature verification failed: ${error.message}`);
+        throw new BadRequestError('Invalid webhook signature');
       }
+
+      return await this.handleEvent(event);
     } catch (error: any) {
       logger.error(`Error processing webhook: ${error.message}`);
       throw error;
     }
   }
 
+  /**
+   * Get stored webhook events with filtering
+   */
+  async getWebhookEvents(options: PageOptions & {
+    status?: WebhookEventStatus;
+    type?: string;
+  }): Promise<Page<WebhookEvent>> {
+    try {
+      return await this.webhookEventRepository.findAll(options);
+    } catch (error: any) {
+      logger.error(`Error fetching webhook events: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Replay a failed webhook event from its stored payload
+   */
+  async replayWebhookEvent(eventId: string): Promise<any> {
+    try {
+      const storedEvent = await this.webhookEventRepository.findById(eventId);
+
+      if (!storedEvent) {
+        throw new NotFoundError('Webhook event not found');
+      }
+
+      if (storedEvent.status !== 'failed') {
+        throw new ConflictError('Only failed webhook events can be replayed');
+      }
+
+      // The payload was signature-checked when it was first received
+      return await this.handleEvent(storedEvent.payload as unknown as Stripe.Event);
+    } catch (error: any) {
+      logger.error(`Error replaying webhook event: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Record a verified event and run its handler once
+   * Redeliveries of processed events are acknowledged without running the handler again
+   */
+  private async handleEvent(event: Stripe.Event): Promise<any> {
+    const claimed = await this.webhookEventRepository.claim({
+      id: event.id,
+      type: event.type,
+      // Stripe events are plain JSON, but their types don't say so
+      payload: event as unknown as Prisma.InputJsonValue
+    });
+
+    if (!claimed) {
+      logger.info(`Skipping duplicate Stripe event: ${event.id}`);
+      return { status: 'duplicate', type: event.type, eventId: event.id };
+    }
+
+    try {
+      const result = await this.dispatchEvent(event);
+      await this.webhookEventRepository.markProcessed(event.id, result);
+      return result;
+    } catch (error: any) {
+      await this.webhookEventRepository.markFailed(event.id, error.message);
+      throw error;
+    }
+  }
+
+  /**
+   * Route an event to its handler
+   */
+  private async dispatchEvent(event: Stripe.Event): Promise<any> {
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return await this.handlePaymentIntentSucceeded(event.data.object);
+
+      case 'payment_intent.payment_failed':
+        return await this.handlePaymentIntentFailed(event.data.object);
+
+      case 'account.updated':
+        return await this.handleAccountUpdated(event.data.object);
+
+      case 'charge.refunded':
+        return await this.handleChargeRefunded(event.data.object);
+
+      case 'charge.dispute.created':
+        return await this.handleDisputeCreated(event.data.object);
+
+      case 'charge.dispute.closed':
+        return await this.handleDisputeClosed(event.data.object);
+
+      // Add more event handlers as needed
+      default:
+        logger.info(`Unhandled Stripe event type: ${event.type}`);
+        return { status: 'ignored', type: event.type };
+    }
+  }
+
   /**
    * Handle payment_intent.succeeded webhook event
+   * Completes the pending order paid for by the intent
    */
   private async handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent): Promise<any> {
     try {
       logger.info(`Payment succeeded: ${paymentIntent.id}`);
 
-      // Here you would typically:
-      // 1. Update order status in your database
-      // 2. Create a transfer to the seller's connected account if applicable
-      // 3. Send email notifications
+      const order = await this.findOrderForPaymentIntent(paymentIntent);
+
+      if (!order) {
+        logger.warn(`No order found for payment intent ${paymentIntent.id}`);
+        return { status: 'ignored', type: 'payment_intent.succeeded', id: paymentIntent.id };
+      }
+
+      const updatedOrder = await this.orderRepository.transitionStatus(order.id, 'pending', 'completed', {
+        paymentIntentId: paymentIntent.id
+      });
+
+      if (!updatedOrder) {
+        logger.info(`Order ${order.id} is already ${order.status}, skipping completion`);
+      }
+
+      const orderStatus = updatedOrder?.status ?? order.status;
 
-      // Example implementation would depend on your specific business logic
-      return { status: 'processed', type: 'payment_intent.succeeded', id: paymentIntent.id };
+      // Also runs on replays, so a payout lost to an earlier failure is still created
+      const payout = orderStatus === 'completed'
+        ? await this.createSellerPayout(order.id, paymentIntent)
+        : null;
+
+      return {
+        status: 'processed',
+        type: 'payment_intent.succeeded',
+        id: paymentIntent.id,
+        orderId: order.id,
+        orderStatus,
+        payoutId: payout?.id ?? null,
+        payoutStatus: payout?.status ?? null
+      };
     } catch (error: any) {
       logger.error(`Error handling payment success: ${error.message}`);
       throw error;
@@ -256,17 +608,49 @@ export class PaymentService {
 
   /**
    * Handle payment_intent.payment_failed webhook event
+   * A failed attempt isn't final: the buyer can retry on the same intent. The
+   * intent is canceled first, so the order can't be paid once it has failed
+   * and its quantity is back in stock. If a retry is already under way, the
+   * order stays pending for payment_intent.succeeded to complete.
    */
   private async handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent): Promise<any> {
     try {
       logger.info(`Payment failed: ${paymentIntent.id}`);
 
-      // Here you would typically:
-      // 1. Update order status in your database
-      // 2. Notify the buyer and seller
-      // 3. Take any necessary recovery actions
+      const order = await this.findOrderForPaymentIntent(paymentIntent);
+
+      if (!order) {
+        logger.warn(`No order found for payment intent ${paymentIntent.id}`);
+        return { status: 'ignored', type: 'payment_intent.payment_failed', id: paymentIntent.id };
+      }
+
+      if (order.status === 'pending' && !await this.cancelOrderPaymentIntent(paymentIntent.id)) {
+        logger.info(`Payment for order ${order.id} was retried after failing, leaving it pending`);
+
+        return {
+          status: 'processed',
+          type: 'payment_intent.payment_failed',
+          id: paymentIntent.id,
+          orderId: order.id,
+          orderStatus: order.status
+        };
+      }
+
+      const updatedOrder = await this.orderRepository.releaseStock(order.id, 'failed', {
+        paymentIntentId: paymentIntent.id
+      });
 
-      return { status: 'processed', type: 'payment_intent.payment_failed', id: paymentIntent.id };
+      if (!updatedOrder) {
+        logger.info(`Order ${order.id} is already ${order.status}, skipping failure`);
+      }
+
+      return {
+        status: 'processed',
+        type: 'payment_intent.payment_failed',
+        id: paymentIntent.id,
+        orderId: order.id,
+        orderStatus: updatedOrder?.status ?? order.status
+      };
     } catch (error: any) {
       logger.error(`Error handling payment failure: ${error.message}`);
       throw error;
@@ -275,26 +659,418 @@ export class PaymentService {
 
   /**
    * Handle account.updated webhook event
+   * Saves the seller's Connect status on their profile
    */
   private async handleAccountUpdated(account: Stripe.Account): Promise<any> {
     try {
       logger.info(`Account updated: ${account.id}`);
 
-      // Here you would typically:
-      // 1. Update the seller's account status in your database
-      // 2. Enable or disable selling capabilities based on account status
+      // Accounts created before the ID was stored are matched by their metadata
+      const seller = await this.userRepository.findByStripeAccountId(account.id)
+        ?? (account.metadata?.userId ? await this.userRepository.findById(account.metadata.userId) : null);
+
+      if (!seller) {
+        logger.warn(`No seller found for Stripe account ${account.id}`);
+        return { status: 'ignored', type: 'account.updated', id: account.id };
+      }
+
+      await this.userRepository.updateConnectStatus(seller.id, {
+        stripeAccountId: account.id,
+        stripeDetailsSubmitted: account.details_submitted,
+        stripeChargesEnabled: account.charges_enabled,
+        stripePayoutsEnabled: account.payouts_enabled,
+      });
+
+      // Send payouts that were waiting for the seller to finish onboarding
+      if (account.payouts_enabled) {
+        const waitingPayouts = await this.payoutRepository.findUntransferredBySeller(seller.id);
 
-      return { 
-        status: 'processed', 
-        type: 'account.updated', 
+        for (const payout of waitingPayouts) {
+          await this.transferPayout(payout);
+        }
+      }
+
+      return {
+        status: 'processed',
+        type: 'account.updated',
         id: account.id,
+        userId: seller.id,
         detailsSubmitted: account.details_submitted,
         payoutsEnabled: account.payouts_enabled,
-        chargesEnabled: account.charges_enabled 
+        chargesEnabled: account.charges_enabled
       };
     } catch (error: any) {
       logger.error(`Error handling account update: ${error.message}`);
       throw error;
     }
   }
+
+  /**
+   * Handle charge.refunded webhook event
+   * Marks a fully refunded order as refunded, restocks it and settles the seller's payout
+   */
+  private async handleChargeRefunded(charge: Stripe.Charge): Promise<any> {
+    try {
+      logger.info(`Charge refunded: ${charge.id}`);
+
+      // Partial refunds are left for manual handling
+      if (!charge.refunded) {
+        logger.info(`Charge ${charge.id} is only partially refunded, leaving order unchanged`);
+        return { status: 'ignored', type: 'charge.refunded', id: charge.id };
+      }
+
+      const order = await this.findOrderForCharge(charge.payment_intent);
+
+      if (!order) {
+        logger.warn(`No order found for charge ${charge.id}`);
+        return { status: 'ignored', type: 'charge.refunded', id: charge.id };
+      }
+
+      const refundedOrder = await this.orderRepository.markRefunded(order.id, true);
+      const stripeRefundId = charge.refunds?.data[0]?.id;
+
+      if (refundedOrder) {
+        await this.orderRepository.updateRefund(order.id, {
+          refundStatus: 'approved',
+          stripeRefundId
+        });
+        await this.applyFailedOrderRanking(order.id);
+      } else {
+        logger.info(`Order ${order.id} is ${order.status}, skipping refund`);
+      }
+
+      const orderStatus = refundedOrder?.status ?? order.status;
+
+      // Also runs on replays, so money movements lost to an earlier failure are still settled
+      if (orderStatus === 'refunded') {
+        const payout = await this.settleRefundedPayout(order.id);
+
+        if (payout) {
+          await this.ledgerService.recordRefund(payout, stripeRefundId);
+        }
+      }
+
+      return {
+        status: 'processed',
+        type: 'charge.refunded',
+        id: charge.id,
+        orderId: order.id,
+        orderStatus
+      };
+    } catch (error: any) {
+      logger.error(`Error handling charge refund: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle charge.dispute.created webhook event
+   * Flags the order as disputed and freezes the seller's payout. Stripe takes
+   * the disputed amount from the platform, so a payout already transferred is
+   * reversed and held until the dispute closes.
+   */
+  private async handleDisputeCreated(dispute: Stripe.Dispute): Promise<any> {
+    try {
+      logger.info(`Dispute created: ${dispute.id}`);
+
+      const order = await this.findOrderForCharge(dispute.payment_intent);
+
+      if (!order) {
+        logger.warn(`No order found for dispute ${dispute.id}`);
+        return { status: 'ignored', type: 'charge.dispute.created', id: dispute.id };
+      }
+
+      await this.orderRepository.updateDispute(order.id, {
+        disputeStatus: 'open',
+        stripeDisputeId: dispute.id
+      });
+
+      const held = `Held while dispute ${dispute.id} is open`;
+      let payout = await this.payoutRepository.transitionStatus(order.id, ['pending', 'failed'], 'held', held);
+
+      if (!payout) {
+        const transferred = await this.payoutRepository.findByOrderId(order.id);
+
+        if (transferred?.status === 'transferred' && transferred.stripeTransferId) {
+          payout = await this.reverseTransfer(transferred, 'held', held);
+        } else {
+          logger.warn(`Payout for disputed order ${order.id} could not be held`);
+          payout = transferred;
+        }
+      }
+
+      return {
+        status: 'processed',
+        type: 'charge.dispute.created',
+        id: dispute.id,
+        orderId: order.id,
+        payoutStatus: payout?.status ?? null
+      };
+    } catch (error: any) {
+      logger.error(`Error handling dispute creation: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Handle charge.dispute.closed webhook event
+   * A won dispute releases the seller's payout, transferring it again if it
+   * was reversed; a lost one refunds the order
+   */
+  private async handleDisputeClosed(dispute: Stripe.Dispute): Promise<any> {
+    try {
+      logger.info(`Dispute closed: ${dispute.id} (${dispute.status})`);
+
+      const order = await this.findOrderForCharge(dispute.payment_intent);
+
+      if (!order) {
+        logger.warn(`No order found for dispute ${dispute.id}`);
+        return { status: 'ignored', type: 'charge.dispute.closed', id: dispute.id };
+      }
+
+      // Inquiries closed without a chargeback count as won
+      const lost = dispute.status === 'lost';
+
+      await this.orderRepository.updateDispute(order.id, {
+        disputeStatus: lost ? 'lost' : 'won',
+        stripeDisputeId: dispute.id
+      });
+
+      let payout: SellerPayout | null;
+
+      if (lost) {
+        // The buyer kept the goods and got their money back, so nothing is restocked
+        const refundedOrder = await this.orderRepository.markRefunded(order.id, false);
+        payout = await this.settleRefundedPayout(order.id);
+
+        if (payout) {
+          await this.ledgerService.recordRefund(payout, dispute.id);
+        }
+
+        if (refundedOrder) {
+          await this.applyFailedOrderRanking(order.id);
+        }
+      } else {
+        payout = await this.payoutRepository.transitionStatus(order.id, ['held'], 'pending');
+
+        if (payout) {
+          payout = await this.transferPayout(payout);
+        } else {
+          // The seller kept the transfer Stripe refused to reverse, which is now theirs
+          payout = await this.payoutRepository.transitionStatus(order.id, ['reversal_failed'], 'transferred');
+        }
+      }
+
+      return {
+        status: 'processed',
+        type: 'charge.dispute.closed',
+        id: dispute.id,
+        orderId: order.id,
+        disputeStatus: lost ? 'lost' : 'won',
+        payoutStatus: payout?.status ?? null
+      };
+    } catch (error: any) {
+      logger.error(`Error handling dispute closure: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Find the order a charge or dispute belongs to through its payment intent
+   */
+  private async findOrderForCharge(paymentIntent: string | Stripe.PaymentIntent | null): Promise<Order | null> {
+    if (!paymentIntent) {
+      return null;
+    }
+
+    if (typeof paymentIntent !== 'string') {
+      return this.findOrderForPaymentIntent(paymentIntent);
+    }
+
+    return this.orderRepository.findByPaymentIntentId(paymentIntent);
+  }
+
+  /**
+   * Stop or claw back the seller's payout for an order whose money went back to the buyer
+   * Untransferred payouts are canceled; transferred ones are reversed
+   */
+  private async settleRefundedPayout(orderId: string): Promise<SellerPayout | null> {
+    // Already reversed when its dispute opened
+    const reversed = await this.payoutRepository.findByOrderId(orderId);
+
+    if (reversed?.status === 'held' && reversed.stripeReversalId) {
+      return await this.payoutRepository.transitionStatus(orderId, ['held'], 'reversed') ?? reversed;
+    }
+
+    const canceled = await this.payoutRepository.transitionStatus(
+      orderId,
+      ['pending', 'failed', 'held'],
+      'canceled'
+    );
+
+    if (canceled) {
+      return canceled;
+    }
+
+    const payout = await this.payoutRepository.findByOrderId(orderId);
+
+    if (!payout || !['transferred', 'reversal_failed'].includes(payout.status) || !payout.stripeTransferId) {
+      return payout;
+    }
+
+    return this.reverseTransfer(payout, 'reversed');
+  }
+
+  /**
+   * Pull a transferred payout back from the seller's Connect account
+   * Failures are recorded as reversal_failed rather than thrown, so finance can
+   * see the reversal is still owed; a lost dispute or refund tries it again
+   */
+  private async reverseTransfer(
+    payout: SellerPayout,
+    status: 'reversed' | 'held',
+    note: string | null = null
+  ): Promise<SellerPayout> {
+    try {
+      const reversal = await this.stripe.transfers.createReversal(
+        payout.stripeTransferId as string,
+        {
+          metadata: {
+            orderId: payout.orderId,
+            payoutId: payout.id,
+          },
+        },
+        {
+          idempotencyKey: `reversal-${payout.stripeTransferId}`,
+        }
+      );
+
+      const reversed = await this.payoutRepository.markReversed(payout.id, reversal.id, status, note);
+      await this.ledgerService.recordPayoutReversal(reversed);
+
+      return reversed;
+    } catch (error: any) {
+      logger.error(`Error reversing payout ${payout.id}: ${error.message}`);
+      return this.payoutRepository.markReversalFailed(payout.id, error.message);
+    }
+  }
+
+  /**
+   * Lower the seller's ranking for an order that ended in a refund
+   * Ranking is secondary to settling the money, so failures are only logged
+   */
+  private async applyFailedOrderRanking(orderId: string): Promise<void> {
+    try {
+      const order = await this.orderRepository.findById(orderId);
+
+      if (order) {
+        await this.rankingService.applyOrderCompletionRanking(
+          order.product.sellerId,
+          order.buyerId,
+          order.amountCents / 100,
+          false
+        );
+      }
+    } catch (error: any) {
+      logger.error(`Error applying refund ranking for order ${orderId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find the order a payment intent pays for
+   * Uses the stored intent ID, falling back to the orderId in the intent's metadata
+   */
+  private async findOrderForPaymentIntent(paymentIntent: Stripe.PaymentIntent): Promise<Order | null> {
+    const order = await this.orderRepository.findByPaymentIntentId(paymentIntent.id);
+
+    if (order || !paymentIntent.metadata?.orderId) {
+      return order;
+    }
+
+    return this.orderRepository.findById(paymentIntent.metadata.orderId);
+  }
+
+  /**
+   * Record the seller's share of a completed order and transfer it
+   * The platform fee stays on the platform account
+   */
+  private async createSellerPayout(orderId: string, paymentIntent: Stripe.PaymentIntent): Promise<SellerPayout> {
+    const order = await this.orderRepository.findById(orderId);
+
+    if (!order) {
+      throw new NotFoundError('Order not found');
+    }
+
+    const feeCents = calculatePlatformFee(order.amountCents);
+    const chargeId = typeof paymentIntent.latest_charge === 'string'
+      ? paymentIntent.latest_charge
+      : paymentIntent.latest_charge?.id;
+
+    const payout = await this.payoutRepository.createForOrder({
+      orderId: order.id,
+      sellerId: order.product.sellerId,
+      grossCents: order.amountCents,
+      feeCents,
+      netCents: order.amountCents - feeCents,
+      currency: order.currency.toLowerCase(),
+      stripeChargeId: chargeId
+    });
+
+    await this.ledgerService.recordCharge(payout, paymentIntent.id);
+
+    // Transferred, held or settled payouts are not sent again
+    if (payout.status !== 'pending' && payout.status !== 'failed') {
+      return payout;
+    }
+
+    return this.transferPayout(payout);
+  }
+
+  /**
+   * Transfer a payout's net amount to the seller's Connect account
+   * Failures are recorded on the payout rather than thrown, so they can be retried
+   */
+  private async transferPayout(payout: SellerPayout): Promise<SellerPayout> {
+    const seller = await this.userRepository.findById(payout.sellerId);
+
+    if (!seller?.stripeAccountId || !seller.stripePayoutsEnabled) {
+      return this.payoutRepository.markUntransferred(payout.id, 'pending', 'Seller cannot receive payouts yet');
+    }
+
+    // Nothing is owed when the fee takes the whole amount
+    if (payout.netCents === 0) {
+      return this.payoutRepository.markTransferred(payout.id, null);
+    }
+
+    let transfer: Stripe.Transfer;
+
+    try {
+      transfer = await this.stripe.transfers.create(
+        {
+          amount: payout.netCents,
+          currency: payout.currency,
+          destination: seller.stripeAccountId,
+          // Ties the transfer to the buyer's charge so it waits for those funds
+          ...(payout.stripeChargeId && { source_transaction: payout.stripeChargeId }),
+          transfer_group: `order-${payout.orderId}`,
+          metadata: {
+            orderId: payout.orderId,
+            payoutId: payout.id,
+          },
+        },
+        {
+          // A payout reversed for a dispute it then won is sent as a new transfer
+          idempotencyKey: payout.stripeReversalId ? `payout-${payout.id}-${payout.stripeReversalId}` : `payout-${payout.id}`,
+        }
+      );
+    } catch (error: any) {
+      logger.error(`Error transferring payout ${payout.id}: ${error.message}`);
+      return this.payoutRepository.markUntransferred(payout.id, 'failed', error.message);
+    }
+
+    const transferred = await this.payoutRepository.markTransferred(payout.id, transfer.id);
+    await this.ledgerService.recordPayoutTransfer(transferred);
+
+    return transferred;
+  }
 }
@@ -0,0 +1,205 @@
+import { Prisma, SellerPayout, PayoutStatus } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Type for recording a seller payout
+export type CreatePayoutInput = {
+  orderId: string;
+  sellerId: string;
+  grossCents: number;
+  feeCents: number;
+  netCents: number;
+  currency: string;
+  stripeChargeId?: string;
+};
+
+// Fee and transfer totals per currency, for reconciliation
+export type PayoutSummary = {
+  currency: string;
+  status: PayoutStatus;
+  count: number;
+  grossCents: number;
+  feeCents: number;
+  netCents: number;
+};
+
+export class PayoutRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Record a payout for an order, or return the existing one
+   * Orders have at most one payout, so repeated calls are safe
+   */
+  async createForOrder(data: CreatePayoutInput): Promise<SellerPayout> {
+    return this.db.sellerPayout.upsert({
+      where: { orderId: data.orderId },
+      create: data,
+      update: {}
+    });
+  }
+
+  /**
+   * Find a payout by ID
+   */
+  async findById(id: string): Promise<SellerPayout | null> {
+    return this.db.sellerPayout.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Find the payout for an order
+   */
+  async findByOrderId(orderId: string): Promise<SellerPayout | null> {
+    return this.db.sellerPayout.findUnique({
+      where: { orderId }
+    });
+  }
+
+  /**
+   * Move an order's payout between statuses if it is in one of the expected ones
+   * Returns null when the payout is missing or in another status
+   */
+  async transitionStatus(
+    orderId: string,
+    from: PayoutStatus[],
+    to: PayoutStatus,
+    error: string | null = null
+  ): Promise<SellerPayout | null> {
+    const { count } = await this.db.sellerPayout.updateMany({
+      where: { orderId, status: { in: from } },
+      data: { status: to, error }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.db.sellerPayout.findUnique({
+      where: { orderId }
+    });
+  }
+
+  /**
+   * Record a reversal of a transferred payout
+   * Payouts reversed for an open dispute are held rather than settled as reversed
+   */
+  async markReversed(
+    id: string,
+    stripeReversalId: string,
+    status: 'reversed' | 'held' = 'reversed',
+    error: string | null = null
+  ): Promise<SellerPayout> {
+    return this.db.sellerPayout.update({
+      where: { id },
+      data: {
+        status,
+        stripeReversalId,
+        error
+      }
+    });
+  }
+
+  /**
+   * Record why a transferred payout could not be reversed
+   */
+  async markReversalFailed(id: string, error: string): Promise<SellerPayout> {
+    return this.db.sellerPayout.update({
+      where: { id },
+      data: { status: 'reversal_failed', error }
+    });
+  }
+
+  /**
+   * Find payouts for a seller that have not been transferred yet
+   */
+  async findUntransferredBySeller(sellerId: string): Promise<SellerPayout[]> {
+    return this.db.sellerPayout.findMany({
+      where: {
+        sellerId,
+        status: { in: ['pending', 'failed'] }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+  }
+
+  /**
+   * Record a successful transfer to the seller
+   */
+  async markTransferred(id: string, stripeTransferId: string | null): Promise<SellerPayout> {
+    return this.db.sellerPayout.update({
+      where: { id },
+      data: {
+        status: 'transferred',
+        stripeTransferId,
+        error: null,
+        transferredAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Record why a payout could not be transferred
+   */
+  async markUntransferred(id: string, status: 'pending' | 'failed', error: string): Promise<SellerPayout> {
+    return this.db.sellerPayout.update({
+      where: { id },
+      data: { status, error }
+    });
+  }
+
+  /**
+   * Find all payouts with optional pagination and filters
+   */
+  async findAll(options: PageOptions & {
+    sellerId?: string;
+    status?: PayoutStatus;
+  }): Promise<Page<SellerPayout>> {
+    const { sellerId, status } = options;
+
+    const where: Prisma.SellerPayoutWhereInput = {};
+
+    if (sellerId) {
+      where.sellerId = sellerId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    return paginate(options, {
+      findMany: (args) => this.db.sellerPayout.findMany({ ...args, where }),
+      count: () => this.db.sellerPayout.count({ where })
+    });
+  }
+
+  /**
+   * Total gross, fee and net amounts by currency and status
+   */
+  async getSummary(sellerId?: string): Promise<PayoutSummary[]> {
+    const groups = await this.db.sellerPayout.groupBy({
+      by: ['currency', 'status'],
+      where: sellerId ? { sellerId } : undefined,
+      _count: { _all: true },
+      _sum: {
+        grossCents: true,
+        feeCents: true,
+        netCents: true
+      },
+      orderBy: [{ currency: 'asc' }, { status: 'asc' }]
+    });
+
+    return groups.map(group => ({
+      currency: group.currency,
+      status: group.status,
+      count: group._count._all,
+      grossCents: group._sum.grossCents ?? 0,
+      feeCents: group._sum.feeCents ?? 0,
+      netCents: group._sum.netCents ?? 0
+    }));
+  }
+}
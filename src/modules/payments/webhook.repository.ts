@@ -0,0 +1,128 @@
+import { Prisma, WebhookEvent, WebhookEventStatus } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// A delivery left in processing this long is assumed to have crashed and can be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+// Type for recording a received webhook event
+export type ClaimWebhookEventInput = {
+  id: string;
+  type: string;
+  payload: Prisma.InputJsonValue;
+};
+
+export class WebhookEventRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Claim an event for processing
+   * Records first deliveries and re-claims failed or stale ones. Returns null
+   * when the event was already processed or another delivery is handling it.
+   */
+  async claim(data: ClaimWebhookEventInput): Promise<WebhookEvent | null> {
+    try {
+      return await this.db.webhookEvent.create({
+        data: {
+          ...data,
+          status: 'processing',
+          attempts: 1
+        }
+      });
+    } catch (error: any) {
+      // Anything other than an existing event ID is a real failure
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+    }
+
+    const { count } = await this.db.webhookEvent.updateMany({
+      where: {
+        id: data.id,
+        OR: [
+          { status: 'failed' },
+          { status: 'processing', updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) } }
+        ]
+      },
+      data: {
+        status: 'processing',
+        attempts: { increment: 1 },
+        error: null
+      }
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    return this.db.webhookEvent.findUnique({
+      where: { id: data.id }
+    });
+  }
+
+  /**
+   * Find an event by its Stripe event ID
+   */
+  async findById(id: string): Promise<WebhookEvent | null> {
+    return this.db.webhookEvent.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Mark an event as processed and store the handler result
+   */
+  async markProcessed(id: string, result: Prisma.InputJsonValue): Promise<WebhookEvent> {
+    return this.db.webhookEvent.update({
+      where: { id },
+      data: {
+        status: 'processed',
+        result,
+        error: null,
+        processedAt: new Date()
+      }
+    });
+  }
+
+  /**
+   * Mark an event as failed with the handler error
+   */
+  async markFailed(id: string, error: string): Promise<WebhookEvent> {
+    return this.db.webhookEvent.update({
+      where: { id },
+      data: {
+        status: 'failed',
+        error
+      }
+    });
+  }
+
+  /**
+   * Find all events with optional pagination and filters
+   */
+  async findAll(options: PageOptions & {
+    status?: WebhookEventStatus;
+    type?: string;
+  }): Promise<Page<WebhookEvent>> {
+    const { status, type } = options;
+
+    const where: Prisma.WebhookEventWhereInput = {};
+
+    if (status) {
+      where.status = status;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    return paginate(options, {
+      findMany: (args) => this.db.webhookEvent.findMany({ ...args, where }),
+      count: () => this.db.webhookEvent.count({ where })
+    });
+  }
+}
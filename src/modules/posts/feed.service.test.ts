@@ -0,0 +1,49 @@
+import { PrismaClient, User, Post } from '@prisma/client';
+import { createContainer, createTestUser, resetDatabase, FakeStripe } from '../../testing';
+
+const prisma = new PrismaClient();
+const { feedService, engagementRepository } = createContainer({ prisma, stripe: new FakeStripe() });
+
+let viewer: User;
+let author: User;
+
+const createPost = (textBody: string): Promise<Post> =>
+  prisma.post.create({ data: { userId: author.id, contentType: 'text', textBody } });
+
+const engage = (post: Post, type: 'Like' | 'Comment' | 'Share', count: number, hiddenAt: Date | null = null) =>
+  Promise.all(Array.from({ length: count }, async () => {
+    const fan = await createTestUser(prisma);
+    return prisma.engagement.create({ data: { userId: fan.id, contentId: post.id, contentType: 'Post', type, hiddenAt } });
+  }));
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  jest.restoreAllMocks();
+
+  viewer = await createTestUser(prisma);
+  author = await createTestUser(prisma);
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('FeedService', () => {
+  it('ranks posts by their engagement, counted in one query for every candidate', async () => {
+    const quiet = await createPost('Nobody saw this');
+    const popular = await createPost('Everyone saw this');
+    await engage(popular, 'Like', 3);
+    await engage(popular, 'Share', 1);
+    await engage(popular, 'Comment', 2, new Date());
+
+    const count = jest.spyOn(engagementRepository, 'countEngagementsByContent');
+    const feed = await feedService.getRankedFeed(viewer.id);
+
+    expect(count).toHaveBeenCalledTimes(1);
+    expect(feed.items.map(post => post.id)).toEqual([popular.id, quiet.id]);
+
+    // Hidden comments don't count
+    expect(feed.items[0].ranking.factors.engagement.value).toBeCloseTo(Math.log1p(4));
+    expect(feed.items[1].ranking.factors.engagement.value).toBe(0);
+  });
+});
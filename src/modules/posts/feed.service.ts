@@ -0,0 +1,118 @@
+import { PostRepository, PostWithUserMetrics } from './post.repository';
+import { EngagementService } from '../engagement/engagement.service';
+import { EngagementCount } from '../engagement/engagement.repository';
+import { feedRankingConfig, FeedRankingConfig, FeedRankingWeights } from '../../config/feed';
+import { Page, paginateArray } from '../../utils/pagination';
+import logger from '../../utils/logger';
+
+// A single signal's contribution to a post's score
+export type RankingFactor = {
+  value: number;
+  weight: number;
+  contribution: number;
+};
+
+// Explanation of why a post was ranked where it was
+export type RankingExplanation = {
+  score: number;
+  rank: number;
+  factors: Record<keyof FeedRankingWeights, RankingFactor>;
+};
+
+export type RankedPost = PostWithUserMetrics & {
+  ranking: RankingExplanation;
+};
+
+export class FeedService {
+  private postRepository: PostRepository;
+  private engagementService: EngagementService;
+  private config: FeedRankingConfig;
+
+  constructor(
+    postRepository: PostRepository,
+    engagementService: EngagementService,
+    config: FeedRankingConfig = feedRankingConfig
+  ) {
+    this.postRepository = postRepository;
+    this.engagementService = engagementService;
+    this.config = config;
+  }
+
+  /**
+   * Get a user's ranked "For You" feed
+   * Scores recent posts by engagement, recency and the author's profile metrics,
+   * leaving out users they blocked or muted
+   */
+  async getRankedFeed(userId: string, options: {
+    page?: number;
+    limit?: number;
+  } = {}): Promise<Page<RankedPost> & { weights: FeedRankingWeights }> {
+    try {
+      const { page = 1, limit = 10 } = options;
+
+      const candidates = await this.postRepository.findRankingCandidates(this.config.candidateLimit, userId);
+
+      const counts = await this.engagementService.getEngagementCountsByContent(candidates.map(post => post.id));
+
+      const now = new Date();
+      const ranked = candidates
+        .map(post => ({
+          ...post,
+          ranking: this.scorePost(post, counts.get(post.id) as EngagementCount, now)
+        }))
+        .sort((a, b) => b.ranking.score - a.ranking.score);
+
+      ranked.forEach((post, index) => {
+        post.ranking.rank = index + 1;
+      });
+
+      return {
+        ...paginateArray(ranked, { page, limit }),
+        weights: this.config.weights
+      };
+    } catch (error: any) {
+      logger.error(`Error fetching ranked feed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Score a post and explain each factor's contribution
+   * The rank is filled in once all candidates have been scored
+   */
+  scorePost(post: PostWithUserMetrics, counts: EngagementCount, now: Date = new Date()): RankingExplanation {
+    const { weights, recencyHalfLifeHours } = this.config;
+    const metrics = post.user.metrics;
+
+    const ageHours = Math.max(0, now.getTime() - post.createdAt.getTime()) / (1000 * 60 * 60);
+
+    // Raw signal values; engagement is log-scaled so viral posts don't drown out everything else
+    const values: Record<keyof FeedRankingWeights, number> = {
+      engagement: Math.log1p(counts.total),
+      recency: Math.pow(0.5, ageHours / recencyHalfLifeHours),
+      hustle: metrics?.hustleScore ?? 0,
+      buzz: metrics?.buzzScore ?? 0,
+      clout: metrics?.cloutScore ?? 0,
+      connection: metrics?.connectionScore ?? 0
+    };
+
+    const factors = {} as Record<keyof FeedRankingWeights, RankingFactor>;
+    let score = 0;
+
+    (Object.keys(values) as (keyof FeedRankingWeights)[]).forEach(key => {
+      const contribution = values[key] * weights[key];
+      factors[key] = {
+        value: values[key],
+        weight: weights[key],
+        contribution
+      };
+      score += contribution;
+    });
+
+    return {
+      score,
+      rank: 0,
+      factors
+    };
+  }
+}
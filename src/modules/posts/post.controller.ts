@@ -1,59 +1,34 @@
-import { Request, Response } from 'express';
+import { Response, NextFunction } from 'express';
 import { PostService } from './post.service';
-import { z } from 'zod';
-import { ContentType } from '@prisma/client';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const postCreateSchema = z.object({
-  contentType: z.enum(['text', 'image', 'video']),
-  textBody: z.string().max(5000).optional(),
-  mediaUrl: z.string().url().optional(),
-  thumbnailUrl: z.string().url().optional(),
-});
-
-const postUpdateSchema = z.object({
-  textBody: z.string().max(5000).optional(),
-  mediaUrl: z.string().url().optional(),
-  thumbnailUrl: z.string().url().optional(),
-});
+import { FeedService } from './feed.service';
+import { NotFoundError, UnauthorizedError } from '../../utils/errors';
+import { postSchemas } from './post.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+import { can } from '../../utils/policy';
 
 export class PostController {
   private postService: PostService;
+  private feedService: FeedService;
 
-  constructor() {
-    this.postService = new PostService();
+  constructor(postService: PostService, feedService: FeedService) {
+    this.postService = postService;
+    this.feedService = feedService;
   }
 
   /**
    * Create a new post
    */
-  async createPost(req: Request, res: Response): Promise<void> {
+  async createPost(req: ValidatedRequest<typeof postSchemas.create>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
-      }
-
-      // Validate request body
-      const validationResult = postCreateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       // Create post with current user ID
       const post = await this.postService.createPost({
-        ...validationResult.data,
+        ...req.body,
         userId: req.user.id
       });
       
@@ -62,292 +37,154 @@ export class PostController {
         message: 'Post created successfully',
         data: post
       });
-    } catch (error: any) {
-      logger.error(`Error in createPost: ${error.message}`);
-      
-      if (error.message.includes('require')) {
-        res.status(400).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get post by ID
    */
-  async getPostById(req: Request, res: Response): Promise<void> {
+  async getPostById(req: ValidatedRequest<typeof postSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       const post = await this.postService.getPostById(id);
       
       if (!post) {
-        res.status(404).json({
-          success: false,
-          message: 'Post not found'
-        });
-        return;
+        throw new NotFoundError('Post not found');
+      }
+
+      // Taken-down posts are hidden from everyone but the author and moderators
+      if (!can(req.user, 'post', 'read', post)) {
+        throw new NotFoundError('Post not found');
       }
       
       res.status(200).json({
         success: true,
         data: post
       });
-    } catch (error: any) {
-      logger.error(`Error in getPostById: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Update a post
    */
-  async updatePost(req: Request, res: Response): Promise<void> {
+  async updatePost(req: ValidatedRequest<typeof postSchemas.update>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
       
-      // Validate request body
-      const validationResult = postUpdateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
 
       // Update post
-      try {
-        const post = await this.postService.updatePost(
-          id,
-          req.user.id,
-          validationResult.data
-        );
-        
-        res.status(200).json({
-          success: true,
-          message: 'Post updated successfully',
-          data: post
-        });
-      } catch (error: any) {
-        if (error.message === 'Post not found') {
-          res.status(404).json({
-            success: false,
-            message: 'Post not found'
-          });
-        } else if (error.message === 'You can only update your own posts') {
-          res.status(403).json({
-            success: false,
-            message: 'You can only update your own posts'
-          });
-        } else {
-          throw error;
-        }
-      }
-    } catch (error: any) {
-      logger.error(`Error in updatePost: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
+      const post = await this.postService.updatePost(id, req.user, req.body);
+      
+      res.status(200).json({
+        success: true,
+        message: 'Post updated successfully',
+        data: post
       });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Delete a post
    */
-  async deletePost(req: Request, res: Response): Promise<void> {
+  async deletePost(req: ValidatedRequest<typeof postSchemas.remove>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const { id } = req.params;
-      const isAdmin = req.user.role === 'Admin';
       
-      try {
-        await this.postService.deletePost(id, req.user.id, isAdmin);
-        
-        res.status(200).json({
-          success: true,
-          message: 'Post deleted successfully'
-        });
-      } catch (error: any) {
-        if (error.message === 'Post not found') {
-          res.status(404).json({
-            success: false,
-            message: 'Post not found'
-          });
-        } else if (error.message === 'You can only delete your own posts') {
-          res.status(403).json({
-            success: false,
-            message: 'You can only delete your own posts'
-          });
-        } else {
-          throw error;
-        }
-      }
-    } catch (error: any) {
-      logger.error(`Error in deletePost: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
+      await this.postService.deletePost(id, req.user);
+      
+      res.status(200).json({
+        success: true,
+        message: 'Post deleted successfully'
       });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get feed for current user
    */
-  async getFeed(req: Request, res: Response): Promise<void> {
+  async getFeed(req: ValidatedRequest<typeof postSchemas.feed>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
-      // Parse pagination parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      
       // Get feed posts
-      const result = await this.postService.getFeed(req.user.id, { page, limit });
+      const result = await this.postService.getFeed(req.user.id, req.query);
+      
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get ranked "For You" feed for current user
+   */
+  async getRankedFeed(req: ValidatedRequest<typeof postSchemas.rankedFeed>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      // Get ranked posts, each with its ranking explanation
+      const result = await this.feedService.getRankedFeed(req.user.id, req.query);
       
       res.status(200).json({
-        success: true,
-        data: result.posts,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getFeed: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
+        ...pageResponse(result),
+        meta: { weights: result.weights }
       });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get posts with filtering
    */
-  async getPosts(req: Request, res: Response): Promise<void> {
+  async getPosts(req: ValidatedRequest<typeof postSchemas.list>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Parse query parameters
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      const userId = req.query.userId as string;
-      const contentType = req.query.contentType as ContentType | undefined;
-      
       // Get posts with filters
-      const result = await this.postService.getAllPosts({
-        page,
-        limit,
-        userId,
-        contentType
-      });
+      const result = await this.postService.getAllPosts(req.query);
       
-      res.status(200).json({
-        success: true,
-        data: result.posts,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getPosts: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Search posts
    */
-  async searchPosts(req: Request, res: Response): Promise<void> {
+  async searchPosts(req: ValidatedRequest<typeof postSchemas.search>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Parse query parameters
-      const query = req.query.q as string;
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      const contentType = req.query.contentType as ContentType | undefined;
-      
-      if (!query) {
-        res.status(400).json({
-          success: false,
-          message: 'Search query is required'
-        });
-        return;
-      }
+      const { q, ...options } = req.query;
       
-      // Search posts
-      const result = await this.postService.searchPosts(query, {
-        page,
-        limit,
-        contentType
-      });
+      // Search posts, leaving out users the signed-in viewer blocked or muted
+      const result = await this.postService.searchPosts(q, { ...options, viewerId: req.user?.id });
       
-      res.status(200).json({
-        success: true,
-        data: result.posts,
-        meta: {
-          total: result.total,
-          page,
-          limit,
-          totalPages: Math.ceil(result.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in searchPosts: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse(result));
+    } catch (error) {
+      next(error);
     }
   }
 }
@@ -1,6 +1,6 @@
-import { PrismaClient, Post, ContentType, User } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { Post, ContentType, User, ProfileMetrics } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Type for post creation without ID and timestamps
 export type CreatePostInput = {
@@ -19,12 +19,31 @@ export type PostWithUser = Post & {
   user: User;
 };
 
+// Post with user and the user's profile metrics, used for feed ranking
+export type PostWithUserMetrics = Post & {
+  user: User & {
+    metrics: ProfileMetrics | null;
+  };
+};
+
+// Leaves out posts by users the viewer has blocked or muted
+const notRestrictedBy = (viewerId: string) => ({
+  user: { restrictionsReceived: { none: { userId: viewerId } } }
+});
+
 export class PostRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Create a new post
+   * hiddenAt is set when the content filter holds the post for review.
    */
-  async create(data: CreatePostInput): Promise<Post> {
-    return prisma.post.create({
+  async create(data: CreatePostInput & { hiddenAt?: Date }): Promise<Post> {
+    return this.db.post.create({
       data
     });
   }
@@ -33,7 +52,7 @@ export class PostRepository {
    * Find a post by ID
    */
   async findById(id: string): Promise<PostWithUser | null> {
-    return prisma.post.findUnique({
+    return this.db.post.findUnique({
       where: { id },
       include: { user: true }
     });
@@ -42,42 +61,43 @@ export class PostRepository {
   /**
    * Update a post
    */
-  async update(id: string, data: UpdatePostInput): Promise<Post> {
-    return prisma.post.update({
+  async update(id: string, data: UpdatePostInput & { hiddenAt?: Date }): Promise<Post> {
+    return this.db.post.update({
       where: { id },
       data
     });
   }
 
+  /**
+   * Hide a post from lists, feeds and search, or show it again with null
+   */
+  async setHiddenAt(id: string, hiddenAt: Date | null): Promise<Post> {
+    return this.db.post.update({
+      where: { id },
+      data: { hiddenAt }
+    });
+  }
+
   /**
    * Delete a post
    */
   async delete(id: string): Promise<Post> {
-    return prisma.post.delete({
+    return this.db.post.delete({
       where: { id }
     });
   }
 
   /**
-   * Find all posts with optional pagination and filters
+   * Find a page of posts with optional filters
    */
-  async findAll(options: {
-    page?: number;
-    limit?: number;
+  async findAll(options: PageOptions & {
     userId?: string;
     contentType?: ContentType;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
-    const {
-      page = 1,
-      limit = 10,
-      userId,
-      contentType
-    } = options;
-    
-    const skip = (page - 1) * limit;
+  }): Promise<Page<PostWithUser>> {
+    const { userId, contentType } = options;
     
-    // Build where clause based on filters
-    const where: any = {};
+    // Build where clause based on filters; taken-down posts are left out
+    const where: any = { hiddenAt: null };
     
     if (userId) {
       where.userId = userId;
@@ -87,86 +107,71 @@ export class PostRepository {
       where.contentType = contentType;
     }
     
-    const [posts, total] = await Promise.all([
-      prisma.post.findMany({
-        where,
-        skip,
-        take: limit,
-        include: { user: true },
-        orderBy: { createdAt: 'desc' }
-      }),
-      prisma.post.count({ where })
-    ]);
-
-    return { posts, total };
+    return paginate(options, {
+      findMany: (args) => this.db.post.findMany({ ...args, where, include: { user: true } }),
+      count: () => this.db.post.count({ where })
+    });
   }
 
   /**
    * Search posts by text content
+   * With a viewer, posts by users they blocked or muted are left out.
    */
-  async search(query: string, options: {
-    page?: number;
-    limit?: number;
+  async search(query: string, options: PageOptions & {
     contentType?: ContentType;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
-    const {
-      page = 1,
-      limit = 10,
-      contentType
-    } = options;
-    
-    const skip = (page - 1) * limit;
+    viewerId?: string;
+  }): Promise<Page<PostWithUser>> {
+    const { contentType, viewerId } = options;
     
     // Build where clause based on filters and search query
     const where: any = {
-      textBody: { contains: query, mode: 'insensitive' }
+      textBody: { contains: query, mode: 'insensitive' },
+      hiddenAt: null,
+      ...(viewerId && notRestrictedBy(viewerId))
     };
     
     if (contentType) {
       where.contentType = contentType;
     }
     
-    const [posts, total] = await Promise.all([
-      prisma.post.findMany({
-        where,
-        skip,
-        take: limit,
-        include: { user: true },
-        orderBy: { createdAt: 'desc' }
-      }),
-      prisma.post.count({ where })
-    ]);
-
-    return { posts, total };
+    return paginate(options, {
+      findMany: (args) => this.db.post.findMany({ ...args, where, include: { user: true } }),
+      count: () => this.db.post.count({ where })
+    });
   }
 
   /**
-   * Get user's feed (posts from self and others)
-   * In a real app, this would include posts from followed users, etc.
+   * Get user's feed (posts from self and followed users, except those they muted)
    */
-  async getFeed(userId: string, options: {
-    page?: number;
-    limit?: number;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
-    const {
-      page = 1,
-      limit = 10
-    } = options;
-    
-    const skip = (page - 1) * limit;
-    
-    // For MVP, just return all posts ordered by creation date
-    // In a real app, this would filter based on user connections
-    const [posts, total] = await Promise.all([
-      prisma.post.findMany({
-        skip,
-        take: limit,
-        include: { user: true },
-        orderBy: { createdAt: 'desc' }
-      }),
-      prisma.post.count()
-    ]);
-
-    return { posts, total };
+  async getFeed(userId: string, options: PageOptions): Promise<Page<PostWithUser>> {
+    const where = {
+      hiddenAt: null,
+      OR: [
+        { userId },
+        { user: { followers: { some: { followerId: userId } } } }
+      ],
+      ...notRestrictedBy(userId)
+    };
+
+    return paginate(options, {
+      findMany: (args) => this.db.post.findMany({ ...args, where, include: { user: true } }),
+      count: () => this.db.post.count({ where })
+    });
+  }
+
+  /**
+   * Get the most recent posts as candidates for a viewer's ranked feed
+   */
+  async findRankingCandidates(limit: number, viewerId: string): Promise<PostWithUserMetrics[]> {
+    return this.db.post.findMany({
+      where: { hiddenAt: null, ...notRestrictedBy(viewerId) },
+      take: limit,
+      include: {
+        user: {
+          include: { metrics: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
   }
 }
@@ -1,29 +1,36 @@
 import { Router } from 'express';
-import { PostController } from './post.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { postSchemas } from './post.schemas';
 
-const router = Router();
-const postController = new PostController();
+/**
+ * Post routes, mounted at /api/posts
+ */
+export const createPostRoutes = ({ postController, auth }: Container): Router => {
+  const router = Router();
 
-// Public routes
-router.get('/:id', (req, res) => postController.getPostById(req, res));
-router.get('/', (req, res) => postController.getPosts(req, res));
-router.get('/search', (req, res) => postController.searchPosts(req, res));
+  // Feeds for current user (registered before /:id so they aren't shadowed)
+  router.get('/feed', requireAuth, auth.populateUser, validate(postSchemas.feed), (req, res, next) => postController.getFeed(req, res, next));
+  router.get('/feed/ranked', requireAuth, auth.populateUser, validate(postSchemas.rankedFeed), (req, res, next) => postController.getRankedFeed(req, res, next));
 
-// Protected routes - require authentication
-router.use(requireAuth);
-router.use(populateUser);
+  // Public routes
+  router.get('/', validate(postSchemas.list), (req, res, next) => postController.getPosts(req, res, next));
+  router.get('/search', validate(postSchemas.search), (req, res, next) => postController.searchPosts(req, res, next));
+  router.get('/:id', validate(postSchemas.getById), (req, res, next) => postController.getPostById(req, res, next));
 
-// Create a new post
-router.post('/', (req, res) => postController.createPost(req, res));
+  // Protected routes - require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Update a post
-router.put('/:id', (req, res) => postController.updatePost(req, res));
+  // Create a new post
+  router.post('/', validate(postSchemas.create), (req, res, next) => postController.createPost(req, res, next));
 
-// Delete a post
-router.delete('/:id', (req, res) => postController.deletePost(req, res));
+  // Update a post
+  router.put('/:id', validate(postSchemas.update), (req, res, next) => postController.updatePost(req, res, next));
 
-// Get feed for current user
-router.get('/feed', (req, res) => postController.getFeed(req, res));
+  // Delete a post
+  router.delete('/:id', validate(postSchemas.remove), (req, res, next) => postController.deletePost(req, res, next));
 
-export default router;
+  return router;
+};
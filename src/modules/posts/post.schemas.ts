@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import { ContentType } from '@prisma/client';
+import { idParams, pageQuery, paginationQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+
+// Lists of posts sort on these fields, newest first by default
+const postListQuery = pageQuery(['createdAt', 'updatedAt']);
+
+const post = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  contentType: z.nativeEnum(ContentType),
+  textBody: z.string().nullable(),
+  mediaUrl: z.string().nullable(),
+  thumbnailUrl: z.string().nullable(),
+  hiddenAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+const postWithUser = post.extend({ user: publicUserResponse });
+
+const rankingFactor = z.object({
+  value: z.number(),
+  weight: z.number(),
+  contribution: z.number()
+});
+
+// A feed post with the reasons it was ranked where it was
+const rankedPost = postWithUser.extend({
+  ranking: z.object({
+    score: z.number(),
+    rank: z.number().int(),
+    factors: z.object({
+      engagement: rankingFactor,
+      recency: rankingFactor,
+      hustle: rankingFactor,
+      buzz: rankingFactor,
+      clout: rankingFactor,
+      connection: rankingFactor
+    })
+  })
+});
+
+/**
+ * Request and response schemas for post routes
+ */
+export const postSchemas = {
+  create: {
+    body: z.object({
+      contentType: z.nativeEnum(ContentType),
+      textBody: z.string().max(5000).optional(),
+      mediaUrl: z.string().url().optional(),
+      thumbnailUrl: z.string().url().optional()
+    }),
+    response: post
+  },
+
+  getById: {
+    params: idParams,
+    response: postWithUser
+  },
+
+  update: {
+    params: idParams,
+    body: z.object({
+      textBody: z.string().max(5000).optional(),
+      mediaUrl: z.string().url().optional(),
+      thumbnailUrl: z.string().url().optional()
+    }),
+    response: post
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  feed: {
+    query: postListQuery,
+    response: z.array(postWithUser)
+  },
+
+  // Ranked by score, so it can't be sorted or continued with a cursor; meta.weights has the weights used
+  rankedFeed: {
+    query: paginationQuery(),
+    response: z.array(rankedPost)
+  },
+
+  list: {
+    query: postListQuery.extend({
+      userId: z.string().uuid().optional(),
+      contentType: z.nativeEnum(ContentType).optional()
+    }),
+    response: z.array(postWithUser)
+  },
+
+  search: {
+    query: postListQuery.extend({
+      q: z.string().min(1, 'Search query is required'),
+      contentType: z.nativeEnum(ContentType).optional()
+    }),
+    response: z.array(postWithUser)
+  }
+};
@@ -1,12 +1,21 @@
 import { Post, ContentType } from '@prisma/client';
 import { PostRepository, CreatePostInput, UpdatePostInput, PostWithUser } from './post.repository';
+import { Page, PageOptions } from '../../utils/pagination';
 import logger from '../../utils/logger';
+import { NotFoundError, ValidationError } from '../../utils/errors';
+import { Actor, authorize } from '../../utils/policy';
+import { ContentFilterService } from '../content-filter/content-filter.service';
+import { TransactionRunner } from '../../container';
 
 export class PostService {
   private postRepository: PostRepository;
+  private contentFilterService: ContentFilterService;
+  private transaction: TransactionRunner;
 
-  constructor() {
-    this.postRepository = new PostRepository();
+  constructor(postRepository: PostRepository, contentFilterService: ContentFilterService, transaction: TransactionRunner) {
+    this.postRepository = postRepository;
+    this.contentFilterService = contentFilterService;
+    this.transaction = transaction;
   }
 
   /**
@@ -16,8 +25,23 @@ export class PostService {
     try {
       // Validate post data
       this.validatePostData(postData);
-      
-      return await this.postRepository.create(postData);
+
+      // Rejected text throws; held posts are saved hidden until a moderator reviews them
+      const verdict = await this.contentFilterService.screen({
+        context: 'post',
+        userId: postData.userId,
+        text: postData.textBody ?? ''
+      });
+
+      return await this.transaction(async ({ postRepository, reportRepository }) => {
+        const post = await postRepository.create({
+          ...postData,
+          ...(verdict.action === 'hold' && { hiddenAt: new Date() })
+        });
+        await this.contentFilterService.holdForReview('post', post.id, verdict, reportRepository);
+
+        return post;
+      });
     } catch (error: any) {
       logger.error(`Error creating post: ${error.message}`);
       throw error;
@@ -39,25 +63,42 @@ export class PostService {
   /**
    * Update a post
    */
-  async updatePost(postId: string, userId: string, updateData: UpdatePostInput): Promise<Post> {
+  async updatePost(postId: string, actor: Actor, updateData: UpdatePostInput): Promise<Post> {
     try {
       // Check if post exists and belongs to the user
       const post = await this.postRepository.findById(postId);
       
       if (!post) {
-        throw new Error('Post not found');
+        throw new NotFoundError('Post not found');
       }
       
-      if (post.userId !== userId) {
-        throw new Error('You can only update your own posts');
-      }
+      authorize(actor, 'post', 'update', post, 'You can only update your own posts');
       
       // Validate update data
       if (Object.keys(updateData).length > 0) {
         this.validatePostData({ ...updateData, userId: post.userId, contentType: post.contentType });
       }
-      
-      return await this.postRepository.update(postId, updateData);
+
+      // Only new text goes through the content filter
+      if (updateData.textBody === undefined) {
+        return await this.postRepository.update(postId, updateData);
+      }
+
+      const verdict = await this.contentFilterService.screen({
+        context: 'post',
+        userId: post.userId,
+        text: updateData.textBody
+      });
+
+      return await this.transaction(async ({ postRepository, reportRepository }) => {
+        const updated = await postRepository.update(postId, {
+          ...updateData,
+          ...(verdict.action === 'hold' && { hiddenAt: new Date() })
+        });
+        await this.contentFilterService.holdForReview('post', postId, verdict, reportRepository);
+
+        return updated;
+      });
     } catch (error: any) {
       logger.error(`Error updating post: ${error.message}`);
       throw error;
@@ -67,19 +108,17 @@ export class PostService {
   /**
    * Delete a post
    */
-  async deletePost(postId: string, userId: string, isAdmin: boolean = false): Promise<Post> {
+  async deletePost(postId: string, actor: Actor): Promise<Post> {
     try {
       // Check if post exists
       const post = await this.postRepository.findById(postId);
       
       if (!post) {
-        throw new Error('Post not found');
+        throw new NotFoundError('Post not found');
       }
       
       // Check if user is authorized to delete the post
-      if (!isAdmin && post.userId !== userId) {
-        throw new Error('You can only delete your own posts');
-      }
+      authorize(actor, 'post', 'delete', post, 'You can only delete your own posts');
       
       return await this.postRepository.delete(postId);
     } catch (error: any) {
@@ -91,12 +130,10 @@ export class PostService {
   /**
    * Get all posts with optional filters
    */
-  async getAllPosts(options: {
-    page?: number;
-    limit?: number;
+  async getAllPosts(options: PageOptions & {
     userId?: string;
     contentType?: ContentType;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
+  }): Promise<Page<PostWithUser>> {
     try {
       return await this.postRepository.findAll(options);
     } catch (error: any) {
@@ -108,10 +145,7 @@ export class PostService {
   /**
    * Get posts for user's feed
    */
-  async getFeed(userId: string, options: {
-    page?: number;
-    limit?: number;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
+  async getFeed(userId: string, options: PageOptions): Promise<Page<PostWithUser>> {
     try {
       return await this.postRepository.getFeed(userId, options);
     } catch (error: any) {
@@ -123,11 +157,10 @@ export class PostService {
   /**
    * Search posts
    */
-  async searchPosts(query: string, options: {
-    page?: number;
-    limit?: number;
+  async searchPosts(query: string, options: PageOptions & {
     contentType?: ContentType;
-  } = {}): Promise<{ posts: PostWithUser[]; total: number }> {
+    viewerId?: string;
+  }): Promise<Page<PostWithUser>> {
     try {
       return await this.postRepository.search(query, options);
     } catch (error: any) {
@@ -144,19 +177,19 @@ export class PostService {
     switch(data.contentType) {
       case 'text':
         if (!data.textBody || data.textBody.trim().length === 0) {
-          throw new Error('Text posts require a text body');
+          throw new ValidationError('Text posts require a text body');
         }
         break;
         
       case 'image':
         if (!data.mediaUrl) {
-          throw new Error('Image posts require a media URL');
+          throw new ValidationError('Image posts require a media URL');
         }
         break;
         
       case 'video':
         if (!data.mediaUrl) {
-          throw new Error('Video posts require a media URL');
+          throw new ValidationError('Video posts require a media URL');
         }
         break;
         
@@ -1,30 +1,21 @@
-import { Request, Response } from 'express';
-import { z } from 'zod';
+import { Request, Response, NextFunction } from 'express';
 import { RankingService } from './ranking.service';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const rankingUpdateSchema = z.object({
-  score: z.number().optional(),
-  adjustment: z.number().optional()
-});
-
-const categoryCreateSchema = z.object({
-  name: z.string().min(1).max(50),
-  description: z.string().max(255).optional()
-});
+import { ForbiddenError, UnauthorizedError, ValidationError } from '../../utils/errors';
+import { rankingSchemas } from './ranking.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { hasPermission } from '../../utils/policy';
 
 export class RankingController {
   private rankingService: RankingService;
 
-  constructor() {
-    this.rankingService = new RankingService();
+  constructor(rankingService: RankingService) {
+    this.rankingService = rankingService;
   }
 
   /**
    * Get all ranking categories
    */
-  async getCategories(req: Request, res: Response): Promise<void> {
+  async getCategories(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const categories = await this.rankingService.getCategories();
       
@@ -32,34 +23,18 @@ export class RankingController {
         success: true,
         data: categories
       });
-    } catch (error: any) {
-      logger.error(`Error in getCategories: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Create a new ranking category (admin only)
    */
-  async createCategory(req: Request, res: Response): Promise<void> {
+  async createCategory(req: ValidatedRequest<typeof rankingSchemas.createCategory>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Validate request body
-      const validationResult = categoryCreateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
 
-      const { name, description } = validationResult.data;
+      const { name, description } = req.body;
       const category = await this.rankingService.createCategory(name, description);
       
       res.status(201).json({
@@ -67,20 +42,15 @@ export class RankingController {
         message: 'Category created successfully',
         data: category
       });
-    } catch (error: any) {
-      logger.error(`Error in createCategory: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get a user's ranking summary
    */
-  async getUserRankingSummary(req: Request, res: Response): Promise<void> {
+  async getUserRankingSummary(req: ValidatedRequest<typeof rankingSchemas.userSummary>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { userId } = req.params;
       const summary = await this.rankingService.getUserRankingSummary(userId);
@@ -89,28 +59,19 @@ export class RankingController {
         success: true,
         data: summary
       });
-    } catch (error: any) {
-      logger.error(`Error in getUserRankingSummary: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get current user's ranking summary
    */
-  async getMyRankings(req: Request, res: Response): Promise<void> {
+  async getMyRankings(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is authenticated
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Authentication required'
-        });
-        return;
+        throw new UnauthorizedError();
       }
 
       const summary = await this.rankingService.getUserRankingSummary(req.user.id);
@@ -119,70 +80,51 @@ export class RankingController {
         success: true,
         data: summary
       });
-    } catch (error: any) {
-      logger.error(`Error in getMyRankings: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Update a user's ranking in a specific category
    */
-  async updateUserRanking(req: Request, res: Response): Promise<void> {
+  async updateUserRanking(req: ValidatedRequest<typeof rankingSchemas.updateUserRanking>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Ensure user is authenticated as admin
-      if (!req.user?.id || req.user.role !== 'Admin') {
-        res.status(403).json({
-          success: false,
-          message: 'Admin access required'
-        });
-        return;
+      // Ensure user is authenticated and may set rankings
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      if (!hasPermission(req.user, 'ranking:write')) {
+        throw new ForbiddenError('Insufficient permissions');
       }
 
       const { userId, categoryId } = req.params;
       
-      // Validate request body
-      const validationResult = rankingUpdateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
 
+      const { score, adjustment } = req.body;
       let updatedRanking;
       
-      if (validationResult.data.adjustment !== undefined) {
+      if (adjustment !== undefined) {
         // Adjust the ranking
         updatedRanking = await this.rankingService.adjustRanking(
           userId,
           categoryId,
-          validationResult.data.adjustment,
+          adjustment,
           req.user.id
         );
-      } else if (validationResult.data.score !== undefined) {
+      } else if (score !== undefined) {
         // Set the ranking to a specific score
         updatedRanking = await this.rankingService.updateRanking(
           userId,
           categoryId,
           {
-            score: validationResult.data.score,
+            score,
             updatedBy: req.user.id
           }
         );
       } else {
-        res.status(400).json({
-          success: false,
-          message: 'Either score or adjustment must be provided'
-        });
-        return;
+        throw new ValidationError('Either score or adjustment must be provided');
       }
       
       res.status(200).json({
@@ -190,23 +132,18 @@ export class RankingController {
         message: 'Ranking updated successfully',
         data: updatedRanking
       });
-    } catch (error: any) {
-      logger.error(`Error in updateUserRanking: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get top ranked users by category
    */
-  async getTopUsersByCategory(req: Request, res: Response): Promise<void> {
+  async getTopUsersByCategory(req: ValidatedRequest<typeof rankingSchemas.topByCategory>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { categoryId } = req.params;
-      const limit = parseInt(req.query.limit as string || '10');
+      const { limit } = req.query;
       
       const users = await this.rankingService.getTopUsersByCategory(categoryId, limit);
       
@@ -214,22 +151,17 @@ export class RankingController {
         success: true,
         data: users
       });
-    } catch (error: any) {
-      logger.error(`Error in getTopUsersByCategory: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get top ranked users overall
    */
-  async getTopUsers(req: Request, res: Response): Promise<void> {
+  async getTopUsers(req: ValidatedRequest<typeof rankingSchemas.top>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const limit = parseInt(req.query.limit as string || '10');
+      const { limit } = req.query;
       
       const users = await this.rankingService.getTopUsers(limit);
       
@@ -237,13 +169,8 @@ export class RankingController {
         success: true,
         data: users
       });
-    } catch (error: any) {
-      logger.error(`Error in getTopUsers: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 }
@@ -1,6 +1,5 @@
-import { PrismaClient, UserRanking, RankingCategory } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { UserRanking, RankingCategory } from '@prisma/client';
+import { DbClient } from '../../config/database';
 
 // Type for creating a ranking
 export type CreateRankingInput = {
@@ -28,11 +27,17 @@ export type RankingSummary = {
 };
 
 export class RankingRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Find a ranking by user ID and category ID
    */
   async findRanking(userId: string, categoryId: string): Promise<RankingWithCategory | null> {
-    return prisma.userRanking.findUnique({
+    return this.db.userRanking.findUnique({
       where: {
         userId_categoryId: {
           userId,
@@ -49,7 +54,7 @@ export class RankingRepository {
    * Create a new ranking
    */
   async createRanking(data: CreateRankingInput): Promise<RankingWithCategory> {
-    return prisma.userRanking.create({
+    return this.db.userRanking.create({
       data: {
         userId: data.userId,
         categoryId: data.categoryId,
@@ -70,7 +75,7 @@ export class RankingRepository {
     categoryId: string,
     data: UpdateRankingInput
   ): Promise<RankingWithCategory> {
-    return prisma.userRanking.update({
+    return this.db.userRanking.update({
       where: {
         userId_categoryId: {
           userId,
@@ -88,7 +93,7 @@ export class RankingRepository {
    * Delete a ranking
    */
   async deleteRanking(userId: string, categoryId: string): Promise<UserRanking> {
-    return prisma.userRanking.delete({
+    return this.db.userRanking.delete({
       where: {
         userId_categoryId: {
           userId,
@@ -102,7 +107,7 @@ export class RankingRepository {
    * Get all rankings for a user
    */
   async getUserRankings(userId: string): Promise<RankingWithCategory[]> {
-    return prisma.userRanking.findMany({
+    return this.db.userRanking.findMany({
       where: { userId },
       include: {
         category: true
@@ -117,7 +122,7 @@ export class RankingRepository {
    * Get all ranking categories
    */
   async getCategories(): Promise<RankingCategory[]> {
-    return prisma.rankingCategory.findMany({
+    return this.db.rankingCategory.findMany({
       orderBy: {
         name: 'asc'
       }
@@ -128,7 +133,7 @@ export class RankingRepository {
    * Create a new ranking category
    */
   async createCategory(name: string, description?: string): Promise<RankingCategory> {
-    return prisma.rankingCategory.create({
+    return this.db.rankingCategory.create({
       data: {
         name,
         description
@@ -162,7 +167,7 @@ export class RankingRepository {
     categoryId: string,
     limit: number = 10
   ): Promise<UserRanking[]> {
-    return prisma.userRanking.findMany({
+    return this.db.userRanking.findMany({
       where: { categoryId },
       orderBy: {
         score: 'desc'
@@ -180,7 +185,7 @@ export class RankingRepository {
    */
   async getTopUsers(limit: number = 10): Promise<any[]> {
     // This requires a more complex query to aggregate scores across categories
-    const topUsers = await prisma.$queryRaw<
+    const topUsers = await this.db.$queryRaw<
       { userId: string; totalScore: number }[]
     >`
       SELECT "userId", SUM(score) as "totalScore"
@@ -193,14 +198,13 @@ export class RankingRepository {
     // Get detailed user info for each top user
     const detailedUsers = await Promise.all(
       topUsers.map(async (user) => {
-        const userDetails = await prisma.user.findUnique({
+        const userDetails = await this.db.user.findUnique({
           where: { id: user.userId },
           select: {
             id: true,
-            name: true,
+            displayName: true,
             email: true,
-            profileImage: true,
-            username: true
+            avatarUrl: true
           }
         });
 
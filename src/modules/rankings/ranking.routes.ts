@@ -1,25 +1,31 @@
 import { Router } from 'express';
-import { RankingController } from './ranking.controller';
-import { requireAuth, populateUser, requireRole } from '../../middleware/auth';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { rankingSchemas } from './ranking.schemas';
 
-const router = Router();
-const rankingController = new RankingController();
+/**
+ * Ranking routes, mounted at /api/rankings
+ */
+export const createRankingRoutes = ({ rankingController, auth }: Container): Router => {
+  const router = Router();
 
-// Public routes
-router.get('/categories', (req, res) => rankingController.getCategories(req, res));
-router.get('/top', (req, res) => rankingController.getTopUsers(req, res));
-router.get('/top/category/:categoryId', (req, res) => rankingController.getTopUsersByCategory(req, res));
-router.get('/user/:userId', (req, res) => rankingController.getUserRankingSummary(req, res));
+  // Public routes
+  router.get('/categories', validate(rankingSchemas.categories), (req, res, next) => rankingController.getCategories(req, res, next));
+  router.get('/top', validate(rankingSchemas.top), (req, res, next) => rankingController.getTopUsers(req, res, next));
+  router.get('/top/category/:categoryId', validate(rankingSchemas.topByCategory), (req, res, next) => rankingController.getTopUsersByCategory(req, res, next));
+  router.get('/user/:userId', validate(rankingSchemas.userSummary), (req, res, next) => rankingController.getUserRankingSummary(req, res, next));
 
-// Protected routes
-router.use(requireAuth);
-router.use(populateUser);
+  // Protected routes
+  router.use(requireAuth);
+  router.use(auth.populateUser);
 
-// Get current user's rankings
-router.get('/my', (req, res) => rankingController.getMyRankings(req, res));
+  // Get current user's rankings
+  router.get('/my', validate(rankingSchemas.mine), (req, res, next) => rankingController.getMyRankings(req, res, next));
 
-// Admin-only routes
-router.post('/categories', requireRole('Admin'), (req, res) => rankingController.createCategory(req, res));
-router.put('/user/:userId/category/:categoryId', requireRole('Admin'), (req, res) => rankingController.updateUserRanking(req, res));
+  // Routes that require a permission
+  router.post('/categories', requirePermission('ranking:write'), validate(rankingSchemas.createCategory), (req, res, next) => rankingController.createCategory(req, res, next));
+  router.put('/user/:userId/category/:categoryId', requirePermission('ranking:write'), validate(rankingSchemas.updateUserRanking), (req, res, next) => rankingController.updateUserRanking(req, res, next));
 
-export default router;
+  return router;
+};
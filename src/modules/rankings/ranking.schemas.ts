@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { timestamp } from '../../utils/schemas';
+import { publicUserResponse } from '../users/user.schemas';
+
+// Category IDs are slugs for the seeded categories, so they are not checked as UUIDs
+const categoryId = z.string().min(1);
+
+const topQuery = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+});
+
+const category = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  createdAt: timestamp
+});
+
+const ranking = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  categoryId: z.string(),
+  score: z.number(),
+  updatedBy: z.string().uuid().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+const rankingWithCategory = ranking.extend({ category });
+
+// A user's score in every category, with the total and average across them
+const rankingSummary = z.object({
+  userId: z.string().uuid(),
+  totalScore: z.number(),
+  rankingCount: z.number().int(),
+  averageScore: z.number(),
+  rankings: z.array(rankingWithCategory)
+});
+
+/**
+ * Request and response schemas for ranking routes
+ */
+export const rankingSchemas = {
+  categories: {
+    response: z.array(category)
+  },
+
+  createCategory: {
+    body: z.object({
+      name: z.string().min(1).max(50),
+      description: z.string().max(255).optional()
+    }),
+    response: category
+  },
+
+  mine: {
+    response: rankingSummary
+  },
+
+  userSummary: {
+    params: z.object({
+      userId: z.string().uuid()
+    }),
+    response: rankingSummary
+  },
+
+  // An adjustment is added to the current score; a score replaces it
+  updateUserRanking: {
+    params: z.object({
+      userId: z.string().uuid(),
+      categoryId
+    }),
+    body: z.object({
+      score: z.number().optional(),
+      adjustment: z.number().optional()
+    }).refine(data => data.score !== undefined || data.adjustment !== undefined, {
+      message: 'Either score or adjustment must be provided',
+      path: ['score']
+    }),
+    response: rankingWithCategory
+  },
+
+  // Users by their total score across categories
+  top: {
+    query: topQuery,
+    response: z.array(z.object({
+      id: z.string().uuid(),
+      displayName: z.string(),
+      avatarUrl: z.string().nullable(),
+      totalScore: z.number(),
+      rankings: z.array(rankingWithCategory)
+    }))
+  },
+
+  topByCategory: {
+    params: z.object({ categoryId }),
+    query: topQuery,
+    response: z.array(rankingWithCategory.extend({ user: publicUserResponse }))
+  }
+};
@@ -6,12 +6,13 @@ import {
   RankingSummary 
 } from './ranking.repository';
 import logger from '../../utils/logger';
+import { ValidationError } from '../../utils/errors';
 
 export class RankingService {
   private rankingRepository: RankingRepository;
 
-  constructor() {
-    this.rankingRepository = new RankingRepository();
+  constructor(rankingRepository: RankingRepository) {
+    this.rankingRepository = rankingRepository;
   }
 
   /**
@@ -139,12 +140,12 @@ export class RankingService {
 
   /**
    * Create a new ranking category
-   * Admin only operation
+   * Routes guard it with the ranking:write permission
    */
   async createCategory(name: string, description?: string) {
     try {
       if (!name || name.trim().length === 0) {
-        throw new Error('Category name is required');
+        throw new ValidationError('Category name is required');
       }
       
       return await this.rankingRepository.createCategory(name, description);
@@ -190,13 +191,13 @@ export class RankingService {
   ) {
     try {
       // Adjust seller's sales ranking
-      const salesCategoryId = 'sales'; // This would be the actual ID from your DB
+      const salesCategoryId = 'sales'; // Seeded by the initial migration
       const salesAdjustment = wasSuccessful ? orderValue * 0.1 : -orderValue * 0.05;
       
       await this.adjustRanking(sellerId, salesCategoryId, salesAdjustment, buyerId);
       
       // Adjust seller's reputation
-      const repCategoryId = 'reputation'; // This would be the actual ID from your DB
+      const repCategoryId = 'reputation'; // Seeded by the initial migration
       const repAdjustment = wasSuccessful ? 5 : -10;
       
       await this.adjustRanking(sellerId, repCategoryId, repAdjustment, buyerId);
@@ -219,7 +220,7 @@ export class RankingService {
   ) {
     try {
       // Adjust content creator ranking
-      const contentCategoryId = 'content'; // This would be the actual ID from your DB
+      const contentCategoryId = 'content'; // Seeded by the initial migration
       
       let adjustment = 0;
       switch (engagementType) {
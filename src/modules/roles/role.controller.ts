@@ -0,0 +1,141 @@
+import { Request, Response, NextFunction } from 'express';
+import { RoleService } from './role.service';
+import { UnauthorizedError } from '../../utils/errors';
+import { roleSchemas } from './role.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+
+export class RoleController {
+  private roleService: RoleService;
+
+  constructor(roleService: RoleService) {
+    this.roleService = roleService;
+  }
+
+  /**
+   * Get all roles with their permissions
+   */
+  async getRoles(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const roles = await this.roleService.getRoles();
+
+      res.status(200).json({
+        success: true,
+        data: roles
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get every permission a role can grant
+   */
+  async getPermissions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const permissions = await this.roleService.getPermissions();
+
+      res.status(200).json({
+        success: true,
+        data: permissions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a role by ID
+   */
+  async getRoleById(req: ValidatedRequest<typeof roleSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await this.roleService.getRoleById(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        data: role
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Create a role
+   */
+  async createRole(req: ValidatedRequest<typeof roleSchemas.create>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const role = await this.roleService.createRole(req.body);
+
+      res.status(201).json({
+        success: true,
+        message: 'Role created successfully',
+        data: role
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Update a role
+   */
+  async updateRole(req: ValidatedRequest<typeof roleSchemas.update>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const role = await this.roleService.updateRole(req.params.id, req.body, req.user);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role updated successfully',
+        data: role
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Delete a role
+   */
+  async deleteRole(req: ValidatedRequest<typeof roleSchemas.remove>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await this.roleService.deleteRole(req.params.id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Role deleted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Give a user a role
+   */
+  async assignRole(req: ValidatedRequest<typeof roleSchemas.assign>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const user = await this.roleService.assignRole(req.params.id, req.body.roleId, req.user);
+
+      // Remove sensitive data
+      const { passwordHash, ...safeUser } = user;
+
+      res.status(200).json({
+        success: true,
+        message: 'Role assigned successfully',
+        data: safeUser
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { Role, Permission } from '@prisma/client';
+import { DbClient } from '../../config/database';
+
+// Type for role creation; permissions are given by name
+export type CreateRoleInput = {
+  name: string;
+  description?: string;
+  permissions: string[];
+};
+
+// Type for role update; permissions replace the role's current ones
+export type UpdateRoleInput = Partial<CreateRoleInput>;
+
+// Role with its permissions and how many users hold it
+export type RoleWithPermissions = Role & {
+  permissions: Permission[];
+  _count: { users: number };
+};
+
+const roleInclude = {
+  permissions: { orderBy: { name: 'asc' as const } },
+  _count: { select: { users: true } }
+};
+
+export class RoleRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Find all roles, by name
+   */
+  async findAll(): Promise<RoleWithPermissions[]> {
+    return this.db.role.findMany({
+      include: roleInclude,
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  /**
+   * Find a role by ID
+   */
+  async findById(id: string): Promise<RoleWithPermissions | null> {
+    return this.db.role.findUnique({
+      where: { id },
+      include: roleInclude
+    });
+  }
+
+  /**
+   * Find a role by name
+   */
+  async findByName(name: string): Promise<RoleWithPermissions | null> {
+    return this.db.role.findUnique({
+      where: { name },
+      include: roleInclude
+    });
+  }
+
+  /**
+   * Find a role by name, creating it without permissions on first use
+   */
+  async findOrCreate(name: string): Promise<Role> {
+    return this.db.role.upsert({
+      where: { name },
+      update: {},
+      create: { name }
+    });
+  }
+
+  /**
+   * Create a role
+   */
+  async create({ permissions, ...data }: CreateRoleInput): Promise<RoleWithPermissions> {
+    return this.db.role.create({
+      data: {
+        ...data,
+        permissions: { connect: permissions.map(name => ({ name })) }
+      },
+      include: roleInclude
+    });
+  }
+
+  /**
+   * Update a role
+   */
+  async update(id: string, { permissions, ...data }: UpdateRoleInput): Promise<RoleWithPermissions> {
+    return this.db.role.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(permissions && { permissions: { set: permissions.map(name => ({ name })) } })
+      },
+      include: roleInclude
+    });
+  }
+
+  /**
+   * Delete a role
+   */
+  async delete(id: string): Promise<Role> {
+    return this.db.role.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Find every permission a role can grant, by name
+   */
+  async findPermissions(): Promise<Permission[]> {
+    return this.db.permission.findMany({
+      orderBy: { name: 'asc' }
+    });
+  }
+}
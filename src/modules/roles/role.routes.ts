@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { roleSchemas } from './role.schemas';
+
+/**
+ * Role routes, mounted at /api/roles
+ */
+export const createRoleRoutes = ({ roleController, auth }: Container): Router => {
+  const router = Router();
+
+  // Every role route manages access, so all of them require role:manage
+  router.use(requireAuth);
+  router.use(auth.populateUser);
+  router.use(requirePermission('role:manage'));
+
+  // Permission catalog (registered before /:id so it isn't shadowed)
+  router.get('/permissions', validate(roleSchemas.permissions), (req, res, next) => roleController.getPermissions(req, res, next));
+
+  router.get('/', validate(roleSchemas.list), (req, res, next) => roleController.getRoles(req, res, next));
+  router.post('/', validate(roleSchemas.create), (req, res, next) => roleController.createRole(req, res, next));
+  router.get('/:id', validate(roleSchemas.getById), (req, res, next) => roleController.getRoleById(req, res, next));
+  router.put('/:id', validate(roleSchemas.update), (req, res, next) => roleController.updateRole(req, res, next));
+  router.delete('/:id', validate(roleSchemas.remove), (req, res, next) => roleController.deleteRole(req, res, next));
+
+  return router;
+};
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { PERMISSION_NAMES } from '../../config/permissions';
+import { idParams } from '../../utils/schemas';
+import { userResponse } from '../users/user.schemas';
+
+const roleName = z.string().trim().min(1).max(50);
+const permissions = z.array(z.enum(PERMISSION_NAMES)).transform(names => Array.from(new Set(names)));
+
+const permission = z.object({
+  id: z.string(),
+  name: z.enum(PERMISSION_NAMES),
+  description: z.string().nullable()
+});
+
+// A role with its permissions and how many users hold it
+const role = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  permissions: z.array(permission),
+  _count: z.object({ users: z.number().int() })
+});
+
+/**
+ * Request and response schemas for role routes
+ */
+export const roleSchemas = {
+  list: {
+    response: z.array(role)
+  },
+
+  permissions: {
+    response: z.array(permission)
+  },
+
+  getById: {
+    params: idParams,
+    response: role
+  },
+
+  create: {
+    body: z.object({
+      name: roleName,
+      description: z.string().max(255).optional(),
+      permissions: permissions.default([])
+    }),
+    response: role
+  },
+
+  // Permissions replace the role's current ones
+  update: {
+    params: idParams,
+    body: z.object({
+      name: roleName.optional(),
+      description: z.string().max(255).optional(),
+      permissions: permissions.optional()
+    }),
+    response: role
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  assign: {
+    params: idParams,
+    body: z.object({
+      roleId: z.string().uuid()
+    }),
+    response: userResponse
+  }
+};
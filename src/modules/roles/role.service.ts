@@ -0,0 +1,162 @@
+import { Permission } from '@prisma/client';
+import { RoleRepository, CreateRoleInput, UpdateRoleInput, RoleWithPermissions } from './role.repository';
+import { UserRepository, UserWithRole } from '../users/user.repository';
+import { DEFAULT_ROLE } from '../../config/permissions';
+import { Actor } from '../../utils/policy';
+import logger from '../../utils/logger';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+
+// Permission an actor must not take away from themselves
+const ROLE_MANAGEMENT = 'role:manage';
+
+export class RoleService {
+  private roleRepository: RoleRepository;
+  private userRepository: UserRepository;
+
+  constructor(roleRepository: RoleRepository, userRepository: UserRepository) {
+    this.roleRepository = roleRepository;
+    this.userRepository = userRepository;
+  }
+
+  /**
+   * Get all roles with their permissions
+   */
+  async getRoles(): Promise<RoleWithPermissions[]> {
+    try {
+      return await this.roleRepository.findAll();
+    } catch (error: any) {
+      logger.error(`Error fetching roles: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a role by ID
+   */
+  async getRoleById(roleId: string): Promise<RoleWithPermissions> {
+    try {
+      const role = await this.roleRepository.findById(roleId);
+
+      if (!role) {
+        throw new NotFoundError('Role not found');
+      }
+
+      return role;
+    } catch (error: any) {
+      logger.error(`Error fetching role by ID: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get every permission a role can grant
+   */
+  async getPermissions(): Promise<Permission[]> {
+    try {
+      return await this.roleRepository.findPermissions();
+    } catch (error: any) {
+      logger.error(`Error fetching permissions: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a role
+   */
+  async createRole(data: CreateRoleInput): Promise<RoleWithPermissions> {
+    try {
+      if (await this.roleRepository.findByName(data.name)) {
+        throw new ConflictError('A role with this name already exists');
+      }
+
+      return await this.roleRepository.create(data);
+    } catch (error: any) {
+      logger.error(`Error creating role: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Update a role's name, description or permissions
+   * Actors can't drop role:manage from their own role, which would lock them
+   * out of undoing it.
+   */
+  async updateRole(roleId: string, data: UpdateRoleInput, actor: Actor): Promise<RoleWithPermissions> {
+    try {
+      const role = await this.getRoleById(roleId);
+
+      if (data.name && data.name !== role.name) {
+        if (role.name === DEFAULT_ROLE) {
+          throw new ConflictError(`The ${DEFAULT_ROLE} role is given to new users and can't be renamed`);
+        }
+
+        if (await this.roleRepository.findByName(data.name)) {
+          throw new ConflictError('A role with this name already exists');
+        }
+      }
+
+      if (data.permissions && !data.permissions.includes(ROLE_MANAGEMENT) && await this.holdsRole(actor, roleId)) {
+        throw new ConflictError(`You can't remove ${ROLE_MANAGEMENT} from your own role`);
+      }
+
+      return await this.roleRepository.update(roleId, data);
+    } catch (error: any) {
+      logger.error(`Error updating role: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a role no user holds
+   */
+  async deleteRole(roleId: string): Promise<void> {
+    try {
+      const role = await this.getRoleById(roleId);
+
+      if (role.name === DEFAULT_ROLE) {
+        throw new ConflictError(`The ${DEFAULT_ROLE} role is given to new users and can't be deleted`);
+      }
+
+      if (role._count.users > 0) {
+        throw new ConflictError('Reassign the users who hold this role before deleting it');
+      }
+
+      await this.roleRepository.delete(roleId);
+    } catch (error: any) {
+      logger.error(`Error deleting role: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Give a user a role
+   */
+  async assignRole(userId: string, roleId: string, actor: Actor): Promise<UserWithRole> {
+    try {
+      const role = await this.getRoleById(roleId);
+      const user = await this.userRepository.findById(userId);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      if (userId === actor.id && !role.permissions.some(({ name }) => name === ROLE_MANAGEMENT)) {
+        throw new ConflictError(`You can't give yourself a role without ${ROLE_MANAGEMENT}`);
+      }
+
+      await this.userRepository.update(userId, { roleId });
+      logger.info(`User ${actor.id} gave user ${userId} the ${role.name} role`);
+
+      return { ...user, roleId, role };
+    } catch (error: any) {
+      logger.error(`Error assigning role: ${error.message}`);
+      throw error;
+    }
+  }
+
+  // Whether the actor's current role is this one
+  private async holdsRole(actor: Actor, roleId: string): Promise<boolean> {
+    const user = await this.userRepository.findById(actor.id);
+    return user?.roleId === roleId;
+  }
+}
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from 'express';
+import { ClerkWebhookService, SvixHeaders } from './clerk-webhook.service';
+import { BadRequestError } from '../../utils/errors';
+
+export class ClerkWebhookController {
+  private clerkWebhookService: ClerkWebhookService;
+
+  constructor(clerkWebhookService: ClerkWebhookService) {
+    this.clerkWebhookService = clerkWebhookService;
+  }
+
+  /**
+   * Process Clerk webhook
+   */
+  async processWebhook(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const headers = {
+        'svix-id': req.headers['svix-id'],
+        'svix-timestamp': req.headers['svix-timestamp'],
+        'svix-signature': req.headers['svix-signature']
+      };
+
+      if (Object.values(headers).some(value => typeof value !== 'string')) {
+        throw new BadRequestError('Missing Svix signature');
+      }
+
+      // Raw body is needed for webhook signature verification
+      const result = await this.clerkWebhookService.processWebhook(req.body, headers as SvixHeaders);
+
+      res.status(200).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import express from 'express';
+import { Container } from '../../container';
+import { validate } from '../../middleware/validate';
+import { clerkWebhookSchemas } from './clerk-webhook.schemas';
+
+/**
+ * Webhooks from the auth provider, mounted at /api/webhooks
+ */
+export const createClerkWebhookRoutes = ({ clerkWebhookController }: Container): Router => {
+  const router = Router();
+
+  // Clerk webhook, signed by Svix - needs raw body for signature verification
+  router.post('/clerk', validate(clerkWebhookSchemas.webhook), express.raw({ type: 'application/json' }), (req, res, next) =>
+    clerkWebhookController.processWebhook(req, res, next)
+  );
+
+  return router;
+};
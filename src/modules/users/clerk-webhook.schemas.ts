@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * Response schemas for the Clerk webhook; the request is verified by its signature
+ */
+export const clerkWebhookSchemas = {
+  // What the handler did with the event, and to which user
+  webhook: {
+    response: z.object({
+      status: z.enum(['created', 'updated', 'deleted', 'unlinked', 'ignored']),
+      type: z.string(),
+      userId: z.string().uuid().optional(),
+      externalAuthId: z.string().optional()
+    })
+  }
+};
@@ -0,0 +1,137 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import {
+  createApp,
+  createContainer,
+  createTestUser,
+  resetDatabase,
+  clerkUserEvent,
+  signClerkWebhook,
+  FakeStripe
+} from '../../testing';
+
+const prisma = new PrismaClient();
+const container = createContainer({ prisma, stripe: new FakeStripe() });
+const app = createApp(container);
+
+// Deliver an event to the webhook endpoint the way Svix does
+const deliver = (event: unknown, secret?: string) => {
+  const { payload, headers } = signClerkWebhook(event, secret);
+
+  return request(app)
+    .post('/api/webhooks/clerk')
+    .set(headers)
+    .set('content-type', 'application/json')
+    .send(payload);
+};
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+  jest.restoreAllMocks();
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('ClerkWebhookService', () => {
+  it('rejects deliveries with a bad signature', async () => {
+    const response = await deliver(clerkUserEvent('user.created'), 'whsec_c29tZW9uZSBlbHNl');
+
+    expect(response.status).toBe(400);
+    expect(await prisma.user.count()).toBe(0);
+  });
+
+  it('provisions a user with the default role on user.created', async () => {
+    const event = clerkUserEvent('user.created', { first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.test' });
+
+    const response = await deliver(event);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'created' });
+    expect(await prisma.user.findUniqueOrThrow({ where: { externalAuthId: event.data.id }, include: { role: true } }))
+      .toMatchObject({ email: 'ada@example.test', displayName: 'Ada Lovelace', role: { name: 'User' } });
+  });
+
+  it('updates the profile on user.updated, and creates the user if that arrives first', async () => {
+    const updated = clerkUserEvent('user.updated', { username: 'ada', email: 'ada@example.test' });
+
+    expect((await deliver(updated)).body.data).toMatchObject({ status: 'created' });
+
+    const renamed = clerkUserEvent('user.updated', { id: updated.data.id, username: 'countess', email: 'countess@example.test' });
+
+    expect((await deliver(renamed)).body.data).toMatchObject({ status: 'updated' });
+    expect(await prisma.user.findMany()).toEqual([
+      expect.objectContaining({ externalAuthId: updated.data.id, displayName: 'countess', email: 'countess@example.test' })
+    ]);
+  });
+
+  it('links an unlinked user with the same email instead of duplicating it', async () => {
+    const seeded = await createTestUser(prisma, { email: 'ada@example.test' });
+    const event = clerkUserEvent('user.created', { email: 'ada@example.test' });
+
+    expect((await deliver(event)).body.data).toMatchObject({ status: 'updated', userId: seeded.id });
+    expect(await prisma.user.findUniqueOrThrow({ where: { id: seeded.id } })).toMatchObject({ externalAuthId: event.data.id });
+  });
+
+  it('does not link a user by an email Clerk has not verified', async () => {
+    const seeded = await createTestUser(prisma, { email: 'ada@example.test' });
+    const event = clerkUserEvent('user.created', { email: 'ada@example.test', emailVerified: false });
+
+    expect((await deliver(event)).body.data).toMatchObject({ status: 'ignored' });
+    expect(await prisma.user.findMany()).toEqual([expect.objectContaining({ id: seeded.id, externalAuthId: null })]);
+
+    // Linked once the address is verified
+    const verified = clerkUserEvent('user.updated', { id: event.data.id, email: 'ada@example.test' });
+    expect((await deliver(verified)).body.data).toMatchObject({ status: 'updated', userId: seeded.id });
+  });
+
+  it('updates the user another delivery created while this one was provisioning it', async () => {
+    const created = clerkUserEvent('user.created', { email: 'ada@example.test' });
+    await deliver(created);
+
+    // The lookup misses the user the first time, as if it didn't exist yet
+    jest.spyOn(container.userRepository, 'findByExternalAuthId').mockResolvedValueOnce(null);
+
+    const updated = clerkUserEvent('user.updated', { id: created.data.id, username: 'ada', email: 'ada@example.test' });
+    const response = await deliver(updated);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'updated' });
+    expect(await prisma.user.findMany()).toEqual([expect.objectContaining({ externalAuthId: created.data.id, displayName: 'ada' })]);
+  });
+
+  it('deletes the user on user.deleted', async () => {
+    const created = clerkUserEvent('user.created');
+    await deliver(created);
+
+    const response = await deliver(clerkUserEvent('user.deleted', { id: created.data.id }));
+
+    expect(response.body.data).toMatchObject({ status: 'deleted' });
+    expect(await prisma.user.count()).toBe(0);
+  });
+
+  it('unlinks users it has to keep for their orders', async () => {
+    const created = clerkUserEvent('user.created');
+    const { body } = await deliver(created);
+    const seller = await createTestUser(prisma, { role: 'Seller' });
+    const product = await prisma.marketplaceProduct.create({
+      data: { sellerId: seller.id, title: 'Wool blanket', description: 'Hand-woven', priceCents: 6000, currency: 'usd', stock: 1 }
+    });
+    await prisma.order.create({
+      data: { buyerId: body.data.userId, productId: product.id, amountCents: 6000, currency: 'usd', status: 'completed' }
+    });
+
+    const response = await deliver(clerkUserEvent('user.deleted', { id: created.data.id }));
+
+    expect(response.body.data).toMatchObject({ status: 'unlinked', userId: body.data.userId });
+    expect(await prisma.user.findUniqueOrThrow({ where: { id: body.data.userId } })).toMatchObject({ externalAuthId: null });
+  });
+
+  it('ignores user.deleted for users it never provisioned', async () => {
+    const response = await deliver(clerkUserEvent('user.deleted'));
+
+    expect(response.status).toBe(200);
+    expect(response.body.data).toMatchObject({ status: 'ignored' });
+  });
+});
@@ -0,0 +1,213 @@
+import { Prisma } from '@prisma/client';
+import type { UserJSON, WebhookEvent } from '@clerk/clerk-sdk-node';
+import { Webhook } from 'svix';
+import { env } from '../../config/env';
+import { UserRepository, UserWithRole } from './user.repository';
+import { RoleRepository } from '../roles/role.repository';
+import { DEFAULT_ROLE } from '../../config/permissions';
+import logger from '../../utils/logger';
+import { BadRequestError } from '../../utils/errors';
+
+// Svix headers that carry a delivery's ID, timestamp and signature
+export type SvixHeaders = {
+  'svix-id': string;
+  'svix-timestamp': string;
+  'svix-signature': string;
+};
+
+// Postgres reports ON DELETE RESTRICT violations with a code Prisma doesn't
+// map to P2003, so they surface as unknown request errors
+const isForeignKeyViolation = (error: unknown): boolean =>
+  (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2003')
+  || (error instanceof Prisma.PrismaClientUnknownRequestError && /violates RESTRICT setting of foreign key constraint/.test(error.message));
+
+// Profile fields kept in sync with Clerk
+type ClerkProfile = {
+  email: string;
+  displayName: string;
+  avatarUrl: string | null;
+};
+
+/**
+ * Provision and update local users from Clerk's user webhooks
+ * Svix may deliver an event more than once or out of order, so every handler
+ * converges on Clerk's current state instead of assuming the previous one.
+ */
+export class ClerkWebhookService {
+  private userRepository: UserRepository;
+  private roleRepository: RoleRepository;
+
+  constructor(userRepository: UserRepository, roleRepository: RoleRepository) {
+    this.userRepository = userRepository;
+    this.roleRepository = roleRepository;
+  }
+
+  /**
+   * Verify a Clerk webhook delivery and apply it
+   */
+  async processWebhook(requestBody: Buffer | string, headers: SvixHeaders): Promise<any> {
+    try {
+      let event: WebhookEvent;
+
+      try {
+        event = new Webhook(env.CLERK_WEBHOOK_SECRET as string).verify(requestBody, headers) as WebhookEvent;
+      } catch (error: any) {
+        logger.warn(`Clerk webhook signature verification failed: ${error.message}`);
+        throw new BadRequestError('Invalid webhook signature');
+      }
+
+      return await this.dispatchEvent(event);
+    } catch (error: any) {
+      logger.error(`Error processing Clerk webhook: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Route an event to its handler
+   */
+  private async dispatchEvent(event: WebhookEvent): Promise<any> {
+    switch (event.type) {
+      case 'user.created':
+      case 'user.updated':
+        return await this.handleUserUpserted(event.type, event.data);
+
+      case 'user.deleted':
+        return await this.handleUserDeleted(event.data.id);
+
+      default:
+        logger.info(`Unhandled Clerk event type: ${event.type}`);
+        return { status: 'ignored', type: event.type };
+    }
+  }
+
+  /**
+   * Handle user.created and user.updated
+   * Creates the user on first sight, whichever event arrives first. A user
+   * who already exists with the same email, e.g. one seeded before Clerk, is
+   * linked to the Clerk account rather than duplicated, but only once Clerk
+   * has verified the email: anyone can add an address to their account. When
+   * two deliveries race to create the same user, the loser updates the
+   * winner's row.
+   */
+  private async handleUserUpserted(type: 'user.created' | 'user.updated', clerkUser: UserJSON): Promise<any> {
+    const email = this.toEmail(clerkUser);
+
+    if (!email) {
+      logger.warn(`Clerk user ${clerkUser.id} has no email address, skipping`);
+      return { status: 'ignored', type, externalAuthId: clerkUser.id };
+    }
+
+    const profile = this.toProfile(clerkUser, email.address);
+    const existing = await this.syncableUser(clerkUser.id, email.address, email.verified);
+
+    if (existing) {
+      return await this.syncUser(type, existing.id, clerkUser.id, profile);
+    }
+
+    // Linked once Clerk verifies the email and sends user.updated
+    if (!email.verified && await this.userRepository.findByEmail(email.address)) {
+      logger.warn(`Clerk user ${clerkUser.id} has the unverified email of an existing user, skipping`);
+      return { status: 'ignored', type, externalAuthId: clerkUser.id };
+    }
+
+    const role = await this.roleRepository.findOrCreate(DEFAULT_ROLE);
+
+    try {
+      const user = await this.userRepository.create({ ...profile, externalAuthId: clerkUser.id, roleId: role.id });
+
+      logger.info(`Provisioned user ${user.id} for Clerk user ${clerkUser.id}`);
+      return { status: 'created', type, userId: user.id };
+    } catch (error: any) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+        throw error;
+      }
+
+      // Another delivery created the user since we looked
+      const created = await this.syncableUser(clerkUser.id, email.address, email.verified);
+
+      if (!created) {
+        throw error;
+      }
+
+      return await this.syncUser(type, created.id, clerkUser.id, profile);
+    }
+  }
+
+  /**
+   * Copy Clerk's profile onto an existing user and link it to the Clerk account
+   */
+  private async syncUser(
+    type: 'user.created' | 'user.updated',
+    userId: string,
+    externalAuthId: string,
+    profile: ClerkProfile
+  ): Promise<any> {
+    const user = await this.userRepository.update(userId, { ...profile, externalAuthId });
+
+    logger.info(`Synced user ${user.id} from Clerk user ${externalAuthId}`);
+    return { status: 'updated', type, userId: user.id };
+  }
+
+  /**
+   * Handle user.deleted
+   * Users that orders, payouts, posts or other kept records point at can't be
+   * deleted without losing that history; they are unlinked from Clerk
+   * instead, which stops them signing in.
+   */
+  private async handleUserDeleted(externalAuthId: string | undefined): Promise<any> {
+    const user = externalAuthId ? await this.userRepository.findByExternalAuthId(externalAuthId) : null;
+
+    if (!user) {
+      return { status: 'ignored', type: 'user.deleted', externalAuthId };
+    }
+
+    try {
+      await this.userRepository.delete(user.id);
+    } catch (error: any) {
+      if (!isForeignKeyViolation(error)) {
+        throw error;
+      }
+
+      await this.userRepository.update(user.id, { externalAuthId: null });
+      logger.info(`Unlinked user ${user.id} from deleted Clerk user ${externalAuthId}; it has records that must be kept`);
+      return { status: 'unlinked', type: 'user.deleted', userId: user.id };
+    }
+
+    logger.info(`Deleted user ${user.id} for Clerk user ${externalAuthId}`);
+    return { status: 'deleted', type: 'user.deleted', userId: user.id };
+  }
+
+  // The user linked to a Clerk account, or one with its verified email that isn't linked yet
+  private async syncableUser(externalAuthId: string, email: string, emailVerified: boolean): Promise<UserWithRole | null> {
+    const linked = await this.userRepository.findByExternalAuthId(externalAuthId);
+
+    if (linked || !emailVerified) {
+      return linked;
+    }
+
+    const user = await this.userRepository.findByEmail(email);
+    return user && !user.externalAuthId ? user : null;
+  }
+
+  // A Clerk user's primary email, or its first; null when it has none to key on
+  private toEmail(clerkUser: UserJSON): { address: string; verified: boolean } | null {
+    const emailAddress = clerkUser.email_addresses.find(({ id }) => id === clerkUser.primary_email_address_id)
+      ?? clerkUser.email_addresses[0];
+
+    return emailAddress
+      ? { address: emailAddress.email_address, verified: emailAddress.verification?.status === 'verified' }
+      : null;
+  }
+
+  // Our profile fields from a Clerk user
+  private toProfile(clerkUser: UserJSON, email: string): ClerkProfile {
+    const fullName = [clerkUser.first_name, clerkUser.last_name].filter(Boolean).join(' ');
+
+    return {
+      email,
+      displayName: fullName || clerkUser.username || email.split('@')[0],
+      avatarUrl: clerkUser.has_image ? clerkUser.image_url : null
+    };
+  }
+}
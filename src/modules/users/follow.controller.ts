@@ -0,0 +1,108 @@
+import { Response, NextFunction } from 'express';
+import { FollowService } from './follow.service';
+import { FollowWithUser } from './follow.repository';
+import { UnauthorizedError } from '../../utils/errors';
+import { followSchemas } from './follow.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+
+export class FollowController {
+  private followService: FollowService;
+
+  constructor(followService: FollowService) {
+    this.followService = followService;
+  }
+
+  /**
+   * Follow a user
+   */
+  async followUser(req: ValidatedRequest<typeof followSchemas.follow>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      const follow = await this.followService.followUser(req.user.id, id);
+
+      res.status(201).json({
+        success: true,
+        message: 'User followed successfully',
+        data: follow
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unfollow a user
+   */
+  async unfollowUser(req: ValidatedRequest<typeof followSchemas.unfollow>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      await this.followService.unfollowUser(req.user.id, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'User unfollowed successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get a user's followers
+   */
+  async getFollowers(req: ValidatedRequest<typeof followSchemas.list>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await this.followService.getFollowers(id, req.query);
+
+      res.status(200).json(pageResponse({
+        ...result,
+        items: result.items.map(follow => this.toPublicFollow(follow))
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the users a user is following
+   */
+  async getFollowing(req: ValidatedRequest<typeof followSchemas.list>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const result = await this.followService.getFollowing(id, req.query);
+
+      res.status(200).json(pageResponse({
+        ...result,
+        items: result.items.map(follow => this.toPublicFollow(follow))
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove sensitive data from the user attached to a follow
+   */
+  private toPublicFollow(follow: FollowWithUser) {
+    const { passwordHash, email, ...publicUser } = follow.user;
+
+    return {
+      ...follow,
+      user: publicUser
+    };
+  }
+}
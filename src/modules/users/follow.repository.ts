@@ -0,0 +1,92 @@
+import { Follow, User } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Follow with the followed/following user information
+export type FollowWithUser = Follow & {
+  user: User;
+};
+
+export class FollowRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Create a follow relationship
+   */
+  async create(followerId: string, followingId: string): Promise<Follow> {
+    return this.db.follow.create({
+      data: {
+        followerId,
+        followingId
+      }
+    });
+  }
+
+  /**
+   * Find a follow relationship between two users
+   */
+  async find(followerId: string, followingId: string): Promise<Follow | null> {
+    return this.db.follow.findUnique({
+      where: {
+        followerId_followingId: {
+          followerId,
+          followingId
+        }
+      }
+    });
+  }
+
+  /**
+   * Delete a follow relationship
+   */
+  async delete(followerId: string, followingId: string): Promise<Follow> {
+    return this.db.follow.delete({
+      where: {
+        followerId_followingId: {
+          followerId,
+          followingId
+        }
+      }
+    });
+  }
+
+  /**
+   * Get users following the given user
+   */
+  async getFollowers(userId: string, options: PageOptions): Promise<Page<FollowWithUser>> {
+    const page = await paginate(options, {
+      findMany: (args) => this.db.follow.findMany({
+        ...args,
+        where: { followingId: userId },
+        include: { follower: true }
+      }),
+      count: () => this.db.follow.count({
+        where: { followingId: userId }
+      })
+    });
+
+    return { ...page, items: page.items.map(({ follower, ...follow }) => ({ ...follow, user: follower })) };
+  }
+
+  /**
+   * Get users the given user is following
+   */
+  async getFollowing(userId: string, options: PageOptions): Promise<Page<FollowWithUser>> {
+    const page = await paginate(options, {
+      findMany: (args) => this.db.follow.findMany({
+        ...args,
+        where: { followerId: userId },
+        include: { following: true }
+      }),
+      count: () => this.db.follow.count({
+        where: { followerId: userId }
+      })
+    });
+
+    return { ...page, items: page.items.map(({ following, ...follow }) => ({ ...follow, user: following })) };
+  }
+}
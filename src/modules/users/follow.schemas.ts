@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from './user.schemas';
+
+const follow = z.object({
+  id: z.string().uuid(),
+  followerId: z.string().uuid(),
+  followingId: z.string().uuid(),
+  createdAt: timestamp
+});
+
+/**
+ * Request and response schemas for follow routes; `id` is the followed user
+ */
+export const followSchemas = {
+  follow: {
+    params: idParams,
+    response: follow
+  },
+
+  unfollow: {
+    params: idParams
+  },
+
+  // Each follow carries the user on the other side of it
+  list: {
+    params: idParams,
+    query: pageQuery(['createdAt'], 20),
+    response: z.array(follow.extend({ user: publicUserResponse }))
+  }
+};
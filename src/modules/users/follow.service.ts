@@ -0,0 +1,98 @@
+import { Follow } from '@prisma/client';
+import { FollowRepository, FollowWithUser } from './follow.repository';
+import { UserRepository } from './user.repository';
+import { RestrictionRepository } from './restriction.repository';
+import logger from '../../utils/logger';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../utils/errors';
+import { Page, PageOptions } from '../../utils/pagination';
+
+export class FollowService {
+  private followRepository: FollowRepository;
+  private userRepository: UserRepository;
+  private restrictionRepository: RestrictionRepository;
+
+  constructor(
+    followRepository: FollowRepository,
+    userRepository: UserRepository,
+    restrictionRepository: RestrictionRepository
+  ) {
+    this.followRepository = followRepository;
+    this.userRepository = userRepository;
+    this.restrictionRepository = restrictionRepository;
+  }
+
+  /**
+   * Follow a user
+   */
+  async followUser(followerId: string, followingId: string): Promise<Follow> {
+    try {
+      // Prevent following self
+      if (followerId === followingId) {
+        throw new ValidationError('You cannot follow yourself');
+      }
+
+      // Check if the user to follow exists
+      const user = await this.userRepository.findById(followingId);
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      // Blocked users can't follow the user who blocked them
+      if (await this.restrictionRepository.find(followingId, followerId, 'block')) {
+        throw new ForbiddenError('You cannot follow this user');
+      }
+
+      // Check if already following
+      const existingFollow = await this.followRepository.find(followerId, followingId);
+      if (existingFollow) {
+        throw new ConflictError('You are already following this user');
+      }
+
+      return await this.followRepository.create(followerId, followingId);
+    } catch (error: any) {
+      logger.error(`Error following user: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Unfollow a user
+   */
+  async unfollowUser(followerId: string, followingId: string): Promise<Follow> {
+    try {
+      const existingFollow = await this.followRepository.find(followerId, followingId);
+      if (!existingFollow) {
+        throw new ConflictError('You are not following this user');
+      }
+
+      return await this.followRepository.delete(followerId, followingId);
+    } catch (error: any) {
+      logger.error(`Error unfollowing user: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's followers
+   */
+  async getFollowers(userId: string, options: PageOptions): Promise<Page<FollowWithUser>> {
+    try {
+      return await this.followRepository.getFollowers(userId, options);
+    } catch (error: any) {
+      logger.error(`Error fetching followers: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the users a user is following
+   */
+  async getFollowing(userId: string, options: PageOptions): Promise<Page<FollowWithUser>> {
+    try {
+      return await this.followRepository.getFollowing(userId, options);
+    } catch (error: any) {
+      logger.error(`Error fetching following: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import { Response, NextFunction } from 'express';
+import { RestrictionType } from '@prisma/client';
+import { RestrictionService } from './restriction.service';
+import { RestrictionWithUser } from './restriction.repository';
+import { UnauthorizedError } from '../../utils/errors';
+import { restrictionSchemas } from './restriction.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
+
+export class RestrictionController {
+  private restrictionService: RestrictionService;
+
+  constructor(restrictionService: RestrictionService) {
+    this.restrictionService = restrictionService;
+  }
+
+  /**
+   * Block a user
+   */
+  async blockUser(req: ValidatedRequest<typeof restrictionSchemas.restrict>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      const restriction = await this.restrictionService.restrictUser(req.user.id, id, 'block');
+
+      res.status(201).json({
+        success: true,
+        message: 'User blocked successfully',
+        data: restriction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unblock a user
+   */
+  async unblockUser(req: ValidatedRequest<typeof restrictionSchemas.lift>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      await this.restrictionService.unrestrictUser(req.user.id, id, 'block');
+
+      res.status(200).json({
+        success: true,
+        message: 'User unblocked successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Mute a user
+   */
+  async muteUser(req: ValidatedRequest<typeof restrictionSchemas.restrict>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      const restriction = await this.restrictionService.restrictUser(req.user.id, id, 'mute');
+
+      res.status(201).json({
+        success: true,
+        message: 'User muted successfully',
+        data: restriction
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Unmute a user
+   */
+  async unmuteUser(req: ValidatedRequest<typeof restrictionSchemas.lift>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const { id } = req.params;
+      await this.restrictionService.unrestrictUser(req.user.id, id, 'mute');
+
+      res.status(200).json({
+        success: true,
+        message: 'User unmuted successfully'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Get the users the current user has blocked
+   */
+  async getBlockedUsers(req: ValidatedRequest<typeof restrictionSchemas.list>, res: Response, next: NextFunction): Promise<void> {
+    return this.getRestrictedUsers(req, res, next, 'block');
+  }
+
+  /**
+   * Get the users the current user has muted
+   */
+  async getMutedUsers(req: ValidatedRequest<typeof restrictionSchemas.list>, res: Response, next: NextFunction): Promise<void> {
+    return this.getRestrictedUsers(req, res, next, 'mute');
+  }
+
+  private async getRestrictedUsers(
+    req: ValidatedRequest<typeof restrictionSchemas.list>,
+    res: Response,
+    next: NextFunction,
+    type: RestrictionType
+  ): Promise<void> {
+    try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
+      const result = await this.restrictionService.getRestrictedUsers(req.user.id, type, req.query);
+
+      res.status(200).json(pageResponse({
+        ...result,
+        items: result.items.map(restriction => this.toPublicRestriction(restriction))
+      }));
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Remove sensitive data from the user attached to a restriction
+   */
+  private toPublicRestriction(restriction: RestrictionWithUser) {
+    const { passwordHash, email, ...publicUser } = restriction.target;
+
+    return {
+      ...restriction,
+      target: publicUser
+    };
+  }
+}
@@ -0,0 +1,92 @@
+import { RestrictionType, User, UserRestriction } from '@prisma/client';
+import { DbClient, atomically } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
+
+// Restriction with the blocked or muted user's information
+export type RestrictionWithUser = UserRestriction & {
+  target: User;
+};
+
+export class RestrictionRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
+  /**
+   * Block or mute a user
+   * Blocking also ends any follow between the two users, in both directions.
+   */
+  async create(userId: string, targetId: string, type: RestrictionType): Promise<UserRestriction> {
+    return atomically(this.db, async (tx) => {
+      if (type === 'block') {
+        await tx.follow.deleteMany({
+          where: {
+            OR: [
+              { followerId: userId, followingId: targetId },
+              { followerId: targetId, followingId: userId }
+            ]
+          }
+        });
+      }
+
+      return tx.userRestriction.create({
+        data: { userId, targetId, type }
+      });
+    });
+  }
+
+  /**
+   * Find a user's block or mute of another user
+   */
+  async find(userId: string, targetId: string, type: RestrictionType): Promise<UserRestriction | null> {
+    return this.db.userRestriction.findUnique({
+      where: {
+        userId_targetId_type: { userId, targetId, type }
+      }
+    });
+  }
+
+  /**
+   * Remove a user's block or mute of another user
+   */
+  async delete(userId: string, targetId: string, type: RestrictionType): Promise<UserRestriction> {
+    return this.db.userRestriction.delete({
+      where: {
+        userId_targetId_type: { userId, targetId, type }
+      }
+    });
+  }
+
+  /**
+   * Whether any of the users has blocked the target
+   */
+  async isBlockedByAny(userIds: string[], targetId: string): Promise<boolean> {
+    const count = await this.db.userRestriction.count({
+      where: {
+        userId: { in: userIds },
+        targetId,
+        type: 'block'
+      }
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Get the users a user has blocked or muted
+   */
+  async findByUser(userId: string, type: RestrictionType, options: PageOptions): Promise<Page<RestrictionWithUser>> {
+    const where = { userId, type };
+
+    return paginate(options, {
+      findMany: (args) => this.db.userRestriction.findMany({
+        ...args,
+        where,
+        include: { target: true }
+      }),
+      count: () => this.db.userRestriction.count({ where })
+    });
+  }
+}
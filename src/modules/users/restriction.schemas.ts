@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { RestrictionType } from '@prisma/client';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+import { publicUserResponse } from './user.schemas';
+
+const restriction = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  targetId: z.string().uuid(),
+  type: z.nativeEnum(RestrictionType),
+  createdAt: timestamp
+});
+
+/**
+ * Request and response schemas for block and mute routes; `id` is the blocked or muted user
+ */
+export const restrictionSchemas = {
+  restrict: {
+    params: idParams,
+    response: restriction
+  },
+
+  lift: {
+    params: idParams
+  },
+
+  list: {
+    query: pageQuery(['createdAt'], 20),
+    response: z.array(restriction.extend({ target: publicUserResponse }))
+  }
+};
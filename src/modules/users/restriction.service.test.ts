@@ -0,0 +1,118 @@
+import request from 'supertest';
+import { PrismaClient, Post, User } from '@prisma/client';
+import { createApp, createContainer, createTestUser, authHeader, resetDatabase, FakeStripe } from '../../testing';
+import { ForbiddenError } from '../../utils/errors';
+
+const prisma = new PrismaClient();
+const container = createContainer({ prisma, stripe: new FakeStripe() });
+const { engagementService, messageService } = container;
+const app = createApp(container);
+
+let alice: User;
+let bob: User;
+let post: Post;
+
+const restrict = (user: User, target: User, type: 'block' | 'mute') =>
+  request(app).post(`/api/users/${target.id}/${type}`).set(authHeader(user.id));
+
+const postIds = (response: request.Response): string[] => response.body.data.map(({ id }: Post) => id);
+
+beforeEach(async () => {
+  await resetDatabase(prisma);
+
+  alice = await createTestUser(prisma);
+  bob = await createTestUser(prisma);
+  post = await prisma.post.create({ data: { userId: bob.id, contentType: 'text', textBody: 'Handmade lamps for sale' } });
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('RestrictionService', () => {
+  it('ends follows in both directions when a user blocks another', async () => {
+    await prisma.follow.createMany({
+      data: [{ followerId: alice.id, followingId: bob.id }, { followerId: bob.id, followingId: alice.id }]
+    });
+
+    expect((await restrict(alice, bob, 'block')).status).toBe(201);
+    expect(await prisma.follow.count()).toBe(0);
+
+    const follow = await request(app).post(`/api/users/${alice.id}/follow`).set(authHeader(bob.id));
+    expect(follow.status).toBe(403);
+  });
+
+  it('keeps follows when a user mutes another', async () => {
+    await prisma.follow.create({ data: { followerId: alice.id, followingId: bob.id } });
+
+    await restrict(alice, bob, 'mute');
+
+    expect(await prisma.follow.count()).toBe(1);
+  });
+
+  describe('blocks', () => {
+    beforeEach(async () => {
+      await restrict(bob, alice, 'block');
+    });
+
+    it('stop the blocked user messaging the blocker, leaving no conversation', async () => {
+      await expect(messageService.sendMessage({ senderId: alice.id, recipientId: bob.id, content: 'Hi' }))
+        .rejects.toBeInstanceOf(ForbiddenError);
+      expect(await prisma.conversation.count()).toBe(0);
+
+      // The blocker can still write to them
+      await expect(messageService.sendMessage({ senderId: bob.id, recipientId: alice.id, content: 'Hi' })).resolves.toBeDefined();
+    });
+
+    it('stop the blocked user liking or commenting on the blocker\'s content, whatever owner they claim', async () => {
+      await expect(engagementService.createLike(alice.id, post.id, 'Post', alice.id)).rejects.toBeInstanceOf(ForbiddenError);
+      await expect(engagementService.createComment(alice.id, post.id, 'Post', 'Nice')).rejects.toBeInstanceOf(ForbiddenError);
+    });
+
+    it('stop the blocked user replying to the blocker\'s comments on other posts', async () => {
+      const carol = await createTestUser(prisma);
+      const other = await prisma.post.create({ data: { userId: carol.id, contentType: 'text', textBody: 'Lamp thread' } });
+      const comment = await engagementService.createComment(bob.id, other.id, 'Post', 'Mine are brass');
+
+      await expect(engagementService.createComment(alice.id, other.id, 'Post', 'Mine too', comment.id))
+        .rejects.toBeInstanceOf(ForbiddenError);
+      await expect(engagementService.createComment(alice.id, other.id, 'Post', 'Mine too')).resolves.toBeDefined();
+    });
+
+    it('hide the blocker\'s profile from the blocked user, but not from user managers', async () => {
+      const admin = await createTestUser(prisma, { role: 'Admin' });
+
+      expect((await request(app).get(`/api/users/${bob.id}`).set(authHeader(alice.id))).status).toBe(404);
+      expect((await request(app).get(`/api/users/${bob.id}`).set(authHeader(admin.id))).status).toBe(200);
+      expect((await request(app).get(`/api/users/${alice.id}`).set(authHeader(bob.id))).status).toBe(200);
+    });
+  });
+
+  describe('mutes', () => {
+    beforeEach(async () => {
+      await prisma.follow.create({ data: { followerId: alice.id, followingId: bob.id } });
+      await restrict(alice, bob, 'mute');
+    });
+
+    it('leave the muted user\'s posts out of the muter\'s feeds', async () => {
+      const feed = await request(app).get('/api/posts/feed').set(authHeader(alice.id));
+      const ranked = await request(app).get('/api/posts/feed/ranked').set(authHeader(alice.id));
+
+      expect(postIds(feed)).toEqual([]);
+      expect(postIds(ranked)).toEqual([]);
+      expect(postIds(await request(app).get('/api/posts/feed/ranked').set(authHeader(bob.id)))).toEqual([post.id]);
+    });
+
+    it('leave the muted user\'s posts out of the muter\'s searches only', async () => {
+      const search = (user?: User) =>
+        request(app).get('/api/posts/search').query({ q: 'lamps' }).set(user ? authHeader(user.id) : {});
+
+      expect(postIds(await search(alice))).toEqual([]);
+      expect(postIds(await search())).toEqual([post.id]);
+    });
+
+    it('still let the muted user message the muter', async () => {
+      await expect(messageService.sendMessage({ senderId: bob.id, recipientId: alice.id, content: 'Hi' })).resolves.toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { RestrictionType, UserRestriction } from '@prisma/client';
+import { RestrictionRepository, RestrictionWithUser } from './restriction.repository';
+import { UserRepository } from './user.repository';
+import logger from '../../utils/logger';
+import { ConflictError, NotFoundError, ValidationError } from '../../utils/errors';
+import { Page, PageOptions } from '../../utils/pagination';
+
+const PAST_TENSE: Record<RestrictionType, string> = {
+  block: 'blocked',
+  mute: 'muted'
+};
+
+/**
+ * Blocking and muting other users
+ * Both hide the other user's posts from the user's feeds and search. A block
+ * also stops the blocked user messaging the blocker, engaging with their
+ * content and viewing their profile; a mute doesn't.
+ */
+export class RestrictionService {
+  private restrictionRepository: RestrictionRepository;
+  private userRepository: UserRepository;
+
+  constructor(restrictionRepository: RestrictionRepository, userRepository: UserRepository) {
+    this.restrictionRepository = restrictionRepository;
+    this.userRepository = userRepository;
+  }
+
+  /**
+   * Block or mute a user
+   */
+  async restrictUser(userId: string, targetId: string, type: RestrictionType): Promise<UserRestriction> {
+    try {
+      if (userId === targetId) {
+        throw new ValidationError(`You cannot ${type} yourself`);
+      }
+
+      const target = await this.userRepository.findById(targetId);
+      if (!target) {
+        throw new NotFoundError('User not found');
+      }
+
+      if (await this.restrictionRepository.find(userId, targetId, type)) {
+        throw new ConflictError(`You have already ${PAST_TENSE[type]} this user`);
+      }
+
+      const restriction = await this.restrictionRepository.create(userId, targetId, type);
+      logger.info(`User ${userId} ${PAST_TENSE[type]} user ${targetId}`);
+
+      return restriction;
+    } catch (error: any) {
+      logger.error(`Error restricting user: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Unblock or unmute a user
+   */
+  async unrestrictUser(userId: string, targetId: string, type: RestrictionType): Promise<UserRestriction> {
+    try {
+      if (!await this.restrictionRepository.find(userId, targetId, type)) {
+        throw new ConflictError(`You have not ${PAST_TENSE[type]} this user`);
+      }
+
+      return await this.restrictionRepository.delete(userId, targetId, type);
+    } catch (error: any) {
+      logger.error(`Error unrestricting user: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the users a user has blocked or muted
+   */
+  async getRestrictedUsers(userId: string, type: RestrictionType, options: PageOptions): Promise<Page<RestrictionWithUser>> {
+    try {
+      return await this.restrictionRepository.findByUser(userId, type, options);
+    } catch (error: any) {
+      logger.error(`Error fetching restricted users: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -1,57 +1,31 @@
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { UserService } from './user.service';
-import { z } from 'zod';
-import logger from '../../utils/logger';
-
-// Validation schemas
-const userCreateSchema = z.object({
-  email: z.string().email(),
-  displayName: z.string().min(2).max(50),
-  bio: z.string().max(500).optional(),
-  avatarUrl: z.string().url().optional(),
-  coverUrl: z.string().url().optional(),
-  location: z.string().max(100).optional(),
-  roleId: z.string().uuid()
-});
-
-const userUpdateSchema = z.object({
-  email: z.string().email().optional(),
-  displayName: z.string().min(2).max(50).optional(),
-  bio: z.string().max(500).optional(),
-  avatarUrl: z.string().url().optional(),
-  coverUrl: z.string().url().optional(),
-  location: z.string().max(100).optional()
-});
+import { NotFoundError, UnauthorizedError } from '../../utils/errors';
+import { userSchemas } from './user.schemas';
+import { ValidatedRequest } from '../../middleware/validate';
+import { pageResponse } from '../../utils/pagination';
 
 export class UserController {
   private userService: UserService;
 
-  constructor() {
-    this.userService = new UserService();
+  constructor(userService: UserService) {
+    this.userService = userService;
   }
 
   /**
    * Get current authenticated user
    */
-  async getCurrentUser(req: Request, res: Response): Promise<void> {
+  async getCurrentUser(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       // User should be attached to request by auth middleware
       if (!req.user?.id) {
-        res.status(401).json({
-          success: false,
-          message: 'Not authenticated'
-        });
-        return;
+        throw new UnauthorizedError('Not authenticated');
       }
 
       const user = await this.userService.getUserById(req.user.id);
       
       if (!user) {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
+        throw new NotFoundError('User not found');
       }
 
       // Remove sensitive data
@@ -61,30 +35,26 @@ export class UserController {
         success: true,
         data: safeUser
       });
-    } catch (error: any) {
-      logger.error(`Error in getCurrentUser: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Get user by ID
    */
-  async getUserById(req: Request, res: Response): Promise<void> {
+  async getUserById(req: ValidatedRequest<typeof userSchemas.getById>, res: Response, next: NextFunction): Promise<void> {
     try {
+      // Ensure user is authenticated
+      if (!req.user?.id) {
+        throw new UnauthorizedError();
+      }
+
       const { id } = req.params;
-      const user = await this.userService.getUserById(id);
+      const user = await this.userService.getUserProfile(id, req.user);
       
       if (!user) {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-        return;
+        throw new NotFoundError('User not found');
       }
 
       // Remove sensitive data for public profile
@@ -94,46 +64,26 @@ export class UserController {
         success: true,
         data: publicUser
       });
-    } catch (error: any) {
-      logger.error(`Error in getUserById: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Update user profile
    */
-  async updateUser(req: Request, res: Response): Promise<void> {
+  async updateUser(req: ValidatedRequest<typeof userSchemas.update>, res: Response, next: NextFunction): Promise<void> {
     try {
       // Ensure user is updating their own profile (checked by middleware)
       const userId = req.user?.id;
       
       if (!userId) {
-        res.status(401).json({
-          success: false,
-          message: 'Not authenticated'
-        });
-        return;
+        throw new UnauthorizedError('Not authenticated');
       }
       
-      // Validate request body
-      const validationResult = userUpdateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
 
       // Update user
-      const updatedUser = await this.userService.updateUser(userId, validationResult.data);
+      const updatedUser = await this.userService.updateUser(userId, req.body);
       
       // Remove sensitive data
       const { passwordHash, ...safeUser } = updatedUser;
@@ -143,88 +93,40 @@ export class UserController {
         message: 'Profile updated successfully',
         data: safeUser
       });
-    } catch (error: any) {
-      logger.error(`Error in updateUser: ${error.message}`);
-      
-      if (error.message === 'Email already in use') {
-        res.status(409).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Search users
    */
-  async searchUsers(req: Request, res: Response): Promise<void> {
+  async searchUsers(req: ValidatedRequest<typeof userSchemas.search>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const query = req.query.q as string;
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
+      const { q, ...options } = req.query;
 
-      if (!query) {
-        res.status(400).json({
-          success: false,
-          message: 'Search query is required'
-        });
-        return;
-      }
-
-      const results = await this.userService.searchUsers(query, page, limit);
+      const results = await this.userService.searchUsers(q, options);
       
       // Remove sensitive data from results
-      const safeUsers = results.users.map(user => {
+      const safeUsers = results.items.map(user => {
         const { passwordHash, ...safeUser } = user;
         return safeUser;
       });
       
-      res.status(200).json({
-        success: true,
-        data: safeUsers,
-        meta: {
-          total: results.total,
-          page,
-          limit,
-          totalPages: Math.ceil(results.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in searchUsers: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse({ ...results, items: safeUsers }));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Admin-only: Create a new user
    */
-  async createUser(req: Request, res: Response): Promise<void> {
+  async createUser(req: ValidatedRequest<typeof userSchemas.create>, res: Response, next: NextFunction): Promise<void> {
     try {
-      // Validate request body
-      const validationResult = userCreateSchema.safeParse(req.body);
-      
-      if (!validationResult.success) {
-        res.status(400).json({
-          success: false,
-          message: 'Invalid data',
-          errors: validationResult.error.errors
-        });
-        return;
-      }
 
       // Create user
-      const newUser = await this.userService.createUser(validationResult.data);
+      const newUser = await this.userService.createUser(req.body);
       
       // Remove sensitive data
       const { passwordHash, ...safeUser } = newUser;
@@ -234,64 +136,34 @@ export class UserController {
         message: 'User created successfully',
         data: safeUser
       });
-    } catch (error: any) {
-      logger.error(`Error in createUser: ${error.message}`);
-      
-      if (error.message === 'User with this email already exists') {
-        res.status(409).json({
-          success: false,
-          message: error.message
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Admin-only: Get all users with pagination
    */
-  async getAllUsers(req: Request, res: Response): Promise<void> {
+  async getAllUsers(req: ValidatedRequest<typeof userSchemas.list>, res: Response, next: NextFunction): Promise<void> {
     try {
-      const page = parseInt(req.query.page as string || '1');
-      const limit = parseInt(req.query.limit as string || '10');
-      
-      const results = await this.userService.getAllUsers(page, limit);
+      const results = await this.userService.getAllUsers(req.query);
       
       // Remove sensitive data from results
-      const safeUsers = results.users.map(user => {
+      const safeUsers = results.items.map(user => {
         const { passwordHash, ...safeUser } = user;
         return safeUser;
       });
       
-      res.status(200).json({
-        success: true,
-        data: safeUsers,
-        meta: {
-          total: results.total,
-          page,
-          limit,
-          totalPages: Math.ceil(results.total / limit)
-        }
-      });
-    } catch (error: any) {
-      logger.error(`Error in getAllUsers: ${error.message}`);
-      res.status(500).json({
-        success: false,
-        message: 'Server error',
-        error: error.message
-      });
+      res.status(200).json(pageResponse({ ...results, items: safeUsers }));
+    } catch (error) {
+      next(error);
     }
   }
 
   /**
    * Admin-only: Delete a user
    */
-  async deleteUser(req: Request, res: Response): Promise<void> {
+  async deleteUser(req: ValidatedRequest<typeof userSchemas.remove>, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
       
@@ -301,21 +173,8 @@ export class UserController {
         success: true,
         message: 'User deleted successfully'
       });
-    } catch (error: any) {
-      logger.error(`Error in deleteUser: ${error.message}`);
-      
-      if (error.message === 'User not found') {
-        res.status(404).json({
-          success: false,
-          message: 'User not found'
-        });
-      } else {
-        res.status(500).json({
-          success: false,
-          message: 'Server error',
-          error: error.message
-        });
-      }
+    } catch (error) {
+      next(error);
     }
   }
 }
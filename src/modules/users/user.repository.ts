@@ -1,14 +1,15 @@
-import { PrismaClient, User, Role } from '@prisma/client';
-
-const prisma = new PrismaClient();
+import { User, Role, Permission } from '@prisma/client';
+import { DbClient } from '../../config/database';
+import { Page, PageOptions, paginate } from '../../utils/pagination';
 
 // Type for user creation without ID and timestamps
 export type CreateUserInput = {
+  externalAuthId?: string | null;
   email: string;
   passwordHash?: string;
   displayName: string;
   bio?: string;
-  avatarUrl?: string;
+  avatarUrl?: string | null;
   coverUrl?: string;
   location?: string;
   roleId: string;
@@ -17,17 +18,36 @@ export type CreateUserInput = {
 // Type for user update
 export type UpdateUserInput = Partial<CreateUserInput>;
 
+// Stripe Connect status stored on the seller's profile
+export type UpdateConnectStatusInput = {
+  stripeAccountId: string;
+  stripeDetailsSubmitted: boolean;
+  stripeChargesEnabled: boolean;
+  stripePayoutsEnabled: boolean;
+};
+
 // User with role information
 export type UserWithRole = User & {
   role: Role;
 };
 
+// User with their role and the permissions it grants
+export type UserWithPermissions = User & {
+  role: Role & { permissions: Permission[] };
+};
+
 export class UserRepository {
+  private db: DbClient;
+
+  constructor(db: DbClient) {
+    this.db = db;
+  }
+
   /**
    * Create a new user
    */
   async create(data: CreateUserInput): Promise<User> {
-    return prisma.user.create({
+    return this.db.user.create({
       data
     });
   }
@@ -36,7 +56,7 @@ export class UserRepository {
    * Find a user by ID
    */
   async findById(id: string): Promise<UserWithRole | null> {
-    return prisma.user.findUnique({
+    return this.db.user.findUnique({
       where: { id },
       include: { role: true }
     });
@@ -46,17 +66,56 @@ export class UserRepository {
    * Find a user by email
    */
   async findByEmail(email: string): Promise<UserWithRole | null> {
-    return prisma.user.findUnique({
+    return this.db.user.findUnique({
       where: { email },
       include: { role: true }
     });
   }
 
+  /**
+   * Find a user by their Clerk user ID
+   */
+  async findByExternalAuthId(externalAuthId: string): Promise<UserWithRole | null> {
+    return this.db.user.findUnique({
+      where: { externalAuthId },
+      include: { role: true }
+    });
+  }
+
+  /**
+   * Find a user with their role's permissions, by ID or Clerk user ID
+   */
+  async findWithPermissions(where: { id: string } | { externalAuthId: string }): Promise<UserWithPermissions | null> {
+    return this.db.user.findUnique({
+      where,
+      include: { role: { include: { permissions: true } } }
+    });
+  }
+
+  /**
+   * Find a user by their Stripe Connect account ID
+   */
+  async findByStripeAccountId(stripeAccountId: string): Promise<User | null> {
+    return this.db.user.findUnique({
+      where: { stripeAccountId }
+    });
+  }
+
+  /**
+   * Save a seller's Stripe Connect status
+   */
+  async updateConnectStatus(id: string, data: UpdateConnectStatusInput): Promise<User> {
+    return this.db.user.update({
+      where: { id },
+      data
+    });
+  }
+
   /**
    * Update a user
    */
   async update(id: string, data: UpdateUserInput): Promise<User> {
-    return prisma.user.update({
+    return this.db.user.update({
       where: { id },
       data
     });
@@ -66,38 +125,28 @@ export class UserRepository {
    * Delete a user
    */
   async delete(id: string): Promise<User> {
-    return prisma.user.delete({
+    return this.db.user.delete({
       where: { id }
     });
   }
 
   /**
-   * Find all users with optional pagination
+   * Find a page of users
    */
-  async findAll(page: number = 1, limit: number = 10): Promise<{ users: UserWithRole[], total: number }> {
-    const skip = (page - 1) * limit;
-    
-    const [users, total] = await Promise.all([
-      prisma.user.findMany({
-        skip,
-        take: limit,
-        include: { role: true },
-        orderBy: { createdAt: 'desc' }
-      }),
-      prisma.user.count()
-    ]);
-
-    return { users, total };
+  async findAll(options: PageOptions): Promise<Page<UserWithRole>> {
+    return paginate(options, {
+      findMany: (args) => this.db.user.findMany({ ...args, include: { role: true } }),
+      count: () => this.db.user.count()
+    });
   }
 
   /**
    * Search users by display name or email
    */
-  async search(query: string, page: number = 1, limit: number = 10): Promise<{ users: UserWithRole[], total: number }> {
-    const skip = (page - 1) * limit;
-    
-    const [users, total] = await Promise.all([
-      prisma.user.findMany({
+  async search(query: string, options: PageOptions): Promise<Page<UserWithRole>> {
+    return paginate(options, {
+      findMany: (args) => this.db.user.findMany({
+        ...args,
         where: {
           OR: [
             { displayName: { contains: query, mode: 'insensitive' } },
@@ -105,12 +154,9 @@ export class UserRepository {
             { bio: { contains: query, mode: 'insensitive' } }
           ]
         },
-        skip,
-        take: limit,
-        include: { role: true },
-        orderBy: { createdAt: 'desc' }
+        include: { role: true }
       }),
-      prisma.user.count({
+      count: () => this.db.user.count({
         where: {
           OR: [
             { displayName: { contains: query, mode: 'insensitive' } },
@@ -119,8 +165,6 @@ export class UserRepository {
           ]
         }
       })
-    ]);
-
-    return { users, total };
+    });
   }
 }
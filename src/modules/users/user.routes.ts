@@ -1,31 +1,57 @@
 import { Router } from 'express';
-import { UserController } from './user.controller';
-import { requireAuth, populateUser, requireRole, requireSelf, requireSelfOrAdmin } from '../../middleware/auth';
-
-const router = Router();
-const userController = new UserController();
-
-// Public routes - None for users module
-
-// Protected routes - require authentication
-router.use(requireAuth);
-router.use(populateUser);
-
-// Get current user profile
-router.get('/me', (req, res) => userController.getCurrentUser(req, res));
-
-// Update current user profile
-router.put('/update', (req, res) => userController.updateUser(req, res));
-
-// Get user by ID (public profile)
-router.get('/:id', (req, res) => userController.getUserById(req, res));
-
-// Search users
-router.get('/search', (req, res) => userController.searchUsers(req, res));
-
-// Admin-only routes
-router.get('/', requireRole('Admin'), (req, res) => userController.getAllUsers(req, res));
-router.post('/', requireRole('Admin'), (req, res) => userController.createUser(req, res));
-router.delete('/:id', requireRole('Admin'), (req, res) => userController.deleteUser(req, res));
-
-export default router;
+import { Container } from '../../container';
+import { requireAuth, requirePermission } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { userSchemas } from './user.schemas';
+import { followSchemas } from './follow.schemas';
+import { restrictionSchemas } from './restriction.schemas';
+import { roleSchemas } from '../roles/role.schemas';
+
+/**
+ * User routes, mounted at /api/users
+ */
+export const createUserRoutes = ({ userController, followController, restrictionController, roleController, auth }: Container): Router => {
+  const router = Router();
+
+  // Public routes - None for users module
+
+  // Protected routes - require authentication
+  router.use(requireAuth);
+  router.use(auth.populateUser);
+
+  // Get current user profile
+  router.get('/me', validate(userSchemas.me), (req, res, next) => userController.getCurrentUser(req, res, next));
+
+  // Update current user profile
+  router.put('/update', validate(userSchemas.update), (req, res, next) => userController.updateUser(req, res, next));
+
+  // Search users (registered before /:id so it isn't shadowed)
+  router.get('/search', validate(userSchemas.search), (req, res, next) => userController.searchUsers(req, res, next));
+
+  // Users the current user has blocked or muted (also registered before /:id)
+  router.get('/blocks', validate(restrictionSchemas.list), (req, res, next) => restrictionController.getBlockedUsers(req, res, next));
+  router.get('/mutes', validate(restrictionSchemas.list), (req, res, next) => restrictionController.getMutedUsers(req, res, next));
+
+  // Get user by ID (public profile)
+  router.get('/:id', validate(userSchemas.getById), (req, res, next) => userController.getUserById(req, res, next));
+
+  // Follow graph
+  router.post('/:id/follow', validate(followSchemas.follow), (req, res, next) => followController.followUser(req, res, next));
+  router.delete('/:id/follow', validate(followSchemas.unfollow), (req, res, next) => followController.unfollowUser(req, res, next));
+  router.get('/:id/followers', validate(followSchemas.list), (req, res, next) => followController.getFollowers(req, res, next));
+  router.get('/:id/following', validate(followSchemas.list), (req, res, next) => followController.getFollowing(req, res, next));
+
+  // Blocking and muting
+  router.post('/:id/block', validate(restrictionSchemas.restrict), (req, res, next) => restrictionController.blockUser(req, res, next));
+  router.delete('/:id/block', validate(restrictionSchemas.lift), (req, res, next) => restrictionController.unblockUser(req, res, next));
+  router.post('/:id/mute', validate(restrictionSchemas.restrict), (req, res, next) => restrictionController.muteUser(req, res, next));
+  router.delete('/:id/mute', validate(restrictionSchemas.lift), (req, res, next) => restrictionController.unmuteUser(req, res, next));
+
+  // Routes that require a permission
+  router.get('/', requirePermission('user:manage'), validate(userSchemas.list), (req, res, next) => userController.getAllUsers(req, res, next));
+  router.post('/', requirePermission('user:manage'), validate(userSchemas.create), (req, res, next) => userController.createUser(req, res, next));
+  router.delete('/:id', requirePermission('user:manage'), validate(userSchemas.remove), (req, res, next) => userController.deleteUser(req, res, next));
+  router.put('/:id/role', requirePermission('role:manage'), validate(roleSchemas.assign), (req, res, next) => roleController.assignRole(req, res, next));
+
+  return router;
+};
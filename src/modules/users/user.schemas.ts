@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { idParams, pageQuery, timestamp } from '../../utils/schemas';
+
+// Lists of users sort on these fields, newest first by default
+const userListQuery = pageQuery(['createdAt', 'displayName']);
+
+/**
+ * A user as other users see them: no email or password hash
+ */
+export const publicUserResponse = z.object({
+  id: z.string().uuid(),
+  externalAuthId: z.string().nullable(),
+  displayName: z.string(),
+  bio: z.string().nullable(),
+  avatarUrl: z.string().nullable(),
+  coverUrl: z.string().nullable(),
+  location: z.string().nullable(),
+  stripeAccountId: z.string().nullable(),
+  stripeDetailsSubmitted: z.boolean(),
+  stripeChargesEnabled: z.boolean(),
+  stripePayoutsEnabled: z.boolean(),
+  roleId: z.string().uuid(),
+  createdAt: timestamp,
+  updatedAt: timestamp
+});
+
+/**
+ * A user as they and admins see them
+ */
+export const privateUserResponse = publicUserResponse.extend({
+  email: z.string().email()
+});
+
+const role = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  description: z.string().nullable()
+});
+
+/**
+ * A user as they and admins see them, with their role
+ */
+export const userResponse = privateUserResponse.extend({ role });
+
+/**
+ * Request and response schemas for user routes
+ */
+export const userSchemas = {
+  me: {
+    response: userResponse
+  },
+
+  create: {
+    body: z.object({
+      email: z.string().email(),
+      displayName: z.string().min(2).max(50),
+      bio: z.string().max(500).optional(),
+      avatarUrl: z.string().url().optional(),
+      coverUrl: z.string().url().optional(),
+      location: z.string().max(100).optional(),
+      roleId: z.string().uuid()
+    }),
+    response: privateUserResponse
+  },
+
+  getById: {
+    params: idParams,
+    response: publicUserResponse.extend({ role })
+  },
+
+  update: {
+    body: z.object({
+      email: z.string().email().optional(),
+      displayName: z.string().min(2).max(50).optional(),
+      bio: z.string().max(500).optional(),
+      avatarUrl: z.string().url().optional(),
+      coverUrl: z.string().url().optional(),
+      location: z.string().max(100).optional()
+    }),
+    response: privateUserResponse
+  },
+
+  remove: {
+    params: idParams
+  },
+
+  list: {
+    query: userListQuery,
+    response: z.array(userResponse)
+  },
+
+  search: {
+    query: userListQuery.extend({
+      q: z.string().min(1, 'Search query is required')
+    }),
+    response: z.array(userResponse)
+  }
+};
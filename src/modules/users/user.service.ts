@@ -1,12 +1,18 @@
 import { User } from '@prisma/client';
 import { UserRepository, CreateUserInput, UpdateUserInput, UserWithRole } from './user.repository';
+import { RestrictionRepository } from './restriction.repository';
+import { Actor, hasPermission } from '../../utils/policy';
 import logger from '../../utils/logger';
+import { ConflictError, NotFoundError } from '../../utils/errors';
+import { Page, PageOptions } from '../../utils/pagination';
 
 export class UserService {
   private userRepository: UserRepository;
+  private restrictionRepository: RestrictionRepository;
 
-  constructor() {
-    this.userRepository = new UserRepository();
+  constructor(userRepository: UserRepository, restrictionRepository: RestrictionRepository) {
+    this.userRepository = userRepository;
+    this.restrictionRepository = restrictionRepository;
   }
 
   /**
@@ -17,7 +23,7 @@ export class UserService {
       // Check if user with email already exists
       const existingUser = await this.userRepository.findByEmail(userData.email);
       if (existingUser) {
-        throw new Error('User with this email already exists');
+        throw new ConflictError('User with this email already exists');
       }
 
       // Create new user
@@ -40,6 +46,27 @@ export class UserService {
     }
   }
 
+  /**
+   * Get a user's profile as another user sees it
+   * Users who have blocked the viewer are not found, unless the viewer manages users.
+   */
+  async getUserProfile(userId: string, viewer: Actor): Promise<UserWithRole | null> {
+    try {
+      if (
+        userId !== viewer.id
+        && !hasPermission(viewer, 'user:manage')
+        && await this.restrictionRepository.find(userId, viewer.id, 'block')
+      ) {
+        return null;
+      }
+
+      return await this.userRepository.findById(userId);
+    } catch (error: any) {
+      logger.error(`Error fetching user profile: ${error.message}`);
+      throw error;
+    }
+  }
+
   /**
    * Get a user by email
    */
@@ -60,14 +87,14 @@ export class UserService {
       // Check if user exists
       const user = await this.userRepository.findById(userId);
       if (!user) {
-        throw new Error('User not found');
+        throw new NotFoundError('User not found');
       }
 
       // If email is being updated, check if it's already taken
       if (updateData.email && updateData.email !== user.email) {
         const existingUser = await this.userRepository.findByEmail(updateData.email);
         if (existingUser) {
-          throw new Error('Email already in use');
+          throw new ConflictError('Email already in use');
         }
       }
 
@@ -86,7 +113,7 @@ export class UserService {
       // Check if user exists
       const user = await this.userRepository.findById(userId);
       if (!user) {
-        throw new Error('User not found');
+        throw new NotFoundError('User not found');
       }
 
       return await this.userRepository.delete(userId);
@@ -99,9 +126,9 @@ export class UserService {
   /**
    * Get all users with pagination
    */
-  async getAllUsers(page: number = 1, limit: number = 10): Promise<{ users: UserWithRole[], total: number }> {
+  async getAllUsers(options: PageOptions): Promise<Page<UserWithRole>> {
     try {
-      return await this.userRepository.findAll(page, limit);
+      return await this.userRepository.findAll(options);
     } catch (error: any) {
       logger.error(`Error fetching all users: ${error.message}`);
       throw error;
@@ -111,9 +138,9 @@ export class UserService {
   /**
    * Search users
    */
-  async searchUsers(query: string, page: number = 1, limit: number = 10): Promise<{ users: UserWithRole[], total: number }> {
+  async searchUsers(query: string, options: PageOptions): Promise<Page<UserWithRole>> {
     try {
-      return await this.userRepository.search(query, page, limit);
+      return await this.userRepository.search(query, options);
     } catch (error: any) {
       logger.error(`Error searching users: ${error.message}`);
       throw error;
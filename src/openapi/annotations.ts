@@ -0,0 +1,20 @@
+import type { RequestSchemas } from '../middleware/validate';
+
+// What a middleware tells the OpenAPI document about the routes it guards
+export type RouteAnnotation = {
+  schemas?: RequestSchemas;
+  auth?: boolean;
+  permissions?: string[];
+};
+
+const annotations = new WeakMap<Function, RouteAnnotation>();
+
+/**
+ * Record what a middleware requires, so the document can be read off the routes
+ */
+export const annotate = <H extends Function>(handler: H, annotation: RouteAnnotation): H => {
+  annotations.set(handler, annotation);
+  return handler;
+};
+
+export const annotationOf = (handler: Function): RouteAnnotation | undefined => annotations.get(handler);
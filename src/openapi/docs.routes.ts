@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { OpenApiDocument } from './document';
+
+/**
+ * API reference routes, mounted at /docs
+ */
+export const createDocsRoutes = (document: OpenApiDocument): Router => {
+  const router = Router();
+
+  // The raw document, for client generators and tests
+  router.get('/openapi.json', (req, res) => {
+    res.status(200).json(document);
+  });
+
+  // Interactive UI
+  router.use('/', swaggerUi.serve);
+  router.get('/', swaggerUi.setup(document));
+
+  return router;
+};
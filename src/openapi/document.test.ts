@@ -0,0 +1,65 @@
+import request from 'supertest';
+import { PrismaClient } from '@prisma/client';
+import { createApp, createContainer, undocumentedRoutes, FakeStripe } from '../testing';
+import { OpenApiDocument } from './document';
+
+const prisma = new PrismaClient();
+const app = createApp(createContainer({ prisma, stripe: new FakeStripe() }));
+
+let document: OpenApiDocument;
+
+// The data schema inside an operation's success envelope, if it declares one
+const dataSchema = (path: string, method: string) => {
+  const success = document.paths[path][method].responses['2XX'];
+  const envelope = 'content' in success ? success.content['application/json'].schema : undefined;
+
+  return (envelope?.allOf as { properties?: { data?: Record<string, any> } }[] | undefined)
+    ?.find(part => part.properties?.data)?.properties?.data;
+};
+
+beforeAll(async () => {
+  const response = await request(app).get('/docs/openapi.json');
+
+  expect(response.status).toBe(200);
+  document = response.body;
+});
+
+afterAll(async () => {
+  await prisma.$disconnect();
+});
+
+describe('OpenAPI document', () => {
+  it('documents every API route', () => {
+    expect(undocumentedRoutes(app, document)).toEqual([]);
+  });
+
+  it('documents the data every read route responds with', () => {
+    const undescribed = Object.entries(document.paths)
+      .filter(([path, operations]) => operations.get && !dataSchema(path, 'get'))
+      .map(([path]) => `GET ${path}`);
+
+    expect(undescribed).toEqual([]);
+  });
+
+  it('describes response data from the route schemas', () => {
+    expect(dataSchema('/api/orders/{id}', 'get')).toMatchObject({
+      type: 'object',
+      properties: {
+        status: { type: 'string', enum: expect.arrayContaining(['pending', 'completed']) },
+        product: { type: 'object', properties: { seller: { type: 'object' } } }
+      }
+    });
+
+    expect(dataSchema('/api/products', 'get')).toMatchObject({ type: 'array', items: { type: 'object' } });
+  });
+
+  it('answers message-only routes with the plain success envelope', () => {
+    expect(document.paths['/api/products/{id}'].delete.responses['2XX'])
+      .toEqual({ $ref: '#/components/responses/Success' });
+  });
+
+  it('leaves out the 422 response on routes that validate nothing', () => {
+    expect(document.paths['/api/users/me'].get.responses['422']).toBeUndefined();
+    expect(document.paths['/api/users/{id}'].get.responses['422']).toBeDefined();
+  });
+});
@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { ZodEffects, ZodObject, ZodOptional, ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { annotationOf, RouteAnnotation } from './annotations';
+
+// Routers by the path they are mounted at
+export type RouterMounts = Record<string, Router>;
+
+type JsonSchema = Record<string, unknown>;
+
+type Reference = { $ref: string };
+
+type Response = {
+  description: string;
+  content: Record<string, { schema: JsonSchema }>;
+};
+
+type Parameter = {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  schema: JsonSchema;
+};
+
+type Operation = {
+  tags: string[];
+  description?: string;
+  security?: Record<string, string[]>[];
+  parameters?: Parameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<string, Reference | Response>;
+};
+
+export type OpenApiDocument = {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  paths: Record<string, Record<string, Operation>>;
+  components: Record<string, Record<string, unknown>>;
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+});
+
+// Envelopes shared by every route; see middleware/error.ts for the error body
+const components: OpenApiDocument['components'] = {
+  securitySchemes: {
+    bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }
+  },
+  schemas: {
+    SuccessResponse: {
+      type: 'object',
+      required: ['success'],
+      properties: {
+        success: { type: 'boolean', enum: [true] },
+        message: { type: 'string' },
+        data: {},
+        // List responses only; see utils/pagination.ts
+        pagination: {
+          type: 'object',
+          required: ['limit', 'hasMore', 'nextCursor'],
+          properties: {
+            limit: { type: 'integer' },
+            hasMore: { type: 'boolean' },
+            nextCursor: { type: 'string', nullable: true },
+            page: { type: 'integer' },
+            total: { type: 'integer' },
+            totalPages: { type: 'integer' }
+          }
+        },
+        meta: { type: 'object', additionalProperties: true }
+      }
+    },
+    ErrorResponse: {
+      type: 'object',
+      required: ['success', 'message', 'code'],
+      properties: {
+        success: { type: 'boolean', enum: [false] },
+        message: { type: 'string' },
+        code: { type: 'string' },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['path', 'message'],
+            properties: {
+              path: { type: 'array', items: { oneOf: [{ type: 'string' }, { type: 'number' }] } },
+              message: { type: 'string' }
+            }
+          }
+        }
+      }
+    }
+  },
+  responses: {
+    Success: {
+      description: 'Success',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/SuccessResponse' } } }
+    },
+    Unauthorized: errorResponse('Authentication required'),
+    Forbidden: errorResponse('Insufficient permissions'),
+    ValidationFailed: errorResponse('Invalid params, query or body'),
+    TooManyRequests: errorResponse('Rate limit exceeded; retry after the Retry-After header'),
+    Error: errorResponse('Error')
+  }
+};
+
+// The converter types its argument against zod/v3: the same classes as ours, which
+// the checker can't compare in reasonable depth
+type ConvertibleSchema = Parameters<typeof zodToJsonSchema>[0];
+
+const toJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema as unknown as ConvertibleSchema, { target: 'openApi3', $refStrategy: 'none' }) as JsonSchema;
+  return jsonSchema;
+};
+
+// Fields of an object schema, looking through refinements
+const fieldsOf = (schema: ZodTypeAny | undefined): Record<string, ZodTypeAny> => {
+  if (schema instanceof ZodEffects) {
+    return fieldsOf(schema.innerType());
+  }
+
+  return schema instanceof ZodObject ? schema.shape : {};
+};
+
+// The success envelope with the route's own data in it
+const successResponse = (data: ZodTypeAny): Response => ({
+  description: 'Success',
+  content: {
+    'application/json': {
+      schema: {
+        allOf: [
+          { $ref: '#/components/schemas/SuccessResponse' },
+          { type: 'object', required: ['data'], properties: { data: toJsonSchema(data) } }
+        ]
+      }
+    }
+  }
+});
+
+// Express "/:id" becomes OpenAPI "/{id}"
+const toOpenApiPath = (mountPath: string, routePath: string): string => {
+  const path = routePath === '/' ? mountPath : mountPath + routePath;
+  return path.replace(/:(\w+)/g, '{$1}');
+};
+
+// Combine the annotations of every middleware a route passes through
+const mergeAnnotations = (annotations: RouteAnnotation[]): RouteAnnotation => ({
+  schemas: annotations.reduce<RouteAnnotation['schemas']>((schemas, annotation) => annotation.schemas ?? schemas, undefined),
+  auth: annotations.some(annotation => annotation.auth),
+  permissions: annotations.flatMap(annotation => annotation.permissions ?? [])
+});
+
+const buildOperation = (tag: string, routePath: string, { schemas, auth, permissions = [] }: RouteAnnotation): Operation => {
+  const paramFields = fieldsOf(schemas?.params);
+  const queryFields = fieldsOf(schemas?.query);
+
+  const parameters: Parameter[] = [
+    ...Array.from(routePath.matchAll(/:(\w+)/g), ([, name]): Parameter => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: paramFields[name] ? toJsonSchema(paramFields[name]) : { type: 'string' }
+    })),
+    ...Object.entries(queryFields).map(([name, field]): Parameter => ({
+      name,
+      in: 'query',
+      required: !field.isOptional(),
+      // Optionality is carried by `required`, not the schema
+      schema: toJsonSchema(field instanceof ZodOptional ? field.unwrap() : field)
+    }))
+  ];
+
+  const operation: Operation = {
+    tags: [tag],
+    // Routes without response data answer with a message only
+    responses: { '2XX': schemas?.response ? successResponse(schemas.response) : { $ref: '#/components/responses/Success' } }
+  };
+
+  if (permissions.length > 0) {
+    operation.description = `Requires the ${permissions.join(' and ')} permission`;
+  }
+
+  if (auth) {
+    operation.security = [{ bearerAuth: [] }];
+  }
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+
+  if (schemas?.body) {
+    operation.requestBody = {
+      required: true,
+      content: { 'application/json': { schema: toJsonSchema(schemas.body) } }
+    };
+  }
+
+  if (auth) {
+    operation.responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+  }
+
+  if (permissions.length > 0) {
+    operation.responses['403'] = { $ref: '#/components/responses/Forbidden' };
+  }
+
+  if (schemas?.params || schemas?.query || schemas?.body) {
+    operation.responses['422'] = { $ref: '#/components/responses/ValidationFailed' };
+  }
+
+  // Every /api route is rate limited (see app.ts)
+  operation.responses['429'] = { $ref: '#/components/responses/TooManyRequests' };
+  operation.responses.default = { $ref: '#/components/responses/Error' };
+
+  return operation;
+};
+
+/**
+ * Build the OpenAPI document by walking the mounted routers
+ * Each route is described by the middleware it passes through: validate()
+ * supplies its schemas, requireAuth and requirePermission its security. Router-level
+ * middleware applies to the routes registered after it, as in Express.
+ */
+export const buildOpenApiDocument = (routers: RouterMounts): OpenApiDocument => {
+  const paths: OpenApiDocument['paths'] = {};
+
+  for (const [mountPath, router] of Object.entries(routers)) {
+    const tag = mountPath.split('/').pop() as string;
+    let inherited: RouteAnnotation[] = [];
+
+    for (const layer of router.stack) {
+      const { route } = layer;
+
+      if (!route) {
+        const annotation = annotationOf(layer.handle);
+        inherited = annotation ? [...inherited, annotation] : inherited;
+        continue;
+      }
+
+      const path = toOpenApiPath(mountPath, route.path);
+      const methods = new Set(route.stack.map(handler => handler.method));
+
+      for (const method of methods) {
+        const annotations = route.stack
+          .filter(handler => handler.method === method)
+          .map(handler => annotationOf(handler.handle))
+          .filter((annotation): annotation is RouteAnnotation => !!annotation);
+
+        paths[path] = {
+          ...paths[path],
+          [method]: buildOperation(tag, route.path, mergeAnnotations([...inherited, ...annotations]))
+        };
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Booth API',
+      version: '1.0.0',
+      description: 'Generated from the route definitions. See docs/API_DOCUMENTATION.md for guides and examples.'
+    },
+    paths,
+    components
+  };
+};
@@ -0,0 +1,38 @@
+import { PrismaClient, User } from '@prisma/client';
+import { TEST_TOKEN_PREFIX } from '../middleware/auth';
+
+/**
+ * Authorization header for a user when AUTH_MODE=test
+ */
+export const authHeader = (userId: string): { Authorization: string } => ({
+  Authorization: `Bearer ${TEST_TOKEN_PREFIX}${userId}`
+});
+
+/**
+ * Create a user with a role, creating the role without permissions if it isn't seeded
+ */
+export const createTestUser = async (
+  prisma: PrismaClient,
+  data: Partial<Pick<User, 'email' | 'displayName' | 'stripeAccountId' | 'stripePayoutsEnabled'>> & {
+    role?: string;
+  } = {}
+): Promise<User> => {
+  const { role: roleName = 'User', ...user } = data;
+
+  const role = await prisma.role.upsert({
+    where: { name: roleName },
+    update: {},
+    create: { name: roleName }
+  });
+
+  const suffix = Math.random().toString(36).slice(2, 10);
+
+  return prisma.user.create({
+    data: {
+      email: `user-${suffix}@example.test`,
+      displayName: `Test user ${suffix}`,
+      ...user,
+      roleId: role.id
+    }
+  });
+};
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import type { UserJSON } from '@clerk/clerk-sdk-node';
+import { Webhook } from 'svix';
+import { SvixHeaders } from '../modules/users/clerk-webhook.service';
+
+type ClerkUserEventType = 'user.created' | 'user.updated' | 'user.deleted';
+
+/**
+ * Build a Clerk user webhook event
+ * Only the fields the webhook handler reads are filled in; user.deleted
+ * carries just the ID, like Clerk's.
+ */
+export const clerkUserEvent = (
+  type: ClerkUserEventType,
+  user: Partial<Pick<UserJSON, 'id' | 'first_name' | 'last_name' | 'username' | 'image_url'>> & {
+    email?: string;
+    emailVerified?: boolean;
+  } = {}
+) => {
+  const { id = `user_${randomUUID().replace(/-/g, '')}`, email = `${id}@example.test`, emailVerified = true, ...profile } = user;
+
+  if (type === 'user.deleted') {
+    return { type, object: 'event', data: { id, object: 'user', deleted: true } };
+  }
+
+  return {
+    type,
+    object: 'event',
+    data: {
+      id,
+      object: 'user',
+      first_name: null,
+      last_name: null,
+      username: null,
+      image_url: '',
+      has_image: !!profile.image_url,
+      primary_email_address_id: 'idn_primary',
+      email_addresses: [{
+        id: 'idn_primary',
+        object: 'email_address',
+        email_address: email,
+        verification: { status: emailVerified ? 'verified' : 'unverified', strategy: 'email_code' }
+      }],
+      ...profile
+    }
+  };
+};
+
+/**
+ * Serialize and sign an event the way Svix delivers Clerk webhooks
+ * Send `payload` as the raw body with `headers`. The secret defaults to the
+ * one set by setup-env.ts.
+ */
+export const signClerkWebhook = (
+  event: unknown,
+  secret: string = process.env.CLERK_WEBHOOK_SECRET as string
+): { payload: string; headers: SvixHeaders } => {
+  const payload = JSON.stringify(event);
+  const id = `msg_${randomUUID()}`;
+  const timestamp = new Date();
+
+  return {
+    payload,
+    headers: {
+      'svix-id': id,
+      'svix-timestamp': Math.floor(timestamp.getTime() / 1000).toString(),
+      'svix-signature': new Webhook(secret).sign(id, timestamp, payload)
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { execSync } from 'child_process';
+import { PrismaClient } from '@prisma/client';
+import { DEFAULT_ROLES, PERMISSIONS, PERMISSION_NAMES } from '../config/permissions';
+
+// Rows the initial migration seeds, restored after each reset
+const RANKING_CATEGORIES = [
+  { id: 'sales', name: 'sales', description: 'Value of orders sold as a seller' },
+  { id: 'reputation', name: 'reputation', description: 'Seller reliability across completed and failed orders' },
+  { id: 'content', name: 'content', description: 'Likes, comments and shares on posted content' }
+];
+
+/**
+ * Point a database URL at a Postgres schema of its own
+ */
+export const withSchema = (databaseUrl: string, schema: string): string => {
+  const url = new URL(databaseUrl);
+  url.searchParams.set('schema', schema);
+  return url.toString();
+};
+
+/**
+ * Schema for a Jest worker, so test files running in parallel never share rows
+ */
+export const workerSchema = (workerId: string = process.env.JEST_WORKER_ID || '1'): string =>
+  `test_${workerId}`;
+
+/**
+ * Apply the migrations in prisma/migrations to a database
+ */
+export const migrateDatabase = (databaseUrl: string): void => {
+  execSync('npx prisma migrate deploy', {
+    env: { ...process.env, DATABASE_URL: databaseUrl },
+    stdio: 'pipe'
+  });
+};
+
+/**
+ * Empty every table in the client's schema and restore the seeded rows
+ * Call it in beforeEach to isolate tests within a file.
+ */
+export const resetDatabase = async (prisma: PrismaClient): Promise<void> => {
+  const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+    SELECT tablename::text AS tablename FROM pg_tables
+    WHERE schemaname = current_schema() AND tablename <> '_prisma_migrations'
+  `;
+
+  if (tables.length > 0) {
+    const names = tables.map(({ tablename }) => `"${tablename}"`).join(', ');
+    await prisma.$executeRawUnsafe(`TRUNCATE TABLE ${names} CASCADE`);
+  }
+
+  await prisma.rankingCategory.createMany({ data: RANKING_CATEGORIES });
+
+  // Permissions and default roles, as the role_permissions migration seeds them
+  await prisma.permission.createMany({
+    data: PERMISSION_NAMES.map(name => ({ id: name, name, description: PERMISSIONS[name] }))
+  });
+
+  for (const { permissions, ...role } of DEFAULT_ROLES) {
+    await prisma.role.create({
+      data: { ...role, permissions: { connect: permissions.map(name => ({ name })) } }
+    });
+  }
+};
@@ -0,0 +1,318 @@
+import Stripe from 'stripe';
+import { StripeClient, setStripeClient } from '../modules/payments/stripe.client';
+
+// Error shaped like the SDK's StripeInvalidRequestError for a missing object
+const resourceMissing = (type: string, id: string): Error =>
+  Object.assign(new Error(`No such ${type}: '${id}'`), {
+    type: 'StripeInvalidRequestError',
+    code: 'resource_missing',
+    statusCode: 404,
+  });
+
+/**
+ * In-memory stand-in for the Stripe resources the payments module uses
+ * Objects only carry the fields the app reads. Idempotency keys return the
+ * first result, like Stripe. Webhook signing uses the real SDK helpers, so
+ * signed payloads pass PaymentService.processWebhook unchanged.
+ */
+export class FakeStripe implements StripeClient {
+  readonly webhooks = new Stripe('sk_test_fake', { apiVersion: '2023-08-16' }).webhooks;
+
+  private sequence = 0;
+  private idempotent = new Map<string, unknown>();
+
+  readonly store = {
+    paymentIntents: new Map<string, Stripe.PaymentIntent>(),
+    charges: new Map<string, Stripe.Charge>(),
+    transfers: new Map<string, Stripe.Transfer>(),
+    refunds: new Map<string, Stripe.Refund>(),
+    accounts: new Map<string, Stripe.Account>(),
+  };
+
+  readonly paymentIntents = {
+    create: async (params: Stripe.PaymentIntentCreateParams, options: Stripe.RequestOptions = {}) =>
+      this.once('pi', options, () => {
+        const id = this.nextId('pi');
+        const paymentIntent = {
+          id,
+          object: 'payment_intent',
+          amount: params.amount,
+          amount_received: 0,
+          currency: params.currency,
+          status: 'requires_payment_method',
+          client_secret: `${id}_secret_fake`,
+          metadata: params.metadata ?? {},
+          latest_charge: null,
+        } as unknown as Stripe.PaymentIntent;
+
+        this.store.paymentIntents.set(id, paymentIntent);
+        return paymentIntent;
+      }),
+
+    retrieve: async (id: string, params: Stripe.PaymentIntentRetrieveParams = {}) => {
+      const paymentIntent = this.getPaymentIntent(id);
+      const chargeId = paymentIntent.latest_charge as string | null;
+
+      if (chargeId && params.expand?.includes('latest_charge')) {
+        return { ...paymentIntent, latest_charge: this.store.charges.get(chargeId) ?? null };
+      }
+
+      return { ...paymentIntent };
+    },
+
+    cancel: async (id: string) => this.updatePaymentIntent(id, { status: 'canceled' }),
+  };
+
+  readonly transfers = {
+    create: async (params: Stripe.TransferCreateParams, options: Stripe.RequestOptions = {}) =>
+      this.once('tr', options, () => {
+        const transfer = {
+          id: this.nextId('tr'),
+          object: 'transfer',
+          amount: params.amount,
+          amount_reversed: 0,
+          currency: params.currency,
+          destination: params.destination,
+          source_transaction: params.source_transaction ?? null,
+          transfer_group: params.transfer_group ?? null,
+          metadata: params.metadata ?? {},
+          reversed: false,
+        } as unknown as Stripe.Transfer;
+
+        this.store.transfers.set(transfer.id, transfer);
+        return transfer;
+      }),
+
+    retrieve: async (id: string) => ({ ...this.getTransfer(id) }),
+
+    createReversal: async (
+      id: string,
+      params: Stripe.TransferReversalCreateParams = {},
+      options: Stripe.RequestOptions = {}
+    ) =>
+      this.once('trr', options, () => {
+        const transfer = this.getTransfer(id);
+        const amount = params.amount ?? transfer.amount - transfer.amount_reversed;
+
+        transfer.amount_reversed += amount;
+        transfer.reversed = transfer.amount_reversed >= transfer.amount;
+
+        return {
+          id: this.nextId('trr'),
+          object: 'transfer_reversal',
+          amount,
+          currency: transfer.currency,
+          transfer: id,
+          metadata: params.metadata ?? {},
+        } as unknown as Stripe.TransferReversal;
+      }),
+  };
+
+  readonly refunds = {
+    create: async (params: Stripe.RefundCreateParams, options: Stripe.RequestOptions = {}) =>
+      this.once('re', options, () => {
+        const paymentIntent = this.getPaymentIntent(params.payment_intent as string);
+        const charge = this.store.charges.get(paymentIntent.latest_charge as string);
+
+        if (!charge) {
+          throw Object.assign(new Error('This PaymentIntent does not have a successful charge to refund.'), {
+            type: 'StripeInvalidRequestError',
+            statusCode: 400,
+          });
+        }
+
+        const amount = params.amount ?? charge.amount - charge.amount_refunded;
+        charge.amount_refunded += amount;
+        charge.refunded = charge.amount_refunded >= charge.amount;
+
+        const refund = {
+          id: this.nextId('re'),
+          object: 'refund',
+          amount,
+          currency: charge.currency,
+          charge: charge.id,
+          payment_intent: paymentIntent.id,
+          status: 'succeeded',
+          metadata: params.metadata ?? {},
+        } as unknown as Stripe.Refund;
+
+        this.store.refunds.set(refund.id, refund);
+        return refund;
+      }),
+  };
+
+  readonly accounts = {
+    create: async (params: Stripe.AccountCreateParams = {}) => {
+      const account = {
+        id: this.nextId('acct'),
+        object: 'account',
+        type: params.type ?? 'express',
+        email: params.email ?? null,
+        country: params.country ?? 'US',
+        details_submitted: false,
+        charges_enabled: false,
+        payouts_enabled: false,
+        metadata: params.metadata ?? {},
+      } as unknown as Stripe.Account;
+
+      this.store.accounts.set(account.id, account);
+      return account;
+    },
+
+    retrieve: async (id: string) => ({ ...this.getAccount(id) }),
+  };
+
+  readonly accountLinks = {
+    create: async (params: Stripe.AccountLinkCreateParams) => ({
+      object: 'account_link',
+      created: this.now(),
+      expires_at: this.now() + 300,
+      url: `https://connect.stripe.test/setup/${params.account}`,
+    }) as Stripe.AccountLink,
+  };
+
+  /**
+   * Use this fake for every PaymentService created from now on
+   */
+  install(): this {
+    setStripeClient(this);
+    return this;
+  }
+
+  /**
+   * Forget all objects and idempotency keys
+   */
+  reset(): void {
+    Object.values(this.store).forEach(map => map.clear());
+    this.idempotent.clear();
+    this.sequence = 0;
+  }
+
+  /**
+   * Mark a payment intent as paid, creating its charge
+   */
+  succeedPaymentIntent(id: string): Stripe.PaymentIntent {
+    const paymentIntent = this.getPaymentIntent(id);
+    const charge = {
+      id: this.nextId('ch'),
+      object: 'charge',
+      amount: paymentIntent.amount,
+      amount_refunded: 0,
+      currency: paymentIntent.currency,
+      payment_intent: id,
+      refunded: false,
+      metadata: paymentIntent.metadata,
+    } as unknown as Stripe.Charge;
+
+    this.store.charges.set(charge.id, charge);
+
+    return this.updatePaymentIntent(id, {
+      status: 'succeeded',
+      amount_received: paymentIntent.amount,
+      latest_charge: charge.id,
+    });
+  }
+
+  /**
+   * Mark a payment intent as failed
+   */
+  failPaymentIntent(id: string): Stripe.PaymentIntent {
+    return this.updatePaymentIntent(id, { status: 'requires_payment_method' });
+  }
+
+  /**
+   * Finish onboarding for a Connect account
+   */
+  enableAccount(id: string): Stripe.Account {
+    const account = this.getAccount(id);
+    Object.assign(account, { details_submitted: true, charges_enabled: true, payouts_enabled: true });
+    return { ...account };
+  }
+
+  /**
+   * Build a webhook event wrapping an object
+   */
+  createEvent(type: string, object: unknown): Stripe.Event {
+    return {
+      id: this.nextId('evt'),
+      object: 'event',
+      api_version: '2023-10-16',
+      created: this.now(),
+      livemode: false,
+      pending_webhooks: 0,
+      request: { id: null, idempotency_key: null },
+      type,
+      data: { object },
+    } as unknown as Stripe.Event;
+  }
+
+  /**
+   * Serialize and sign an event the way Stripe delivers it
+   * Send `payload` as the raw body and `signature` as the stripe-signature header.
+   */
+  signEvent(event: Stripe.Event, secret: string): { payload: string; signature: string } {
+    const payload = JSON.stringify(event);
+    return {
+      payload,
+      signature: this.webhooks.generateTestHeaderString({ payload, secret }),
+    };
+  }
+
+  private async once<T>(prefix: string, options: Stripe.RequestOptions, create: () => T): Promise<T> {
+    if (!options.idempotencyKey) {
+      return create();
+    }
+
+    const key = `${prefix}:${options.idempotencyKey}`;
+
+    if (!this.idempotent.has(key)) {
+      this.idempotent.set(key, create());
+    }
+
+    return this.idempotent.get(key) as T;
+  }
+
+  private getPaymentIntent(id: string): Stripe.PaymentIntent {
+    const paymentIntent = this.store.paymentIntents.get(id);
+
+    if (!paymentIntent) {
+      throw resourceMissing('payment_intent', id);
+    }
+
+    return paymentIntent;
+  }
+
+  private updatePaymentIntent(id: string, data: Partial<Stripe.PaymentIntent>): Stripe.PaymentIntent {
+    const paymentIntent = Object.assign(this.getPaymentIntent(id), data);
+    return { ...paymentIntent };
+  }
+
+  private getTransfer(id: string): Stripe.Transfer {
+    const transfer = this.store.transfers.get(id);
+
+    if (!transfer) {
+      throw resourceMissing('transfer', id);
+    }
+
+    return transfer;
+  }
+
+  private getAccount(id: string): Stripe.Account {
+    const account = this.store.accounts.get(id);
+
+    if (!account) {
+      throw resourceMissing('account', id);
+    }
+
+    return account;
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_fake_${this.sequence}`;
+  }
+
+  private now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+}
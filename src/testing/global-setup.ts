@@ -0,0 +1,16 @@
+import { migrateDatabase, withSchema, workerSchema } from './database';
+
+/**
+ * Jest global setup: migrate one schema per worker before any test file runs
+ */
+export default async (globalConfig: { maxWorkers: number }): Promise<void> => {
+  const databaseUrl = process.env.TEST_DATABASE_URL;
+
+  if (!databaseUrl) {
+    throw new Error('TEST_DATABASE_URL must point at a disposable Postgres database');
+  }
+
+  for (let worker = 1; worker <= globalConfig.maxWorkers; worker++) {
+    migrateDatabase(withSchema(databaseUrl, workerSchema(String(worker))));
+  }
+};
@@ -0,0 +1,8 @@
+// Helpers for integration tests; see "Testing" in the README
+export { createApp } from '../app';
+export { createContainer } from '../container';
+export * from './auth';
+export * from './clerk';
+export * from './database';
+export * from './fake-stripe';
+export * from './openapi';
@@ -0,0 +1,17 @@
+import { Express } from 'express';
+import listEndpoints from 'express-list-endpoints';
+import { OpenApiDocument } from '../openapi/document';
+
+/**
+ * Routes registered on the app under /api that have no operation in the document
+ * Lists Express's own routes independently of the document, so a test asserting
+ * an empty result fails when a route is added in a way the generator misses.
+ */
+export const undocumentedRoutes = (app: Express, document: OpenApiDocument): string[] =>
+  listEndpoints(app)
+    .filter(({ path }) => path.startsWith('/api/'))
+    .flatMap(({ path, methods }) => methods.map(method => `${method} ${path}`))
+    .filter(route => {
+      const [method, path] = route.split(' ');
+      return !document.paths[path.replace(/:(\w+)/g, '{$1}')]?.[method.toLowerCase()];
+    });
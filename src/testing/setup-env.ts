@@ -0,0 +1,17 @@
+// Jest setup: runs before each test file loads any app module, since config/env reads these on import
+import { withSchema, workerSchema } from './database';
+
+if (!process.env.TEST_DATABASE_URL) {
+  throw new Error('TEST_DATABASE_URL must point at a disposable Postgres database');
+}
+
+process.env.NODE_ENV = 'test';
+process.env.AUTH_MODE = 'test';
+process.env.DATABASE_URL = withSchema(process.env.TEST_DATABASE_URL, workerSchema());
+process.env.CLERK_SECRET_KEY = process.env.CLERK_SECRET_KEY || 'sk_test_unused';
+process.env.CLERK_WEBHOOK_SECRET = process.env.CLERK_WEBHOOK_SECRET || 'whsec_Y2xlcmstd2ViaG9vay10ZXN0LXNlY3JldA==';
+process.env.STRIPE_SECRET_KEY = process.env.STRIPE_SECRET_KEY || 'sk_test_unused';
+process.env.STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || 'whsec_test';
+// Rate limits count in memory, fresh for every container
+delete process.env.REDIS_URL;
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
@@ -0,0 +1,4 @@
+// Jest setup: no test reaches the live Stripe API. Tests that inspect Stripe install their own FakeStripe.
+import { FakeStripe } from './fake-stripe';
+
+new FakeStripe().install();
@@ -0,0 +1,88 @@
+/**
+ * Base class for errors that map to an HTTP response
+ * The error middleware sends `statusCode` with the error envelope; `code` is
+ * stable for clients to branch on, unlike the message.
+ */
+export class AppError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(message: string, statusCode: number, code: string) {
+    super(message);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+// The request is malformed, e.g. a missing header
+export class BadRequestError extends AppError {
+  constructor(message: string = 'Bad request') {
+    super(message, 400, 'BAD_REQUEST');
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, 'UNAUTHORIZED');
+  }
+}
+
+// The action needs a payment that was declined or is missing
+export class PaymentRequiredError extends AppError {
+  constructor(message: string = 'Payment required') {
+    super(message, 402, 'PAYMENT_REQUIRED');
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'You are not authorized to perform this action') {
+    super(message, 403, 'FORBIDDEN');
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string = 'Resource not found') {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+// The request is valid but clashes with the current state of the resource
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409, 'CONFLICT');
+  }
+}
+
+// The content filter refused the text of a post, comment, message or product
+export class ContentRejectedError extends AppError {
+  constructor(message: string = 'This content is not allowed') {
+    super(message, 422, 'CONTENT_REJECTED');
+  }
+}
+
+// The caller sent too many requests; the rate limiter sets Retry-After
+export class TooManyRequestsError extends AppError {
+  constructor(message: string = 'Too many requests, please try again later') {
+    super(message, 429, 'RATE_LIMITED');
+  }
+}
+
+// A field-level problem with the input
+export type ValidationIssue = {
+  path: (string | number)[];
+  message: string;
+};
+
+/**
+ * The input is well-formed but invalid
+ * `errors` lists the offending fields when they are known, e.g. from a zod schema.
+ */
+export class ValidationError extends AppError {
+  readonly errors: ValidationIssue[];
+
+  constructor(message: string = 'Invalid data', errors: ValidationIssue[] = []) {
+    super(message, 422, 'VALIDATION_ERROR');
+    this.errors = errors;
+  }
+}
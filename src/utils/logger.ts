@@ -38,7 +38,7 @@ const developmentFormat = winston.format.combine(
 );
 
 // Create transports array
-const transports = [
+const transports: winston.transport[] = [
   // Always log to console
   new winston.transports.Console(),
 ];
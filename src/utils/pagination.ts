@@ -0,0 +1,154 @@
+import { BadRequestError } from './errors';
+
+// Largest page any list endpoint returns
+export const MAX_PAGE_LIMIT = 100;
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Which page of a list to fetch
+ * A cursor from a previous page takes precedence over the page number.
+ */
+export type PageOptions<SortField extends string = string> = {
+  limit: number;
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  page?: number;
+  cursor?: string;
+};
+
+/**
+ * Position of a page in its list, sent as `pagination` in every list response
+ * `page`, `total` and `totalPages` are only known in offset mode; cursor mode
+ * skips the count.
+ */
+export type Pagination = {
+  limit: number;
+  hasMore: boolean;
+  // Opaque; pass it back as `cursor` for the next page
+  nextCursor: string | null;
+  page?: number;
+  total?: number;
+  totalPages?: number;
+};
+
+export type Page<T> = {
+  items: T[];
+  pagination: Pagination;
+};
+
+// Arguments for a Prisma findMany that fetches one page
+export type PageQueryArgs = {
+  orderBy: Record<string, SortOrder>[];
+  take: number;
+  skip?: number;
+  cursor?: { id: string };
+};
+
+type CursorPosition = {
+  id: string;
+  sortBy: string;
+  sortOrder: SortOrder;
+};
+
+const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// A cursor is only valid for the sort it was issued for
+const decodeCursor = (cursor: string, { sortBy, sortOrder }: PageOptions): string => {
+  let position: Partial<CursorPosition>;
+
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch (error) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  if (typeof position?.id !== 'string' || position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+    throw new BadRequestError('Invalid cursor');
+  }
+
+  return position.id;
+};
+
+/**
+ * Page of rows fetched with one extra, which only tells whether more follow
+ */
+const toPage = <T extends { id: string }>(rows: T[], options: PageOptions, total?: number): Page<T> => {
+  const { limit, sortBy, sortOrder } = options;
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+
+  const pagination: Pagination = {
+    limit,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor({ id: items[items.length - 1].id, sortBy, sortOrder }) : null
+  };
+
+  if (total !== undefined) {
+    pagination.page = options.page ?? 1;
+    pagination.total = total;
+    pagination.totalPages = Math.ceil(total / limit);
+  }
+
+  return { items, pagination };
+};
+
+/**
+ * Fetch one page of a list in offset or cursor mode
+ * Rows are ordered by the sort field, then by ID so that positions are stable
+ * between requests. `findMany` receives the ordering and position to spread
+ * into a Prisma query; `count` is only called in offset mode.
+ */
+export const paginate = async <T extends { id: string }>(
+  options: PageOptions,
+  query: {
+    findMany: (args: PageQueryArgs) => Promise<T[]>;
+    count: () => Promise<number>;
+  }
+): Promise<Page<T>> => {
+  const { limit, sortBy, sortOrder, cursor } = options;
+  const orderBy = [{ [sortBy]: sortOrder }, { id: sortOrder }];
+
+  if (cursor) {
+    const rows = await query.findMany({ orderBy, cursor: { id: decodeCursor(cursor, options) }, skip: 1, take: limit + 1 });
+    return toPage(rows, options);
+  }
+
+  const page = options.page ?? 1;
+
+  const [rows, total] = await Promise.all([
+    query.findMany({ orderBy, skip: (page - 1) * limit, take: limit + 1 }),
+    query.count()
+  ]);
+
+  return toPage(rows, options, total);
+};
+
+/**
+ * Page of a list that is already in memory, e.g. ranked in the application
+ */
+export const paginateArray = <T>(items: T[], { page = 1, limit }: { page?: number; limit: number }): Page<T> => {
+  const start = (page - 1) * limit;
+
+  return {
+    items: items.slice(start, start + limit),
+    pagination: {
+      limit,
+      hasMore: start + limit < items.length,
+      nextCursor: null,
+      page,
+      total: items.length,
+      totalPages: Math.ceil(items.length / limit)
+    }
+  };
+};
+
+/**
+ * Body of a list response: the page's items as `data`, and its `pagination`
+ */
+export const pageResponse = <T>({ items, pagination }: Page<T>) => ({
+  success: true as const,
+  data: items,
+  pagination
+});
@@ -0,0 +1,168 @@
+import { Permission } from '../config/permissions';
+import { Actor, ActionOf, ResourceKind, ResourceOf, can, policies } from './policy';
+
+type Expectation = {
+  // Relations that may take the action
+  allow: string[];
+  // Permission that lets anyone take it
+  permission?: Permission;
+};
+
+type MatrixEntry<K extends ResourceKind> = {
+  // A resource none of the public rules apply to, so only relations and permissions count
+  resource: ResourceOf<K>;
+  // The user holding each relation to the resource
+  users: Record<string, string>;
+  actions: Record<ActionOf<K>, Expectation>;
+};
+
+/**
+ * Who may do what, written out independently of policies so a change to a
+ * rule has to be made in both places
+ */
+const matrix: { [K in ResourceKind]: MatrixEntry<K> } = {
+  post: {
+    resource: { userId: 'author', hiddenAt: new Date() },
+    users: { author: 'author' },
+    actions: {
+      read: { allow: ['author'], permission: 'post:moderate' },
+      update: { allow: ['author'] },
+      delete: { allow: ['author'], permission: 'post:moderate' }
+    }
+  },
+
+  comment: {
+    resource: { userId: 'author' },
+    users: { author: 'author' },
+    actions: {
+      // Comments are public; see below
+      read: { allow: ['author', 'none'] },
+      delete: { allow: ['author'], permission: 'comment:moderate' }
+    }
+  },
+
+  product: {
+    resource: { sellerId: 'seller', isActive: false, hiddenAt: null },
+    users: { seller: 'seller' },
+    actions: {
+      read: { allow: ['seller'], permission: 'product:manage' },
+      update: { allow: ['seller'], permission: 'product:manage' },
+      delete: { allow: ['seller'], permission: 'product:manage' }
+    }
+  },
+
+  order: {
+    resource: { buyerId: 'buyer', product: { sellerId: 'seller' } },
+    users: { buyer: 'buyer', seller: 'seller' },
+    actions: {
+      read: { allow: ['buyer', 'seller'], permission: 'order:read' },
+      update: { allow: ['buyer'], permission: 'order:manage' },
+      cancel: { allow: ['buyer', 'seller'], permission: 'order:manage' },
+      'refund:request': { allow: ['buyer'] },
+      'refund:decide': { allow: ['seller'], permission: 'order:refund' },
+      transition: { allow: ['buyer', 'seller'], permission: 'order:manage' },
+      'status:pending': { allow: [], permission: 'order:manage' },
+      'status:processing': { allow: ['seller'], permission: 'order:manage' },
+      'status:shipped': { allow: ['seller'], permission: 'order:manage' },
+      'status:completed': { allow: ['seller'], permission: 'order:manage' },
+      'status:failed': { allow: [], permission: 'order:manage' },
+      'status:canceled': { allow: ['buyer'], permission: 'order:manage' },
+      'status:refunded': { allow: [], permission: 'order:manage' }
+    }
+  },
+
+  message: {
+    resource: { senderId: 'sender', participantIds: ['sender', 'recipient'] },
+    users: { sender: 'sender', recipient: 'recipient' },
+    actions: {
+      read: { allow: ['sender', 'recipient'], permission: 'message:moderate' },
+      acknowledge: { allow: ['recipient'] },
+      delete: { allow: ['sender'], permission: 'message:moderate' }
+    }
+  },
+
+  report: {
+    resource: { reporterId: 'reporter', assigneeId: 'assignee' },
+    users: { reporter: 'reporter', assignee: 'assignee' },
+    actions: {
+      read: { allow: ['reporter', 'assignee'], permission: 'moderation:review' },
+      work: { allow: ['assignee'] }
+    }
+  },
+
+  takedown: {
+    resource: { authorId: 'author' },
+    users: { author: 'author' },
+    actions: {
+      read: { allow: ['author'], permission: 'moderation:review' },
+      appeal: { allow: ['author'] },
+      'appeal:decide': { allow: [], permission: 'moderation:escalated' }
+    }
+  }
+};
+
+// Granted to every actor alongside their relation, so a rule never passes on an unrelated permission
+const UNRELATED: Permission = 'ranking:write';
+
+type Row = {
+  kind: ResourceKind;
+  action: string;
+  relation: string;
+  granted: string;
+  actor: Actor;
+  expected: boolean;
+};
+
+const rows: Row[] = (Object.keys(matrix) as ResourceKind[]).flatMap(kind => {
+  const { users, actions } = matrix[kind] as MatrixEntry<ResourceKind>;
+  const relations = [...Object.keys(users), 'none'];
+
+  return Object.entries<Expectation>(actions).flatMap(([action, { allow, permission }]) =>
+    relations.flatMap(relation => {
+      const id = users[relation] ?? 'stranger';
+      const withoutPermission = {
+        kind,
+        action,
+        relation,
+        granted: 'no permission',
+        actor: { id, permissions: [UNRELATED] },
+        expected: allow.includes(relation)
+      };
+
+      return permission
+        ? [withoutPermission, { ...withoutPermission, granted: permission, actor: { id, permissions: [UNRELATED, permission] }, expected: true }]
+        : [withoutPermission];
+    })
+  );
+});
+
+describe('can', () => {
+  it.each(Object.keys(policies) as ResourceKind[])('covers every %s action', kind => {
+    expect(Object.keys(matrix[kind].actions).sort()).toEqual(Object.keys(policies[kind].rules).sort());
+  });
+
+  it.each(rows)('$kind $action as $relation with $granted: $expected', ({ kind, action, actor, expected }) => {
+    const resource = matrix[kind].resource;
+    expect(can(actor, kind, action as ActionOf<typeof kind>, resource as ResourceOf<typeof kind>)).toBe(expected);
+  });
+
+  describe('public rules', () => {
+    it('lets anyone, signed in or not, read visible posts and active products', () => {
+      expect(can(undefined, 'post', 'read', { userId: 'author', hiddenAt: null })).toBe(true);
+      expect(can(undefined, 'product', 'read', { sellerId: 'seller', isActive: true, hiddenAt: null })).toBe(true);
+      expect(can(undefined, 'comment', 'read', { userId: 'author' })).toBe(true);
+    });
+
+    it('hides taken-down products even while they are active', () => {
+      const product = { sellerId: 'seller', isActive: true, hiddenAt: new Date() };
+
+      expect(can(undefined, 'product', 'read', product)).toBe(false);
+      expect(can({ id: 'seller', permissions: [] }, 'product', 'read', product)).toBe(true);
+    });
+
+    it('gives signed-out users nothing else', () => {
+      expect(can(undefined, 'order', 'read', matrix.order.resource)).toBe(false);
+      expect(can(undefined, 'message', 'read', matrix.message.resource)).toBe(false);
+    });
+  });
+});
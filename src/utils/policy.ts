@@ -0,0 +1,204 @@
+import { Permission } from '../config/permissions';
+import { ForbiddenError } from './errors';
+
+/**
+ * User a request acts as, with the permissions their role grants
+ */
+export type Actor = {
+  id: string;
+  permissions: readonly string[];
+};
+
+// Users a resource relates to by one name, e.g. a post's author
+type Relation<R> = (resource: R) => string | string[] | null | undefined;
+
+type Rule<R, RelationName extends string> = {
+  // Relations to the resource that grant the action
+  allow: readonly RelationName[];
+  // Permission that grants the action on everyone's resources
+  permission?: Permission;
+  // Grants the action to everyone, signed in or not, while it holds
+  public?: (resource: R) => boolean;
+};
+
+type ResourcePolicy<R, RelationName extends string, Action extends string> = {
+  relations: Record<RelationName, Relation<R>>;
+  rules: Record<Action, Rule<R, RelationName>>;
+};
+
+const definePolicy = <R, RelationName extends string, Action extends string>(
+  policy: ResourcePolicy<R, RelationName, Action>
+) => policy;
+
+// Fields each policy reads; the repositories' records have them all
+export type PostResource = { userId: string; hiddenAt: Date | null };
+export type CommentResource = { userId: string };
+export type ProductResource = { sellerId: string; isActive: boolean; hiddenAt: Date | null };
+export type OrderResource = { buyerId: string; product: { sellerId: string } };
+export type MessageResource = { senderId: string; participantIds: string[] };
+export type ReportResource = { reporterId: string | null; assigneeId: string | null };
+export type TakedownResource = { authorId: string };
+
+// Only the seller or someone who manages orders moves a paid order along; the buyer can only cancel it
+const sellerStatus = { allow: ['seller'], permission: 'order:manage' } as const;
+const staffStatus = { allow: [], permission: 'order:manage' } as const;
+
+/**
+ * Who may do what to each kind of resource
+ * An actor may act if a relation listed for the action links them to the
+ * resource, if their role grants the action's permission, or if the action is
+ * public for the resource. Services check these; the state a resource must be
+ * in (e.g. only pending orders can be canceled) stays with the service.
+ */
+export const policies = {
+  post: definePolicy({
+    relations: { author: (post: PostResource) => post.userId },
+    rules: {
+      // Taken-down posts stay visible to their author, to appeal, and to moderators
+      read: { allow: ['author'], permission: 'post:moderate', public: post => !post.hiddenAt },
+      update: { allow: ['author'] },
+      delete: { allow: ['author'], permission: 'post:moderate' }
+    }
+  }),
+
+  comment: definePolicy({
+    relations: { author: (comment: CommentResource) => comment.userId },
+    rules: {
+      read: { allow: [], public: () => true },
+      delete: { allow: ['author'], permission: 'comment:moderate' }
+    }
+  }),
+
+  product: definePolicy({
+    relations: { seller: (product: ProductResource) => product.sellerId },
+    rules: {
+      // Inactive and taken-down products are hidden from everyone but their seller
+      read: { allow: ['seller'], permission: 'product:manage', public: product => product.isActive && !product.hiddenAt },
+      update: { allow: ['seller'], permission: 'product:manage' },
+      delete: { allow: ['seller'], permission: 'product:manage' }
+    }
+  }),
+
+  order: definePolicy({
+    relations: {
+      buyer: (order: OrderResource) => order.buyerId,
+      seller: (order: OrderResource) => order.product.sellerId
+    },
+    rules: {
+      read: { allow: ['buyer', 'seller'], permission: 'order:read' },
+      // Shipping details belong to the buyer
+      update: { allow: ['buyer'], permission: 'order:manage' },
+      cancel: { allow: ['buyer', 'seller'], permission: 'order:manage' },
+      'refund:request': { allow: ['buyer'] },
+      'refund:decide': { allow: ['seller'], permission: 'order:refund' },
+      // Changing the status at all, then to each status
+      transition: { allow: ['buyer', 'seller'], permission: 'order:manage' },
+      'status:pending': staffStatus,
+      'status:processing': sellerStatus,
+      'status:shipped': sellerStatus,
+      'status:completed': sellerStatus,
+      'status:failed': staffStatus,
+      'status:canceled': { allow: ['buyer'], permission: 'order:manage' },
+      'status:refunded': staffStatus
+    }
+  }),
+
+  message: definePolicy({
+    relations: {
+      sender: (message: MessageResource) => message.senderId,
+      recipient: (message: MessageResource) => message.participantIds.filter(id => id !== message.senderId)
+    },
+    rules: {
+      read: { allow: ['sender', 'recipient'], permission: 'message:moderate' },
+      // Read receipts and delivery acknowledgements
+      acknowledge: { allow: ['recipient'] },
+      delete: { allow: ['sender'], permission: 'message:moderate' }
+    }
+  }),
+
+  report: definePolicy({
+    relations: {
+      reporter: (report: ReportResource) => report.reporterId,
+      assignee: (report: ReportResource) => report.assigneeId
+    },
+    rules: {
+      read: { allow: ['reporter', 'assignee'], permission: 'moderation:review' },
+      // Escalating, resolving and dismissing; claiming depends on the report's status
+      work: { allow: ['assignee'] }
+    }
+  }),
+
+  takedown: definePolicy({
+    relations: { author: (takedown: TakedownResource) => takedown.authorId },
+    rules: {
+      read: { allow: ['author'], permission: 'moderation:review' },
+      appeal: { allow: ['author'] },
+      'appeal:decide': { allow: [], permission: 'moderation:escalated' }
+    }
+  })
+};
+
+export type ResourceKind = keyof typeof policies;
+
+export type ResourceOf<K extends ResourceKind> =
+  typeof policies[K] extends ResourcePolicy<infer R, any, any> ? R : never;
+
+export type ActionOf<K extends ResourceKind> = keyof typeof policies[K]['rules'] & string;
+
+/**
+ * Whether the actor's role grants a permission
+ */
+export const hasPermission = (actor: Actor | undefined, permission: Permission): boolean =>
+  !!actor && actor.permissions.includes(permission);
+
+/**
+ * Names of the relations linking the actor to a resource, e.g. ['buyer']
+ */
+export const relationsOf = <K extends ResourceKind>(actor: Actor | undefined, kind: K, resource: ResourceOf<K>): string[] => {
+  const { relations } = policies[kind] as ResourcePolicy<ResourceOf<K>, string, string>;
+
+  if (!actor) {
+    return [];
+  }
+
+  return Object.entries(relations)
+    .filter(([, relation]) => ([] as (string | null | undefined)[]).concat(relation(resource)).includes(actor.id))
+    .map(([name]) => name);
+};
+
+/**
+ * Whether the actor may take an action on a resource
+ */
+export const can = <K extends ResourceKind>(
+  actor: Actor | undefined,
+  kind: K,
+  action: ActionOf<K>,
+  resource: ResourceOf<K>
+): boolean => {
+  const rule = (policies[kind] as ResourcePolicy<ResourceOf<K>, string, string>).rules[action];
+
+  if (rule.public?.(resource)) {
+    return true;
+  }
+
+  if (rule.permission && hasPermission(actor, rule.permission)) {
+    return true;
+  }
+
+  return relationsOf(actor, kind, resource).some(relation => rule.allow.includes(relation));
+};
+
+/**
+ * Throw a ForbiddenError unless the actor may take an action on a resource
+ */
+export const authorize = <K extends ResourceKind>(
+  actor: Actor | undefined,
+  kind: K,
+  action: ActionOf<K>,
+  resource: ResourceOf<K>,
+  message: string = 'Insufficient permissions'
+): void => {
+  if (!can(actor, kind, action, resource)) {
+    throw new ForbiddenError(message);
+  }
+};
@@ -0,0 +1,100 @@
+import Redis from 'ioredis';
+import { env } from '../config/env';
+import logger from './logger';
+
+// Requests counted for a key in its current window
+export type RateLimitCount = {
+  count: number;
+  // When the window ends, in milliseconds since the epoch
+  resetAt: number;
+};
+
+/**
+ * Where rate limit counters live
+ * Memory is enough for a single process and for tests; Redis shares the
+ * counters between instances.
+ */
+export interface RateLimitStore {
+  // Count one request for the key, starting a window of windowMs if none is open
+  increment(key: string, windowMs: number): Promise<RateLimitCount>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitCount>();
+  private nextSweepAt = 0;
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCount> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const current = this.windows.get(key);
+    const window = current && current.resetAt > now ? current : { count: 0, resetAt: now + windowMs };
+
+    window.count += 1;
+    this.windows.set(key, window);
+
+    return { ...window };
+  }
+
+  // Drop closed windows, at most once a minute, so keys of past callers don't pile up
+  private sweep(now: number): void {
+    if (now < this.nextSweepAt) {
+      return;
+    }
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+
+    this.nextSweepAt = now + 60 * 1000;
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  private redis: Redis;
+
+  constructor(redis: Redis) {
+    this.redis = redis;
+  }
+
+  async increment(key: string, windowMs: number): Promise<RateLimitCount> {
+    // The first request opens the window with its expiry; the rest only count
+    const results = await this.redis.multi()
+      .set(key, 0, 'PX', windowMs, 'NX')
+      .incr(key)
+      .pttl(key)
+      .exec();
+
+    if (!results) {
+      throw new Error('Rate limit transaction was aborted');
+    }
+
+    const [, [countError, count], [ttlError, ttl]] = results;
+
+    if (countError || ttlError) {
+      throw countError ?? ttlError;
+    }
+
+    return {
+      count: count as number,
+      resetAt: Date.now() + Math.max(ttl as number, 0)
+    };
+  }
+}
+
+/**
+ * Redis store when REDIS_URL is set, otherwise in memory
+ */
+export const createRateLimitStore = (): RateLimitStore => {
+  if (!env.REDIS_URL) {
+    return new MemoryRateLimitStore();
+  }
+
+  // Fail fast when Redis is unreachable; the limiter then lets requests through
+  const redis = new Redis(env.REDIS_URL, { maxRetriesPerRequest: 1 });
+  redis.on('error', (error) => logger.warn(`Rate limit Redis connection error: ${error.message}`));
+
+  return new RedisRateLimitStore(redis);
+};
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { MAX_PAGE_LIMIT } from './pagination';
+
+// Route parameter holding a record ID
+export const idParams = z.object({
+  id: z.string().uuid()
+});
+
+/**
+ * Page and limit query parameters, coerced from strings
+ */
+export const paginationQuery = (defaultLimit: number = 10) => z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_LIMIT).default(defaultLimit)
+});
+
+/**
+ * Query parameters for a sortable list: a page or cursor, the limit, and the sort
+ * Only the listed fields can be sorted on; the first is the default.
+ */
+export const pageQuery = <F extends string>(sortFields: [F, ...F[]], defaultLimit: number = 10) =>
+  paginationQuery(defaultLimit).extend({
+    cursor: z.string().min(1).optional(),
+    sortBy: z.enum(sortFields).default(sortFields[0]),
+    sortOrder: z.enum(['asc', 'desc']).default('desc')
+  });
+
+// A date as it appears in a JSON response
+export const timestamp = z.string().datetime();
+
+// "true" or "false" in a query string
+export const booleanQuery = z.enum(['true', 'false']).transform(value => value === 'true');